@@ -0,0 +1,119 @@
+/**
+ * Design-system adoption: how many rendered JSX elements come from the
+ * configured design-system packages, per file and per directory
+ */
+
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import { AdoptionCounts, ComponentInfo, DesignSystemAdoption, JSXElementUsage } from '../types';
+
+export type ElementOrigin = 'designSystem' | 'dom' | 'local';
+
+/**
+ * Check whether a module belongs to a design-system package. Subpath imports
+ * such as @acme/ui/button count, and packages may be globs such as @acme/*
+ */
+export function isDesignSystemSource(source: string, packages: string[]): boolean {
+  return packages.some(
+    (pkg) => source === pkg || source.startsWith(`${pkg}/`) || minimatch(source, pkg)
+  );
+}
+
+/**
+ * Classify a rendered element as a design-system component, a DOM element or
+ * any other component
+ */
+export function classifyElement(element: JSXElementUsage, packages: string[]): ElementOrigin {
+  if (element.source && isDesignSystemSource(element.source, packages)) return 'designSystem';
+  if (!element.source && /^[a-z][\w:-]*$/.test(element.name)) return 'dom';
+  return 'local';
+}
+
+/**
+ * Measure design-system adoption across the analyzed components
+ */
+export function computeAdoption(
+  projectPath: string,
+  components: ComponentInfo[],
+  packages: string[]
+): DesignSystemAdoption {
+  const byFile: Record<string, AdoptionCounts> = {};
+
+  for (const component of components) {
+    if (!component.jsxElements?.length) continue;
+
+    const relativePath = toPosixPath(path.relative(projectPath, component.filePath));
+    const counts = (byFile[relativePath] ??= emptyCounts());
+    for (const element of component.jsxElements) {
+      counts[classifyElement(element, packages)]++;
+      counts.total++;
+    }
+  }
+
+  return summarize(byFile, packages);
+}
+
+/**
+ * Combine the adoption of workspace packages, re-keying their files relative
+ * to the workspace root
+ */
+export function mergeAdoption(
+  rootPath: string,
+  parts: Array<{ path: string; adoption: DesignSystemAdoption }>
+): DesignSystemAdoption {
+  const byFile: Record<string, AdoptionCounts> = {};
+  for (const part of parts) {
+    const prefix = toPosixPath(path.relative(rootPath, part.path));
+    for (const [file, counts] of Object.entries(part.adoption.byFile)) {
+      byFile[path.posix.join(prefix, file)] = { ...counts };
+    }
+  }
+
+  const packages = [...new Set(parts.flatMap((part) => part.adoption.packages))];
+  return summarize(byFile, packages);
+}
+
+/**
+ * Roll per-file counts up into the directories containing them and the project total
+ */
+function summarize(
+  byFile: Record<string, AdoptionCounts>,
+  packages: string[]
+): DesignSystemAdoption {
+  const total = emptyCounts();
+  const byDirectory: Record<string, AdoptionCounts> = {};
+
+  for (const [file, counts] of Object.entries(byFile)) {
+    setPercentage(counts);
+    addCounts(total, counts);
+
+    for (let dir = path.posix.dirname(file); dir !== '.'; dir = path.posix.dirname(dir)) {
+      addCounts((byDirectory[dir] ??= emptyCounts()), counts);
+    }
+  }
+
+  Object.values(byDirectory).forEach(setPercentage);
+  setPercentage(total);
+
+  return { packages, ...total, byFile, byDirectory };
+}
+
+function emptyCounts(): AdoptionCounts {
+  return { designSystem: 0, dom: 0, local: 0, total: 0, percentage: 0 };
+}
+
+function addCounts(target: AdoptionCounts, counts: AdoptionCounts): void {
+  target.designSystem += counts.designSystem;
+  target.dom += counts.dom;
+  target.local += counts.local;
+  target.total += counts.total;
+}
+
+function setPercentage(counts: AdoptionCounts): void {
+  counts.percentage =
+    counts.total === 0 ? 0 : Math.round((counts.designSystem / counts.total) * 1000) / 10;
+}
+
+function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
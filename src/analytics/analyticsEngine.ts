@@ -4,6 +4,7 @@
 
 import { GuruDatabase } from './database';
 import { ProjectAnalysis } from '../types';
+import { getCallSites } from '../analyzers/jsxElements';
 
 export interface AnalyticsOptions {
   projectPath: string;
@@ -74,6 +75,7 @@ export class AnalyticsEngine {
       warningCount: violations.filter(v => v.severity === 'warning').length,
       infoCount: violations.filter(v => v.severity === 'info').length,
       analysisDuration: duration,
+      designSystemAdoption: analysis.adoption?.percentage,
       metadata: {
         framework: analysis.framework,
         timestamp: analysis.timestamp,
@@ -107,6 +109,7 @@ export class AnalyticsEngine {
       ) VALUES (?, ?, ?, ?, ?, ?, ?)
     `);
 
+    const definitions = analysis.componentDefinitions || analysis.components;
     const insertMany = this.db.db.transaction((components) => {
       for (const component of components) {
         const complexity = this.calculateComponentComplexity(component);
@@ -116,7 +119,8 @@ export class AnalyticsEngine {
           component.filePath,
           component.type,
           JSON.stringify(component.props || []),
-          1, // Usage count would be calculated from actual usage
+          // Places the component is rendered
+          getCallSites(analysis.usage, component, definitions).length,
           complexity
         );
       }
@@ -34,6 +34,9 @@ export class GuruDatabase implements AnalyticsDatabase {
   async initialize(): Promise<void> {
     // Create tables for analytics
     this.createTables();
+
+    // Add columns introduced after a database was created
+    this.migrateTables();
     
     // Create indexes for performance
     this.createIndexes();
@@ -58,6 +61,7 @@ export class GuruDatabase implements AnalyticsDatabase {
         warning_count INTEGER NOT NULL,
         info_count INTEGER NOT NULL,
         analysis_duration_ms INTEGER,
+        design_system_adoption REAL,
         metadata TEXT,
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP
       )
@@ -169,6 +173,18 @@ export class GuruDatabase implements AnalyticsDatabase {
     `);
   }
 
+  /**
+   * Add columns missing from tables created by earlier versions
+   */
+  private migrateTables(): void {
+    const columns = this.db.prepare('PRAGMA table_info(analysis_runs)').all() as Array<{
+      name: string;
+    }>;
+    if (!columns.some(column => column.name === 'design_system_adoption')) {
+      this.db.exec('ALTER TABLE analysis_runs ADD COLUMN design_system_adoption REAL');
+    }
+  }
+
   /**
    * Create database indexes for performance
    */
@@ -257,14 +273,15 @@ export class GuruDatabase implements AnalyticsDatabase {
     warningCount: number;
     infoCount: number;
     analysisDuration?: number;
+    designSystemAdoption?: number;
     metadata?: any;
   }): number {
     const stmt = this.db.prepare(`
       INSERT INTO analysis_runs (
         compliance_score, total_files, total_violations,
         error_count, warning_count, info_count,
-        analysis_duration_ms, metadata
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        analysis_duration_ms, design_system_adoption, metadata
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
@@ -275,6 +292,7 @@ export class GuruDatabase implements AnalyticsDatabase {
       data.warningCount,
       data.infoCount,
       data.analysisDuration || null,
+      data.designSystemAdoption ?? null,
       data.metadata ? JSON.stringify(data.metadata) : null
     );
 
@@ -319,6 +337,7 @@ export class GuruDatabase implements AnalyticsDatabase {
         AVG(compliance_score) as avg_score,
         MIN(compliance_score) as min_score,
         MAX(compliance_score) as max_score,
+        AVG(design_system_adoption) as avg_adoption,
         COUNT(*) as run_count
       FROM analysis_runs
       WHERE timestamp > strftime('%s', 'now', '-' || ? || ' days')
@@ -0,0 +1,138 @@
+/**
+ * Babel-based AST helpers shared by the JavaScript/TypeScript analyzers
+ */
+
+import * as path from 'path';
+import { parse, ParserPlugin } from '@babel/parser';
+import type { File, Node } from '@babel/types';
+import { SourcePosition } from '../utils/sourcePosition';
+
+export type { File, Node };
+
+// Keys that never contain child nodes
+const SKIPPED_KEYS = new Set([
+  'loc',
+  'start',
+  'end',
+  'extra',
+  'range',
+  'leadingComments',
+  'trailingComments',
+  'innerComments',
+]);
+
+/**
+ * Parse JavaScript/TypeScript source into a Babel AST, or null if it cannot be parsed
+ */
+export function parseSource(source: string, filePath: string): File | null {
+  const ext = path.extname(filePath).toLowerCase();
+  const plugins: ParserPlugin[] = ['decorators-legacy'];
+
+  if (ext === '.ts') {
+    plugins.push('typescript');
+  } else if (ext === '.tsx') {
+    plugins.push('typescript', 'jsx');
+  } else {
+    plugins.push('jsx', 'flow');
+  }
+
+  try {
+    return parse(source, {
+      sourceType: 'unambiguous',
+      sourceFilename: filePath,
+      errorRecovery: true,
+      allowReturnOutsideFunction: true,
+      plugins,
+    });
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Visit every node in the tree depth-first, parents before children
+ */
+export function walkAST(root: Node, visit: (node: Node, parent: Node | null) => void): void {
+  const stack: Array<{ node: Node; parent: Node | null }> = [{ node: root, parent: null }];
+
+  while (stack.length > 0) {
+    const { node, parent } = stack.pop()!;
+    visit(node, parent);
+
+    // Push children in reverse so they are visited in source order
+    const children: Node[] = [];
+    for (const key of Object.keys(node)) {
+      if (SKIPPED_KEYS.has(key)) continue;
+      const value = (node as unknown as Record<string, unknown>)[key];
+
+      if (Array.isArray(value)) {
+        for (const item of value) {
+          if (isNode(item)) children.push(item);
+        }
+      } else if (isNode(value)) {
+        children.push(value);
+      }
+    }
+
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ node: children[i], parent: node });
+    }
+  }
+}
+
+/**
+ * Check whether an offset lies among the children of a JSX element or
+ * fragment, where text such as a // comment is rendered rather than ignored.
+ * Offsets inside attributes and {expressions} are not children
+ */
+export function isJSXChildOffset(ast: File, offset: number): boolean {
+  // Assigned in the callback, which narrowing doesn't follow
+  let innermost = null as Node[] | null;
+
+  walkAST(ast, (node) => {
+    if (node.type !== 'JSXElement' && node.type !== 'JSXFragment') return;
+    const opening = node.type === 'JSXElement' ? node.openingElement : node.openingFragment;
+    const closing = node.type === 'JSXElement' ? node.closingElement : node.closingFragment;
+    if (!closing || opening.end == null || closing.start == null) return;
+
+    // Parents are visited first, so a later match is nested inside an earlier one
+    if (offset >= opening.end && offset <= closing.start) {
+      innermost = node.children;
+    }
+  });
+  if (!innermost) return false;
+
+  const child = innermost.find(
+    (c) => c.start != null && c.end != null && offset > c.start && offset < c.end
+  );
+  return !child || child.type === 'JSXText';
+}
+
+/**
+ * Get the 1-based line and column where a node starts
+ */
+export function getNodePosition(node: Node): SourcePosition | undefined {
+  if (!node.loc) return undefined;
+  return { line: node.loc.start.line, column: node.loc.start.column + 1 };
+}
+
+/**
+ * Get the static name of an object property key
+ */
+export function getPropertyName(node: Node): string | undefined {
+  if (node.type === 'Identifier') return node.name;
+  if (node.type === 'StringLiteral') return node.value;
+  if (node.type === 'NumericLiteral') return String(node.value);
+  return undefined;
+}
+
+/**
+ * Check whether a value looks like a Babel AST node
+ */
+function isNode(value: unknown): value is Node {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { type?: unknown }).type === 'string'
+  );
+}
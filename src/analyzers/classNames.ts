@@ -0,0 +1,166 @@
+/**
+ * Read the classes of JSX className props and of class name helpers such as
+ * clsx, classnames and cn, with the position each class is written at
+ */
+
+import { ClassNameUsage } from '../types';
+import { walkAST, File, Node } from './astParser';
+import { createStyleResolver, isValue, StyleResolver } from './inlineStyles';
+
+const CLASS_ATTRIBUTES = new Set(['className', 'class']);
+
+const CLASS_NAME_FUNCTIONS = new Set([
+  'clsx',
+  'classnames',
+  'classNames',
+  'cn',
+  'cx',
+  'twMerge',
+  'twJoin',
+]);
+
+/**
+ * Collect every class in className props and class name helper calls, in
+ * source order. Conditional classes count, as do the keys of objects passed
+ * to clsx. Classes in constants are followed and located once, at the constant
+ */
+export function collectClassNames(ast: File): ClassNameUsage[] {
+  const resolve = createStyleResolver(ast);
+  const located = new Set<Node>();
+  const usages: ClassNameUsage[] = [];
+
+  const add = (expression: Node) => addClassNames(expression, resolve, located, usages);
+
+  walkAST(ast, (node) => {
+    if (node.type === 'JSXAttribute' && CLASS_ATTRIBUTES.has(String(node.name.name))) {
+      if (node.value?.type === 'StringLiteral') {
+        add(node.value);
+      } else if (
+        node.value?.type === 'JSXExpressionContainer' &&
+        node.value.expression.type !== 'JSXEmptyExpression'
+      ) {
+        add(node.value.expression);
+      }
+    } else if (node.type === 'CallExpression' && isClassNameFunction(node.callee)) {
+      node.arguments.forEach(add);
+    }
+  });
+
+  return usages.sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+/**
+ * Add the classes an expression can evaluate to
+ */
+function addClassNames(
+  node: Node,
+  resolve: StyleResolver,
+  located: Set<Node>,
+  usages: ClassNameUsage[]
+): void {
+  const add = (child: Node) => addClassNames(child, resolve, located, usages);
+  if (located.has(node)) return;
+
+  switch (node.type) {
+    case 'StringLiteral':
+      located.add(node);
+      addClasses(node.value, node, 1, usages);
+      return;
+
+    case 'TemplateLiteral':
+      located.add(node);
+      node.quasis.forEach((quasi, index) => {
+        // A class joined to an interpolation, like text-${size}, is only known at runtime
+        const text = quasi.value.raw;
+        const joinedBefore = index > 0 && /^\S/.test(text);
+        const joinedAfter = index < node.expressions.length && /\S$/.test(text);
+        addClasses(text, quasi, 0, usages, joinedBefore, joinedAfter);
+      });
+      node.expressions.forEach(add);
+      return;
+
+    case 'ConditionalExpression':
+      add(node.consequent);
+      add(node.alternate);
+      return;
+
+    case 'LogicalExpression':
+      // The left side of && is the condition
+      if (node.operator !== '&&') add(node.left);
+      add(node.right);
+      return;
+
+    case 'ArrayExpression':
+      for (const element of node.elements) {
+        if (element && element.type !== 'SpreadElement') add(element);
+      }
+      return;
+
+    case 'ObjectExpression':
+      // clsx({ 'font-bold': isActive }) applies the keys
+      for (const property of node.properties) {
+        if (property.type !== 'ObjectProperty' || property.computed) continue;
+        if (property.key.type === 'StringLiteral') {
+          add(property.key);
+        } else if (property.key.type === 'Identifier' && !located.has(property.key)) {
+          located.add(property.key);
+          addClasses(property.key.name, property.key, 0, usages);
+        }
+      }
+      return;
+
+    case 'Identifier':
+    case 'MemberExpression': {
+      const value = resolve(node);
+      if (isValue(value) && !value.isNumber) add(value.node);
+      return;
+    }
+
+    case 'CallExpression':
+      // Nested helper calls are visited on their own
+      return;
+
+    case 'TSAsExpression':
+    case 'TSSatisfiesExpression':
+    case 'TSNonNullExpression':
+    case 'ParenthesizedExpression':
+      add(node.expression);
+      return;
+  }
+}
+
+/**
+ * Add the classes of a class string written in a node. The first and last
+ * class are left out when they are joined to an interpolation
+ */
+function addClasses(
+  text: string,
+  node: Node,
+  quoteWidth: number,
+  usages: ClassNameUsage[],
+  skipFirst = false,
+  skipLast = false
+): void {
+  if (!node.loc) return;
+
+  const matches = [...text.matchAll(/\S+/g)];
+  matches.forEach((match, index) => {
+    if ((index === 0 && skipFirst) || (index === matches.length - 1 && skipLast)) return;
+
+    const before = text.slice(0, match.index);
+    const lines = before.split('\n');
+    const line = node.loc!.start.line + lines.length - 1;
+    const column =
+      lines.length > 1
+        ? lines[lines.length - 1].length + 1
+        : node.loc!.start.column + 1 + quoteWidth + before.length;
+    usages.push({ name: match[0], line, column });
+  });
+}
+
+/**
+ * Check whether a call is a class name helper, such as clsx(...) or cn(...)
+ */
+function isClassNameFunction(callee: Node): boolean {
+  return callee.type === 'Identifier' && CLASS_NAME_FUNCTIONS.has(callee.name);
+}
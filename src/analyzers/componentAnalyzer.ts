@@ -4,8 +4,39 @@
 
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { ComponentInfo, PropInfo, StyleInfo } from '../types';
+import {
+  ComponentInfo,
+  PropInfo,
+  StyleInfo,
+  StyleValueCategory,
+  ErrorResult,
+  SkippedResult,
+} from '../types';
 import { AnalysisErrorHandler } from './errorHandler';
+import { CSSAnalyzer } from './cssAnalyzer';
+import { parseSource, File } from './astParser';
+import { collectJSXElements } from './jsxElements';
+import { collectModuleInfo } from './moduleInfo';
+import { collectComponentDefinitions, getMainComponent } from './componentDefinitions';
+import { collectInlineStyles } from './inlineStyles';
+import { collectClassNames } from './classNames';
+import { collectCSSModules } from './cssModules';
+import { collectEmbeddedCSS } from './cssInJS';
+import { parseSuppressions } from '../drift-detector/suppressions';
+
+// The parts of react-docgen and react-docgen-typescript results read here
+interface DocgenProp {
+  type?: { name: string };
+  tsType?: { name: string };
+  required?: boolean;
+  defaultValue?: { value: string } | null;
+  description?: string;
+}
+
+interface DocgenComponent {
+  displayName?: string;
+  props?: Record<string, DocgenProp>;
+}
 
 // Dynamic imports for ESM modules
 let reactDocgen: any;
@@ -22,10 +53,12 @@ async function loadParsers() {
 
 export class ComponentAnalyzer {
   private errorHandler: AnalysisErrorHandler;
+  private cssAnalyzer: CSSAnalyzer;
   private tsParser: any;
 
   constructor() {
     this.errorHandler = new AnalysisErrorHandler();
+    this.cssAnalyzer = new CSSAnalyzer();
   }
 
   /**
@@ -55,14 +88,38 @@ export class ComponentAnalyzer {
     const result = await this.errorHandler.safeParseFile(filePath, async (file) => {
       const ext = path.extname(file).toLowerCase();
       const isTypeScript = ext === '.ts' || ext === '.tsx';
+      const source = await fs.readFile(file, 'utf-8');
 
       if (isTypeScript) {
-        return await this.parseTypeScriptComponent(file);
+        return await this.parseTypeScriptComponent(file, source);
       } else {
-        return await this.parseJavaScriptComponent(file);
+        return await this.parseJavaScriptComponent(file, source);
       }
     });
 
+    return this.toComponentInfo(filePath, result);
+  }
+
+  /**
+   * Parse React component source that may not be saved to disk yet. The
+   * TypeScript docgen parser only reads from disk, so react-docgen (which also
+   * understands TypeScript) is used for every file type
+   */
+  async parseReactComponentContent(filePath: string, content: string): Promise<ComponentInfo> {
+    const result = await this.errorHandler.safeParseContent(filePath, content, (file, source) =>
+      this.parseJavaScriptComponent(file, source)
+    );
+
+    return this.toComponentInfo(filePath, result);
+  }
+
+  /**
+   * Convert a safe-parse result into component info
+   */
+  private toComponentInfo(
+    filePath: string,
+    result: ComponentInfo | ErrorResult | SkippedResult
+  ): ComponentInfo {
     // Handle error results
     if (result && typeof result === 'object' && 'success' in result && !result.success) {
       return {
@@ -82,122 +139,91 @@ export class ComponentAnalyzer {
   /**
    * Parse TypeScript React component
    */
-  private async parseTypeScriptComponent(filePath: string): Promise<ComponentInfo> {
-    try {
-      await this.initializeTsParser();
-      const componentDocs = this.tsParser.parse(filePath);
-
-      if (componentDocs.length === 0) {
-        // No component found, check if it's a utility file
-        return await this.analyzeNonComponentFile(filePath);
-      }
-
-      const doc = componentDocs[0]; // Take the first component found
-      
-      const props: PropInfo[] = Object.entries(doc.props || {}).map(([name, prop]: [string, any]) => ({
-        name,
-        type: prop.type?.name || 'unknown',
-        required: prop.required || false,
-        defaultValue: prop.defaultValue?.value,
-        description: prop.description,
-      }));
-
-      const styling = await this.detectStyling(filePath);
-
-      return {
-        name: doc.displayName || doc.name || path.basename(filePath, path.extname(filePath)),
-        filePath,
-        props,
-        type: this.detectComponentType(await fs.readFile(filePath, 'utf-8')),
-        hasJSX: true,
-        styling,
-        success: true,
-      };
-    } catch (error) {
-      throw error;
-    }
+  private async parseTypeScriptComponent(filePath: string, source: string): Promise<ComponentInfo> {
+    await this.initializeTsParser();
+    return this.buildComponentInfo(filePath, source, this.tsParser.parse(filePath));
   }
 
   /**
    * Parse JavaScript React component
    */
-  private async parseJavaScriptComponent(filePath: string): Promise<ComponentInfo> {
-    try {
-      await loadParsers();
-      const source = await fs.readFile(filePath, 'utf-8');
-      
-      let componentInfo;
-      try {
-        componentInfo = reactDocgen.parse(source, {
-          filename: filePath,
-          handlers: reactDocgen.defaultHandlers,
-        });
-      } catch {
-        // If parsing fails, it might not be a component
-        return await this.analyzeNonComponentFile(filePath);
-      }
-
-      const props: PropInfo[] = Object.entries(componentInfo.props || {}).map(([name, prop]: [string, any]) => ({
-        name,
-        type: prop.type?.name || 'unknown',
-        required: prop.required || false,
-        defaultValue: prop.defaultValue?.value,
-        description: prop.description,
-      }));
-
-      const styling = await this.detectStyling(filePath);
+  private async parseJavaScriptComponent(filePath: string, source: string): Promise<ComponentInfo> {
+    await loadParsers();
 
-      return {
-        name: componentInfo.displayName || path.basename(filePath, path.extname(filePath)),
-        filePath,
-        props,
-        type: this.detectComponentType(source),
-        hasJSX: true,
-        styling,
-        success: true,
-      };
-    } catch (error) {
-      throw error;
+    let componentDocs: DocgenComponent[] = [];
+    try {
+      componentDocs = reactDocgen.parse(source, {
+        filename: filePath,
+        resolver: new reactDocgen.builtinResolvers.FindAllDefinitionsResolver(),
+        handlers: reactDocgen.defaultHandlers,
+      });
+    } catch {
+      // react-docgen throws when it finds no component; the AST decides below
     }
+
+    return this.buildComponentInfo(filePath, source, componentDocs);
   }
 
   /**
-   * Analyze non-component JavaScript/TypeScript files
+   * Build the file's component info from its AST. Every component in the file
+   * gets the props docgen documented for it, completed with those read from
+   * its parameters
    */
-  private async analyzeNonComponentFile(filePath: string): Promise<ComponentInfo> {
-    const source = await fs.readFile(filePath, 'utf-8');
-    const hasJSX = this.detectJSX(source);
-    const type = this.detectComponentType(source);
-    const styling = await this.detectStyling(filePath);
+  private async buildComponentInfo(
+    filePath: string,
+    source: string,
+    componentDocs: DocgenComponent[]
+  ): Promise<ComponentInfo> {
+    const ast = parseSource(source, filePath);
+    const styling = await this.detectStyling(filePath, source, ast);
+    const jsxElements = ast ? collectJSXElements(ast) : undefined;
+    const definitions = ast ? collectComponentDefinitions(ast, filePath) : [];
+    const embeddedCSS = ast ? collectEmbeddedCSS(ast) : [];
+
+    for (const definition of definitions) {
+      const doc = componentDocs.find(
+        (d) => d.displayName === definition.displayName || d.displayName === definition.name
+      );
+      if (!doc) continue;
+
+      const documented = this.toPropInfo(doc.props);
+      const names = new Set(documented.map((prop) => prop.name));
+      definition.props = [...documented, ...definition.props.filter((p) => !names.has(p.name))];
+    }
+
+    const main = getMainComponent(definitions);
 
     return {
-      name: path.basename(filePath, path.extname(filePath)),
+      name: main?.name || path.basename(filePath, path.extname(filePath)),
       filePath,
-      type,
-      hasJSX,
+      props: main?.props,
+      type: main?.type || 'unknown',
+      hasJSX: !!main || (jsxElements ? jsxElements.length > 0 : this.detectJSX(source)),
       styling,
+      cssInJS: embeddedCSS.length > 0
+        ? await this.cssAnalyzer.parseEmbeddedCSS(filePath, source, embeddedCSS)
+        : undefined,
+      definitions,
+      jsxElements,
+      ...(ast && collectModuleInfo(ast, filePath)),
+      line: main?.line,
+      column: main?.column,
+      suppressions: parseSuppressions(source),
       success: true,
     };
   }
 
   /**
-   * Detect component type (functional, class, or unknown)
+   * Convert docgen props to prop info
    */
-  private detectComponentType(source: string): 'functional' | 'class' | 'unknown' {
-    // Check for class component
-    if (/class\s+\w+\s+extends\s+(React\.)?Component/.test(source) ||
-        /class\s+\w+\s+extends\s+(React\.)?PureComponent/.test(source)) {
-      return 'class';
-    }
-
-    // Check for functional component patterns
-    if (/const\s+\w+\s*[:=]\s*\([^)]*\)\s*=>\s*[\(\{<]/.test(source) ||
-        /function\s+\w+\s*\([^)]*\)\s*\{[\s\S]*return\s*[\(\<]/.test(source) ||
-        /export\s+default\s+function\s*\([^)]*\)\s*\{/.test(source)) {
-      return 'functional';
-    }
-
-    return 'unknown';
+  private toPropInfo(props: Record<string, DocgenProp> = {}): PropInfo[] {
+    return Object.entries(props).map(([name, prop]) => ({
+      name,
+      type: prop.type?.name || prop.tsType?.name || 'unknown',
+      required: prop.required || false,
+      defaultValue: prop.defaultValue?.value,
+      description: prop.description,
+    }));
   }
 
   /**
@@ -210,9 +236,12 @@ export class ComponentAnalyzer {
   /**
    * Detect styling approach used in component
    */
-  private async detectStyling(filePath: string): Promise<StyleInfo | undefined> {
+  private async detectStyling(
+    filePath: string,
+    source: string,
+    ast: File | null
+  ): Promise<StyleInfo | undefined> {
     try {
-      const source = await fs.readFile(filePath, 'utf-8');
       const styleInfo: StyleInfo = {
         type: 'inline',
         classes: [],
@@ -221,16 +250,28 @@ export class ComponentAnalyzer {
         colors: [],
       };
 
-      // Detect Tailwind classes
-      const tailwindRegex = /className\s*=\s*["'`]([^"'`]+)["'`]/g;
+      // Detect Tailwind classes, in className props and clsx-style calls when parsed
       let match;
-      while ((match = tailwindRegex.exec(source)) !== null) {
-        const classes = match[1].split(/\s+/);
-        styleInfo.classes?.push(...classes);
-        
-        // Check if these are Tailwind classes
-        if (classes.some(c => /^(bg|text|p|m|w|h|flex|grid)-/.test(c))) {
-          styleInfo.type = 'tailwind';
+      if (ast) {
+        styleInfo.classNames = collectClassNames(ast);
+        styleInfo.classes = [...new Set(styleInfo.classNames.map((usage) => usage.name))];
+      } else {
+        const tailwindRegex = /className\s*=\s*["'`]([^"'`]+)["'`]/g;
+        while ((match = tailwindRegex.exec(source)) !== null) {
+          styleInfo.classes?.push(...match[1].split(/\s+/));
+        }
+      }
+
+      // Check if these are Tailwind classes
+      if (styleInfo.classes?.some(c => /^(bg|text|p|m|w|h|flex|grid)-/.test(c))) {
+        styleInfo.type = 'tailwind';
+      }
+
+      // Detect CSS Modules and the classes read from them
+      if (ast) {
+        styleInfo.cssModules = collectCSSModules(ast, filePath);
+        if (styleInfo.cssModules.length > 0 && styleInfo.type === 'inline') {
+          styleInfo.type = 'css';
         }
       }
 
@@ -247,13 +288,28 @@ export class ComponentAnalyzer {
       }
 
       // Detect inline styles
-      const inlineStyleRegex = /style\s*=\s*\{\{([^}]+)\}\}/g;
-      while ((match = inlineStyleRegex.exec(source)) !== null) {
-        // Extract style properties
-        const styleContent = match[1];
-        const colorMatch = /color:\s*['"]?([^'",}]+)['"]?/g.exec(styleContent);
-        if (colorMatch) {
-          styleInfo.colors?.push(colorMatch[1]);
+      if (ast) {
+        const { styles, locations } = collectInlineStyles(ast);
+        const valuesOf = (category: StyleValueCategory) => [
+          ...new Set(locations.filter((l) => l.category === category).map((l) => l.value)),
+        ];
+
+        styleInfo.inlineStyles = styles;
+        styleInfo.locations = locations;
+        styleInfo.colors = valuesOf('color');
+        styleInfo.spacing = valuesOf('spacing');
+        styleInfo.fontSize = valuesOf('fontSize');
+        styleInfo.fontWeight = valuesOf('fontWeight');
+        styleInfo.zIndex = valuesOf('zIndex');
+      } else {
+        const inlineStyleRegex = /style\s*=\s*\{\{([^}]+)\}\}/g;
+        while ((match = inlineStyleRegex.exec(source)) !== null) {
+          // Extract style properties
+          const styleContent = match[1];
+          const colorMatch = /color:\s*['"]?([^'",}]+)['"]?/g.exec(styleContent);
+          if (colorMatch) {
+            styleInfo.colors?.push(colorMatch[1]);
+          }
         }
       }
 
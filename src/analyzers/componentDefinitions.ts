@@ -0,0 +1,526 @@
+/**
+ * Find the React components a file declares: function and class components,
+ * and components wrapped in memo, forwardRef, styled() or higher-order components
+ */
+
+import * as path from 'path';
+import type { ClassDeclaration, ClassExpression, TSType } from '@babel/types';
+import { ComponentDefinition, ComponentInfo, PropInfo } from '../types';
+import { walkAST, getNodePosition, getPropertyName, File, Node } from './astParser';
+
+// Calls that wrap a component; with* functions are treated as higher-order components too
+const WRAPPER_NAMES = new Set(['memo', 'forwardRef', 'lazy', 'observer', 'connect', 'styled']);
+
+type ComponentType = ComponentDefinition['type'];
+
+interface Unwrapped {
+  wrappers: string[];
+  target?: Node; // The wrapped function, class or component; none for styled.div
+}
+
+/**
+ * List the components declared at the top level of a file, in source order.
+ * Functions count as components when they render JSX and are named in
+ * PascalCase or are anonymous default exports; classes when they extend
+ * Component or PureComponent
+ */
+export function collectComponentDefinitions(ast: File, filePath: string): ComponentDefinition[] {
+  const fileName = path.basename(filePath, path.extname(filePath));
+  const typeDeclarations = collectTypeDeclarations(ast);
+  const definitions: ComponentDefinition[] = [];
+  const byName = new Map<string, ComponentDefinition>();
+
+  // target is the function or class itself, or what the wrappers wrap
+  const add = (
+    name: string,
+    target: Node | undefined,
+    statement: Node,
+    fields: Partial<ComponentDefinition> = {}
+  ) => {
+    const position = getNodePosition(statement);
+    const definition: ComponentDefinition = {
+      name,
+      displayName: name,
+      filePath,
+      type: getComponentType(target, byName),
+      props: target ? getFunctionProps(target, typeDeclarations) : [],
+      wrappers: [],
+      line: position?.line,
+      column: position?.column,
+      ...fields,
+    };
+    definitions.push(definition);
+    byName.set(name, definition);
+  };
+
+  const addDeclaration = (declaration: Node, statement: Node, exportKind?: 'default' | 'named') => {
+    const exportFields = (name: string): Partial<ComponentDefinition> =>
+      exportKind === 'named' ? { exportKind, exportName: name } : exportKind ? { exportKind } : {};
+
+    if (declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') {
+      const name = declaration.id?.name || fileName;
+      if (isComponentNode(declaration, declaration.id?.name)) {
+        add(name, declaration, statement, exportFields(name));
+      }
+      return;
+    }
+
+    if (declaration.type !== 'VariableDeclaration') return;
+    for (const declarator of declaration.declarations) {
+      if (declarator.id.type !== 'Identifier' || !declarator.init) continue;
+      const name = declarator.id.name;
+      const unwrapped = unwrap(declarator.init);
+      if (!unwrapped) continue;
+
+      const annotation = declarator.id.typeAnnotation;
+      const propsType =
+        annotation?.type === 'TSTypeAnnotation'
+          ? getTypeArgument(annotation.typeAnnotation)
+          : undefined;
+
+      const isComponent =
+        unwrapped.wrappers.length > 0
+          ? wrapsComponent(unwrapped)
+          : isComponentNode(unwrapped.target!, name);
+      if (isComponent) {
+        add(name, unwrapped.target, statement, {
+          ...exportFields(name),
+          wrappers: unwrapped.wrappers,
+          ...(propsType && { props: getTypeProps(propsType, typeDeclarations) }),
+        });
+      }
+    }
+  };
+
+  for (const statement of ast.program.body) {
+    if (statement.type === 'ExportNamedDeclaration' && statement.declaration) {
+      addDeclaration(statement.declaration, statement, 'named');
+    } else if (statement.type === 'ExportDefaultDeclaration') {
+      const declaration = statement.declaration;
+
+      if (declaration.type === 'Identifier') {
+        markDefaultExport(byName.get(declaration.name));
+      } else if (
+        declaration.type === 'FunctionDeclaration' ||
+        declaration.type === 'ClassDeclaration'
+      ) {
+        addDeclaration(declaration, statement, 'default');
+      } else {
+        const unwrapped = unwrap(declaration);
+        const wrapped =
+          unwrapped?.target?.type === 'Identifier' ? byName.get(unwrapped.target.name) : undefined;
+
+        if (wrapped) {
+          // export default memo(Button): the local component gets the wrappers
+          wrapped.wrappers = [...unwrapped!.wrappers, ...wrapped.wrappers];
+          markDefaultExport(wrapped);
+        } else if (
+          unwrapped &&
+          (unwrapped.wrappers.length > 0
+            ? wrapsComponent(unwrapped)
+            : isComponentNode(unwrapped.target!, getFunctionName(unwrapped.target!)))
+        ) {
+          const target = unwrapped.target;
+          const name = (target && getFunctionName(target)) || fileName;
+          add(name, target, statement, {
+            exportKind: 'default',
+            wrappers: unwrapped.wrappers,
+          });
+        }
+      }
+    } else if (statement.type === 'ExportNamedDeclaration' && !statement.source) {
+      // export { Button, Card as default }
+      for (const specifier of statement.specifiers) {
+        if (specifier.type !== 'ExportSpecifier' || specifier.local.type !== 'Identifier') continue;
+        const exported = getPropertyName(specifier.exported);
+        const definition = byName.get(specifier.local.name);
+        if (exported === 'default') {
+          markDefaultExport(definition);
+        } else if (definition && definition.exportKind !== 'default') {
+          definition.exportKind = 'named';
+          definition.exportName = exported;
+        }
+      }
+    } else {
+      addDeclaration(statement, statement);
+    }
+  }
+
+  // Button.displayName = 'PrimaryButton'
+  for (const statement of ast.program.body) {
+    if (statement.type !== 'ExpressionStatement') continue;
+    const expression = statement.expression;
+    if (
+      expression.type === 'AssignmentExpression' &&
+      expression.left.type === 'MemberExpression' &&
+      expression.left.object.type === 'Identifier' &&
+      getPropertyName(expression.left.property) === 'displayName' &&
+      expression.right.type === 'StringLiteral'
+    ) {
+      const definition = byName.get(expression.left.object.name);
+      if (definition) definition.displayName = expression.right.value;
+    }
+  }
+
+  return definitions;
+}
+
+/**
+ * Pick the main component of a file: the default export, else the first
+ * exported component, else the first declared
+ */
+export function getMainComponent(
+  definitions: ComponentDefinition[]
+): ComponentDefinition | undefined {
+  return (
+    definitions.find((d) => d.exportKind === 'default') ||
+    definitions.find((d) => d.exportKind) ||
+    definitions[0]
+  );
+}
+
+/**
+ * List the components of analyzed files. A result without definitions (such
+ * as one cached by an older version) stands for a single component itself
+ */
+export function listComponents(files: ComponentInfo[]): ComponentDefinition[] {
+  return files.flatMap((file) => {
+    if (!file.success) return [];
+    if (file.definitions) return file.definitions;
+
+    return [
+      {
+        name: file.name,
+        displayName: file.name,
+        filePath: file.filePath,
+        type: file.type,
+        props: file.props || [],
+        wrappers: [],
+        line: file.line,
+        column: file.column,
+      },
+    ];
+  });
+}
+
+/**
+ * Mark a component as the default export, which wins over a named export
+ */
+function markDefaultExport(definition: ComponentDefinition | undefined): void {
+  if (!definition) return;
+  definition.exportKind = 'default';
+  delete definition.exportName;
+}
+
+/**
+ * Peel wrapper calls off an expression: memo(forwardRef(fn)), connect(map)(Profile),
+ * styled.div`...` and styled(Button)`...`. Returns undefined for other calls
+ */
+function unwrap(node: Node): Unwrapped | undefined {
+  const wrappers: string[] = [];
+  let current: Node | undefined = node;
+
+  while (current) {
+    if (
+      current.type === 'TSAsExpression' ||
+      current.type === 'TSSatisfiesExpression' ||
+      current.type === 'TSNonNullExpression' ||
+      current.type === 'ParenthesizedExpression'
+    ) {
+      current = current.expression;
+      continue;
+    }
+
+    if (current.type === 'TaggedTemplateExpression') {
+      if (getCalleeName(current.tag) !== 'styled') return undefined;
+      wrappers.push('styled');
+      return { wrappers, target: getStyledTarget(current.tag) };
+    }
+
+    if (current.type !== 'CallExpression') return { wrappers, target: current };
+
+    const name = getCalleeName(current.callee);
+    if (!name || (!WRAPPER_NAMES.has(name) && !/^with[A-Z]/.test(name))) return undefined;
+    wrappers.push(name);
+
+    // styled.div({ ... }) and styled(Button)({ ... }) style a target of their own
+    if (name === 'styled') return { wrappers, target: getStyledTarget(current.callee) };
+
+    const argument: Node | undefined = current.arguments[0];
+    current = argument?.type === 'SpreadElement' ? undefined : argument;
+  }
+
+  return { wrappers };
+}
+
+/**
+ * Get the component styled(Button) styles; intrinsic elements have none
+ */
+function getStyledTarget(tag: Node): Node | undefined {
+  let node = tag;
+  while (node.type === 'MemberExpression' || node.type === 'CallExpression') {
+    if (node.type === 'CallExpression') {
+      if (node.callee.type === 'Identifier' && node.callee.name === 'styled') {
+        return node.arguments[0];
+      }
+      node = node.callee;
+    } else {
+      node = node.object;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the name a call is known by: memo for React.memo, styled for
+ * styled.div.attrs(), connect for connect(mapState)
+ */
+function getCalleeName(callee: Node): string | undefined {
+  if (callee.type === 'Identifier') return callee.name;
+  if (callee.type === 'CallExpression') return getCalleeName(callee.callee);
+  if (callee.type !== 'MemberExpression') return undefined;
+
+  if (callee.object.type === 'Identifier' && callee.object.name === 'React') {
+    return getPropertyName(callee.property);
+  }
+  return getCalleeName(callee.object);
+}
+
+/**
+ * Check whether wrapper calls produce a component: they wrap a function, a
+ * class or a PascalCase component, or style an element
+ */
+function wrapsComponent({ wrappers, target }: Unwrapped): boolean {
+  if (wrappers.length === 0) return false;
+  if (!target) return wrappers.includes('styled');
+  if (target.type === 'Identifier') return /^[A-Z]/.test(target.name);
+  return (
+    target.type === 'FunctionExpression' ||
+    target.type === 'ArrowFunctionExpression' ||
+    target.type === 'ClassExpression'
+  );
+}
+
+/**
+ * Check whether a function or class is a component. Named functions need a
+ * PascalCase name, so exported helpers such as renderRow or useIcon that
+ * return JSX aren't mistaken for components
+ */
+function isComponentNode(node: Node, name: string | undefined): boolean {
+  if (node.type === 'ClassDeclaration' || node.type === 'ClassExpression') {
+    return extendsComponent(node);
+  }
+  if (
+    node.type === 'FunctionDeclaration' ||
+    node.type === 'FunctionExpression' ||
+    node.type === 'ArrowFunctionExpression'
+  ) {
+    return (name === undefined || /^[A-Z]/.test(name)) && containsJSX(node.body);
+  }
+  return false;
+}
+
+/**
+ * Get the name of a function or class expression, if it has one
+ */
+function getFunctionName(node: Node): string | undefined {
+  return (node.type === 'FunctionExpression' || node.type === 'ClassExpression') && node.id
+    ? node.id.name
+    : undefined;
+}
+
+/**
+ * Get the kind of component a wrapped target is
+ */
+function getComponentType(
+  target: Node | undefined,
+  byName: Map<string, ComponentDefinition>
+): ComponentType {
+  if (!target) return 'unknown';
+  if (target.type === 'ClassDeclaration' || target.type === 'ClassExpression') return 'class';
+  if (target.type === 'Identifier') return byName.get(target.name)?.type || 'unknown';
+  if (
+    target.type === 'FunctionDeclaration' ||
+    target.type === 'FunctionExpression' ||
+    target.type === 'ArrowFunctionExpression'
+  ) {
+    return 'functional';
+  }
+  return 'unknown';
+}
+
+/**
+ * Check whether a class extends (React.)Component or (React.)PureComponent
+ */
+function extendsComponent(node: ClassDeclaration | ClassExpression): boolean {
+  const superClass = node.superClass;
+  if (!superClass) return false;
+
+  const name =
+    superClass.type === 'Identifier'
+      ? superClass.name
+      : superClass.type === 'MemberExpression'
+        ? getPropertyName(superClass.property)
+        : undefined;
+  return name === 'Component' || name === 'PureComponent';
+}
+
+/**
+ * Check whether a function body renders JSX
+ */
+function containsJSX(body: Node): boolean {
+  let found = false;
+  walkAST(body, (node) => {
+    if (node.type === 'JSXElement' || node.type === 'JSXFragment') found = true;
+  });
+  return found;
+}
+
+/**
+ * Read the props of a function component from its first parameter: the
+ * members of its type annotation, else the names it destructures
+ */
+function getFunctionProps(target: Node, typeDeclarations: Map<string, Node>): PropInfo[] {
+  if (
+    target.type !== 'FunctionDeclaration' &&
+    target.type !== 'FunctionExpression' &&
+    target.type !== 'ArrowFunctionExpression'
+  ) {
+    return [];
+  }
+
+  const param = target.params[0];
+  if (!param) return [];
+
+  const pattern = param.type === 'AssignmentPattern' ? param.left : param;
+  const annotation = 'typeAnnotation' in pattern ? pattern.typeAnnotation : undefined;
+  const typed =
+    annotation?.type === 'TSTypeAnnotation'
+      ? getTypeProps(annotation.typeAnnotation, typeDeclarations)
+      : [];
+
+  const defaults = new Map<string, string | undefined>();
+  if (pattern.type === 'ObjectPattern') {
+    for (const property of pattern.properties) {
+      if (property.type !== 'ObjectProperty') continue;
+      const name = getPropertyName(property.key);
+      if (!name) continue;
+      defaults.set(
+        name,
+        property.value.type === 'AssignmentPattern'
+          ? formatLiteral(property.value.right)
+          : undefined
+      );
+    }
+  }
+
+  const props = typed.map((prop) => {
+    const defaultValue = defaults.get(prop.name);
+    return defaultValue === undefined ? prop : { ...prop, defaultValue };
+  });
+  for (const [name, defaultValue] of defaults) {
+    if (props.some((prop) => prop.name === name)) continue;
+    props.push({ name, required: false, ...(defaultValue !== undefined && { defaultValue }) });
+  }
+
+  return props;
+}
+
+/**
+ * Get Props from React.FC<Props> and similar annotations
+ */
+function getTypeArgument(type: TSType): TSType | undefined {
+  if (type.type !== 'TSTypeReference') return undefined;
+  return type.typeParameters?.params[0];
+}
+
+/**
+ * Read the members of a props type: a type literal, or an interface or type
+ * alias declared in the same file
+ */
+function getTypeProps(type: TSType, typeDeclarations: Map<string, Node>): PropInfo[] {
+  let node: Node | undefined = type;
+  if (type.type === 'TSTypeReference' && type.typeName.type === 'Identifier') {
+    node = typeDeclarations.get(type.typeName.name);
+  }
+  if (node?.type === 'TSTypeAliasDeclaration') node = node.typeAnnotation;
+
+  const members =
+    node?.type === 'TSTypeLiteral'
+      ? node.members
+      : node?.type === 'TSInterfaceDeclaration'
+        ? node.body.body
+        : [];
+
+  return members.flatMap((member) => {
+    if (member.type !== 'TSPropertySignature') return [];
+    const name = getPropertyName(member.key);
+    if (!name) return [];
+
+    return [
+      {
+        name,
+        type: member.typeAnnotation ? getTypeName(member.typeAnnotation.typeAnnotation) : 'unknown',
+        required: !member.optional,
+      },
+    ];
+  });
+}
+
+/**
+ * Collect the interfaces and type aliases declared in a file by name
+ */
+function collectTypeDeclarations(ast: File): Map<string, Node> {
+  const declarations = new Map<string, Node>();
+
+  for (const statement of ast.program.body) {
+    const declaration =
+      statement.type === 'ExportNamedDeclaration' && statement.declaration
+        ? statement.declaration
+        : statement;
+    if (
+      declaration.type === 'TSInterfaceDeclaration' ||
+      declaration.type === 'TSTypeAliasDeclaration'
+    ) {
+      declarations.set(declaration.id.name, declaration);
+    }
+  }
+
+  return declarations;
+}
+
+/**
+ * Get a short name for a prop type
+ */
+function getTypeName(type: TSType): string {
+  switch (type.type) {
+    case 'TSStringKeyword':
+      return 'string';
+    case 'TSNumberKeyword':
+      return 'number';
+    case 'TSBooleanKeyword':
+      return 'boolean';
+    case 'TSFunctionType':
+      return 'func';
+    case 'TSUnionType':
+      return type.types.every((member) => member.type === 'TSLiteralType') ? 'enum' : 'union';
+    case 'TSArrayType':
+      return 'array';
+    case 'TSTypeReference':
+      return type.typeName.type === 'Identifier' ? type.typeName.name : 'unknown';
+    default:
+      return 'unknown';
+  }
+}
+
+/**
+ * Format a literal default value the way react-docgen does, e.g. 'md' or 8
+ */
+function formatLiteral(node: Node): string | undefined {
+  if (node.type === 'StringLiteral') return `'${node.value}'`;
+  if (node.type === 'NumericLiteral' || node.type === 'BooleanLiteral') {
+    return String(node.value);
+  }
+  if (node.type === 'NullLiteral') return 'null';
+  return undefined;
+}
@@ -1,13 +1,36 @@
 /**
- * CSS/SCSS/SASS analyzer using postcss and css-tree
+ * CSS/SCSS/LESS analyzer using postcss and css-tree
  */
 
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as postcss from 'postcss';
 import * as csstree from 'css-tree';
-import { CSSAnalysisResult } from '../types';
+import {
+  CSSAnalysisResult,
+  StyleValueCategory,
+  StyleValueLocation,
+  ErrorResult,
+  SkippedResult,
+} from '../types';
 import { AnalysisErrorHandler } from './errorHandler';
+import { parseSuppressions } from '../drift-detector/suppressions';
+import { EmbeddedCSS, mapEmbeddedPosition } from './cssInJS';
+import { extractStyleValues, locateValues } from './styleValues';
+import { PREPROCESSOR_PARSERS, resolveVariables } from './stylesheetVariables';
+import { collectComposedClasses, collectModuleClasses, isCSSModule } from './cssModules';
+
+// The result field each category of design value is collected in
+const STYLE_VALUE_FIELDS: Record<
+  StyleValueCategory,
+  'colors' | 'spacing' | 'fontSize' | 'fontWeight' | 'zIndex'
+> = {
+  color: 'colors',
+  spacing: 'spacing',
+  fontSize: 'fontSize',
+  fontWeight: 'fontWeight',
+  zIndex: 'zIndex',
+};
 
 export class CSSAnalyzer {
   private errorHandler: AnalysisErrorHandler;
@@ -25,6 +48,92 @@ export class CSSAnalyzer {
       return await this.analyzeCSS(file, content);
     });
 
+    return this.toAnalysisResult(filePath, result);
+  }
+
+  /**
+   * Parse CSS/SCSS content that may not be saved to disk yet
+   */
+  async parseCSSContent(filePath: string, content: string): Promise<CSSAnalysisResult> {
+    const result = await this.errorHandler.safeParseContent(filePath, content, (file, css) =>
+      this.analyzeCSS(file, css)
+    );
+
+    return this.toAnalysisResult(filePath, result);
+  }
+
+  /**
+   * Analyze the CSS-in-JS blocks of a component file as one stylesheet, with
+   * positions mapped back to the component source. Blocks are read with the
+   * SCSS syntax, which styled-components and Emotion follow for nesting and
+   * // comments; blocks that still can't be parsed are skipped
+   */
+  async parseEmbeddedCSS(
+    filePath: string,
+    source: string,
+    blocks: EmbeddedCSS[]
+  ): Promise<CSSAnalysisResult> {
+    const result: CSSAnalysisResult = {
+      filePath,
+      type: 'css-in-js',
+      selectors: [],
+      colors: [],
+      spacing: [],
+      fontSize: [],
+      fontWeight: [],
+      zIndex: [],
+      customProperties: {},
+      locations: [],
+      themeTokens: [...new Set(blocks.flatMap((block) => block.themeTokens))],
+      suppressions: parseSuppressions(source),
+      success: true,
+    };
+
+    // A constant shared by several blocks is reported once, where it is written
+    const located = new Set<string>();
+
+    for (const block of blocks) {
+      let blockResult: CSSAnalysisResult;
+      try {
+        blockResult = await this.analyzeCSS(filePath, block.css, true);
+      } catch {
+        continue;
+      }
+
+      result.selectors.push(...blockResult.selectors);
+      result.colors.push(...blockResult.colors);
+      result.spacing.push(...blockResult.spacing);
+      result.fontSize.push(...blockResult.fontSize);
+      result.fontWeight.push(...blockResult.fontWeight);
+      result.zIndex.push(...blockResult.zIndex);
+      Object.assign(result.customProperties, blockResult.customProperties);
+
+      for (const location of blockResult.locations || []) {
+        const mapped = { ...location, ...mapEmbeddedPosition(block, location) };
+        const key = `${mapped.category}:${mapped.value}:${mapped.line}:${mapped.column}`;
+        if (located.has(key)) continue;
+        located.add(key);
+        result.locations!.push(mapped);
+      }
+    }
+
+    result.selectors = [...new Set(result.selectors)];
+    result.colors = [...new Set(result.colors)];
+    result.spacing = [...new Set(result.spacing)];
+    result.fontSize = [...new Set(result.fontSize)];
+    result.fontWeight = [...new Set(result.fontWeight)];
+    result.zIndex = [...new Set(result.zIndex)];
+
+    return result;
+  }
+
+  /**
+   * Convert a safe-parse result into an analysis result
+   */
+  private toAnalysisResult(
+    filePath: string,
+    result: CSSAnalysisResult | ErrorResult | SkippedResult
+  ): CSSAnalysisResult {
     // Handle error results
     if (result && typeof result === 'object' && 'success' in result && !result.success) {
       return {
@@ -47,9 +156,14 @@ export class CSSAnalyzer {
   }
 
   /**
-   * Analyze CSS content
+   * Analyze CSS content. Embedded CSS-in-JS blocks are parsed with the SCSS
+   * syntax, but have no variables of their own
    */
-  private async analyzeCSS(filePath: string, content: string): Promise<CSSAnalysisResult> {
+  private async analyzeCSS(
+    filePath: string,
+    content: string,
+    embedded = false
+  ): Promise<CSSAnalysisResult> {
     const type = this.detectCSSType(filePath);
     const result: CSSAnalysisResult = {
       filePath,
@@ -61,12 +175,19 @@ export class CSSAnalyzer {
       fontWeight: [],
       zIndex: [],
       customProperties: {},
+      suppressions: parseSuppressions(content),
       success: true,
     };
+    const locations: StyleValueLocation[] = [];
 
     try {
-      // Parse with PostCSS for better compatibility
-      const ast = postcss.parse(content, { from: filePath });
+      // Parse with PostCSS, with the SCSS or LESS syntax for those files
+      const syntax = type === 'scss' || type === 'less' ? type : null;
+      const ast = syntax
+        ? PREPROCESSOR_PARSERS[syntax](content, { from: filePath })
+        : embedded
+          ? PREPROCESSOR_PARSERS.scss(content, { from: filePath })
+          : postcss.parse(content, { from: filePath });
 
       // Walk through all rules
       ast.walkRules((rule) => {
@@ -74,43 +195,38 @@ export class CSSAnalyzer {
         result.selectors.push(rule.selector);
       });
 
+      // CSS Modules also keep where each class is defined, to link them to components
+      if (isCSSModule(filePath)) {
+        result.classes = collectModuleClasses(ast);
+        result.composedClasses = collectComposedClasses(ast);
+      }
+
       // Walk through all declarations
       ast.walkDecls((decl) => {
         const { prop, value } = decl;
 
-        // Extract colors
-        if (this.isColorProperty(prop)) {
-          const colors = this.extractColors(value);
-          result.colors.push(...colors);
-        }
-
-        // Extract spacing
-        if (this.isSpacingProperty(prop)) {
-          const spacings = this.extractSpacing(value);
-          result.spacing.push(...spacings);
-        }
-
-        // Extract font sizes
-        if (prop === 'font-size') {
-          result.fontSize.push(value);
-        }
-
-        // Extract font weights
-        if (prop === 'font-weight') {
-          result.fontWeight.push(value);
-        }
+        // SCSS variable assignments define tokens rather than use values
+        if (syntax === 'scss' && prop.startsWith('$')) return;
 
-        // Extract z-index
-        if (prop === 'z-index') {
-          result.zIndex.push(value);
+        // Extract colors, spacing, font sizes, font weights and z-indexes
+        const values = extractStyleValues(prop, value, !!syntax);
+        for (const extracted of values) {
+          result[STYLE_VALUE_FIELDS[extracted.category]].push(extracted.value);
         }
 
         // Extract custom properties (CSS variables)
         if (prop.startsWith('--')) {
           result.customProperties[prop] = value;
         }
+
+        // Keep the source position of every extracted value
+        locations.push(...this.locateDeclarationValues(decl, values));
       });
 
+      if (syntax) {
+        result.variables = await resolveVariables(filePath, ast, syntax);
+      }
+
       // Use css-tree for more detailed analysis if needed
       try {
         const cssAst = csstree.parse(content, { parseValue: true, parseCustomProperty: true });
@@ -136,6 +252,7 @@ export class CSSAnalyzer {
       result.fontSize = [...new Set(result.fontSize)];
       result.fontWeight = [...new Set(result.fontWeight)];
       result.zIndex = [...new Set(result.zIndex)];
+      result.locations = locations;
 
     } catch (error) {
       throw error;
@@ -162,106 +279,28 @@ export class CSSAnalyzer {
   }
 
   /**
-   * Check if property is color-related
-   */
-  private isColorProperty(prop: string): boolean {
-    const colorProps = [
-      'color',
-      'background-color',
-      'border-color',
-      'outline-color',
-      'text-decoration-color',
-      'background',
-      'border',
-      'border-top',
-      'border-right',
-      'border-bottom',
-      'border-left',
-      'box-shadow',
-      'text-shadow',
-    ];
-    return colorProps.includes(prop.toLowerCase());
-  }
-
-  /**
-   * Check if property is spacing-related
-   */
-  private isSpacingProperty(prop: string): boolean {
-    const spacingProps = [
-      'margin',
-      'margin-top',
-      'margin-right',
-      'margin-bottom',
-      'margin-left',
-      'padding',
-      'padding-top',
-      'padding-right',
-      'padding-bottom',
-      'padding-left',
-      'gap',
-      'row-gap',
-      'column-gap',
-    ];
-    return spacingProps.includes(prop.toLowerCase());
-  }
-
-  /**
-   * Extract color values from CSS value
-   */
-  private extractColors(value: string): string[] {
-    const colors: string[] = [];
-
-    // Hex colors
-    const hexRegex = /#[0-9a-fA-F]{3,8}/g;
-    const hexMatches = value.match(hexRegex);
-    if (hexMatches) colors.push(...hexMatches);
-
-    // RGB/RGBA colors
-    const rgbRegex = /rgba?\([^)]+\)/g;
-    const rgbMatches = value.match(rgbRegex);
-    if (rgbMatches) colors.push(...rgbMatches);
-
-    // HSL/HSLA colors
-    const hslRegex = /hsla?\([^)]+\)/g;
-    const hslMatches = value.match(hslRegex);
-    if (hslMatches) colors.push(...hslMatches);
-
-    // Named colors
-    const namedColors = [
-      'red', 'blue', 'green', 'yellow', 'orange', 'purple', 'pink',
-      'black', 'white', 'gray', 'grey', 'brown', 'cyan', 'magenta',
-    ];
-    const words = value.split(/\s+/);
-    for (const word of words) {
-      if (namedColors.includes(word.toLowerCase())) {
-        colors.push(word);
-      }
-    }
-
-    // CSS variables
-    const varRegex = /var\(([^)]+)\)/g;
-    const varMatches = value.match(varRegex);
-    if (varMatches) colors.push(...varMatches);
-
-    return colors;
-  }
-
-  /**
-   * Extract spacing values from CSS value
+   * Resolve the line and column of each design value in a declaration
    */
-  private extractSpacing(value: string): string[] {
-    const spacings: string[] = [];
-
-    // Split by spaces and process each value
-    const values = value.trim().split(/\s+/);
-    for (const val of values) {
-      // Skip keywords
-      if (!/^(auto|inherit|initial|unset)$/i.test(val)) {
-        spacings.push(val);
-      }
-    }
-
-    return spacings;
+  private locateDeclarationValues(
+    decl: postcss.Declaration,
+    values: Array<{ category: StyleValueCategory; value: string }>
+  ): StyleValueLocation[] {
+    if (values.length === 0 || !decl.source?.start) return [];
+
+    // Offsets are relative to the declaration's own source text
+    const rawValue = decl.raws.value?.raw ?? decl.value;
+    const valueStart = decl.prop.length + (decl.raws.between ?? ':').length;
+
+    return locateValues(rawValue, values).map(({ category, value, offset }) => {
+      const position = decl.positionBy({ index: valueStart + offset });
+      return {
+        category,
+        property: decl.prop,
+        value,
+        line: position.line,
+        column: position.column,
+      };
+    });
   }
 
   /**
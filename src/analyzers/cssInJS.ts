@@ -0,0 +1,246 @@
+/**
+ * Extract the CSS written with styled-components and Emotion: tagged templates
+ * such as styled.div`...` and css`...`, and object styles, so it can be analyzed
+ * like a stylesheet
+ */
+
+import type { TemplateLiteral } from '@babel/types';
+import { ComponentInfo, CSSAnalysisResult } from '../types';
+import { walkAST, getPropertyName, File, Node } from './astParser';
+import { createStyleResolver, isValue, StyleObject, StyleResolver } from './inlineStyles';
+import { formatStyleNumber, toCSSProperty } from './styleValues';
+import { createOffsetLookup, SourcePosition } from '../utils/sourcePosition';
+
+// Tags and calls whose arguments are CSS
+const CSS_FUNCTIONS = new Set(['styled', 'css', 'createGlobalStyle', 'injectGlobal', 'keyframes']);
+
+// Calls on a styled target that configure it rather than style it
+const STYLED_OPTIONS = new Set(['attrs', 'withConfig']);
+
+export interface EmbeddedCSS {
+  css: string; // Interpolations are replaced with placeholders
+  segments: CSSSegment[];
+  themeTokens: string[]; // Theme paths the interpolations read, such as colors.primary
+}
+
+// A part of the CSS copied verbatim from the source, from offset to the next segment
+interface CSSSegment {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * Collect the CSS blocks of a file in source order. Interpolations that read
+ * the theme become var(--theme-*) placeholders, constants are inlined, and
+ * other interpolations become placeholders that no rule reports
+ */
+export function collectEmbeddedCSS(ast: File): EmbeddedCSS[] {
+  const resolve = createStyleResolver(ast);
+  const blocks: EmbeddedCSS[] = [];
+
+  const addObjectStyles = (node: Node) => {
+    // styled.div((props) => ({ ... })) styles with what the function returns
+    const body =
+      (node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression') &&
+      node.body.type !== 'BlockStatement'
+        ? node.body
+        : node;
+    const style = resolve(body);
+    if (style instanceof Map && style.size > 0) blocks.push(fromObject(style));
+  };
+
+  walkAST(ast, (node) => {
+    if (node.type === 'TaggedTemplateExpression' && isCSSFunction(node.tag)) {
+      blocks.push(fromTemplate(node.quasi, resolve));
+    } else if (node.type === 'CallExpression' && isStyleCall(node.callee)) {
+      node.arguments.forEach(addObjectStyles);
+    } else if (
+      node.type === 'JSXAttribute' &&
+      node.name.name === 'css' &&
+      node.value?.type === 'JSXExpressionContainer' &&
+      node.value.expression.type !== 'JSXEmptyExpression'
+    ) {
+      // Emotion's css={{ ... }} prop
+      addObjectStyles(node.value.expression);
+    }
+  });
+
+  return blocks;
+}
+
+/**
+ * Map a position in an embedded block's CSS back to the source file
+ */
+export function mapEmbeddedPosition(block: EmbeddedCSS, position: SourcePosition): SourcePosition {
+  const offset = createOffsetLookup(block.css)(position);
+  const segment = [...block.segments].reverse().find((s) => s.offset <= offset);
+  if (!segment) return position;
+
+  let { line, column } = segment;
+  for (const char of block.css.slice(segment.offset, offset)) {
+    if (char === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+  }
+  return { line, column };
+}
+
+/**
+ * List the CSS-in-JS of analyzed components, to be checked along with stylesheets
+ */
+export function listEmbeddedStyles(components: ComponentInfo[]): CSSAnalysisResult[] {
+  return components.flatMap((component) =>
+    component.success && component.cssInJS ? [component.cssInJS] : []
+  );
+}
+
+/**
+ * Build the CSS of a tagged template, replacing its interpolations
+ */
+function fromTemplate(quasi: TemplateLiteral, resolve: StyleResolver): EmbeddedCSS {
+  const block: EmbeddedCSS = { css: '', segments: [], themeTokens: [] };
+
+  quasi.quasis.forEach((element, index) => {
+    addSegment(block, element);
+    block.css += element.value.raw;
+    if (index >= quasi.expressions.length) return;
+
+    const expression = quasi.expressions[index];
+    const token = getThemeToken(expression);
+    const constant = resolve(expression);
+
+    if (token) {
+      block.themeTokens.push(token);
+      block.css += `var(--theme-${token.replace(/\./g, '-')})`;
+    } else if (isValue(constant)) {
+      addSegment(block, constant.node, constant.quoteWidth);
+      block.css += constant.value;
+    } else if (isStatement(block.css, quasi.quasis[index + 1].value.raw)) {
+      // Mixins such as ${truncate}; stand for whole declarations
+      block.css += '/* interpolation */';
+    } else {
+      block.css += 'var(--interpolation)';
+    }
+  });
+
+  return block;
+}
+
+/**
+ * Build the CSS of an object style, one declaration per line. Nested objects
+ * such as '&:hover' become nested rules
+ */
+function fromObject(style: StyleObject): EmbeddedCSS {
+  const block: EmbeddedCSS = { css: '', segments: [], themeTokens: [] };
+
+  const write = (object: StyleObject) => {
+    for (const [key, entry] of object) {
+      if (entry instanceof Map) {
+        block.css += `${key} {\n`;
+        write(entry);
+        block.css += '}\n';
+        continue;
+      }
+
+      const property = toCSSProperty(key);
+      block.css += `${property}: `;
+      addSegment(block, entry.node, entry.quoteWidth);
+      block.css += entry.isNumber ? formatStyleNumber(property, entry.value) : entry.value;
+      block.css += ';\n';
+    }
+  };
+  write(style);
+
+  return block;
+}
+
+/**
+ * Start a segment at the end of the CSS, copied from a node's source
+ */
+function addSegment(block: EmbeddedCSS, node: Node, skip = 0): void {
+  if (!node.loc) return;
+  block.segments.push({
+    offset: block.css.length,
+    line: node.loc.start.line,
+    column: node.loc.start.column + 1 + skip,
+  });
+}
+
+/**
+ * Check whether a tag is styled, css or another CSS function, such as
+ * styled.div, styled(Button) or styled.div.attrs({ ... })
+ */
+function isCSSFunction(node: Node): boolean {
+  if (node.type === 'Identifier') return CSS_FUNCTIONS.has(node.name);
+  if (node.type === 'CallExpression') return isCSSFunction(node.callee);
+  if (node.type === 'MemberExpression') return isCSSFunction(node.object);
+  return false;
+}
+
+/**
+ * Check whether a call takes object styles: styled.div({ ... }),
+ * styled(Button)({ ... }) or Emotion's css({ ... }). styled(Button) itself
+ * names the target, and styled.div.attrs({ ... }) configures it
+ */
+function isStyleCall(callee: Node): boolean {
+  if (callee.type === 'Identifier') return callee.name === 'css';
+  if (callee.type === 'MemberExpression') {
+    const property = getPropertyName(callee.property);
+    if (property && STYLED_OPTIONS.has(property)) return false;
+  }
+  return isCSSFunction(callee);
+}
+
+/**
+ * Get the theme path an interpolation reads: ({ theme }) => theme.colors.primary,
+ * (props) => props.theme.space[2], theme.colors.primary or themeGet('colors.primary')
+ */
+function getThemeToken(expression: Node): string | undefined {
+  let node = expression;
+  if (
+    (node.type === 'ArrowFunctionExpression' || node.type === 'FunctionExpression') &&
+    node.body.type !== 'BlockStatement'
+  ) {
+    node = node.body;
+  }
+
+  if (
+    node.type === 'CallExpression' &&
+    node.callee.type === 'Identifier' &&
+    node.callee.name === 'themeGet' &&
+    node.arguments[0]?.type === 'StringLiteral'
+  ) {
+    return node.arguments[0].value;
+  }
+
+  const path: string[] = [];
+  while (node.type === 'MemberExpression') {
+    const name = node.computed
+      ? node.property.type === 'NumericLiteral' || node.property.type === 'StringLiteral'
+        ? String(node.property.value)
+        : undefined
+      : getPropertyName(node.property);
+    if (name === undefined) return undefined;
+    if (name === 'theme') break;
+
+    path.unshift(name);
+    node = node.object;
+  }
+
+  const readsTheme =
+    (node.type === 'Identifier' && node.name === 'theme') ||
+    (node.type === 'MemberExpression' && getPropertyName(node.property) === 'theme');
+  return readsTheme && path.length > 0 ? path.join('.') : undefined;
+}
+
+/**
+ * Check whether an interpolation stands alone between declarations
+ */
+function isStatement(before: string, after: string): boolean {
+  const start = Math.max(before.lastIndexOf(';'), before.lastIndexOf('{'), before.lastIndexOf('}'));
+  return before.slice(start + 1).trim() === '' && /^[ \t]*(;|\r?\n|}|$)/.test(after);
+}
@@ -0,0 +1,271 @@
+/**
+ * Link CSS Modules to the components importing them: the classes a module
+ * defines, and the ones components read from it as styles.foo
+ */
+
+import * as postcss from 'postcss';
+import { ClassNameUsage, ComponentInfo, CSSAnalysisResult, CSSModuleUsage } from '../types';
+import { walkAST, getNodePosition, File, Node } from './astParser';
+import { resolveModule } from './moduleResolver';
+
+export const CSS_MODULE_PATTERN = /\.module\.(css|scss|sass|less)$/;
+
+export interface CSSModuleLink {
+  filePath: string;
+  classes?: ClassNameUsage[]; // Undefined when the stylesheet wasn't analyzed
+  composedClasses: string[];
+  importers: Array<{ filePath: string; usage: CSSModuleUsage }>;
+}
+
+// A class in a selector, which may be built with SCSS or LESS interpolation
+const CLASS_SELECTOR = /\.(-?[_a-zA-Z][\w-]*(?:[#@]\{[^}]*\}[\w-]*)*)/g;
+
+/**
+ * Check whether a stylesheet is a CSS Module
+ */
+export function isCSSModule(filePath: string): boolean {
+  return CSS_MODULE_PATTERN.test(filePath);
+}
+
+/**
+ * Collect the CSS Modules a file imports and the classes it reads from each,
+ * in source order. Reads with computed keys, and passing the styles object on,
+ * mark the module as read dynamically
+ */
+export function collectCSSModules(ast: File, filePath: string): CSSModuleUsage[] {
+  const usages: CSSModuleUsage[] = [];
+  const byLocal = new Map<string, CSSModuleUsage>();
+
+  for (const statement of ast.program.body) {
+    if (statement.type !== 'ImportDeclaration' || !isCSSModule(statement.source.value)) continue;
+
+    const position = getNodePosition(statement);
+    const usage: CSSModuleUsage = {
+      source: statement.source.value,
+      resolved: resolveModule(statement.source.value, filePath),
+      classes: [],
+      line: position?.line ?? 1,
+      column: position?.column ?? 1,
+    };
+
+    for (const specifier of statement.specifiers) {
+      if (specifier.type === 'ImportSpecifier') {
+        // Named imports read one class each, with bundlers that export them
+        const name =
+          specifier.imported.type === 'Identifier'
+            ? specifier.imported.name
+            : specifier.imported.value;
+        addClass(usage, name, specifier.imported);
+      } else {
+        usage.local = specifier.local.name;
+        byLocal.set(specifier.local.name, usage);
+      }
+    }
+    usages.push(usage);
+  }
+  if (byLocal.size === 0) return usages;
+
+  walkAST(ast, (node, parent) => {
+    if (node.type !== 'Identifier' || !parent) return;
+    const usage = byLocal.get(node.name);
+    if (!usage) return;
+
+    switch (parent.type) {
+      case 'ImportDefaultSpecifier':
+      case 'ImportNamespaceSpecifier':
+        return;
+
+      case 'MemberExpression':
+      case 'OptionalMemberExpression': {
+        // theme.styles is a property, not the import, while other[styles] reads it
+        if (parent.object !== node) {
+          if (parent.computed) usage.dynamic = true;
+          return;
+        }
+        const key = getStaticKey(parent.property, parent.computed);
+        if (key === undefined) usage.dynamic = true;
+        else addClass(usage, key, parent.property);
+        return;
+      }
+
+      case 'ObjectProperty':
+        if (parent.key === node && !parent.computed && !parent.shorthand) return;
+        break;
+
+      case 'VariableDeclarator':
+        // const { button, icon } = styles
+        if (parent.init === node && parent.id.type === 'ObjectPattern') {
+          for (const property of parent.id.properties) {
+            // ...rest takes the classes that are left
+            const key =
+              property.type === 'ObjectProperty'
+                ? getStaticKey(property.key, property.computed)
+                : undefined;
+            if (property.type === 'ObjectProperty' && key !== undefined) {
+              addClass(usage, key, property.key);
+            } else {
+              usage.dynamic = true;
+            }
+          }
+          return;
+        }
+        break;
+    }
+
+    usage.dynamic = true;
+  });
+
+  return usages;
+}
+
+/**
+ * Collect the classes the selectors of a CSS Module define, each at the place
+ * it is first written. Classes inside :global() aren't part of the module, and
+ * nested SCSS selectors such as &-primary extend the classes of their parent
+ */
+export function collectModuleClasses(root: postcss.Root): ClassNameUsage[] {
+  const classes = new Map<string, ClassNameUsage>();
+  const add = (rule: postcss.Rule, name: string, index: number) => {
+    if (classes.has(name)) return;
+    const position = rule.positionBy({ index });
+    classes.set(name, { name, line: position.line, column: position.column });
+  };
+
+  root.walkRules((rule) => {
+    // LESS mixin definitions such as .bordered() aren't output as classes
+    if (/^\.[\w-]+\s*\(/.test(rule.selector)) return;
+
+    const selector = maskGlobals(rule.selector);
+    for (const match of selector.matchAll(CLASS_SELECTOR)) {
+      add(rule, match[1], match.index!);
+    }
+
+    if (rule.parent?.type !== 'rule') return;
+    for (const match of selector.matchAll(/&([\w-]+)/g)) {
+      for (const parentClass of getLastClasses(rule.parent as postcss.Rule)) {
+        add(rule, parentClass + match[1], match.index!);
+      }
+    }
+  });
+
+  return [...classes.values()];
+}
+
+/**
+ * Collect the classes a CSS Module composes from itself, as in composes: base
+ */
+export function collectComposedClasses(root: postcss.Root): string[] {
+  const composed = new Set<string>();
+  root.walkDecls('composes', (decl) => {
+    // Classes composed from another file belong to that module
+    if (/\sfrom\s/.test(decl.value)) return;
+    decl.value.split(/\s+/).forEach((name) => name && composed.add(name));
+  });
+  return [...composed];
+}
+
+/**
+ * Link every CSS Module components import to its analysis and importers.
+ * Modules no component imports are included, without importers
+ */
+export function linkCSSModules(
+  components: ComponentInfo[],
+  styles: CSSAnalysisResult[]
+): CSSModuleLink[] {
+  const links = new Map<string, CSSModuleLink>();
+  const getLink = (filePath: string) => {
+    let link = links.get(filePath);
+    if (!link) {
+      link = { filePath, composedClasses: [], importers: [] };
+      links.set(filePath, link);
+    }
+    return link;
+  };
+
+  for (const style of styles) {
+    if (style.success && isCSSModule(style.filePath)) {
+      const link = getLink(style.filePath);
+      link.classes = style.classes || [];
+      link.composedClasses = style.composedClasses || [];
+    }
+  }
+
+  for (const component of components) {
+    if (!component.success) continue;
+    for (const usage of component.styling?.cssModules || []) {
+      if (usage.resolved) {
+        getLink(usage.resolved).importers.push({ filePath: component.filePath, usage });
+      }
+    }
+  }
+
+  return [...links.values()];
+}
+
+/**
+ * Check whether a class a component reads is one a module defines. With
+ * css-loader's camelCase option, .btn-primary is read as styles.btnPrimary, and
+ * classes built with interpolation match any value
+ */
+export function matchesModuleClass(defined: string, used: string): boolean {
+  if (defined === used || toCamelCase(defined) === used) return true;
+  if (!/[#@]\{/.test(defined)) return false;
+
+  const pattern = defined.split(/[#@]\{[^}]*\}/).join('[\\w-]+');
+  return new RegExp(`^${pattern}$`).test(used);
+}
+
+/**
+ * Record a class read from a module at the node it is written in
+ */
+function addClass(usage: CSSModuleUsage, name: string, node: Node): void {
+  const position = getNodePosition(node);
+  if (position) usage.classes.push({ name, line: position.line, column: position.column });
+}
+
+/**
+ * Get the key of a member or property when it is known without running the code
+ */
+function getStaticKey(key: Node, computed: boolean): string | undefined {
+  if (!computed && key.type === 'Identifier') return key.name;
+  if (key.type === 'StringLiteral') return key.value;
+  if (key.type === 'TemplateLiteral' && key.expressions.length === 0) {
+    return key.quasis[0].value.cooked ?? undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Get the classes a rule's selectors end with, which & refers to in nested rules
+ */
+function getLastClasses(rule: postcss.Rule): string[] {
+  return rule.selectors.flatMap((selector) => {
+    const resolved =
+      selector.trim().startsWith('&') && rule.parent?.type === 'rule'
+        ? getLastClasses(rule.parent as postcss.Rule).map((parentClass) =>
+            selector.trim().replace(/^&/, `.${parentClass}`)
+          )
+        : [selector.trim()];
+    return resolved.flatMap((s) => s.match(/\.([\w-]+)$/)?.[1] ?? []);
+  });
+}
+
+/**
+ * Blank out the parts of a selector that aren't module classes: :global()
+ * arguments, everything after a bare :global, attribute selectors and strings.
+ * Offsets are kept, so positions stay right
+ */
+function maskGlobals(selector: string): string {
+  const blank = (text: string) => ' '.repeat(text.length);
+  return selector
+    .replace(/\[[^\]]*\]|"[^"]*"|'[^']*'/g, blank)
+    .replace(/:global\([^)]*\)/g, blank)
+    .replace(/:global\b[^,]*/g, blank);
+}
+
+/**
+ * Convert a class to the camelCase name css-loader exports it as
+ */
+function toCamelCase(name: string): string {
+  return name.replace(/-+(\w)/g, (_, char: string) => char.toUpperCase());
+}
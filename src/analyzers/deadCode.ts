@@ -0,0 +1,230 @@
+/**
+ * Find components nothing uses: exports never imported or rendered, files never
+ * imported, and stories or tests pointing at components that no longer exist
+ */
+
+import * as path from 'path';
+import { minimatch } from 'minimatch';
+import {
+  BrokenReference,
+  ComponentInfo,
+  DeadCodeReport,
+  ImportInfo,
+  UnusedComponent,
+} from '../types';
+
+// Files loaded by the framework or bundler rather than imported
+export const DEFAULT_ENTRY_PATTERNS = [
+  'index.*',
+  'main.*',
+  'src/index.*',
+  'src/main.*',
+  'pages/**',
+  'src/pages/**',
+  'app/**',
+  'src/app/**',
+];
+
+// Stories and tests reference components without keeping them alive
+export const REFERENCE_PATTERNS = [
+  '**/*.stories.*',
+  '**/*.story.*',
+  '**/*.test.*',
+  '**/*.spec.*',
+  '**/__tests__/**',
+];
+
+export interface ReferenceModule {
+  filePath: string;
+  imports: ImportInfo[];
+  exports?: string[]; // Exported names, to follow the re-exports of sources
+}
+
+export interface DeadCodeOptions {
+  projectPath: string;
+  components: ComponentInfo[];
+  references?: ReferenceModule[]; // Stories and tests that are not among the components
+  sources?: ReferenceModule[]; // Other JS/TS files, such as routes.ts or barrels without JSX
+  entries?: string[]; // Entry globs relative to the project, in addition to the defaults
+  entryFiles?: string[]; // Absolute entry paths, such as package.json main
+}
+
+/**
+ * Check whether an export name looks like a component (PascalCase)
+ */
+export function isComponentExport(name: string): boolean {
+  return /^[A-Z][A-Za-z0-9]*$/.test(name) && /[a-z]/.test(name);
+}
+
+/**
+ * Work out which component files and exports are unused. Exports of entry
+ * files count as used, and uses are followed through re-exports (barrel files)
+ */
+export function findDeadCode(options: DeadCodeOptions): DeadCodeReport {
+  const relativePath = (filePath: string) =>
+    path.relative(options.projectPath, filePath).split(path.sep).join('/');
+  const matches = (filePath: string, patterns: string[]) =>
+    patterns.some((pattern) => minimatch(relativePath(filePath), pattern, { dot: true }));
+
+  const modules = new Map<string, ComponentInfo>();
+  const references: ReferenceModule[] = [...(options.references || [])];
+  for (const component of options.components) {
+    if (!component.success || !component.imports) continue;
+    if (matches(component.filePath, REFERENCE_PATTERNS)) {
+      references.push({ filePath: component.filePath, imports: component.imports });
+    } else if (!modules.has(component.filePath)) {
+      modules.set(component.filePath, component);
+    }
+  }
+
+  // Other sources declare no components, but their imports and re-exports use them
+  for (const source of options.sources || []) {
+    if (modules.has(source.filePath) || matches(source.filePath, REFERENCE_PATTERNS)) continue;
+    modules.set(source.filePath, {
+      name: path.basename(source.filePath, path.extname(source.filePath)),
+      filePath: source.filePath,
+      type: 'unknown',
+      hasJSX: false,
+      imports: source.imports,
+      exports: source.exports,
+      success: true,
+    });
+  }
+
+  const imported = new Set<string>();
+  const used = new Map<string, Set<string>>();
+  const queue: Array<[string, string]> = [];
+  const markUsed = (filePath: string, name: string) => {
+    if (!modules.has(filePath)) return;
+    const names = used.get(filePath) || new Set<string>();
+    used.set(filePath, names);
+    if (names.has(name)) return;
+    names.add(name);
+    queue.push([filePath, name]);
+  };
+
+  const entries = [...DEFAULT_ENTRY_PATTERNS, ...(options.entries || [])];
+  const entryFiles = new Set(options.entryFiles);
+  for (const [filePath, module] of modules) {
+    if (entryFiles.has(filePath) || matches(filePath, entries)) {
+      imported.add(filePath);
+      markUsed(filePath, '*');
+    }
+
+    for (const { resolved, specifiers, reExport } of module.imports!) {
+      if (!resolved || !modules.has(resolved)) continue;
+      imported.add(resolved);
+      if (!reExport) specifiers.forEach(({ imported: name }) => markUsed(resolved, name));
+    }
+
+    // Components rendered in the file that declares them
+    for (const element of module.jsxElements || []) {
+      if (!element.source) markUsed(filePath, element.name);
+    }
+  }
+
+  // Follow uses of re-exported names to the modules declaring them
+  while (queue.length > 0) {
+    const [filePath, name] = queue.pop()!;
+    const module = modules.get(filePath)!;
+
+    for (const { resolved, specifiers, reExport } of module.imports!) {
+      if (!reExport || !resolved) continue;
+
+      for (const specifier of specifiers) {
+        if (specifier.local === '*') {
+          // export * from: passes on every name the module doesn't declare itself
+          if (name === '*' || !module.exports?.includes(name)) markUsed(resolved, name);
+        } else if (name === '*' || specifier.local === name) {
+          markUsed(resolved, specifier.imported);
+        }
+      }
+    }
+  }
+
+  const report: DeadCodeReport = {
+    unusedComponents: [],
+    unimportedFiles: [],
+    brokenReferences: [],
+  };
+
+  for (const [filePath, module] of modules) {
+    if (!module.hasJSX) continue;
+
+    if (!imported.has(filePath)) {
+      report.unimportedFiles.push(filePath);
+      continue;
+    }
+
+    const names = used.get(filePath);
+    if (names?.has('*')) continue;
+
+    for (const exportName of module.exports || []) {
+      if (names?.has(exportName)) continue;
+
+      const component = findExportedComponent(module, exportName);
+      if (component) report.unusedComponents.push({ ...component, exportName, filePath });
+    }
+  }
+
+  for (const reference of references) {
+    report.brokenReferences.push(...findBrokenReferences(reference, modules));
+  }
+
+  return report;
+}
+
+/**
+ * Find the component behind an export. Results without component definitions
+ * fall back to treating PascalCase exports as components
+ */
+function findExportedComponent(
+  module: ComponentInfo,
+  exportName: string
+): Pick<UnusedComponent, 'name' | 'line' | 'column'> | undefined {
+  if (module.definitions) {
+    const definition = module.definitions.find((d) =>
+      exportName === 'default' ? d.exportKind === 'default' : d.exportName === exportName
+    );
+    return (
+      definition && { name: definition.name, line: definition.line, column: definition.column }
+    );
+  }
+
+  if (exportName !== 'default' && !isComponentExport(exportName)) return undefined;
+  const name = exportName === 'default' ? module.name : exportName;
+  return name === module.name ? { name, line: module.line, column: module.column } : { name };
+}
+
+/**
+ * Find the imports of a story or test whose module or export is gone
+ */
+function findBrokenReferences(
+  reference: ReferenceModule,
+  modules: Map<string, ComponentInfo>
+): BrokenReference[] {
+  const broken: BrokenReference[] = [];
+
+  for (const { source, resolved, specifiers, line, column } of reference.imports) {
+    // A relative import that no longer resolves points at a deleted file
+    if (!resolved) {
+      if (!source.startsWith('.')) continue;
+      broken.push({ filePath: reference.filePath, source, line, column });
+      continue;
+    }
+
+    // Only exports of analyzed components are known
+    const target = modules.get(resolved);
+    if (!target) continue;
+    const exportsAll = target.imports?.some((i) => i.reExport && i.specifiers[0]?.local === '*');
+    if (exportsAll) continue;
+
+    for (const { imported } of specifiers) {
+      if (imported !== '*' && !target.exports?.includes(imported)) {
+        broken.push({ filePath: reference.filePath, source, name: imported, line, column });
+      }
+    }
+  }
+
+  return broken;
+}
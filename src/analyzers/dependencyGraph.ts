@@ -0,0 +1,196 @@
+/**
+ * Build the file dependency graph from resolved imports, find import cycles,
+ * and export the graph as Graphviz DOT or JSON
+ */
+
+import * as path from 'path';
+import { ComponentInfo, DependencyEdge, DependencyGraph, ImportCycle } from '../types';
+
+/**
+ * Build the graph of project files and the project files they import. A file
+ * importing another several times gets one edge, at the first import
+ */
+export function buildDependencyGraph(components: ComponentInfo[]): DependencyGraph {
+  const files = new Set<string>();
+  const edges = new Map<string, DependencyEdge>();
+
+  for (const component of components) {
+    if (!component.success) continue;
+    files.add(component.filePath);
+
+    for (const { resolved, line, column } of component.imports || []) {
+      if (!resolved) continue;
+      files.add(resolved);
+
+      const key = `${component.filePath}\0${resolved}`;
+      if (!edges.has(key)) {
+        edges.set(key, { from: component.filePath, to: resolved, line, column });
+      }
+    }
+  }
+
+  return { files: [...files].sort(), edges: [...edges.values()] };
+}
+
+/**
+ * Find import cycles. Files that reach each other through imports form one
+ * group, and each group is reported once, as the shortest cycle through its
+ * first file
+ */
+export function findImportCycles(graph: DependencyGraph): ImportCycle[] {
+  const outgoing = new Map<string, DependencyEdge[]>();
+  for (const edge of graph.edges) {
+    const edges = outgoing.get(edge.from) || [];
+    edges.push(edge);
+    outgoing.set(edge.from, edges);
+  }
+
+  return findStronglyConnected(graph.files, outgoing)
+    .flatMap((group) => {
+      const cycle = findShortestCycle(group.sort(), outgoing);
+      return cycle ? [cycle] : [];
+    })
+    .sort((a, b) => a.files[0].localeCompare(b.files[0]));
+}
+
+/**
+ * Group files that reach each other (Tarjan's strongly connected components)
+ */
+function findStronglyConnected(
+  files: string[],
+  outgoing: Map<string, DependencyEdge[]>
+): string[][] {
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const groups: string[][] = [];
+
+  const visit = (file: string) => {
+    indices.set(file, indices.size);
+    lowLinks.set(file, indices.get(file)!);
+    stack.push(file);
+    onStack.add(file);
+
+    for (const { to } of outgoing.get(file) || []) {
+      if (!indices.has(to)) {
+        visit(to);
+        lowLinks.set(file, Math.min(lowLinks.get(file)!, lowLinks.get(to)!));
+      } else if (onStack.has(to)) {
+        lowLinks.set(file, Math.min(lowLinks.get(file)!, indices.get(to)!));
+      }
+    }
+
+    if (lowLinks.get(file) === indices.get(file)) {
+      const group: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        group.push(member);
+      } while (member !== file);
+      groups.push(group);
+    }
+  };
+
+  for (const file of files) {
+    if (!indices.has(file)) visit(file);
+  }
+  return groups;
+}
+
+/**
+ * Find the shortest cycle from the first file of a group back to itself
+ */
+function findShortestCycle(
+  group: string[],
+  outgoing: Map<string, DependencyEdge[]>
+): ImportCycle | undefined {
+  const start = group[0];
+  const members = new Set(group);
+  const reachedBy = new Map<string, DependencyEdge>();
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const file = queue.shift()!;
+
+    for (const edge of outgoing.get(file) || []) {
+      if (edge.to === start) {
+        const files = [file];
+        let previous = reachedBy.get(file);
+        while (previous) {
+          files.unshift(previous.from);
+          previous = reachedBy.get(previous.from);
+        }
+        const first = files.length > 1 ? reachedBy.get(files[1])! : edge;
+        return { files, line: first.line, column: first.column };
+      }
+      if (members.has(edge.to) && !reachedBy.has(edge.to)) {
+        reachedBy.set(edge.to, edge);
+        queue.push(edge.to);
+      }
+    }
+  }
+
+  // A single file that doesn't import itself
+  return undefined;
+}
+
+/**
+ * Format the graph as Graphviz DOT, with paths relative to the project and
+ * the edges of import cycles in red
+ */
+export function graphToDot(
+  graph: DependencyGraph,
+  projectPath: string,
+  cycles: ImportCycle[] = []
+): string {
+  const relative = (filePath: string) =>
+    path.relative(projectPath, filePath).split(path.sep).join('/');
+  const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+  const cycleEdges = new Set<string>();
+  for (const { files } of cycles) {
+    files.forEach((file, index) => {
+      cycleEdges.add(`${file}\0${files[(index + 1) % files.length]}`);
+    });
+  }
+
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [shape=box];'];
+  for (const file of graph.files) {
+    lines.push(`  ${quote(relative(file))};`);
+  }
+  for (const { from, to } of graph.edges) {
+    const style = cycleEdges.has(`${from}\0${to}`) ? ' [color=red]' : '';
+    lines.push(`  ${quote(relative(from))} -> ${quote(relative(to))}${style};`);
+  }
+  lines.push('}');
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Format the graph and its import cycles as JSON, with paths relative to the project
+ */
+export function graphToJSON(
+  graph: DependencyGraph,
+  projectPath: string,
+  cycles: ImportCycle[] = []
+): string {
+  const relative = (filePath: string) =>
+    path.relative(projectPath, filePath).split(path.sep).join('/');
+
+  return JSON.stringify(
+    {
+      files: graph.files.map(relative),
+      edges: graph.edges.map((edge) => ({
+        ...edge,
+        from: relative(edge.from),
+        to: relative(edge.to),
+      })),
+      cycles: cycles.map((cycle) => ({ ...cycle, files: cycle.files.map(relative) })),
+    },
+    null,
+    2
+  );
+}
@@ -65,6 +65,34 @@ export class AnalysisErrorHandler {
     }
   }
 
+  /**
+   * Safely parse in-memory content, such as an unsaved editor buffer, with error handling
+   */
+  async safeParseContent<T>(
+    filePath: string,
+    content: string,
+    parser: (filePath: string, content: string) => Promise<T>
+  ): Promise<T | ErrorResult | SkippedResult> {
+    try {
+      if (Buffer.byteLength(content) > this.maxFileSize) {
+        return this.createSkippedResult(filePath, 'Content too large');
+      }
+
+      const ext = path.extname(filePath).toLowerCase();
+      if (!this.allowedExtensions.has(ext)) {
+        return this.createSkippedResult(filePath, `Unsupported file extension: ${ext}`);
+      }
+
+      if (content.includes('\0')) {
+        return this.createSkippedResult(filePath, 'Invalid file encoding');
+      }
+
+      return await parser(filePath, content);
+    } catch (error) {
+      return this.handleParsingError(filePath, error as Error);
+    }
+  }
+
   /**
    * Check if file path is valid
    */
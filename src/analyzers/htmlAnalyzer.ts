@@ -9,8 +9,12 @@ import {
   ElementInfo,
   InlineStyleInfo,
   AccessibilityInfo,
+  ErrorResult,
+  SkippedResult,
 } from '../types';
 import { AnalysisErrorHandler } from './errorHandler';
+import { parseSuppressions } from '../drift-detector/suppressions';
+import { createPositionLookup, SourcePosition } from '../utils/sourcePosition';
 
 export class HTMLAnalyzer {
   private errorHandler: AnalysisErrorHandler;
@@ -28,6 +32,27 @@ export class HTMLAnalyzer {
       return await this.analyzeHTML(file, content);
     });
 
+    return this.toAnalysisResult(filePath, result);
+  }
+
+  /**
+   * Parse HTML content that may not be saved to disk yet
+   */
+  async parseHTMLContent(filePath: string, content: string): Promise<HTMLAnalysisResult> {
+    const result = await this.errorHandler.safeParseContent(filePath, content, (file, html) =>
+      this.analyzeHTML(file, html)
+    );
+
+    return this.toAnalysisResult(filePath, result);
+  }
+
+  /**
+   * Convert a safe-parse result into an analysis result
+   */
+  private toAnalysisResult(
+    filePath: string,
+    result: HTMLAnalysisResult | ErrorResult | SkippedResult
+  ): HTMLAnalysisResult {
     // Handle error results
     if (result && typeof result === 'object' && 'success' in result && !result.success) {
       return {
@@ -68,11 +93,15 @@ export class HTMLAnalyzer {
         hasAltTexts: false,
         missingLabels: [],
         missingAlts: [],
+        issues: [],
       },
+      suppressions: parseSuppressions(content),
       success: true,
     };
 
     try {
+      const getPosition = createPositionLookup(content);
+
       const root = parseHTML(content, {
         lowerCaseTagName: false,
         comment: false,
@@ -87,7 +116,8 @@ export class HTMLAnalyzer {
       // Analyze all elements in the tree
       const allElements = root.querySelectorAll('*');
       for (const element of allElements) {
-        this.analyzeElement(element as HTMLElement, result);
+        const htmlElement = element as HTMLElement;
+        this.analyzeElement(htmlElement, result, getPosition(htmlElement.range[0]));
       }
 
       // Remove duplicates
@@ -109,7 +139,11 @@ export class HTMLAnalyzer {
   /**
    * Recursively analyze HTML elements
    */
-  private analyzeElement(element: HTMLElement, result: HTMLAnalysisResult): void {
+  private analyzeElement(
+    element: HTMLElement,
+    result: HTMLAnalysisResult,
+    position: SourcePosition
+  ): void {
     // Skip text nodes
     if (!element.tagName) {
       return;
@@ -119,6 +153,8 @@ export class HTMLAnalyzer {
     const elementInfo: ElementInfo = {
       tagName: element.tagName.toLowerCase(),
       attributes: {},
+      line: position.line,
+      column: position.column,
     };
 
     // Process attributes
@@ -149,13 +185,15 @@ export class HTMLAnalyzer {
           result.inlineStyles.push({
             element: element.tagName.toLowerCase(),
             styles: inlineStyle,
+            line: position.line,
+            column: position.column,
           });
         }
       }
     }
 
     // Check accessibility issues
-    this.checkAccessibility(element, result.accessibility);
+    this.checkAccessibility(element, result.accessibility, position);
 
     // Add element to results
     result.elements.push(elementInfo);
@@ -186,16 +224,28 @@ export class HTMLAnalyzer {
   /**
    * Check accessibility issues
    */
-  private checkAccessibility(element: HTMLElement, accessibility: AccessibilityInfo): void {
+  private checkAccessibility(
+    element: HTMLElement,
+    accessibility: AccessibilityInfo,
+    position: SourcePosition
+  ): void {
     const tagName = element.tagName?.toLowerCase();
     const attributes = element.attributes || {};
+    const addIssue = (kind: 'missing-label' | 'missing-alt', description: string) => {
+      if (kind === 'missing-label') {
+        accessibility.missingLabels.push(description);
+      } else {
+        accessibility.missingAlts.push(description);
+      }
+      accessibility.issues?.push({ kind, description, ...position });
+    };
 
     // Check buttons without aria-label
     if (tagName === 'button' || attributes.role === 'button') {
       if (!attributes['aria-label'] && !attributes['aria-labelledby']) {
         const textContent = element.text?.trim();
         if (!textContent) {
-          accessibility.missingLabels.push(`${tagName} without label`);
+          addIssue('missing-label', `${tagName} without label`);
         }
       }
     }
@@ -203,14 +253,14 @@ export class HTMLAnalyzer {
     // Check images without alt text
     if (tagName === 'img') {
       if (!attributes.alt && attributes.role !== 'presentation') {
-        accessibility.missingAlts.push(attributes.src || 'unknown image');
+        addIssue('missing-alt', attributes.src || 'unknown image');
       }
     }
 
     // Check form inputs without labels
     if (['input', 'select', 'textarea'].includes(tagName || '')) {
       if (!attributes['aria-label'] && !attributes['aria-labelledby'] && !attributes.id) {
-        accessibility.missingLabels.push(`${tagName} without label`);
+        addIssue('missing-label', `${tagName} without label`);
       }
     }
 
@@ -218,7 +268,7 @@ export class HTMLAnalyzer {
     if (tagName === 'a') {
       const textContent = element.text?.trim();
       if (!textContent && !attributes['aria-label']) {
-        accessibility.missingLabels.push('link without text or label');
+        addIssue('missing-label', 'link without text or label');
       }
     }
   }
@@ -0,0 +1,249 @@
+/**
+ * Read the style props of JSX elements: object literals, spread styles, and
+ * style objects and values declared as constants elsewhere in the file
+ */
+
+import { InlineStyleInfo, StyleValueLocation } from '../types';
+import { walkAST, getNodePosition, getPropertyName, File, Node } from './astParser';
+import { getJSXElementName } from './jsxElements';
+import { extractStyleValues, formatStyleNumber, locateValues, toCSSProperty } from './styleValues';
+
+export interface InlineStyles {
+  styles: InlineStyleInfo[];
+  locations: StyleValueLocation[];
+}
+
+export interface StyleValue {
+  value: string;
+  node: Node; // The literal the value is written in
+  quoteWidth: number;
+  isNumber: boolean;
+}
+
+export type StyleObject = Map<string, StyleValue | StyleObject>;
+
+export type StyleResolver = (node: Node) => StyleValue | StyleObject | undefined;
+
+/**
+ * Collect the style prop of every JSX element, and the design values it sets.
+ * Values written in a constant shared by several elements are located once,
+ * at the constant
+ */
+export function collectInlineStyles(ast: File): InlineStyles {
+  const resolve = createStyleResolver(ast);
+  const located = new Set<Node>();
+  const result: InlineStyles = { styles: [], locations: [] };
+
+  walkAST(ast, (node) => {
+    if (node.type !== 'JSXOpeningElement') return;
+
+    for (const attribute of node.attributes) {
+      if (attribute.type !== 'JSXAttribute' || attribute.name.name !== 'style') continue;
+      if (attribute.value?.type !== 'JSXExpressionContainer') continue;
+
+      const expression = attribute.value.expression;
+      if (expression.type === 'JSXEmptyExpression') continue;
+
+      // Styles passed through from props or computed at runtime are left out
+      const style = resolve(expression);
+      if (!(style instanceof Map)) continue;
+
+      const styles: Record<string, string> = {};
+      addDeclarations(style, '', styles, result.locations, located);
+
+      const position = getNodePosition(attribute);
+      result.styles.push({
+        element: getJSXElementName(node.name),
+        styles,
+        line: position?.line,
+        column: position?.column,
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Create a resolver of style values and objects that follows the file's constants
+ */
+export function createStyleResolver(ast: File): StyleResolver {
+  const constants = collectConstants(ast);
+  return (node) => resolveStyle(node, constants, new Set());
+}
+
+/**
+ * Check whether a resolved style is a single value rather than an object
+ */
+export function isValue(style: StyleValue | StyleObject | undefined): style is StyleValue {
+  return style !== undefined && !(style instanceof Map);
+}
+
+/**
+ * Flatten a style object into CSS declarations. Nested objects such as
+ * ':hover' or media queries prefix the properties they contain
+ */
+function addDeclarations(
+  style: StyleObject,
+  prefix: string,
+  styles: Record<string, string>,
+  locations: StyleValueLocation[],
+  located: Set<Node>
+): void {
+  for (const [key, entry] of style) {
+    if (entry instanceof Map) {
+      addDeclarations(entry, `${prefix}${key} `, styles, locations, located);
+      continue;
+    }
+
+    const property = toCSSProperty(key);
+    const value = entry.isNumber ? formatStyleNumber(property, entry.value) : entry.value;
+    styles[prefix + property] = value;
+
+    const position = getNodePosition(entry.node);
+    if (!position || located.has(entry.node)) continue;
+    located.add(entry.node);
+
+    const values = extractStyleValues(property, value);
+    for (const { category, value: found, offset } of locateValues(value, values)) {
+      locations.push({
+        category,
+        property,
+        value: found,
+        line: position.line,
+        column: position.column + entry.quoteWidth + offset,
+      });
+    }
+  }
+}
+
+/**
+ * Resolve an expression to a style value or object. Constants are followed,
+ * spreads merged in order, and anything only known at runtime is undefined
+ */
+function resolveStyle(
+  node: Node,
+  constants: Map<string, Node | null>,
+  following: Set<string>
+): StyleValue | StyleObject | undefined {
+  const resolve = (child: Node) => resolveStyle(child, constants, following);
+
+  switch (node.type) {
+    case 'StringLiteral':
+      return { value: node.value, node, quoteWidth: 1, isNumber: false };
+
+    case 'NumericLiteral':
+      return { value: String(node.value), node, quoteWidth: 0, isNumber: true };
+
+    case 'UnaryExpression': {
+      const argument = resolve(node.argument);
+      if (node.operator !== '-' || !isValue(argument) || !argument.isNumber) return undefined;
+      return { value: `-${argument.value}`, node, quoteWidth: 0, isNumber: true };
+    }
+
+    case 'TemplateLiteral': {
+      let value = '';
+      for (let i = 0; i < node.quasis.length; i++) {
+        value += node.quasis[i].value.cooked ?? node.quasis[i].value.raw;
+        if (i >= node.expressions.length) continue;
+
+        const expression = resolve(node.expressions[i]);
+        if (!isValue(expression)) return undefined;
+        value += expression.value;
+      }
+      return { value, node, quoteWidth: 1, isNumber: false };
+    }
+
+    case 'Identifier': {
+      const init = constants.get(node.name);
+      if (!init || following.has(node.name)) return undefined;
+      return resolveStyle(init, constants, new Set(following).add(node.name));
+    }
+
+    case 'MemberExpression': {
+      const object = resolve(node.object);
+      const key = node.computed
+        ? resolveKey(node.property, resolve)
+        : getPropertyName(node.property);
+      return object instanceof Map && key !== undefined ? object.get(key) : undefined;
+    }
+
+    case 'ObjectExpression': {
+      const object: StyleObject = new Map();
+      for (const property of node.properties) {
+        if (property.type === 'SpreadElement') {
+          const spread = resolve(property.argument);
+          if (!(spread instanceof Map)) continue;
+          for (const [key, value] of spread) {
+            object.delete(key);
+            object.set(key, value);
+          }
+        } else if (property.type === 'ObjectProperty') {
+          const key = property.computed
+            ? resolveKey(property.key, resolve)
+            : getPropertyName(property.key);
+          if (key === undefined) continue;
+
+          // A value only known at runtime still overrides an earlier one
+          const value = resolve(property.value);
+          object.delete(key);
+          if (value) object.set(key, value);
+        }
+      }
+      return object;
+    }
+
+    case 'ArrayExpression': {
+      // React Native style arrays merge left to right
+      const object: StyleObject = new Map();
+      for (const element of node.elements) {
+        const style = element && resolve(element);
+        if (!(style instanceof Map)) continue;
+        for (const [key, value] of style) {
+          object.delete(key);
+          object.set(key, value);
+        }
+      }
+      return object;
+    }
+
+    case 'TSAsExpression':
+    case 'TSSatisfiesExpression':
+    case 'TSNonNullExpression':
+    case 'ParenthesizedExpression':
+      return resolve(node.expression);
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Resolve a computed key such as [SIZE_KEY] to a string
+ */
+function resolveKey(node: Node, resolve: StyleResolver): string | undefined {
+  const key = resolve(node);
+  return isValue(key) ? key.value : undefined;
+}
+
+/**
+ * Index the const declarations of the file by name. A name declared more than
+ * once, in different scopes, can't be resolved without scope analysis and
+ * maps to null
+ */
+function collectConstants(ast: File): Map<string, Node | null> {
+  const constants = new Map<string, Node | null>();
+
+  walkAST(ast, (node) => {
+    if (node.type !== 'VariableDeclaration') return;
+
+    for (const declarator of node.declarations) {
+      if (declarator.id.type !== 'Identifier') continue;
+      const name = declarator.id.name;
+      const init = node.kind === 'const' && declarator.init ? declarator.init : null;
+      constants.set(name, constants.has(name) ? null : init);
+    }
+  });
+
+  return constants;
+}
@@ -0,0 +1,198 @@
+/**
+ * Collect the JSX elements a file renders, with the modules they were imported
+ * from and the props they are passed
+ */
+
+import type {
+  JSXAttribute,
+  JSXMemberExpression,
+  JSXNamespacedName,
+  JSXIdentifier,
+  JSXSpreadAttribute,
+} from '@babel/types';
+import {
+  ComponentCallSite,
+  ComponentInfo,
+  ComponentUsageIndex,
+  JSXElementUsage,
+  JSXPropUsage,
+} from '../types';
+import { walkAST, getNodePosition, File, Node } from './astParser';
+
+interface ImportBinding {
+  source: string;
+  imported?: string; // Exported name of a named import
+}
+
+/**
+ * List every JSX element in the file in source order, with the props passed
+ * to components and to native buttons, whose classes component-drift checks.
+ * Fragments are left out since they render nothing
+ */
+export function collectJSXElements(ast: File): JSXElementUsage[] {
+  const imports = collectImportBindings(ast);
+  const elements: JSXElementUsage[] = [];
+
+  walkAST(ast, (node) => {
+    if (node.type !== 'JSXOpeningElement') return;
+
+    const [local, ...members] = getJSXElementName(node.name).split('.');
+    const binding = imports.get(local);
+    const name = [binding?.imported || local, ...members].join('.');
+    if (binding?.source === 'react' && /^(React\.)?Fragment$/.test(name)) return;
+
+    const position = getNodePosition(node);
+    if (!position) return;
+
+    elements.push({
+      name,
+      source: binding?.source,
+      props: isComponentName(name) || name === 'button' ? collectProps(node.attributes) : undefined,
+      line: position.line,
+      column: position.column,
+    });
+  });
+
+  return elements;
+}
+
+/**
+ * Index the components rendered across the project by name, skipping DOM elements
+ */
+export function buildUsageIndex(components: ComponentInfo[]): ComponentUsageIndex {
+  const index: ComponentUsageIndex = {};
+
+  for (const component of components) {
+    const resolved = new Map(component.imports?.map((i) => [i.source, i.resolved]));
+
+    for (const element of component.jsxElements || []) {
+      if (!isComponentName(element.name)) continue;
+
+      (index[element.name] ??= []).push({
+        filePath: component.filePath,
+        line: element.line,
+        column: element.column,
+        source: element.source,
+        resolved: element.source ? resolved.get(element.source) : undefined,
+        props: element.props || [],
+      });
+    }
+  }
+
+  return index;
+}
+
+/**
+ * Get the places a project component is rendered. Elements of the same name
+ * imported from packages, or from other files defining a component of that
+ * name, render other components
+ */
+export function getCallSites(
+  usage: ComponentUsageIndex | undefined,
+  component: { name: string; filePath: string },
+  definitions: Array<{ name: string; filePath: string }>
+): ComponentCallSite[] {
+  const otherFiles = new Set(
+    definitions
+      .filter((d) => d.name === component.name && d.filePath !== component.filePath)
+      .map((d) => d.filePath)
+  );
+
+  return (usage?.[component.name] || []).filter((site) => {
+    if (site.source && !site.resolved) return false;
+    return !otherFiles.has(site.resolved || site.filePath);
+  });
+}
+
+/**
+ * Check whether an element name refers to a component rather than a DOM element
+ */
+export function isComponentName(name: string): boolean {
+  return /^[A-Z_$]/.test(name) || name.includes('.');
+}
+
+/**
+ * Map each imported binding to the module and export it was imported from
+ */
+function collectImportBindings(ast: File): Map<string, ImportBinding> {
+  const bindings = new Map<string, ImportBinding>();
+
+  for (const statement of ast.program.body) {
+    if (statement.type !== 'ImportDeclaration') continue;
+    const source = statement.source.value;
+
+    for (const specifier of statement.specifiers) {
+      const imported =
+        specifier.type === 'ImportSpecifier'
+          ? specifier.imported.type === 'Identifier'
+            ? specifier.imported.name
+            : specifier.imported.value
+          : undefined;
+      bindings.set(specifier.local.name, { source, imported });
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Read the props of an element, keeping the values of literal props. Spread
+ * props are left out since their keys are unknown
+ */
+function collectProps(attributes: Array<JSXAttribute | JSXSpreadAttribute>): JSXPropUsage[] {
+  const props: JSXPropUsage[] = [];
+
+  for (const attribute of attributes) {
+    if (attribute.type !== 'JSXAttribute') continue;
+
+    const name =
+      attribute.name.type === 'JSXIdentifier'
+        ? attribute.name.name
+        : `${attribute.name.namespace.name}:${attribute.name.name.name}`;
+
+    // A prop without a value is true, e.g. <Button disabled />
+    if (!attribute.value) {
+      props.push({ name, value: true });
+      continue;
+    }
+
+    const expression =
+      attribute.value.type === 'JSXExpressionContainer'
+        ? attribute.value.expression
+        : attribute.value;
+    const value = getLiteralValue(expression);
+    props.push(value === undefined ? { name } : { name, value });
+  }
+
+  return props;
+}
+
+/**
+ * Read the value of a string, number or boolean literal
+ */
+function getLiteralValue(node: Node): string | number | boolean | undefined {
+  if (node.type === 'StringLiteral' || node.type === 'NumericLiteral') return node.value;
+  if (node.type === 'BooleanLiteral') return node.value;
+  if (node.type === 'TemplateLiteral' && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked ?? node.quasis[0].value.raw;
+  }
+  if (
+    node.type === 'UnaryExpression' &&
+    node.operator === '-' &&
+    node.argument.type === 'NumericLiteral'
+  ) {
+    return -node.argument.value;
+  }
+  return undefined;
+}
+
+/**
+ * Get the name of a JSX element as written, e.g. 'div', 'Button' or 'UI.Button'
+ */
+export function getJSXElementName(
+  name: JSXIdentifier | JSXMemberExpression | JSXNamespacedName
+): string {
+  if (name.type === 'JSXIdentifier') return name.name;
+  if (name.type === 'JSXNamespacedName') return `${name.namespace.name}:${name.name.name}`;
+  return `${getJSXElementName(name.object)}.${name.property.name}`;
+}
@@ -0,0 +1,123 @@
+/**
+ * Collect what a module imports and exports, resolving imports of project files
+ */
+
+import type { ExportNamedDeclaration } from '@babel/types';
+import { ImportInfo, ImportSpecifierInfo } from '../types';
+import { walkAST, getNodePosition, File, Node } from './astParser';
+import { resolveModule } from './moduleResolver';
+
+export interface ModuleInfo {
+  imports: ImportInfo[];
+  exports: string[];
+  dependencies: string[];
+}
+
+/**
+ * Read the imports, re-exports and exports of a parsed file. Dynamic import()
+ * and require() calls import the whole module. Type-only imports and exports
+ * are left out
+ */
+export function collectModuleInfo(ast: File, filePath: string): ModuleInfo {
+  const imports: ImportInfo[] = [];
+  const exports = new Set<string>();
+
+  const addImport = (
+    node: Node,
+    source: string,
+    specifiers: ImportSpecifierInfo[],
+    reExport?: boolean
+  ) => {
+    const position = getNodePosition(node);
+    imports.push({
+      source,
+      specifiers,
+      resolved: resolveModule(source, filePath),
+      ...(reExport && { reExport }),
+      line: position?.line ?? 1,
+      column: position?.column ?? 1,
+    });
+  };
+
+  for (const statement of ast.program.body) {
+    if (statement.type === 'ImportDeclaration') {
+      if (statement.importKind === 'type' || statement.importKind === 'typeof') continue;
+
+      const specifiers = statement.specifiers.map((specifier) => {
+        if (specifier.type === 'ImportDefaultSpecifier') {
+          return { imported: 'default', local: specifier.local.name };
+        }
+        if (specifier.type === 'ImportNamespaceSpecifier') {
+          return { imported: '*', local: specifier.local.name };
+        }
+        return { imported: getExportName(specifier.imported), local: specifier.local.name };
+      });
+      addImport(statement, statement.source.value, specifiers);
+    } else if (statement.type === 'ExportAllDeclaration') {
+      if (statement.exportKind === 'type') continue;
+      addImport(statement, statement.source.value, [{ imported: '*', local: '*' }], true);
+    } else if (statement.type === 'ExportNamedDeclaration') {
+      if (statement.exportKind === 'type') continue;
+
+      const specifiers: ImportSpecifierInfo[] = [];
+      for (const specifier of statement.specifiers) {
+        const exported = getExportName(specifier.exported);
+        exports.add(exported);
+        if (specifier.type === 'ExportSpecifier') {
+          specifiers.push({ imported: getExportName(specifier.local), local: exported });
+        } else {
+          // export * as name from / export name from
+          const imported = specifier.type === 'ExportNamespaceSpecifier' ? '*' : 'default';
+          specifiers.push({ imported, local: exported });
+        }
+      }
+
+      if (statement.source) {
+        addImport(statement, statement.source.value, specifiers, true);
+      }
+      getDeclaredNames(statement.declaration).forEach((name) => exports.add(name));
+    } else if (statement.type === 'ExportDefaultDeclaration') {
+      exports.add('default');
+    }
+  }
+
+  walkAST(ast, (node) => {
+    if (node.type !== 'CallExpression' || node.arguments[0]?.type !== 'StringLiteral') return;
+
+    const isDynamicImport = node.callee.type === 'Import';
+    const isRequire = node.callee.type === 'Identifier' && node.callee.name === 'require';
+    if (isDynamicImport || isRequire) {
+      addImport(node, node.arguments[0].value, [{ imported: '*', local: '*' }]);
+    }
+  });
+
+  const dependencies = [
+    ...new Set(imports.map((i) => i.resolved).filter((file): file is string => !!file)),
+  ];
+
+  return { imports, exports: [...exports], dependencies };
+}
+
+/**
+ * Get the name of an import or export specifier
+ */
+function getExportName(node: Node): string {
+  if (node.type === 'StringLiteral') return node.value;
+  return node.type === 'Identifier' ? node.name : '';
+}
+
+/**
+ * Get the value names an export declaration introduces
+ */
+function getDeclaredNames(declaration: ExportNamedDeclaration['declaration']): string[] {
+  if (!declaration) return [];
+
+  if (declaration.type === 'FunctionDeclaration' || declaration.type === 'ClassDeclaration') {
+    return declaration.id ? [declaration.id.name] : [];
+  }
+  if (declaration.type === 'VariableDeclaration') {
+    return declaration.declarations.flatMap((d) => (d.id.type === 'Identifier' ? [d.id.name] : []));
+  }
+  // Interfaces, type aliases and other type-only declarations
+  return [];
+}
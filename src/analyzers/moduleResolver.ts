@@ -0,0 +1,233 @@
+/**
+ * Resolve import specifiers to files in the project
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js', '.mjs', '.cjs'];
+
+const CONFIG_FILE_NAMES = ['tsconfig.json', 'jsconfig.json'];
+
+// Config files, and the bases they extend such as tsconfig.base.json
+const RESOLVER_CONFIG = /^[tj]sconfig(\.[\w.-]+)?\.json$/;
+export const RESOLVER_CONFIG_GLOB = '**/{tsconfig,jsconfig}*.json';
+
+export interface PathAliases {
+  baseUrl?: string; // Absolute directory bare imports may resolve from
+  pathsBase: string; // Absolute directory the paths targets are relative to
+  paths: Record<string, string[]>;
+}
+
+// Aliases by config file, and the nearest config file by directory
+const aliasCache = new Map<string, PathAliases | undefined>();
+const configCache = new Map<string, string | undefined>();
+
+/**
+ * Resolve an import to a file the way bundlers do: the exact path, then with
+ * each extension, then an index file in the directory. Besides relative and
+ * absolute imports, the `paths` and `baseUrl` of the nearest tsconfig.json or
+ * jsconfig.json are followed. Other package imports resolve to undefined
+ */
+export function resolveModule(specifier: string, fromFile: string): string | undefined {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return resolveFile(path.resolve(path.dirname(fromFile), specifier));
+  }
+
+  const aliases = loadPathAliases(path.dirname(fromFile));
+  if (!aliases) return undefined;
+
+  for (const target of matchPaths(specifier, aliases.paths)) {
+    const resolved = resolveFile(path.resolve(aliases.pathsBase, target));
+    if (resolved) return resolved;
+  }
+  return aliases.baseUrl ? resolveFile(path.resolve(aliases.baseUrl, specifier)) : undefined;
+}
+
+/**
+ * Check whether a file is a tsconfig or jsconfig file, whose changes call for
+ * clearing the resolver cache
+ */
+export function isResolverConfig(filePath: string): boolean {
+  return RESOLVER_CONFIG.test(path.basename(filePath));
+}
+
+/**
+ * Forget cached tsconfig files, for example after one changed
+ */
+export function clearResolverCache(): void {
+  aliasCache.clear();
+  configCache.clear();
+}
+
+/**
+ * Load the path aliases of the tsconfig.json or jsconfig.json closest to a directory
+ */
+export function loadPathAliases(directory: string): PathAliases | undefined {
+  const configPath = findConfigFile(directory);
+  if (!configPath) return undefined;
+
+  if (!aliasCache.has(configPath)) {
+    aliasCache.set(configPath, readPathAliases(configPath, new Set()));
+  }
+  return aliasCache.get(configPath);
+}
+
+/**
+ * Try a path as a file, with each extension, and as a directory with an index file
+ */
+function resolveFile(basePath: string): string | undefined {
+  const candidates = [
+    basePath,
+    ...RESOLVE_EXTENSIONS.map((ext) => basePath + ext),
+    ...RESOLVE_EXTENSIONS.map((ext) => path.join(basePath, `index${ext}`)),
+  ];
+
+  return candidates.find(isFile);
+}
+
+/**
+ * Get the targets of the paths pattern matching a specifier. Like TypeScript,
+ * an exact pattern wins, then the wildcard pattern with the longest prefix
+ */
+function matchPaths(specifier: string, paths: Record<string, string[]>): string[] {
+  if (paths[specifier]) return paths[specifier];
+
+  let best: { prefix: string; suffix: string; targets: string[] } | undefined;
+  for (const [pattern, targets] of Object.entries(paths)) {
+    const star = pattern.indexOf('*');
+    if (star === -1) continue;
+
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    const fits =
+      specifier.length >= prefix.length + suffix.length &&
+      specifier.startsWith(prefix) &&
+      specifier.endsWith(suffix);
+    if (fits && (!best || prefix.length > best.prefix.length)) {
+      best = { prefix, suffix, targets };
+    }
+  }
+  if (!best) return [];
+
+  const matched = specifier.slice(best.prefix.length, specifier.length - best.suffix.length);
+  return best.targets.map((target) => target.replace('*', matched));
+}
+
+/**
+ * Find the closest tsconfig.json or jsconfig.json in a directory or its parents
+ */
+function findConfigFile(directory: string): string | undefined {
+  if (configCache.has(directory)) return configCache.get(directory);
+
+  let configPath = CONFIG_FILE_NAMES.map((name) => path.join(directory, name)).find(isFile);
+  const parent = path.dirname(directory);
+  if (!configPath && parent !== directory) {
+    configPath = findConfigFile(parent);
+  }
+
+  configCache.set(directory, configPath);
+  return configPath;
+}
+
+/**
+ * Read baseUrl and paths from a config file, following its extends chain
+ */
+function readPathAliases(configPath: string, seen: Set<string>): PathAliases | undefined {
+  if (seen.has(configPath)) return undefined;
+  seen.add(configPath);
+
+  let config: {
+    extends?: string | string[];
+    compilerOptions?: { baseUrl?: string; paths?: Record<string, string[]> };
+  };
+  try {
+    config = JSON.parse(stripJSONComments(fs.readFileSync(configPath, 'utf-8')));
+  } catch {
+    return undefined;
+  }
+
+  // Later bases win, and the config's own options win over its bases
+  let aliases: PathAliases | undefined;
+  const bases = typeof config.extends === 'string' ? [config.extends] : config.extends || [];
+  for (const base of bases) {
+    const basePath = resolveConfigExtends(base, configPath);
+    const baseAliases = basePath && readPathAliases(basePath, seen);
+    if (baseAliases) aliases = baseAliases;
+  }
+
+  const directory = path.dirname(configPath);
+  const { baseUrl, paths } = config.compilerOptions || {};
+  if (baseUrl !== undefined) {
+    const resolvedBaseUrl = path.resolve(directory, baseUrl);
+    aliases = {
+      baseUrl: resolvedBaseUrl,
+      pathsBase: resolvedBaseUrl,
+      paths: aliases?.paths || {},
+    };
+  }
+  if (paths) {
+    aliases = { baseUrl: aliases?.baseUrl, pathsBase: aliases?.baseUrl || directory, paths };
+  }
+
+  return aliases;
+}
+
+/**
+ * Resolve the extends of a config file: a relative path or a package
+ */
+function resolveConfigExtends(base: string, configPath: string): string | undefined {
+  const directory = path.dirname(configPath);
+  if (base.startsWith('.') || path.isAbsolute(base)) {
+    const basePath = path.resolve(directory, base);
+    return [basePath, `${basePath}.json`].find(isFile);
+  }
+
+  try {
+    return require.resolve(base, { paths: [directory] });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Remove comments and trailing commas, which tsconfig files allow, outside of strings
+ */
+function stripJSONComments(source: string): string {
+  let result = '';
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (char === '"') {
+      const start = index++;
+      while (index < source.length && source[index] !== '"') {
+        index += source[index] === '\\' ? 2 : 1;
+      }
+      result += source.slice(start, ++index);
+    } else if (source.startsWith('//', index)) {
+      while (index < source.length && source[index] !== '\n') index++;
+    } else if (source.startsWith('/*', index)) {
+      const end = source.indexOf('*/', index + 2);
+      index = end === -1 ? source.length : end + 2;
+    } else if (char === ',' && /^,\s*[}\]]/.test(source.slice(index))) {
+      index++;
+    } else {
+      result += char;
+      index++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check whether a path is an existing file
+ */
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Shared helpers for classifying and extracting design values from style declarations
+ */
+
+import { StyleValueCategory } from '../types';
+
+const COLOR_PROPERTIES = [
+  'color',
+  'background-color',
+  'border-color',
+  'outline-color',
+  'text-decoration-color',
+  'background',
+  'border',
+  'border-top',
+  'border-right',
+  'border-bottom',
+  'border-left',
+  'box-shadow',
+  'text-shadow',
+];
+
+const SPACING_PROPERTIES = [
+  'margin',
+  'margin-top',
+  'margin-right',
+  'margin-bottom',
+  'margin-left',
+  'padding',
+  'padding-top',
+  'padding-right',
+  'padding-bottom',
+  'padding-left',
+  'gap',
+  'row-gap',
+  'column-gap',
+];
+
+// Properties React renders numbers for without adding px
+const UNITLESS_PROPERTIES = [
+  'animation-iteration-count',
+  'aspect-ratio',
+  'column-count',
+  'columns',
+  'fill-opacity',
+  'flex',
+  'flex-grow',
+  'flex-shrink',
+  'font-weight',
+  'grid-column',
+  'grid-row',
+  'line-height',
+  'opacity',
+  'order',
+  'orphans',
+  'stroke-opacity',
+  'stroke-width',
+  'tab-size',
+  'widows',
+  'z-index',
+  'zoom',
+];
+
+const NAMED_COLORS = [
+  'red',
+  'blue',
+  'green',
+  'yellow',
+  'orange',
+  'purple',
+  'pink',
+  'black',
+  'white',
+  'gray',
+  'grey',
+  'brown',
+  'cyan',
+  'magenta',
+];
+
+// Characters that continue a value, such as the rest of a file name or number
+const TOKEN_CHAR = /[\w.#$@%-]/;
+
+// A SCSS variable, optionally namespaced by its module as in tokens.$primary,
+// or a LESS variable
+export const VARIABLE_REFERENCE = /(?:\b[\w-]+\.)?\$[\w-]+|@[\w-]+/;
+
+/**
+ * Convert a camelCase style property (as used in JSX) to its CSS name
+ */
+export function toCSSProperty(prop: string): string {
+  if (prop.startsWith('--')) return prop;
+  return prop.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+}
+
+/**
+ * Format a number given to a JSX style property the way React renders it:
+ * in pixels, unless the property is unitless or the number is zero
+ */
+export function formatStyleNumber(property: string, value: string): string {
+  if (value === '0' || property.startsWith('--') || UNITLESS_PROPERTIES.includes(property)) {
+    return value;
+  }
+  return `${value}px`;
+}
+
+/**
+ * Check if property is color-related
+ */
+export function isColorProperty(prop: string): boolean {
+  return COLOR_PROPERTIES.includes(prop.toLowerCase());
+}
+
+/**
+ * Check if property is spacing-related
+ */
+export function isSpacingProperty(prop: string): boolean {
+  return SPACING_PROPERTIES.includes(prop.toLowerCase());
+}
+
+/**
+ * Check whether a value reads a design token: a CSS custom property, or a
+ * SCSS or LESS variable
+ */
+export function isTokenReference(value: string): boolean {
+  return value.startsWith('var(') || VARIABLE_REFERENCE.test(value);
+}
+
+/**
+ * Extract color values from CSS value
+ */
+export function extractColors(value: string): string[] {
+  const colors: string[] = [];
+
+  // Hex colors
+  const hexRegex = /#[0-9a-fA-F]{3,8}/g;
+  const hexMatches = value.match(hexRegex);
+  if (hexMatches) colors.push(...hexMatches);
+
+  // RGB/RGBA colors
+  const rgbRegex = /rgba?\([^)]+\)/g;
+  const rgbMatches = value.match(rgbRegex);
+  if (rgbMatches) colors.push(...rgbMatches);
+
+  // HSL/HSLA colors
+  const hslRegex = /hsla?\([^)]+\)/g;
+  const hslMatches = value.match(hslRegex);
+  if (hslMatches) colors.push(...hslMatches);
+
+  // Named colors
+  const words = value.split(/\s+/);
+  for (const word of words) {
+    if (NAMED_COLORS.includes(word.toLowerCase())) {
+      colors.push(word);
+    }
+  }
+
+  // CSS variables
+  const varRegex = /var\(([^)]+)\)/g;
+  const varMatches = value.match(varRegex);
+  if (varMatches) colors.push(...varMatches);
+
+  return colors;
+}
+
+/**
+ * Extract spacing values from CSS value
+ */
+export function extractSpacing(value: string): string[] {
+  const spacings: string[] = [];
+
+  // Split by spaces and process each value
+  const values = value.trim().split(/\s+/);
+  for (const val of values) {
+    // Skip keywords
+    if (!/^(auto|inherit|initial|unset)$/i.test(val)) {
+      spacings.push(val);
+    }
+  }
+
+  return spacings;
+}
+
+/**
+ * Extract the design values of a declaration, grouped by category. In SCSS and
+ * LESS, a term that reads a variable, such as $space-2 or rgba($black, 0.5), is
+ * kept whole as one tokenized value
+ */
+export function extractStyleValues(
+  prop: string,
+  value: string,
+  preprocessor = false
+): Array<{ category: StyleValueCategory; value: string }> {
+  const values: Array<{ category: StyleValueCategory; value: string }> = [];
+  const property = prop.toLowerCase();
+  const terms = preprocessor && VARIABLE_REFERENCE.test(value) ? splitTerms(value) : [value];
+
+  const extractTerms = (category: StyleValueCategory, extract: (term: string) => string[]) => {
+    for (const term of terms) {
+      const extracted = preprocessor && VARIABLE_REFERENCE.test(term) ? [term] : extract(term);
+      values.push(...extracted.map((v) => ({ category, value: v })));
+    }
+  };
+
+  if (isColorProperty(property)) {
+    extractTerms('color', extractColors);
+  }
+  if (isSpacingProperty(property)) {
+    extractTerms('spacing', extractSpacing);
+  }
+  if (property === 'font-size') {
+    values.push({ category: 'fontSize', value });
+  }
+  if (property === 'font-weight') {
+    values.push({ category: 'fontWeight', value });
+  }
+  if (property === 'z-index') {
+    values.push({ category: 'zIndex', value });
+  }
+
+  return values;
+}
+
+/**
+ * Split a value into its space-separated terms, keeping function arguments
+ * together. A value with arithmetic, such as $gap * 2, is one term
+ */
+function splitTerms(value: string): string[] {
+  const terms: string[] = [];
+  let depth = 0;
+  let term = '';
+  for (const char of value.trim()) {
+    if (char === '(') depth++;
+    else if (char === ')') depth--;
+
+    if (depth === 0 && /[\s,]/.test(char)) {
+      if (term) terms.push(term);
+      term = '';
+    } else {
+      term += char;
+    }
+  }
+  if (term) terms.push(term);
+
+  return terms.some((t) => /^[*/+%-]$/.test(t)) ? [value.trim()] : terms;
+}
+
+/**
+ * Find where each extracted value occurs within the raw value string, as a
+ * whole token: 8px isn't found inside url(img-8px.png). Repeated values are
+ * matched left to right; values that cannot be found fall back to the start
+ * of the string.
+ */
+export function locateValues<T extends { value: string }>(
+  raw: string,
+  values: T[]
+): Array<T & { offset: number }> {
+  const searchFrom = new Map<string, number>();
+
+  return values.map((entry) => {
+    const index = findToken(raw, entry.value, searchFrom.get(entry.value) || 0);
+    if (index === -1) {
+      return { ...entry, offset: 0 };
+    }
+    searchFrom.set(entry.value, index + entry.value.length);
+    return { ...entry, offset: index };
+  });
+}
+
+/**
+ * Find the first occurrence of a value that isn't part of a longer token
+ */
+function findToken(raw: string, value: string, from: number): number {
+  for (let index = raw.indexOf(value, from); index !== -1; index = raw.indexOf(value, index + 1)) {
+    const before = raw[index - 1];
+    const after = raw[index + value.length];
+    if (!(before && TOKEN_CHAR.test(before)) && !(after && TOKEN_CHAR.test(after))) {
+      return index;
+    }
+  }
+  return -1;
+}
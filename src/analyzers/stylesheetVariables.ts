@@ -0,0 +1,180 @@
+/**
+ * Resolve the SCSS and LESS variables a stylesheet can read: its own, and the
+ * ones of the partials it loads with @use, @forward or @import
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as postcss from 'postcss';
+import * as postcssScss from 'postcss-scss';
+import postcssLess from 'postcss-less';
+import { VARIABLE_REFERENCE } from './styleValues';
+
+export type PreprocessorSyntax = 'scss' | 'less';
+
+export const PREPROCESSOR_PARSERS: Record<PreprocessorSyntax, postcss.Parser<postcss.Root>> = {
+  scss: postcssScss.parse,
+  less: postcssLess.parse,
+};
+
+type Variables = Record<string, string>;
+
+interface LoadContext {
+  syntax: PreprocessorSyntax;
+  loaded: Map<string, Variables>; // Members of the partials read so far, by path
+  loading: Set<string>; // Partials being read, to stop at import cycles
+}
+
+/**
+ * Collect the variables a stylesheet can read, keyed the way it writes them,
+ * such as $primary, tokens.$primary or @primary, with the values they resolve
+ * to. Partials are looked up next to the stylesheet
+ */
+export async function resolveVariables(
+  filePath: string,
+  root: postcss.Root,
+  syntax: PreprocessorSyntax
+): Promise<Variables> {
+  return collectVariables(filePath, root, {
+    syntax,
+    loaded: new Map(),
+    loading: new Set([filePath]),
+  });
+}
+
+/**
+ * Collect the variables of a stylesheet in source order, resolving each value
+ * against the variables assigned before it
+ */
+async function collectVariables(
+  filePath: string,
+  root: postcss.Root,
+  context: LoadContext
+): Promise<Variables> {
+  const variables: Variables = {};
+  const nodes: postcss.ChildNode[] = [];
+  root.walk((node) => {
+    nodes.push(node);
+  });
+
+  for (const node of nodes) {
+    if (node.type === 'decl' && node.prop.startsWith('$')) {
+      // $name: value !default only assigns when the variable has no value yet
+      if (/!default\b/.test(node.value) && node.prop in variables) continue;
+      const value = node.value.replace(/\s*!(default|global)\b/g, '').trim();
+      variables[node.prop] = resolveValue(value, variables);
+    } else if (node.type === 'atrule' && (node as postcssLess.VariableAtRule).variable) {
+      const value = (node as postcssLess.VariableAtRule).value.trim();
+      variables[`@${node.name}`] = resolveValue(value, variables);
+    } else if (node.type === 'atrule' && ['use', 'forward', 'import'].includes(node.name)) {
+      await loadPartials(filePath, node, variables, context);
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Add the members of the partials an @use, @forward or @import rule loads.
+ * Members of @use are namespaced, by the file name unless the rule sets one
+ */
+async function loadPartials(
+  filePath: string,
+  rule: postcss.AtRule,
+  variables: Variables,
+  context: LoadContext
+): Promise<void> {
+  const urls = [...rule.params.matchAll(/(['"])(.+?)\1/g)].map((match) => match[2]);
+  if (rule.name === 'use') urls.splice(1);
+
+  for (const url of urls) {
+    // Built-in modules such as sass:math, plain CSS and remote files have no variables
+    if (/^(sass:|https?:|\/\/)|\.css$/.test(url)) continue;
+
+    const partial = await findPartial(path.dirname(filePath), url, context.syntax);
+    if (!partial) continue;
+
+    const members = await loadMembers(partial, context);
+    const namespace = rule.name === 'use' ? getNamespace(rule.params, url) : null;
+    for (const [name, value] of Object.entries(members)) {
+      variables[namespace ? `${namespace}.${name}` : name] = value;
+    }
+  }
+}
+
+/**
+ * Read the variables a partial makes available to the stylesheets loading it.
+ * Members a partial reads through a namespace of its own aren't passed on
+ */
+async function loadMembers(filePath: string, context: LoadContext): Promise<Variables> {
+  const cached = context.loaded.get(filePath);
+  if (cached) return cached;
+  if (context.loading.has(filePath)) return {};
+
+  context.loading.add(filePath);
+  let members: Variables = {};
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const root = PREPROCESSOR_PARSERS[context.syntax](content, { from: filePath });
+    const variables = await collectVariables(filePath, root, context);
+    members = Object.fromEntries(Object.entries(variables).filter(([name]) => !name.includes('.')));
+  } catch {
+    // A partial that can't be read or parsed adds no variables
+  }
+  context.loading.delete(filePath);
+  context.loaded.set(filePath, members);
+
+  return members;
+}
+
+/**
+ * Find the file an import URL loads. SCSS URLs may leave out the extension, the
+ * underscore of a partial, or name a directory with an index file
+ */
+async function findPartial(
+  directory: string,
+  url: string,
+  syntax: PreprocessorSyntax
+): Promise<string | null> {
+  const base = path.resolve(directory, url);
+  const name = path.basename(base);
+  const candidates =
+    syntax === 'less'
+      ? [path.extname(base) ? base : `${base}.less`]
+      : path.extname(base)
+        ? [base, path.join(path.dirname(base), `_${name}`)]
+        : [
+            `${base}.scss`,
+            path.join(path.dirname(base), `_${name}.scss`),
+            path.join(base, '_index.scss'),
+            path.join(base, 'index.scss'),
+          ];
+
+  for (const candidate of candidates) {
+    if (await fs.pathExists(candidate)) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Get the namespace of an @use rule: the one set with as, none for as *, or
+ * the file name without its underscore and extension
+ */
+function getNamespace(params: string, url: string): string | null {
+  const alias = params.match(/\bas\s+([\w-]+|\*)/);
+  if (alias) return alias[1] === '*' ? null : alias[1];
+  return path
+    .basename(url)
+    .replace(/^_/, '')
+    .replace(/\.scss$/, '');
+}
+
+/**
+ * Replace the variables a value reads with their values, leaving unknown ones
+ */
+function resolveValue(value: string, variables: Variables): string {
+  return value.replace(
+    new RegExp(VARIABLE_REFERENCE.source, 'g'),
+    (reference) => variables[reference] ?? reference
+  );
+}
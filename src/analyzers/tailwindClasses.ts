@@ -0,0 +1,251 @@
+/**
+ * Resolve Tailwind utility classes against a project's theme: the scale a class
+ * draws from, the value it sets, and whether it is an arbitrary value such as
+ * p-[13px] or a key the theme doesn't define
+ */
+
+import { StyleValueCategory, TailwindScale, TailwindTheme } from '../types';
+import { normalizeTokenValue } from '../tokens/tokenIndex';
+
+export interface TailwindClass {
+  className: string;
+  utility: string; // The utility without its value, e.g. 'px' for px-4
+  category: StyleValueCategory;
+  key: string; // The theme key, or the value inside the brackets of an arbitrary class
+  value?: string; // What the class sets; undefined when the theme has no such key
+  arbitrary: boolean;
+  head: string; // What comes before the utility: variants, !, the sign and the prefix
+  tail: string; // What comes after the key: opacity modifiers and a trailing !
+}
+
+const THEME_SCALES: Record<StyleValueCategory, TailwindScale> = {
+  color: 'colors',
+  spacing: 'spacing',
+  fontSize: 'fontSize',
+  fontWeight: 'fontWeight',
+  zIndex: 'zIndex',
+};
+
+const SPACING_UTILITIES = [
+  'p',
+  'px',
+  'py',
+  'pt',
+  'pr',
+  'pb',
+  'pl',
+  'ps',
+  'pe',
+  'm',
+  'mx',
+  'my',
+  'mt',
+  'mr',
+  'mb',
+  'ml',
+  'ms',
+  'me',
+  'gap',
+  'gap-x',
+  'gap-y',
+  'space-x',
+  'space-y',
+];
+
+// Utilities that take a color; most of them take a width or size too
+const COLOR_UTILITIES = [
+  'bg',
+  'text',
+  'border',
+  'border-x',
+  'border-y',
+  'border-t',
+  'border-r',
+  'border-b',
+  'border-l',
+  'border-s',
+  'border-e',
+  'divide',
+  'outline',
+  'ring',
+  'ring-offset',
+  'shadow',
+  'decoration',
+  'accent',
+  'caret',
+  'fill',
+  'stroke',
+  'placeholder',
+  'from',
+  'via',
+  'to',
+];
+
+// Longest first, so border-t-red-500 matches border-t rather than border
+const UTILITIES = [...SPACING_UTILITIES, ...COLOR_UTILITIES, 'font', 'z'].sort(
+  (a, b) => b.length - a.length
+);
+
+// Keys shaped like a color family and shade, such as brand-700, but not
+// bg-opacity-50 or divide-x-2
+const COLOR_KEY = /^[a-z]+(-[a-z]+)*-\d{2,3}$/;
+const NOT_COLOR_KEY = /^(opacity|offset|x|y)-/;
+
+// Keys shaped like a step of the font size scale, such as md or 10xl
+const FONT_SIZE_KEY = /^(\d*x[sl]|sm|md|base|lg)$/;
+
+const NUMBER = /^\d+(\.\d+)?$/;
+const LENGTH = /^-?\d*\.?\d+(px|r?em|%|vw|vh|ch|ex|pt)?$|^(calc|clamp|min|max)\(/;
+const COLOR = /^#[\da-f]{3,8}$|^(rgba?|hsla?|hwb|lab|lch|oklab|oklch|color)\(/i;
+
+/**
+ * Parse a class into the theme value it uses, or undefined when it isn't a
+ * spacing, color, font size, font weight or z-index utility. Variants such as
+ * hover: and md:, the important modifier, negative values and opacity
+ * modifiers like /50 are stripped
+ */
+export function parseTailwindClass(
+  className: string,
+  theme: TailwindTheme
+): TailwindClass | undefined {
+  const important = className.endsWith('!') ? '!' : '';
+  let utility = stripVariants(className).replace(/^!|!$/g, '').replace(/^-/, '');
+  if (theme.prefix) {
+    if (!utility.startsWith(theme.prefix)) return undefined;
+    utility = utility.slice(theme.prefix.length);
+  }
+
+  const name = UTILITIES.find((candidate) => utility.startsWith(`${candidate}-`));
+  if (!name) return undefined;
+
+  const rest = utility.slice(name.length + 1);
+  const bracketed = rest.match(/^\[(.+)\](\/.+)?$/);
+  let key: string;
+  let hint: string | undefined;
+  let modifier: string;
+  if (bracketed) {
+    // Underscores stand for spaces, and a type hint such as color: may lead
+    const typed = bracketed[1].replace(/_/g, ' ').match(/^([a-z-]+):(.+)$/);
+    hint = typed?.[1];
+    key = typed ? typed[2] : bracketed[1].replace(/_/g, ' ');
+    modifier = bracketed[2] ?? '';
+  } else {
+    modifier = rest.match(/\/[\w.]+$/)?.[0] ?? '';
+    key = rest.slice(0, rest.length - modifier.length);
+  }
+
+  const category = getCategory(name, key, !!bracketed, hint, theme);
+  if (!category) return undefined;
+
+  return {
+    className,
+    utility: name,
+    category,
+    key,
+    value: bracketed ? key : getThemeValue(theme[THEME_SCALES[category]], key),
+    arbitrary: !!bracketed,
+    head: className.slice(0, className.length - important.length - utility.length),
+    tail: modifier + important,
+  };
+}
+
+/**
+ * Build the class that uses another theme key in place of a parsed one,
+ * keeping its variants, sign, prefix and modifiers: -tw-m-[13px] with key 3
+ * gives -tw-m-3
+ */
+export function withThemeKey(parsed: TailwindClass, key: string): string {
+  return `${parsed.head}${parsed.utility}-${key}${parsed.tail}`;
+}
+
+/**
+ * Find the theme key that sets a value, to suggest in place of an arbitrary
+ * value. Lengths in px and rem match each other
+ */
+export function findThemeKey(
+  theme: TailwindTheme,
+  category: StyleValueCategory,
+  value: string
+): string | undefined {
+  const target = normalizeThemeValue(value);
+  return Object.entries(theme[THEME_SCALES[category]]).find(
+    ([, themeValue]) => normalizeThemeValue(themeValue) === target
+  )?.[0];
+}
+
+/**
+ * Get the scale a utility reads its key from. Utilities such as text-, border-
+ * and font- set different properties depending on the key
+ */
+function getCategory(
+  utility: string,
+  key: string,
+  arbitrary: boolean,
+  hint: string | undefined,
+  theme: TailwindTheme
+): StyleValueCategory | undefined {
+  // Keywords such as m-auto and space-x-reverse aren't scale keys
+  if (SPACING_UTILITIES.includes(utility)) {
+    return arbitrary || hasKey(theme.spacing, key) || NUMBER.test(key) ? 'spacing' : undefined;
+  }
+  if (utility === 'z') {
+    return arbitrary || hasKey(theme.zIndex, key) || NUMBER.test(key) ? 'zIndex' : undefined;
+  }
+
+  if (utility === 'font') {
+    if (arbitrary) return hint === 'weight' || NUMBER.test(key) ? 'fontWeight' : undefined;
+    return hasKey(theme.fontWeight, key) ? 'fontWeight' : undefined;
+  }
+
+  if (arbitrary) {
+    if (hint === 'color' || COLOR.test(key)) return 'color';
+    if (utility === 'text' && (hint === 'length' || LENGTH.test(key))) return 'fontSize';
+    return undefined;
+  }
+
+  if (utility === 'text' && (hasKey(theme.fontSize, key) || FONT_SIZE_KEY.test(key))) {
+    return 'fontSize';
+  }
+  // Other keys, like the widths of border-2 or the sizes of shadow-lg, aren't colors
+  if (hasKey(theme.colors, key)) return 'color';
+  return COLOR_KEY.test(key) && !NOT_COLOR_KEY.test(key) ? 'color' : undefined;
+}
+
+/**
+ * Check whether a scale defines a key
+ */
+function hasKey(scale: Record<string, string>, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(scale, key);
+}
+
+/**
+ * Get the value a scale defines for a key
+ */
+function getThemeValue(scale: Record<string, string>, key: string): string | undefined {
+  return hasKey(scale, key) ? scale[key] : undefined;
+}
+
+/**
+ * Remove the variants of a class, such as md:hover:, keeping colons inside
+ * brackets like bg-[color:red]
+ */
+function stripVariants(className: string): string {
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < className.length; i++) {
+    const char = className[i];
+    if (char === '[') depth++;
+    else if (char === ']') depth--;
+    else if (char === ':' && depth === 0) start = i + 1;
+  }
+  return className.slice(start);
+}
+
+/**
+ * Normalize a theme value for comparison, converting rem lengths to px
+ */
+function normalizeThemeValue(value: string): string {
+  const normalized = normalizeTokenValue(value);
+  const rem = normalized.match(/^(-?\d*\.?\d+)rem$/);
+  return rem ? `${parseFloat(rem[1]) * 16}px` : normalized;
+}
@@ -0,0 +1,229 @@
+/**
+ * Load the theme of a project's Tailwind config: the colors, spacing and type
+ * scales its utility classes draw from
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { loadModule } from '../config/configFiles';
+import { TailwindScale, TailwindTheme } from '../types';
+
+export const TAILWIND_CONFIG_FILES = [
+  'tailwind.config.ts',
+  'tailwind.config.js',
+  'tailwind.config.cjs',
+  'tailwind.config.mjs',
+];
+
+type ThemeValues = Record<string, unknown>;
+
+interface TailwindConfig {
+  prefix?: string;
+  theme?: ThemeValues & { extend?: ThemeValues };
+}
+
+const THEME_SCALES: TailwindScale[] = ['colors', 'spacing', 'fontSize', 'fontWeight', 'zIndex'];
+
+// Color families of Tailwind's default palette, with the shades each one has
+const DEFAULT_COLOR_FAMILIES = [
+  'slate',
+  'gray',
+  'zinc',
+  'neutral',
+  'stone',
+  'red',
+  'orange',
+  'amber',
+  'yellow',
+  'lime',
+  'green',
+  'emerald',
+  'teal',
+  'cyan',
+  'sky',
+  'blue',
+  'indigo',
+  'violet',
+  'purple',
+  'fuchsia',
+  'pink',
+  'rose',
+];
+const DEFAULT_COLOR_SHADES = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
+const DEFAULT_SPACING_STEPS = [
+  0.5, 1, 1.5, 2, 2.5, 3, 3.5, 4, 5, 6, 7, 8, 9, 10, 11, 12, 14, 16, 20, 24, 28, 32, 36, 40, 44, 48,
+  52, 56, 60, 64, 72, 80, 96,
+];
+
+/**
+ * The scales of Tailwind's default theme, used when the project's tailwindcss
+ * can't resolve the config. Palette colors resolve to the CSS variables
+ * Tailwind 4 defines for them, as their values depend on the version
+ */
+const DEFAULT_THEME: Record<TailwindScale, ThemeValues> = {
+  colors: {
+    inherit: 'inherit',
+    current: 'currentColor',
+    transparent: 'transparent',
+    black: '#000',
+    white: '#fff',
+    ...Object.fromEntries(
+      DEFAULT_COLOR_FAMILIES.map((family) => [
+        family,
+        Object.fromEntries(
+          DEFAULT_COLOR_SHADES.map((shade) => [shade, `var(--color-${family}-${shade})`])
+        ),
+      ])
+    ),
+  },
+  spacing: {
+    px: '1px',
+    0: '0px',
+    ...Object.fromEntries(DEFAULT_SPACING_STEPS.map((step) => [step, `${step / 4}rem`])),
+  },
+  fontSize: {
+    xs: '0.75rem',
+    sm: '0.875rem',
+    base: '1rem',
+    lg: '1.125rem',
+    xl: '1.25rem',
+    '2xl': '1.5rem',
+    '3xl': '1.875rem',
+    '4xl': '2.25rem',
+    '5xl': '3rem',
+    '6xl': '3.75rem',
+    '7xl': '4.5rem',
+    '8xl': '6rem',
+    '9xl': '8rem',
+  },
+  fontWeight: {
+    thin: '100',
+    extralight: '200',
+    light: '300',
+    normal: '400',
+    medium: '500',
+    semibold: '600',
+    bold: '700',
+    extrabold: '800',
+    black: '900',
+  },
+  zIndex: { 0: '0', 10: '10', 20: '20', 30: '30', 40: '40', 50: '50', auto: 'auto' },
+};
+
+/**
+ * Find the Tailwind config of a project, or null when it has none
+ */
+export async function findTailwindConfig(projectPath: string): Promise<string | null> {
+  for (const fileName of TAILWIND_CONFIG_FILES) {
+    const filePath = path.join(projectPath, fileName);
+    if (await fs.pathExists(filePath)) return filePath;
+  }
+  return null;
+}
+
+/**
+ * Load the theme of a project's Tailwind config, or null when it has none.
+ * The config is resolved with the project's tailwindcss when it is installed,
+ * and merged over Tailwind's default theme otherwise
+ */
+export async function loadTailwindTheme(projectPath: string): Promise<TailwindTheme | null> {
+  const configPath = await findTailwindConfig(projectPath);
+  if (!configPath) return null;
+
+  let config: TailwindConfig;
+  try {
+    config = ((await loadModule(configPath)) || {}) as TailwindConfig;
+  } catch (error) {
+    throw new Error(
+      `Failed to load ${path.basename(configPath)}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const theme = (await resolveWithTailwind(config, projectPath)) ?? resolveTheme(config);
+
+  return {
+    configPath,
+    prefix: config.prefix || '',
+    ...(Object.fromEntries(
+      THEME_SCALES.map((scale) => [scale, flattenScale(theme[scale])])
+    ) as Record<TailwindScale, Record<string, string>>),
+  };
+}
+
+/**
+ * Resolve a config with the project's own tailwindcss, which knows the exact
+ * defaults of its version. Tailwind 4 no longer ships resolveConfig
+ */
+async function resolveWithTailwind(
+  config: TailwindConfig,
+  projectPath: string
+): Promise<ThemeValues | null> {
+  try {
+    const resolve = (await loadModule(
+      require.resolve('tailwindcss/resolveConfig', { paths: [projectPath] })
+    )) as (config: unknown) => { theme: ThemeValues };
+    return resolve(config).theme;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merge a config's theme over the default theme: a scale set in theme replaces
+ * the default one, and a scale set in theme.extend adds to it
+ */
+function resolveTheme(config: TailwindConfig): ThemeValues {
+  const { extend = {}, ...overrides } = config.theme || {};
+  const theme: ThemeValues = {};
+
+  // Scales written as functions read other scales, e.g. ({ theme }) => theme('spacing')
+  const evaluate = (value: unknown): ThemeValues => {
+    if (typeof value !== 'function') return (value as ThemeValues) || {};
+    try {
+      return value({
+        theme: (key: string) => getThemeValue(theme, key),
+        colors: DEFAULT_THEME.colors,
+      });
+    } catch {
+      return {};
+    }
+  };
+
+  for (const scale of THEME_SCALES) {
+    const base = scale in overrides ? evaluate(overrides[scale]) : DEFAULT_THEME[scale];
+    theme[scale] = { ...base, ...evaluate(extend[scale]) };
+  }
+  return theme;
+}
+
+/**
+ * Read a theme value by its dotted path, as theme('colors.blue.500') does
+ */
+function getThemeValue(theme: ThemeValues, key: string): unknown {
+  return key
+    .split('.')
+    .reduce<unknown>((value, part) => (value as ThemeValues | undefined)?.[part], theme);
+}
+
+/**
+ * Flatten a scale to the keys classes use: nested colors join with a dash and
+ * DEFAULT names the color itself. A font size given as [size, lineHeight]
+ * keeps the size
+ */
+function flattenScale(scale: unknown, prefix = ''): Record<string, string> {
+  const flattened: Record<string, string> = {};
+  if (!scale || typeof scale !== 'object') return flattened;
+
+  for (const [key, value] of Object.entries(scale)) {
+    const name = key === 'DEFAULT' ? prefix.replace(/-$/, '') : prefix + key;
+    if (typeof value === 'string' || typeof value === 'number') {
+      flattened[name] = String(value);
+    } else if (Array.isArray(value) && typeof value[0] === 'string') {
+      flattened[name] = value[0];
+    } else if (value && typeof value === 'object') {
+      Object.assign(flattened, flattenScale(value, `${name}-`));
+    }
+  }
+  return flattened;
+}
@@ -0,0 +1,175 @@
+/**
+ * CI quality gate that checks drift results against configured thresholds
+ */
+
+import { DriftViolation } from '../types';
+import { GuruConfig } from '../config/configLoader';
+import { DriftAnalysisResult } from '../drift-detector/driftAnalyzer';
+import { DriftBaseline } from '../drift-detector/baseline';
+
+export type FailCondition = 'new-errors' | 'any-error' | 'score-drop' | 'thresholds';
+
+export const FAIL_CONDITIONS: FailCondition[] = [
+  'new-errors',
+  'any-error',
+  'score-drop',
+  'thresholds',
+];
+
+export interface QualityGateOptions {
+  failOn: FailCondition[];
+  minScore?: number; // Overrides thresholds.compliance
+  maxViolations?: number; // Overrides thresholds.maxViolations
+  changedOnly?: boolean; // Only changed files were analyzed
+}
+
+export interface GateFailure {
+  condition: FailCondition;
+  message: string;
+}
+
+export interface QualityGateResult {
+  passed: boolean;
+  failures: GateFailure[];
+  notes: string[];
+  score: number;
+  newViolations: number;
+  newErrors: number;
+  totalErrors: number;
+}
+
+export class QualityGate {
+  private config: GuruConfig;
+  private options: QualityGateOptions;
+
+  constructor(config: GuruConfig, options: QualityGateOptions) {
+    this.config = config;
+    this.options = options;
+  }
+
+  /**
+   * Parse a comma-separated --fail-on value. At least one condition is needed,
+   * so the gate can't be turned off by an empty value
+   */
+  static parseConditions(value: string): FailCondition[] {
+    const conditions = value
+      .split(',')
+      .map((c) => c.trim())
+      .filter(Boolean);
+
+    for (const condition of conditions) {
+      if (!FAIL_CONDITIONS.includes(condition as FailCondition)) {
+        throw new Error(
+          `Unknown --fail-on condition "${condition}". Expected one of: ${FAIL_CONDITIONS.join(', ')}`
+        );
+      }
+    }
+
+    if (conditions.length === 0) {
+      throw new Error(
+        `--fail-on needs at least one condition. Expected one of: ${FAIL_CONDITIONS.join(', ')}`
+      );
+    }
+
+    return conditions as FailCondition[];
+  }
+
+  /**
+   * Parse a --min-score value, a compliance score from 0 to 100
+   */
+  static parseMinScore(value: string): number {
+    const score = Number(value);
+    if (!value.trim() || !Number.isFinite(score) || score < 0 || score > 100) {
+      throw new Error(`--min-score must be a number from 0 to 100, got "${value}"`);
+    }
+    return score;
+  }
+
+  /**
+   * Parse a --max-violations value, a whole number of violations
+   */
+  static parseMaxViolations(value: string): number {
+    const count = Number(value);
+    if (!value.trim() || !Number.isFinite(count) || !Number.isInteger(count) || count < 0) {
+      throw new Error(`--max-violations must be a non-negative whole number, got "${value}"`);
+    }
+    return count;
+  }
+
+  /**
+   * Evaluate a drift result against the enabled fail conditions
+   */
+  evaluate(result: DriftAnalysisResult, baseline: DriftBaseline | null): QualityGateResult {
+    const failures: GateFailure[] = [];
+    const notes: string[] = [];
+    const failOn = new Set(this.options.failOn);
+
+    const newViolations = result.violations;
+    const allViolations = [...newViolations, ...(result.baselinedViolations || [])];
+    const newErrors = this.countErrors(newViolations);
+    const totalErrors = this.countErrors(allViolations);
+
+    if (failOn.has('new-errors') && newErrors > 0) {
+      failures.push({
+        condition: 'new-errors',
+        message: `${newErrors} new error(s) ${baseline ? 'not in the baseline' : 'found'}`,
+      });
+    }
+
+    if (failOn.has('any-error') && totalErrors > 0) {
+      failures.push({
+        condition: 'any-error',
+        message: `${totalErrors} error(s) found`,
+      });
+    }
+
+    if (failOn.has('score-drop')) {
+      if (this.options.changedOnly) {
+        notes.push('score-drop skipped: only changed files were analyzed');
+      } else if (baseline?.complianceScore === undefined) {
+        notes.push('score-drop skipped: the baseline has no recorded compliance score');
+      } else if (result.complianceScore < baseline.complianceScore) {
+        failures.push({
+          condition: 'score-drop',
+          message: `Compliance score dropped from ${baseline.complianceScore}% to ${result.complianceScore}%`,
+        });
+      }
+    }
+
+    if (failOn.has('thresholds')) {
+      const minScore = this.options.minScore ?? this.config.thresholds?.compliance;
+      const maxViolations = this.options.maxViolations ?? this.config.thresholds?.maxViolations;
+
+      if (minScore !== undefined && result.complianceScore < minScore) {
+        failures.push({
+          condition: 'thresholds',
+          message: `Compliance score ${result.complianceScore}% is below the ${minScore}% threshold`,
+        });
+      }
+
+      if (maxViolations !== undefined && newViolations.length > maxViolations) {
+        failures.push({
+          condition: 'thresholds',
+          message: `${newViolations.length} violations exceed the maximum of ${maxViolations}`,
+        });
+      }
+    }
+
+    return {
+      passed: failures.length === 0,
+      failures,
+      notes,
+      score: result.complianceScore,
+      newViolations: newViolations.length,
+      newErrors,
+      totalErrors,
+    };
+  }
+
+  /**
+   * Count violations whose rule is configured as an error
+   */
+  private countErrors(violations: DriftViolation[]): number {
+    return violations.filter((v) => v.severity === 'error').length;
+  }
+}
@@ -4,20 +4,54 @@
  * React Codebase Guru CLI
  */
 
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import chalk from 'chalk';
 import * as path from 'path';
 import * as fs from 'fs-extra';
+import * as readline from 'readline';
 import { ProjectAnalyzer } from '../core/projectAnalyzer';
-import { ProjectAnalysis } from '../types';
+import { DeadCodeReport, ImportCycle, ProjectAnalysis } from '../types';
+import {
+  buildDependencyGraph,
+  findImportCycles,
+  graphToDot,
+  graphToJSON,
+} from '../analyzers/dependencyGraph';
 import { FileWatcher } from '../watcher/fileWatcher';
 import { ConfigLoader } from '../config/configLoader';
+import { findConfigFile } from '../config/configFiles';
+import { PatternStorage } from '../patterns/patternStorage';
+import { DesignSpecStorage, PatternProposal, SPEC_FILE_NAME } from '../patterns/designSpec';
+import { BaselineStorage, BASELINE_FILE_NAME } from '../drift-detector/baseline';
+import { QualityGate, QualityGateResult, FAIL_CONDITIONS } from '../ci/qualityGate';
+import { SarifReporter } from '../reporters/sarifReporter';
+import { JUnitReporter } from '../reporters/junitReporter';
+import { CheckstyleReporter } from '../reporters/checkstyleReporter';
+import { getChangedFiles, getUnstagedFiles } from '../utils/gitChanges';
+import { HookInstaller, HookInstallResult } from '../hooks/hookInstaller';
+import { FixEngine, assertFixableRules, createUnifiedDiff } from '../fix/fixEngine';
+import { getCallSites } from '../analyzers/jsxElements';
 
 const program = new Command();
 
 // Package info
 const packageJson = require('../../package.json');
 
+/**
+ * Machine-readable report formats and their default file names
+ */
+type Reporter = SarifReporter | JUnitReporter | CheckstyleReporter;
+
+const REPORT_FORMATS: Record<string, { fileName: string; label: string; reporter: () => Reporter }> = {
+  sarif: { fileName: 'guru.sarif', label: 'SARIF', reporter: () => new SarifReporter() },
+  junit: { fileName: 'guru-junit.xml', label: 'JUnit', reporter: () => new JUnitReporter() },
+  checkstyle: {
+    fileName: 'guru-checkstyle.xml',
+    label: 'Checkstyle',
+    reporter: () => new CheckstyleReporter(),
+  },
+};
+
 program
   .name('guru')
   .description('React Codebase Guru - Real-time design system drift detection')
@@ -31,10 +65,18 @@ program
   .description('Analyze your React project for design system drift')
   .option('-p, --path <path>', 'Project path to analyze', process.cwd())
   .option('-o, --output <path>', 'Output file path for analysis results')
-  .option('-f, --format <format>', 'Output format (json, markdown)', 'json')
+  .option(
+    '-f, --format <format>',
+    'Output format (json, markdown, sarif, junit, checkstyle)',
+    'json'
+  )
   .option('-v, --verbose', 'Verbose output', false)
   .option('--include <patterns>', 'Include patterns (comma-separated)', '')
   .option('--exclude <patterns>', 'Exclude patterns (comma-separated)', '')
+  .option('--no-baseline', `Report all violations, ignoring ${BASELINE_FILE_NAME}`)
+  .option('--changed-since <ref>', 'Only analyze files changed since a git ref')
+  .option('--staged', 'Only analyze staged files, as they are in the working tree', false)
+  .option('--workspaces', 'Analyze each package of an npm, yarn or pnpm workspace', false)
   .action(async (options) => {
     try {
       console.log(chalk.cyan('\n🎯 React Codebase Guru - Drift Detection\n'));
@@ -43,20 +85,29 @@ program
       const include = options.include ? options.include.split(',').map((p: string) => p.trim()) : undefined;
       const exclude = options.exclude ? options.exclude.split(',').map((p: string) => p.trim()) : undefined;
 
+      const projectPath = path.resolve(options.path);
+      const changedFiles = await resolveChangedFiles(projectPath, options);
+
       // Create analyzer
       const analyzer = new ProjectAnalyzer({
-        projectPath: path.resolve(options.path),
+        projectPath,
         include,
         exclude,
         verbose: options.verbose,
+        useBaseline: options.baseline !== false,
+        changedFiles,
       });
 
       // Run analysis
-      const analysis = await analyzer.analyzeProject();
+      const analysis = options.workspaces
+        ? (await analyzer.analyzeWorkspaces()).aggregate
+        : await analyzer.analyzeProject();
 
       // Output results
       if (options.format === 'markdown') {
         await outputMarkdown(analysis, options.output);
+      } else if (options.format !== 'json') {
+        await outputReport(options.format, analysis, analyzer, options.output);
       } else {
         await analyzer.saveAnalysis(analysis, options.output);
       }
@@ -77,6 +128,8 @@ program
   .command('init')
   .description('Initialize React Codebase Guru in your project')
   .option('-p, --path <path>', 'Project path', process.cwd())
+  .option('--hooks', 'Install git pre-commit and pre-push hooks without asking')
+  .option('--no-hooks', 'Skip installing git hooks')
   .action(async (options) => {
     try {
       console.log(chalk.cyan('\n🎯 Initializing React Codebase Guru...\n'));
@@ -91,8 +144,11 @@ program
 
       // Create config file
       const configPath = path.join(projectPath, 'guru.config.js');
-      if (await fs.pathExists(configPath)) {
-        console.log(chalk.yellow('⚠️  Configuration file already exists'));
+      const existingConfig = await findConfigFile(projectPath);
+      if (existingConfig) {
+        console.log(
+          chalk.yellow(`⚠️  Configuration file already exists (${path.basename(existingConfig)})`)
+        );
       } else {
         await createDefaultConfig(configPath);
         console.log(chalk.green('✅ Created guru.config.js'));
@@ -107,6 +163,20 @@ program
       await updateGitignore(projectPath);
       console.log(chalk.green('✅ Updated .gitignore'));
 
+      // Offer to install git hooks
+      const installHooks =
+        options.hooks ??
+        (process.stdin.isTTY && (await confirm('Install git pre-commit and pre-push hooks?')));
+      if (installHooks) {
+        try {
+          printHookResult(await new HookInstaller(projectPath).install(), 'Installed');
+        } catch (error) {
+          console.log(
+            chalk.yellow(`⚠️  Git hooks not installed: ${error instanceof Error ? error.message : error}`)
+          );
+        }
+      }
+
       console.log(chalk.green('\n✨ Initialization complete!'));
       console.log(chalk.gray('\nNext steps:'));
       console.log(chalk.gray('  1. Run "guru scan" to analyze your project'));
@@ -280,6 +350,409 @@ program
     }
   });
 
+/**
+ * CI command - run analysis and fail the build when the quality gate fails
+ */
+program
+  .command('ci')
+  .description('Analyze the project and exit non-zero when the quality gate fails')
+  .option('-p, --path <path>', 'Project path to analyze', process.cwd())
+  .option(
+    '--fail-on <conditions>',
+    `Comma-separated fail conditions (${FAIL_CONDITIONS.join(', ')}); ` +
+      'new-errors ignores errors recorded in the baseline, any-error counts them',
+    'new-errors,thresholds'
+  )
+  .option(
+    '--min-score <score>',
+    'Minimum compliance score (overrides thresholds.compliance)',
+    toOptionParser(QualityGate.parseMinScore)
+  )
+  .option(
+    '--max-violations <count>',
+    'Maximum new violations (overrides thresholds.maxViolations)',
+    toOptionParser(QualityGate.parseMaxViolations)
+  )
+  .option('-f, --format <format>', 'Also write a report (sarif, junit, checkstyle)')
+  .option('-o, --output <path>', 'Output file path for the report')
+  .option('-v, --verbose', 'Verbose output', false)
+  .option('--include <patterns>', 'Include patterns (comma-separated)', '')
+  .option('--exclude <patterns>', 'Exclude patterns (comma-separated)', '')
+  .option('--changed-since <ref>', 'Only analyze files changed since a git ref')
+  .option('--staged', 'Only analyze staged files, as they are in the working tree', false)
+  .action(async (options) => {
+    try {
+      const projectPath = path.resolve(options.path);
+      const failOn = QualityGate.parseConditions(options.failOn);
+      if (options.format) {
+        getReportFormat(options.format);
+      }
+
+      const include = options.include ? options.include.split(',').map((p: string) => p.trim()) : undefined;
+      const exclude = options.exclude ? options.exclude.split(',').map((p: string) => p.trim()) : undefined;
+
+      const analyzer = new ProjectAnalyzer({
+        projectPath,
+        include,
+        exclude,
+        verbose: options.verbose,
+        enableAnalytics: false,
+        changedFiles: await resolveChangedFiles(projectPath, options),
+      });
+
+      const analysis = await analyzer.analyzeProject();
+      const driftResult = analyzer.getDriftResult();
+      if (!driftResult) {
+        throw new Error('Analysis did not produce a drift result');
+      }
+
+      if (options.format) {
+        await outputReport(options.format, analysis, analyzer, options.output);
+      }
+
+      const config = await new ConfigLoader(projectPath).loadConfig();
+      const baseline = await new BaselineStorage(projectPath).loadBaseline();
+      const gate = new QualityGate(config, {
+        failOn,
+        minScore: options.minScore,
+        maxViolations: options.maxViolations,
+        changedOnly: analysis.scope === 'changed',
+      });
+
+      const result = gate.evaluate(driftResult, baseline);
+      printGateResult(result, driftResult.violations, projectPath);
+
+      process.exit(result.passed ? 0 : 1);
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(2);
+    }
+  });
+
+/**
+ * Fix command - apply automatic fixes for drift violations
+ */
+program
+  .command('fix')
+  .description('Automatically fix drift violations that have a known fix')
+  .option('-p, --path <path>', 'Project path', process.cwd())
+  .option('--dry-run', 'Show a diff of the fixes without writing files', false)
+  .option('-r, --rule <rules>', 'Only fix these rules (comma-separated)')
+  .option('-v, --verbose', 'Verbose output', false)
+  .action(async (options) => {
+    try {
+      console.log(chalk.cyan('\n🔧 React Codebase Guru - Fix\n'));
+
+      const projectPath = path.resolve(options.path);
+      const rules = options.rule
+        ? options.rule.split(',').map((r: string) => r.trim()).filter(Boolean)
+        : undefined;
+      assertFixableRules(rules || []);
+
+      const analyzer = new ProjectAnalyzer({
+        projectPath,
+        verbose: options.verbose,
+        enableAnalytics: false,
+      });
+      const analysis = await analyzer.analyzeProject();
+      const driftAnalyzer = analyzer.getDriftAnalyzer();
+      const spacingGrid = (file: string) => driftAnalyzer?.getSpacingGrid(file) ?? 8;
+
+      const engine = FixEngine.fromAnalysis(analysis, spacingGrid, rules);
+      const result = await engine.fixFiles(analysis.violations);
+
+      if (options.dryRun) {
+        for (const file of result.files) {
+          printDiff(createUnifiedDiff(file, projectPath));
+        }
+      } else {
+        await engine.writeFixes(result);
+      }
+
+      for (const file of result.files) {
+        console.log(chalk.white(`\n${path.relative(projectPath, file.filePath)}`));
+        for (const { violation, description } of file.applied) {
+          console.log(chalk.gray(`  ${violation.line ?? '-'}:${violation.column ?? '-'}  ${description}`));
+        }
+      }
+
+      const verb = options.dryRun ? 'Would fix' : 'Fixed';
+      console.log(
+        chalk.green(`\n✅ ${verb} ${result.fixed} violation(s) in ${result.files.length} file(s)`)
+      );
+      if (result.unfixable.length > 0) {
+        console.log(chalk.yellow(`⚠️  ${result.unfixable.length} violation(s) need a manual fix`));
+      }
+      if (options.dryRun && result.fixed > 0) {
+        console.log(chalk.gray('Run without --dry-run to apply the fixes'));
+      }
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Baseline command - record current violations so only new ones are reported
+ */
+program
+  .command('baseline')
+  .description(`Record current violations in ${BASELINE_FILE_NAME} so only new drift is reported`)
+  .option('-p, --path <path>', 'Project path', process.cwd())
+  .option('-v, --verbose', 'Verbose output', false)
+  .action(async (options) => {
+    try {
+      console.log(chalk.cyan('\n📌 React Codebase Guru - Baseline\n'));
+
+      const projectPath = path.resolve(options.path);
+      const analyzer = new ProjectAnalyzer({
+        projectPath,
+        verbose: options.verbose,
+        useBaseline: false,
+      });
+
+      const analysis = await analyzer.analyzeProject();
+      const baselineStorage = new BaselineStorage(projectPath);
+      const baseline = await baselineStorage.saveBaseline(
+        analysis.violations,
+        analysis.compliance.score
+      );
+
+      console.log(
+        chalk.green(
+          `\n✅ Recorded ${analysis.violations.length} violation(s) ` +
+            `(${Object.keys(baseline.violations).length} fingerprints)`
+        )
+      );
+      console.log(chalk.gray(`   Saved to: ${baselineStorage.getBaselinePath()}`));
+      console.log(chalk.gray('   Commit this file; future scans only report new violations\n'));
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Hooks command - manage git hooks that run drift checks
+ */
+const hooksCommand = program
+  .command('hooks')
+  .description('Manage git pre-commit and pre-push hooks that run drift checks');
+
+hooksCommand
+  .command('install')
+  .description('Add drift checks to the pre-commit and pre-push hooks (git, husky or lefthook)')
+  .option('-p, --path <path>', 'Project path', process.cwd())
+  .action(async (options) => {
+    try {
+      const result = await new HookInstaller(path.resolve(options.path)).install();
+      printHookResult(result, 'Installed');
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+hooksCommand
+  .command('uninstall')
+  .description('Remove the drift checks from the pre-commit and pre-push hooks')
+  .option('-p, --path <path>', 'Project path', process.cwd())
+  .action(async (options) => {
+    try {
+      const result = await new HookInstaller(path.resolve(options.path)).uninstall();
+      printHookResult(result, 'Removed');
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Components command - list components and where they are used
+ */
+program
+  .command('components')
+  .description('List components and how often they are rendered')
+  .option('-p, --path <path>', 'Project path', process.cwd())
+  .option('--unused', 'List unused components, unimported files and stale stories or tests')
+  .action(async (options) => {
+    try {
+      const projectPath = path.resolve(options.path);
+      const analyzer = new ProjectAnalyzer({ projectPath, verbose: false, enableAnalytics: false });
+      const analysis = await analyzer.analyzeProject();
+
+      if (options.unused) {
+        printDeadCode(analysis.deadCode!, projectPath);
+        return;
+      }
+
+      console.log(chalk.cyan('\n🧩 Components\n'));
+      const components = analysis.componentDefinitions!
+        .map(component => ({
+          component,
+          usage: getCallSites(analysis.usage, component, analysis.componentDefinitions!).length,
+        }))
+        .sort((a, b) => b.usage - a.usage || a.component.name.localeCompare(b.component.name));
+
+      for (const { component, usage } of components) {
+        const location = path.relative(projectPath, component.filePath);
+        const wrappers = component.wrappers.length > 0 ? ` (${component.wrappers.join(', ')})` : '';
+        console.log(
+          `  ${component.name}${wrappers} ${chalk.gray(`${location} · ${usage} use(s)`)}`
+        );
+      }
+      console.log('');
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Graph command - export the file dependency graph
+ */
+program
+  .command('graph')
+  .description('Export the file dependency graph and list import cycles')
+  .option('-p, --path <path>', 'Project path', process.cwd())
+  .option('-f, --format <format>', 'Output format (dot, json)', 'dot')
+  .option('-o, --output <path>', 'Output file path for the graph')
+  .action(async (options) => {
+    try {
+      if (!['dot', 'json'].includes(options.format)) {
+        throw new Error(`Unknown graph format "${options.format}". Expected one of: dot, json`);
+      }
+
+      const projectPath = path.resolve(options.path);
+      const analyzer = new ProjectAnalyzer({ projectPath, verbose: false, enableAnalytics: false });
+      const analysis = await analyzer.analyzeProject();
+
+      const graph = buildDependencyGraph(analysis.components);
+      const cycles = findImportCycles(graph);
+      const output = options.format === 'json'
+        ? graphToJSON(graph, projectPath, cycles)
+        : graphToDot(graph, projectPath, cycles);
+
+      const savePath = options.output
+        ? path.resolve(options.output)
+        : path.join(projectPath, '.codebase-guru', `dependency-graph.${options.format}`);
+      await fs.ensureDir(path.dirname(savePath));
+      await fs.writeFile(savePath, output);
+
+      console.log(chalk.green(
+        `\n🕸️  Dependency graph (${graph.files.length} files, ${graph.edges.length} imports) saved to: ${savePath}`
+      ));
+      printImportCycles(cycles, projectPath);
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Patterns command - manage the approved design-system spec
+ */
+const patternsCommand = program
+  .command('patterns')
+  .description(`Manage the approved design-system spec (${SPEC_FILE_NAME})`);
+
+patternsCommand
+  .command('approve')
+  .description('Freeze the currently learned patterns into the approved spec')
+  .option('-p, --path <path>', 'Project path', process.cwd())
+  .option('--rescan', 'Re-analyze the project before approving', false)
+  .action(async (options) => {
+    try {
+      const projectPath = path.resolve(options.path);
+      const patternStorage = new PatternStorage(projectPath);
+
+      let stored = options.rescan ? null : await patternStorage.loadPatterns();
+      if (!stored) {
+        console.log(chalk.yellow('No learned patterns found. Running scan first...'));
+        const analyzer = new ProjectAnalyzer({ projectPath, verbose: false });
+        await analyzer.analyzeProject();
+        stored = await patternStorage.loadPatterns();
+      }
+
+      if (!stored) {
+        throw new Error('Pattern learning produced no patterns to approve');
+      }
+
+      const specStorage = new DesignSpecStorage(projectPath);
+      const spec = await specStorage.approve(stored.patterns);
+
+      console.log(chalk.green(`\n✅ Approved design spec v${spec.specVersion}`));
+      console.log(chalk.gray(`   Saved to: ${specStorage.getSpecPath()}`));
+      console.log(chalk.gray('   Commit this file so drift is measured against it\n'));
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+patternsCommand
+  .command('proposals')
+  .description('List learned patterns that differ from the approved spec')
+  .option('-p, --path <path>', 'Project path', process.cwd())
+  .action(async (options) => {
+    try {
+      const specStorage = new DesignSpecStorage(path.resolve(options.path));
+      const spec = await specStorage.loadSpec();
+      if (!spec) {
+        console.log(chalk.yellow(`No ${SPEC_FILE_NAME} found. Run "guru patterns approve" first.`));
+        return;
+      }
+
+      const proposals = await specStorage.loadProposals();
+      console.log(chalk.cyan(`\n📐 Design spec v${spec.specVersion} - pending proposals\n`));
+
+      if (proposals.length === 0) {
+        console.log(chalk.green('✅ Learned patterns match the approved spec\n'));
+        return;
+      }
+
+      proposals.forEach((proposal) => printProposal(proposal));
+      console.log(chalk.gray('\nUse "guru patterns accept <id...>" or "guru patterns reject <id...>"\n'));
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+patternsCommand
+  .command('accept <ids...>')
+  .description('Accept proposals into the approved spec ("all" accepts every proposal)')
+  .option('-p, --path <path>', 'Project path', process.cwd())
+  .action(async (ids: string[], options) => {
+    try {
+      const specStorage = new DesignSpecStorage(path.resolve(options.path));
+      const { spec, accepted } = await specStorage.acceptProposals(ids);
+
+      accepted.forEach((proposal) => printProposal(proposal));
+      console.log(chalk.green(`\n✅ Accepted ${accepted.length} proposal(s), spec is now v${spec.specVersion}\n`));
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
+patternsCommand
+  .command('reject <ids...>')
+  .description('Reject proposals so they are not proposed again ("all" rejects every proposal)')
+  .option('-p, --path <path>', 'Project path', process.cwd())
+  .action(async (ids: string[], options) => {
+    try {
+      const specStorage = new DesignSpecStorage(path.resolve(options.path));
+      const { rejected } = await specStorage.rejectProposals(ids);
+
+      rejected.forEach((proposal) => printProposal(proposal));
+      console.log(chalk.green(`\n✅ Rejected ${rejected.length} proposal(s)\n`));
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 /**
  * MCP command - start MCP server for AI agent integration
  */
@@ -329,6 +802,24 @@ program
     }
   });
 
+/**
+ * LSP command - start a language server for editor integration
+ */
+program
+  .command('lsp')
+  .description('Start a language server that shows drift diagnostics in your editor')
+  .option('-p, --path <path>', 'Project path (overridden by the editor workspace)', process.cwd())
+  .option('--stdio', 'Communicate over stdin/stdout (default)')
+  .action(async (options) => {
+    try {
+      const { startLanguageServer } = await import('../lsp/server');
+      startLanguageServer(path.resolve(options.path));
+    } catch (error) {
+      console.error(chalk.red('\n❌ Error:'), error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 /**
  * Analytics command - view and export analytics
  */
@@ -486,7 +977,19 @@ function printSummary(analysis: ProjectAnalysis): void {
   console.log(chalk.gray(`  TypeScript: ${analysis.framework.typescript ? 'Yes' : 'No'}`));
   console.log(chalk.gray(`  CSS Framework: ${analysis.framework.cssFramework || 'None detected'}`));
 
-  console.log(chalk.white('\nFiles Analyzed:'));
+  if (analysis.packages) {
+    console.log(chalk.white('\nPackages:'));
+    for (const workspacePackage of analysis.packages) {
+      const { score, totalViolations } = workspacePackage.compliance;
+      console.log(
+        chalk.gray(`  ${workspacePackage.name}: ${score}% (${totalViolations} violation(s))`)
+      );
+    }
+  }
+
+  console.log(
+    chalk.white(`\nFiles Analyzed${analysis.scope === 'changed' ? ' (changed files only)' : ''}:`)
+  );
   console.log(chalk.gray(`  Components: ${analysis.components.length}`));
   console.log(chalk.gray(`  Stylesheets: ${analysis.styles.length}`));
   console.log(chalk.gray(`  Templates: ${analysis.templates.length}`));
@@ -498,6 +1001,21 @@ function printSummary(analysis: ProjectAnalysis): void {
   console.log(scoreColor(`  Score: ${analysis.compliance.score}%`));
   console.log(chalk.gray(`  Total violations: ${analysis.compliance.totalViolations}`));
   console.log(chalk.gray(`  Files with violations: ${analysis.compliance.filesWithViolations}`));
+  if (analysis.compliance.suppressed) {
+    console.log(chalk.gray(`  Suppressed by comments: ${analysis.compliance.suppressed}`));
+  }
+  if (analysis.compliance.baselined) {
+    console.log(chalk.gray(`  Known (baseline): ${analysis.compliance.baselined}`));
+  }
+
+  if (analysis.adoption) {
+    const { percentage, designSystem, dom, local } = analysis.adoption;
+    console.log(chalk.white('\nDesign-System Adoption:'));
+    console.log(chalk.gray(`  Adoption: ${percentage}%`));
+    console.log(
+      chalk.gray(`  Elements: ${designSystem} design system, ${dom} DOM, ${local} other`)
+    );
+  }
 
   if (analysis.violations.length > 0) {
     console.log(chalk.white('\nTop Violations:'));
@@ -516,6 +1034,209 @@ function printSummary(analysis: ProjectAnalysis): void {
   console.log('');
 }
 
+/**
+ * Print unused components, unimported component files and broken stories or tests
+ */
+function printDeadCode(deadCode: DeadCodeReport, projectPath: string): void {
+  const relative = (filePath: string) => path.relative(projectPath, filePath);
+  const { unusedComponents, unimportedFiles, brokenReferences } = deadCode;
+
+  console.log(chalk.cyan('\n🧹 Unused Components'));
+  if (unusedComponents.length + unimportedFiles.length + brokenReferences.length === 0) {
+    console.log(chalk.green('\n  Every component is in use\n'));
+    return;
+  }
+
+  if (unusedComponents.length > 0) {
+    console.log(chalk.white('\nExported but never imported or rendered:'));
+    for (const component of unusedComponents) {
+      const location = `${relative(component.filePath)}${component.line ? `:${component.line}` : ''}`;
+      console.log(`  ${component.name} ${chalk.gray(location)}`);
+    }
+  }
+
+  if (unimportedFiles.length > 0) {
+    console.log(chalk.white('\nNever imported:'));
+    unimportedFiles.forEach(filePath => console.log(`  ${relative(filePath)}`));
+  }
+
+  if (brokenReferences.length > 0) {
+    console.log(chalk.white('\nStories and tests pointing at missing components:'));
+    for (const reference of brokenReferences) {
+      const missing = reference.name ? `${reference.name} from ${reference.source}` : reference.source;
+      console.log(`  ${relative(reference.filePath)}:${reference.line} ${chalk.gray(missing)}`);
+    }
+  }
+  console.log('');
+}
+
+/**
+ * Print import cycles as chains of files relative to the project
+ */
+function printImportCycles(cycles: ImportCycle[], projectPath: string): void {
+  if (cycles.length === 0) {
+    console.log(chalk.green('\n✅ No import cycles\n'));
+    return;
+  }
+
+  console.log(chalk.yellow(`\n🔁 Import cycles (${cycles.length}):`));
+  for (const cycle of cycles) {
+    const chain = [...cycle.files, cycle.files[0]].map(file => path.relative(projectPath, file));
+    console.log(`  ${chain.join(chalk.gray(' → '))}`);
+  }
+  console.log('');
+}
+
+/**
+ * Print the quality gate outcome
+ */
+function printGateResult(
+  result: QualityGateResult,
+  violations: ProjectAnalysis['violations'],
+  projectPath: string
+): void {
+  const status = result.passed ? chalk.green('PASSED') : chalk.red('FAILED');
+  console.log(chalk.cyan('\n🚦 Quality gate: ') + status);
+
+  for (const failure of result.failures) {
+    console.log(chalk.red(`  ✗ [${failure.condition}] ${failure.message}`));
+  }
+  for (const note of result.notes) {
+    console.log(chalk.gray(`  - ${note}`));
+  }
+
+  console.log(
+    chalk.gray(
+      `  Score: ${result.score}% | New violations: ${result.newViolations} | ` +
+        `Errors: ${result.newErrors} new / ${result.totalErrors} total`
+    )
+  );
+
+  const errors = violations.filter((v) => v.severity === 'error');
+  if (!result.passed && errors.length > 0) {
+    console.log(chalk.white('\nNew errors:'));
+    errors.slice(0, 10).forEach((violation) => {
+      const location = violation.line ? `:${violation.line}:${violation.column || 1}` : '';
+      const file = path.relative(projectPath, violation.filePath);
+      console.log(chalk.gray(`  ❌ ${file}${location} ${violation.type}: ${violation.message}`));
+    });
+    if (errors.length > 10) {
+      console.log(chalk.gray(`  ... and ${errors.length - 10} more`));
+    }
+  }
+
+  console.log('');
+}
+
+/**
+ * Print a single pattern proposal
+ */
+function printProposal(proposal: PatternProposal): void {
+  const icon = proposal.change === 'add' ? '➕' : proposal.change === 'remove' ? '➖' : '✏️';
+  console.log(chalk.gray(`  ${icon} [${proposal.id}] ${proposal.description}`));
+}
+
+/**
+ * Print the outcome of installing or removing git hooks
+ */
+function printHookResult(result: HookInstallResult, action: 'Installed' | 'Removed'): void {
+  const target = result.target === 'git' ? 'git hooks' : result.target;
+  if (result.files.length === 0) {
+    console.log(chalk.gray(`No drift checks found in ${target}`));
+    return;
+  }
+
+  console.log(chalk.green(`✅ ${action} drift checks (${target})`));
+  for (const file of result.files) {
+    const chained = result.chained.includes(file) ? ' (added to existing hook)' : '';
+    console.log(chalk.gray(`   ${file}${chained}`));
+  }
+}
+
+/**
+ * Ask a yes/no question on the terminal
+ */
+async function confirm(question: string): Promise<boolean> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  const answer = await new Promise<string>((resolve) => rl.question(`${question} (y/N) `, resolve));
+  rl.close();
+  return /^y(es)?$/i.test(answer.trim());
+}
+
+/**
+ * Wrap a value parser so invalid option values end the command with a usage error
+ */
+function toOptionParser<T>(parse: (value: string) => T): (value: string) => T {
+  return (value) => {
+    try {
+      return parse(value);
+    } catch (error) {
+      const usageError = new InvalidArgumentError(
+        error instanceof Error ? error.message : String(error)
+      );
+      usageError.exitCode = 2;
+      throw usageError;
+    }
+  };
+}
+
+/**
+ * Collect the changed files requested with --changed-since or --staged
+ */
+async function resolveChangedFiles(
+  projectPath: string,
+  options: { changedSince?: string; staged?: boolean }
+): Promise<string[] | undefined> {
+  if (!options.changedSince && !options.staged) return undefined;
+
+  const changedFiles = await getChangedFiles(projectPath, {
+    since: options.changedSince,
+    staged: options.staged,
+  });
+  const source = options.staged ? 'staged' : `changed since ${options.changedSince}`;
+  console.log(chalk.gray(`${changedFiles.length} file(s) ${source}\n`));
+
+  if (options.staged) {
+    // The working tree is analyzed, not the staged content
+    const unstaged = new Set(await getUnstagedFiles(projectPath));
+    const partial = changedFiles.filter((file) => unstaged.has(file));
+    if (partial.length > 0) {
+      console.log(
+        chalk.yellow(
+          `⚠️  ${partial.length} staged file(s) also have unstaged changes, which are analyzed too:`
+        )
+      );
+      for (const file of partial) {
+        console.log(chalk.yellow(`   ${path.relative(projectPath, file)}`));
+      }
+      console.log(
+        chalk.gray('   Run "git stash --keep-index" first to check only the staged content\n')
+      );
+    }
+  }
+
+  return changedFiles;
+}
+
+/**
+ * Print a unified diff with colored additions and removals
+ */
+function printDiff(diff: string): void {
+  for (const line of diff.split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else {
+      console.log(line);
+    }
+  }
+}
+
 /**
  * Output analysis as markdown
  */
@@ -529,12 +1250,40 @@ async function outputMarkdown(analysis: ProjectAnalysis, outputPath?: string): P
   markdown += `- **TypeScript**: ${analysis.framework.typescript ? 'Yes' : 'No'}\n`;
   markdown += `- **CSS Framework**: ${analysis.framework.cssFramework || 'None detected'}\n\n`;
 
+  if (analysis.packages) {
+    markdown += '## Packages\n\n';
+    markdown += '| Package | Path | Score | Violations |\n';
+    markdown += '|---------|------|-------|------------|\n';
+    for (const workspacePackage of analysis.packages) {
+      const relativePath = path.relative(analysis.projectPath, workspacePackage.path);
+      markdown += `| ${workspacePackage.name} | ${relativePath} | ${workspacePackage.compliance.score}% | ${workspacePackage.compliance.totalViolations} |\n`;
+    }
+    markdown += '\n';
+  }
+
   markdown += '## Compliance Summary\n\n';
   markdown += `- **Score**: ${analysis.compliance.score}%\n`;
   markdown += `- **Total Files**: ${analysis.compliance.totalFiles}\n`;
   markdown += `- **Files with Violations**: ${analysis.compliance.filesWithViolations}\n`;
   markdown += `- **Total Violations**: ${analysis.compliance.totalViolations}\n\n`;
 
+  if (analysis.adoption) {
+    markdown += '## Design-System Adoption\n\n';
+    markdown += `- **Adoption**: ${analysis.adoption.percentage}%\n`;
+    markdown += `- **Design System Elements**: ${analysis.adoption.designSystem}\n`;
+    markdown += `- **DOM Elements**: ${analysis.adoption.dom}\n`;
+    markdown += `- **Other Components**: ${analysis.adoption.local}\n\n`;
+    markdown += '| Directory | Adoption | Elements |\n';
+    markdown += '|-----------|----------|----------|\n';
+    const directories = Object.entries(analysis.adoption.byDirectory).sort(([a], [b]) =>
+      a.localeCompare(b)
+    );
+    for (const [directory, counts] of directories) {
+      markdown += `| ${directory} | ${counts.percentage}% | ${counts.total} |\n`;
+    }
+    markdown += '\n';
+  }
+
   if (analysis.violations.length > 0) {
     markdown += '## Violations\n\n';
     analysis.violations.forEach(violation => {
@@ -556,6 +1305,41 @@ async function outputMarkdown(analysis: ProjectAnalysis, outputPath?: string): P
   console.log(chalk.green(`📝 Markdown report saved to: ${savePath}`));
 }
 
+/**
+ * Look up a report format, failing on unknown names
+ */
+function getReportFormat(format: string): (typeof REPORT_FORMATS)[string] {
+  const reportFormat = Object.keys(REPORT_FORMATS).includes(format) ? REPORT_FORMATS[format] : null;
+  if (!reportFormat) {
+    throw new Error(
+      `Unknown report format "${format}". Expected one of: ${Object.keys(REPORT_FORMATS).join(', ')}`
+    );
+  }
+  return reportFormat;
+}
+
+/**
+ * Output drift violations in a machine-readable report format
+ */
+async function outputReport(
+  format: string,
+  analysis: ProjectAnalysis,
+  analyzer: ProjectAnalyzer,
+  outputPath?: string
+): Promise<void> {
+  const reportFormat = getReportFormat(format);
+  const driftResult = analyzer.getDriftResult();
+  if (!driftResult) {
+    throw new Error(`No drift results available for ${reportFormat.label} output`);
+  }
+
+  const savePath =
+    outputPath || path.join(analysis.projectPath, '.codebase-guru', reportFormat.fileName);
+  await reportFormat.reporter().generateReport(analysis, driftResult, { outputPath: savePath });
+
+  console.log(chalk.green(`📄 ${reportFormat.label} report saved to: ${savePath}`));
+}
+
 /**
  * Create default configuration file
  */
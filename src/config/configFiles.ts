@@ -0,0 +1,226 @@
+/**
+ * Config file discovery and the formats a config can be written in
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import Module, { createRequire } from 'module';
+import { pathToFileURL } from 'url';
+import { parse as parseYAML, stringify as stringifyYAML } from 'yaml';
+import type { GuruConfig } from './configLoader';
+
+/**
+ * Config files in order of precedence. package.json only counts when it has a `guru` field
+ */
+export const CONFIG_FILE_NAMES = [
+  'guru.config.ts',
+  'guru.config.mjs',
+  'guru.config.cjs',
+  'guru.config.js',
+  'guru.config.json',
+  '.gurorc',
+  'package.json',
+];
+
+export const DEFAULT_CONFIG_FILE = 'guru.config.js';
+
+const PACKAGE_JSON_KEY = 'guru';
+
+// Loads config files and the project's TypeScript, which are only known at runtime
+const requireModule = createRequire(__filename);
+
+// A real dynamic import; TypeScript compiles `import()` to `require()` for CommonJS output
+const importModule = new Function('specifier', 'return import(specifier)') as (
+  specifier: string
+) => Promise<unknown>;
+
+/**
+ * Find the config file of a project, or null when it has none
+ */
+export async function findConfigFile(projectPath: string): Promise<string | null> {
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filePath = path.join(projectPath, fileName);
+    if (!(await fs.pathExists(filePath))) continue;
+
+    if (fileName === 'package.json') {
+      const packageJson = await fs.readJson(filePath);
+      if (packageJson[PACKAGE_JSON_KEY] === undefined) continue;
+    }
+    return filePath;
+  }
+  return null;
+}
+
+/**
+ * Read a config file in any of the supported formats
+ */
+export async function readConfigFile(filePath: string): Promise<Partial<GuruConfig>> {
+  const fileName = path.basename(filePath);
+  const extension = path.extname(filePath);
+
+  if (fileName === 'package.json') {
+    return (await fs.readJson(filePath))[PACKAGE_JSON_KEY];
+  }
+  if (fileName === '.gurorc') {
+    // JSON or YAML; JSON is valid YAML
+    return parseYAML(await fs.readFile(filePath, 'utf-8'));
+  }
+  if (extension === '.json') {
+    return fs.readJson(filePath);
+  }
+  return (await loadModule(filePath)) as Partial<GuruConfig>;
+}
+
+/**
+ * Load the default export of a JavaScript or TypeScript module, such as a config
+ * file, fresh from disk
+ */
+export async function loadModule(filePath: string): Promise<unknown> {
+  if (['.ts', '.mts', '.cts'].includes(path.extname(filePath))) {
+    return loadTypeScriptModule(filePath, await fs.readFile(filePath, 'utf-8'));
+  }
+  if (await isESModule(filePath)) {
+    const url = `${pathToFileURL(filePath).href}?t=${Date.now()}`;
+    return interopDefault(await importModule(url));
+  }
+
+  // Clear require cache to get fresh config
+  delete requireModule.cache[requireModule.resolve(filePath)];
+  return interopDefault(requireModule(filePath));
+}
+
+/**
+ * Write a config in the format of the file it is saved to. Only data formats
+ * are rewritten: an existing JavaScript or TypeScript config would lose its
+ * comments, imports and computed values, so saving over one is refused, as is
+ * saving functions such as inline custom rules
+ */
+export async function writeConfigFile(filePath: string, config: GuruConfig): Promise<void> {
+  const fileName = path.basename(filePath);
+  const extension = path.extname(filePath);
+
+  if (hasFunctions(config)) {
+    throw new Error(
+      `Cannot save the config to ${fileName}: it contains functions, such as inline custom rules`
+    );
+  }
+
+  if (fileName === 'package.json') {
+    const packageJson = await fs.readJson(filePath);
+    packageJson[PACKAGE_JSON_KEY] = config;
+    await fs.writeJson(filePath, packageJson, { spaces: 2 });
+    return;
+  }
+  if (fileName === '.gurorc') {
+    const existing = (await fs.pathExists(filePath)) ? await fs.readFile(filePath, 'utf-8') : '';
+    const isYAML = existing.trim() !== '' && !existing.trim().startsWith('{');
+    await fs.writeFile(
+      filePath,
+      isYAML ? stringifyYAML(config) : `${JSON.stringify(config, null, 2)}\n`
+    );
+    return;
+  }
+  if (extension === '.json') {
+    await fs.writeJson(filePath, config, { spaces: 2 });
+    return;
+  }
+  if (await fs.pathExists(filePath)) {
+    throw new Error(
+      `Cannot save the config to ${fileName}: JavaScript and TypeScript configs are edited by hand. ` +
+        'Update it yourself, or move the config to guru.config.json'
+    );
+  }
+
+  const literal = toJavaScriptLiteral(config);
+  let content: string;
+  if (['.ts', '.mts', '.cts'].includes(extension)) {
+    content = `import { defineConfig } from 'react-codebase-guru';\n\nexport default defineConfig(${literal});\n`;
+  } else if (await isESModule(filePath)) {
+    content = `export default ${literal};\n`;
+  } else {
+    content = `module.exports = ${literal};\n`;
+  }
+  await fs.writeFile(filePath, content);
+}
+
+/**
+ * Compile a TypeScript module with the project's TypeScript and load it as CommonJS
+ */
+function loadTypeScriptModule(filePath: string, source: string): unknown {
+  let ts: typeof import('typescript');
+  try {
+    ts = requireModule(
+      requireModule.resolve('typescript', { paths: [path.dirname(filePath), __dirname] })
+    );
+  } catch {
+    throw new Error(`Loading ${path.basename(filePath)} requires the "typescript" package`);
+  }
+
+  const { outputText } = ts.transpileModule(source, {
+    fileName: filePath,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2020,
+      esModuleInterop: true,
+    },
+  });
+
+  // Module internals used to evaluate the compiled source with the config's own require paths
+  const InternalModule = Module as unknown as {
+    new (id: string): NodeJS.Module & { _compile(source: string, filename: string): void };
+    _nodeModulePaths(directory: string): string[];
+  };
+  const compiled = new InternalModule(filePath);
+  compiled.filename = filePath;
+  compiled.paths = InternalModule._nodeModulePaths(path.dirname(filePath));
+  compiled._compile(outputText, filePath);
+  return interopDefault(compiled.exports);
+}
+
+/**
+ * Check whether a JavaScript file is an ES module, by extension or the nearest package.json
+ */
+async function isESModule(filePath: string): Promise<boolean> {
+  const extension = path.extname(filePath);
+  if (extension === '.mjs') return true;
+  if (extension !== '.js') return false;
+
+  let directory = path.dirname(filePath);
+  while (true) {
+    const packageJsonPath = path.join(directory, 'package.json');
+    if (await fs.pathExists(packageJsonPath)) {
+      return (await fs.readJson(packageJsonPath)).type === 'module';
+    }
+    const parent = path.dirname(directory);
+    if (parent === directory) return false;
+    directory = parent;
+  }
+}
+
+/**
+ * Get the default export of a module, or the module itself
+ */
+function interopDefault(exported: unknown): unknown {
+  const module = exported as { default?: unknown };
+  return module && module.default !== undefined ? module.default : module;
+}
+
+/**
+ * Check whether a value holds functions, which data formats can't store
+ */
+function hasFunctions(value: unknown): boolean {
+  if (typeof value === 'function') return true;
+  if (!value || typeof value !== 'object') return false;
+  return Object.values(value).some(hasFunctions);
+}
+
+/**
+ * Serialize a config as a JavaScript object literal with single-quoted strings
+ */
+function toJavaScriptLiteral(config: GuruConfig): string {
+  return JSON.stringify(config, null, 2)
+    .replace(/"([A-Za-z_$][\w$]*)":/g, '$1:')
+    .replace(/"((?:[^"\\]|\\.)*)"/g, (quoted, body: string) =>
+      body.includes("'") ? quoted : `'${body.replace(/\\"/g, '"')}'`
+    );
+}
@@ -2,11 +2,16 @@
  * Configuration loader and validator
  */
 
-import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as Joi from 'joi';
+import type { CustomRule } from '../rules/customRules';
+import { customRuleSchema } from '../rules/ruleLoader';
+import { RuleLevel, RuleSetting, rulesSchema, normalizeRuleSetting } from './ruleSettings';
+import { mergeConfigs } from './configMerge';
+import { DEFAULT_CONFIG_FILE, findConfigFile, readConfigFile, writeConfigFile } from './configFiles';
 
 export interface GuruConfig {
+  extends?: string | string[]; // Base configs, relative to this config file or package names
   include?: string[];
   exclude?: string[];
   framework?: {
@@ -18,18 +23,44 @@ export interface GuruConfig {
     spacingGrid?: number;
     componentNaming?: 'PascalCase' | 'camelCase' | 'kebab-case';
     colorTokens?: 'css-vars' | 'tailwind' | 'styled-system';
+    palette?: string[]; // Colors accepted by color-drift, in addition to the learned ones
   };
   thresholds?: {
     compliance?: number;
     maxViolations?: number;
   };
+  designSystem?: {
+    packages?: string[]; // Design-system package names or globs, e.g. '@acme/ui'
+  };
   rules?: {
-    [key: string]: 'error' | 'warning' | 'off';
+    [key: string]: RuleSetting; // 'warning', or ['warning', { ...options }]
   };
+  customRules?: Array<string | CustomRule>; // Rule objects or module paths
+  overrides?: ConfigOverride[];
   version?: string;
 }
 
+export interface ConfigOverride {
+  files: string | string[]; // Globs relative to the project root
+  rules?: GuruConfig['rules'];
+  patterns?: GuruConfig['patterns'];
+}
+
+const patternsSchema = Joi.object({
+  spacingGrid: Joi.number().positive(),
+  componentNaming: Joi.string().valid('PascalCase', 'camelCase', 'kebab-case'),
+  colorTokens: Joi.string().valid('css-vars', 'tailwind', 'styled-system'),
+  palette: Joi.array().items(Joi.string()),
+});
+
+const overrideSchema = Joi.object({
+  files: Joi.alternatives(Joi.string(), Joi.array().items(Joi.string()).min(1)).required(),
+  rules: rulesSchema,
+  patterns: patternsSchema,
+});
+
 const configSchema = Joi.object({
+  extends: Joi.alternatives(Joi.string(), Joi.array().items(Joi.string())),
   include: Joi.array().items(Joi.string()),
   exclude: Joi.array().items(Joi.string()),
   framework: Joi.object({
@@ -37,32 +68,38 @@ const configSchema = Joi.object({
     typescript: Joi.boolean(),
     cssFramework: Joi.string().valid('tailwind', 'bootstrap', 'styled-components', 'emotion', 'custom'),
   }),
-  patterns: Joi.object({
-    spacingGrid: Joi.number().positive(),
-    componentNaming: Joi.string().valid('PascalCase', 'camelCase', 'kebab-case'),
-    colorTokens: Joi.string().valid('css-vars', 'tailwind', 'styled-system'),
-  }),
+  patterns: patternsSchema,
   thresholds: Joi.object({
     compliance: Joi.number().min(0).max(100),
     maxViolations: Joi.number().min(0),
   }),
-  rules: Joi.object().pattern(
-    Joi.string(),
-    Joi.string().valid('error', 'warning', 'off')
-  ),
+  designSystem: Joi.object({
+    packages: Joi.array().items(Joi.string()),
+  }),
+  rules: rulesSchema,
+  customRules: Joi.array().items(Joi.alternatives(Joi.string(), customRuleSchema)),
+  overrides: Joi.array().items(overrideSchema),
   version: Joi.string(),
 }).unknown(false);
 
+/**
+ * Define a configuration with type checking, for guru.config.ts
+ */
+export function defineConfig(config: GuruConfig): GuruConfig {
+  return config;
+}
+
 export class ConfigLoader {
   private projectPath: string;
   private configCache: GuruConfig | null = null;
+  private configPath: string | null = null;
 
   constructor(projectPath: string) {
     this.projectPath = projectPath;
   }
 
   /**
-   * Load configuration from guru.config.js
+   * Load configuration from the project's config file (see CONFIG_FILE_NAMES)
    */
   async loadConfig(): Promise<GuruConfig> {
     // Check cache first
@@ -70,17 +107,14 @@ export class ConfigLoader {
       return this.configCache;
     }
 
-    const configPath = path.join(this.projectPath, 'guru.config.js');
-    
     try {
-      if (await fs.pathExists(configPath)) {
-        // Clear require cache to get fresh config
-        delete require.cache[require.resolve(configPath)];
-        
-        const userConfig = require(configPath);
+      const configPath = await findConfigFile(this.projectPath);
+      this.configPath = configPath;
+      if (configPath) {
+        const layers = await this.loadConfigLayers(configPath, []);
         
         // Validate config
-        const { error, value } = configSchema.validate(userConfig);
+        const error = layers.map(layer => configSchema.validate(layer).error).find(Boolean);
         if (error) {
           console.warn(`Config validation warning: ${error.details[0].message}`);
           console.warn('Using default configuration');
@@ -88,7 +122,7 @@ export class ConfigLoader {
         }
         
         // Merge with defaults
-        const config = this.mergeWithDefaults(value);
+        const config = this.mergeWithDefaults(...layers);
         this.configCache = config;
         return config;
       }
@@ -150,43 +184,65 @@ export class ConfigLoader {
   }
 
   /**
-   * Merge user config with defaults
+   * Load a config file and the configs it extends, base configs first
    */
-  private mergeWithDefaults(userConfig: Partial<GuruConfig>): GuruConfig {
-    const defaults = this.getDefaultConfig();
-    
-    return {
-      include: userConfig.include || defaults.include,
-      exclude: userConfig.exclude || defaults.exclude,
-      framework: {
-        ...defaults.framework,
-        ...userConfig.framework,
-      },
-      patterns: {
-        ...defaults.patterns,
-        ...userConfig.patterns,
-      },
-      thresholds: {
-        ...defaults.thresholds,
-        ...userConfig.thresholds,
-      },
-      rules: {
-        ...defaults.rules,
-        ...userConfig.rules,
-      },
-      version: userConfig.version || defaults.version,
-    };
+  private async loadConfigLayers(
+    configPath: string,
+    chain: string[]
+  ): Promise<Partial<GuruConfig>[]> {
+    if (chain.includes(configPath)) {
+      throw new Error(`Circular extends: ${[...chain, configPath].join(' -> ')}`);
+    }
+
+    const config = (await readConfigFile(configPath)) || {};
+    const configDir = path.dirname(configPath);
+
+    const bases = typeof config.extends === 'string' ? [config.extends] : config.extends || [];
+    const layers: Partial<GuruConfig>[] = [];
+    for (const base of bases) {
+      let basePath: string;
+      try {
+        basePath = require.resolve(base, { paths: [configDir] });
+      } catch {
+        throw new Error(`Cannot find base config "${base}" extended by ${configPath}`);
+      }
+      layers.push(...(await this.loadConfigLayers(basePath, [...chain, configPath])));
+    }
+
+    // Custom rule modules of a base config are relative to the base config
+    const customRules =
+      chain.length > 0
+        ? config.customRules?.map(rule =>
+            typeof rule === 'string' && rule.startsWith('.') ? path.resolve(configDir, rule) : rule
+          )
+        : config.customRules;
+
+    return [...layers, { ...config, customRules }];
   }
 
   /**
-   * Save configuration to file
+   * Merge config layers over the defaults, later layers taking precedence
+   */
+  private mergeWithDefaults(...layers: Partial<GuruConfig>[]): GuruConfig {
+    const config = layers.reduce<GuruConfig>(
+      (merged, layer) => mergeConfigs(merged, layer),
+      this.getDefaultConfig()
+    );
+    delete config.extends;
+    return config;
+  }
+
+  /**
+   * Save configuration to the loaded config file, in its format
    */
   async saveConfig(config: GuruConfig): Promise<void> {
-    const configPath = path.join(this.projectPath, 'guru.config.js');
+    const configPath =
+      this.configPath ||
+      (await findConfigFile(this.projectPath)) ||
+      path.join(this.projectPath, DEFAULT_CONFIG_FILE);
     
-    const configContent = `module.exports = ${JSON.stringify(config, null, 2).replace(/"([^"]+)":/g, '$1:').replace(/"/g, "'")};`;
-    
-    await fs.writeFile(configPath, configContent);
+    await writeConfigFile(configPath, config);
+    this.configPath = configPath;
     this.configCache = config;
   }
 
@@ -217,9 +273,9 @@ export class ConfigLoader {
    * Watch configuration file for changes
    */
   async watchConfig(callback: (config: GuruConfig) => void): Promise<() => void> {
-    const configPath = path.join(this.projectPath, 'guru.config.js');
+    const configPath = await findConfigFile(this.projectPath);
     
-    if (!(await fs.pathExists(configPath))) {
+    if (!configPath) {
       return () => {};
     }
 
@@ -244,9 +300,9 @@ export class ConfigLoader {
   /**
    * Get rule severity
    */
-  getRuleSeverity(ruleName: string): 'error' | 'warning' | 'off' {
+  getRuleSeverity(ruleName: string): RuleLevel {
     const config = this.configCache || this.getDefaultConfig();
-    return config.rules?.[ruleName] || 'warning';
+    return normalizeRuleSetting(config.rules?.[ruleName]).severity;
   }
 
   /**
@@ -298,16 +354,36 @@ export class ConfigLoader {
     compliance: 90, // Minimum compliance score (0-100)
     maxViolations: 10, // Maximum violations before failing
   },
+
+  // Design-system packages, for measuring adoption in reports
+  // designSystem: {
+  //   packages: ['@acme/ui'],
+  // },
   
-  // Rule severities
+  // Rule severities, or [severity, options] tuples
   rules: {
     'inline-styles': 'warning',
-    'hardcoded-colors': 'warning',
+    'hardcoded-colors': ['warning', { allow: ['#fff', '#000', 'transparent'] }],
     'component-duplication': 'error',
-    'spacing-violation': 'warning',
+    'spacing-violation': ['warning', { allow: ['1px', '2px'] }],
     'accessibility': 'error',
     'naming-convention': 'warning',
-  }
+  },
+
+  // Custom rules: rule objects or module paths relative to the project
+  // customRules: ['./rules/no-raw-table.js'],
+
+  // Shared base configs, merged under this one
+  // extends: './configs/base.guru.js',
+
+  // Different rules and patterns for parts of the project
+  // overrides: [
+  //   {
+  //     files: 'src/marketing/**',
+  //     patterns: { spacingGrid: 4, palette: ['#ff4785'] },
+  //     rules: { 'color-drift': ['warning', { allow: ['#ff4785'] }] },
+  //   },
+  // ],
 };
 `;
   }
@@ -0,0 +1,90 @@
+/**
+ * Layered configuration: base configs, the project config and per-directory overrides
+ */
+
+import { minimatch } from 'minimatch';
+import type { ConfigOverride, GuruConfig } from './configLoader';
+import { RuleSetting } from './ruleSettings';
+
+type ConfigLayer = Partial<GuruConfig> | ConfigOverride;
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Deep merge two plain objects. Arrays and other values of the layer replace the base
+ */
+function deepMerge<T extends Record<string, unknown>>(base: T, layer: Partial<T>): T {
+  const merged: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(layer)) {
+    if (value === undefined) continue;
+    merged[key] =
+      isPlainObject(value) && isPlainObject(merged[key])
+        ? deepMerge(merged[key] as Record<string, unknown>, value)
+        : value;
+  }
+
+  return merged as T;
+}
+
+/**
+ * Merge rule settings. Like ESLint, a bare severity keeps the options of the base setting
+ */
+function mergeRules(
+  base: Record<string, RuleSetting> = {},
+  layer: Record<string, RuleSetting> = {}
+): Record<string, RuleSetting> {
+  const merged = { ...base };
+
+  for (const [rule, setting] of Object.entries(layer)) {
+    const baseSetting = merged[rule];
+    merged[rule] =
+      typeof setting === 'string' && Array.isArray(baseSetting) && baseSetting[1]
+        ? [setting, baseSetting[1]]
+        : setting;
+  }
+
+  return merged;
+}
+
+/**
+ * Merge a config layer over a base config. Objects are merged deeply, `rules`
+ * per rule, `customRules` and `overrides` are concatenated; anything else replaces the base
+ */
+export function mergeConfigs(base: GuruConfig, layer: ConfigLayer): GuruConfig {
+  const { rules, customRules, overrides, ...rest } = layer as Partial<GuruConfig>;
+  const merged = deepMerge(base as Record<string, unknown>, rest) as GuruConfig;
+
+  if (rules) {
+    merged.rules = mergeRules(base.rules, rules);
+  }
+  if (customRules) {
+    merged.customRules = [...(base.customRules || []), ...customRules];
+  }
+  if (overrides) {
+    merged.overrides = [...(base.overrides || []), ...overrides];
+  }
+
+  return merged;
+}
+
+/**
+ * Get the overrides whose `files` globs match a path relative to the project
+ */
+export function getMatchingOverrides(config: GuruConfig, relativePath: string): ConfigOverride[] {
+  return (config.overrides || []).filter((override) => {
+    const globs = Array.isArray(override.files) ? override.files : [override.files];
+    return globs.some((glob) => minimatch(relativePath, glob, { dot: true }));
+  });
+}
+
+/**
+ * Get the configuration that applies to a file, with matching overrides applied in order
+ */
+export function resolveFileConfig(config: GuruConfig, relativePath: string): GuruConfig {
+  return getMatchingOverrides(config, relativePath).reduce<GuruConfig>(
+    (resolved, { rules, patterns }) => mergeConfigs(resolved, { rules, patterns }),
+    config
+  );
+}
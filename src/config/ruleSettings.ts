@@ -0,0 +1,152 @@
+/**
+ * Rule settings: a severity, or an ESLint-style [severity, options] tuple
+ */
+
+import * as Joi from 'joi';
+
+export type RuleLevel = 'error' | 'warning' | 'off';
+export type RuleSetting = RuleLevel | [RuleLevel] | [RuleLevel, Record<string, unknown>];
+
+export interface CommonRuleOptions {
+  ignoreFiles?: string[]; // Globs relative to the project root
+}
+
+export interface ColorRuleOptions extends CommonRuleOptions {
+  allow?: string[]; // Colors that may be used literally, e.g. '#fff' or 'transparent'
+}
+
+export interface SpacingRuleOptions extends CommonRuleOptions {
+  allow?: string[]; // Off-grid values that are fine, e.g. '1px' borders
+}
+
+export interface TypographyRuleOptions extends CommonRuleOptions {
+  allowFontSizes?: string[];
+  allowFontWeights?: string[];
+}
+
+export interface NamingRuleOptions extends CommonRuleOptions {
+  convention?: 'PascalCase' | 'camelCase' | 'kebab-case';
+  allow?: string[]; // Regular expressions for names accepted regardless of the convention
+}
+
+export interface DuplicationRuleOptions extends CommonRuleOptions {
+  basePatterns?: string[]; // Base component names whose variations are reported
+  ignore?: string[]; // Component names that are never reported
+}
+
+export interface ComponentDriftRuleOptions extends CommonRuleOptions {
+  allowClasses?: string[]; // Classes that mark a native button as design-system styled
+}
+
+export interface DeadComponentRuleOptions extends CommonRuleOptions {
+  entries?: string[]; // Globs for files loaded by the framework, whose exports are always used
+}
+
+export interface TailwindRuleOptions extends CommonRuleOptions {
+  allow?: string[]; // Classes that are fine, e.g. 'z-[999]' for a third-party overlay
+}
+
+export interface CSSModulesRuleOptions extends CommonRuleOptions {
+  allow?: string[]; // Classes that are never reported, e.g. ones only applied by a library
+}
+
+export interface BuiltInRuleOptions {
+  'component-duplication': DuplicationRuleOptions;
+  'inline-styles': ColorRuleOptions;
+  'naming-convention': NamingRuleOptions;
+  'hardcoded-colors': ColorRuleOptions;
+  'spacing-violation': SpacingRuleOptions;
+  'typography-violation': TypographyRuleOptions;
+  'component-drift': ComponentDriftRuleOptions;
+  accessibility: CommonRuleOptions;
+  'color-drift': ColorRuleOptions;
+  'dead-component': DeadComponentRuleOptions;
+  'import-cycle': CommonRuleOptions;
+  'tailwind-drift': TailwindRuleOptions;
+  'css-modules': CSSModulesRuleOptions;
+}
+
+export interface NormalizedRuleSetting<T = Record<string, unknown>> {
+  severity: RuleLevel;
+  options: T;
+}
+
+const levelSchema = Joi.string().valid('error', 'warning', 'off');
+const stringList = Joi.array().items(Joi.string());
+
+const regexList = stringList.custom((patterns: string[]) => {
+  for (const pattern of patterns) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      throw new Error(`"${pattern}" is not a valid regular expression`);
+    }
+  }
+  return patterns;
+});
+
+const commonOptions = { ignoreFiles: stringList };
+const colorOptions = Joi.object({ ...commonOptions, allow: stringList });
+
+export const RULE_OPTION_SCHEMAS: Record<keyof BuiltInRuleOptions, Joi.ObjectSchema> = {
+  'component-duplication': Joi.object({
+    ...commonOptions,
+    basePatterns: stringList,
+    ignore: stringList,
+  }),
+  'inline-styles': colorOptions,
+  'naming-convention': Joi.object({
+    ...commonOptions,
+    convention: Joi.string().valid('PascalCase', 'camelCase', 'kebab-case'),
+    allow: regexList,
+  }),
+  'hardcoded-colors': colorOptions,
+  'spacing-violation': Joi.object({ ...commonOptions, allow: stringList }),
+  'typography-violation': Joi.object({
+    ...commonOptions,
+    allowFontSizes: stringList,
+    allowFontWeights: stringList,
+  }),
+  'component-drift': Joi.object({ ...commonOptions, allowClasses: stringList }),
+  accessibility: Joi.object(commonOptions),
+  'color-drift': colorOptions,
+  'dead-component': Joi.object({ ...commonOptions, entries: stringList }),
+  'import-cycle': Joi.object(commonOptions),
+  'tailwind-drift': Joi.object({ ...commonOptions, allow: stringList }),
+  'css-modules': Joi.object({ ...commonOptions, allow: stringList }),
+};
+
+/**
+ * Schema for one rule setting. Options of unknown (custom) rules are checked
+ * by the rule's own schema when it is loaded
+ */
+export function ruleSettingSchema(
+  optionsSchema: Joi.ObjectSchema = Joi.object(commonOptions).unknown(true)
+): Joi.Schema {
+  return Joi.alternatives().conditional(Joi.array(), {
+    then: Joi.array().ordered(levelSchema.required(), optionsSchema).min(1).max(2),
+    otherwise: levelSchema,
+  });
+}
+
+export const rulesSchema = Joi.object(
+  Object.fromEntries(
+    Object.entries(RULE_OPTION_SCHEMAS).map(([rule, schema]) => [rule, ruleSettingSchema(schema)])
+  )
+).pattern(Joi.string(), ruleSettingSchema());
+
+/**
+ * Split a rule setting into its severity and options
+ */
+export function normalizeRuleSetting<T = Record<string, unknown>>(
+  setting: RuleSetting | undefined,
+  defaultSeverity: RuleLevel = 'warning'
+): NormalizedRuleSetting<T> {
+  if (setting === undefined) {
+    return { severity: defaultSeverity, options: {} as T };
+  }
+  if (typeof setting === 'string') {
+    return { severity: setting, options: {} as T };
+  }
+  return { severity: setting[0], options: (setting[1] || {}) as T };
+}
@@ -10,15 +10,34 @@ import {
   ComponentInfo, 
   CSSAnalysisResult, 
   HTMLAnalysisResult,
-  AnalyzerOptions 
+  AnalyzerOptions,
+  ComponentUsageIndex,
+  DeadCodeReport,
+  TailwindTheme,
+  WorkspaceAnalysis,
 } from '../types';
 import { ComponentAnalyzer, CSSAnalyzer, HTMLAnalyzer } from '../analyzers';
+import { buildUsageIndex } from '../analyzers/jsxElements';
+import { listComponents } from '../analyzers/componentDefinitions';
+import { listEmbeddedStyles } from '../analyzers/cssInJS';
+import { parseSource } from '../analyzers/astParser';
+import { collectModuleInfo } from '../analyzers/moduleInfo';
+import { resolveModule } from '../analyzers/moduleResolver';
+import { findDeadCode, ReferenceModule } from '../analyzers/deadCode';
+import { buildDependencyGraph, findImportCycles } from '../analyzers/dependencyGraph';
+import { loadTailwindTheme } from '../analyzers/tailwindTheme';
 import { FileDiscovery } from '../utils/fileDiscovery';
-import { PatternExtractor } from '../patterns/patternExtractor';
+import { PatternExtractor, DesignPatterns } from '../patterns/patternExtractor';
 import { PatternStorage } from '../patterns/patternStorage';
-import { DriftAnalyzer } from '../drift-detector/driftAnalyzer';
-import { ConfigLoader } from '../config/configLoader';
+import { DesignSpecStorage } from '../patterns/designSpec';
+import { DriftAnalyzer, DriftAnalysisResult } from '../drift-detector/driftAnalyzer';
+import { BaselineStorage } from '../drift-detector/baseline';
+import { ConfigLoader, GuruConfig } from '../config/configLoader';
+import { DeadComponentRuleOptions, normalizeRuleSetting } from '../config/ruleSettings';
+import { findConfigFile } from '../config/configFiles';
+import { loadCustomRules } from '../rules/ruleLoader';
 import { MarkdownReporter } from '../reporters/markdownReporter';
+import { computeAdoption, mergeAdoption } from '../analytics/adoption';
 
 export class ProjectAnalyzer {
   private componentAnalyzer: ComponentAnalyzer;
@@ -27,19 +46,26 @@ export class ProjectAnalyzer {
   private fileDiscovery: FileDiscovery;
   private patternExtractor: PatternExtractor;
   private patternStorage: PatternStorage;
+  private specStorage: DesignSpecStorage;
+  private baselineStorage: BaselineStorage;
   private configLoader: ConfigLoader;
   private driftAnalyzer: DriftAnalyzer | null = null;
+  private driftResult: DriftAnalysisResult | null = null;
   private reporter: MarkdownReporter;
   private options: AnalyzerOptions;
+  private configRoot: string;
 
   constructor(options: AnalyzerOptions) {
     this.options = options;
+    this.configRoot = options.configRoot || options.projectPath;
     this.componentAnalyzer = new ComponentAnalyzer();
     this.cssAnalyzer = new CSSAnalyzer();
     this.htmlAnalyzer = new HTMLAnalyzer();
     this.patternExtractor = new PatternExtractor();
     this.patternStorage = new PatternStorage(options.projectPath);
-    this.configLoader = new ConfigLoader(options.projectPath);
+    this.specStorage = new DesignSpecStorage(options.projectPath);
+    this.baselineStorage = new BaselineStorage(options.projectPath);
+    this.configLoader = new ConfigLoader(this.configRoot);
     this.reporter = new MarkdownReporter();
     this.fileDiscovery = new FileDiscovery({
       projectPath: options.projectPath,
@@ -57,17 +83,39 @@ export class ProjectAnalyzer {
 
     // Check if valid project
     if (!(await this.fileDiscovery.isValidProject())) {
+      if ((await this.fileDiscovery.findWorkspacePackages()).length > 0) {
+        throw new Error(
+          'Not a valid React project directory. To analyze a monorepo, use workspace mode (--workspaces)'
+        );
+      }
       throw new Error('Not a valid React project directory');
     }
 
-    // Get project stats
-    const stats = await this.fileDiscovery.getProjectStats();
-    console.log(chalk.gray(`Found ${stats.totalFiles} files to analyze`));
+    // Changed files are checked against stored patterns; without any, the
+    // whole project is scanned to learn them
+    const storedPatterns =
+      this.options.changedFiles !== undefined ? await this.loadStoredPatterns() : null;
+    if (this.options.changedFiles !== undefined && !storedPatterns) {
+      console.log(
+        chalk.yellow('No stored patterns or approved spec yet: scanning the whole project instead')
+      );
+    }
+    const changedOnly = storedPatterns !== null;
 
     // Discover files
     console.log(chalk.blue('📁 Discovering files...'));
-    const files = await this.fileDiscovery.findAllFiles();
-    
+    let files: { react: string[]; css: string[]; html: string[] };
+    if (changedOnly) {
+      files = await this.fileDiscovery.classifyFiles(this.options.changedFiles!);
+      console.log(
+        chalk.gray(`  Analyzing ${this.options.changedFiles!.length} changed file(s) only`)
+      );
+    } else {
+      const stats = await this.fileDiscovery.getProjectStats();
+      console.log(chalk.gray(`Found ${stats.totalFiles} files to analyze`));
+      files = await this.fileDiscovery.findAllFiles();
+    }
+
     console.log(chalk.gray(`  React files: ${files.react.length}`));
     console.log(chalk.gray(`  CSS files: ${files.css.length}`));
     console.log(chalk.gray(`  HTML files: ${files.html.length}`));
@@ -75,10 +123,11 @@ export class ProjectAnalyzer {
     // Analyze components
     console.log(chalk.blue('⚛️  Analyzing React components...'));
     const components = await this.analyzeComponents(files.react);
+    const usage = buildUsageIndex(components);
 
     // Analyze styles
     console.log(chalk.blue('🎨 Analyzing stylesheets...'));
-    const styles = await this.analyzeStyles(files.css);
+    const styles = [...(await this.analyzeStyles(files.css)), ...listEmbeddedStyles(components)];
 
     // Analyze templates
     console.log(chalk.blue('📄 Analyzing HTML templates...'));
@@ -89,31 +138,26 @@ export class ProjectAnalyzer {
 
     // Load configuration
     const config = await this.configLoader.loadConfig();
+    const tailwind = await this.loadTailwindTheme();
 
-    // Extract patterns
-    console.log(chalk.blue('🔍 Learning design patterns...'));
-    const patterns = this.patternExtractor.extractPatterns({
-      projectPath: this.options.projectPath,
-      timestamp: new Date().toISOString(),
-      framework,
-      components,
-      styles,
-      templates,
-      patterns: [],
-      violations: [],
-      compliance: { score: 0, totalFiles: 0, filesWithViolations: 0, totalViolations: 0 },
-    });
+    const driftPatterns =
+      storedPatterns ||
+      (await this.learnPatterns(framework, components, styles, templates, usage, tailwind));
 
-    // Save patterns
-    await this.patternStorage.savePatterns(patterns);
-    const storedPatterns = await this.patternStorage.loadPatterns();
-    const patternInfos = storedPatterns ? 
-      this.patternStorage.convertToPatternInfo(storedPatterns.patterns) : [];
+    const patternInfos = this.patternStorage.convertToPatternInfo(driftPatterns);
+
+    // Unused code and import cycles can only be told apart when every file was analyzed
+    const deadCode = changedOnly ? undefined : await this.findDeadCode(components, config);
+    const importCycles = changedOnly
+      ? undefined
+      : findImportCycles(buildDependencyGraph(components));
 
     // Perform drift detection
     console.log(chalk.blue('🎯 Detecting drift violations...'));
     this.driftAnalyzer = new DriftAnalyzer(config);
-    this.driftAnalyzer.setPatterns(patterns);
+    this.driftAnalyzer.setPatterns(driftPatterns);
+    this.driftAnalyzer.setCustomRules(await loadCustomRules(this.configRoot, config));
+    await this.applyBaseline(this.driftAnalyzer);
     
     const tempAnalysis: ProjectAnalysis = {
       projectPath: this.options.projectPath,
@@ -124,10 +168,15 @@ export class ProjectAnalyzer {
       templates,
       patterns: patternInfos,
       violations: [],
+      scope: changedOnly ? 'changed' : 'full',
       compliance: { score: 0, totalFiles: 0, filesWithViolations: 0, totalViolations: 0 },
+      deadCode,
+      importCycles,
+      tailwind,
     };
 
     const driftResult = this.driftAnalyzer.analyzeForDrift(tempAnalysis);
+    this.driftResult = driftResult;
     const violations = driftResult.violations;
 
     // Calculate compliance score
@@ -136,6 +185,8 @@ export class ProjectAnalyzer {
       totalFiles: files.react.length + files.css.length + files.html.length,
       filesWithViolations: new Set(violations.map(v => v.filePath)).size,
       totalViolations: violations.length,
+      suppressed: driftResult.summary.suppressed,
+      baselined: driftResult.summary.baselined,
     };
 
     const analysis: ProjectAnalysis = {
@@ -143,19 +194,38 @@ export class ProjectAnalyzer {
       timestamp: new Date().toISOString(),
       framework,
       components,
+      componentDefinitions: listComponents(components),
       styles,
       templates,
       patterns: patternInfos,
       violations,
+      scope: changedOnly ? 'changed' : 'full',
       compliance,
+      usage,
+      deadCode,
+      importCycles,
+      tailwind,
     };
 
+    const designSystemPackages = config.designSystem?.packages || [];
+    if (designSystemPackages.length > 0) {
+      analysis.adoption = computeAdoption(
+        this.options.projectPath,
+        components,
+        designSystemPackages
+      );
+    }
+
     console.log(chalk.green('✅ Analysis complete!'));
     console.log(chalk.yellow(`📊 Compliance score: ${compliance.score}%`));
     console.log(chalk.yellow(`⚠️  Violations found: ${violations.length}`));
+    if (analysis.adoption) {
+      console.log(chalk.yellow(`🧩 Design-system adoption: ${analysis.adoption.percentage}%`));
+    }
 
-    // Record analytics if enabled
-    if (this.options.enableAnalytics !== false) {
+    // Record analytics if enabled. Partial scans would distort the trends, so
+    // only full scans are recorded
+    if (this.options.enableAnalytics !== false && !changedOnly) {
       try {
         const { AnalyticsEngine } = await import('../analytics/analyticsEngine');
         const analyticsEngine = new AnalyticsEngine({ 
@@ -174,6 +244,314 @@ export class ProjectAnalyzer {
     return analysis;
   }
 
+  /**
+   * Analyze each React package of an npm, yarn or pnpm workspace with its own
+   * config, patterns and baseline, and combine the results. Packages without a
+   * config file use the workspace root's config
+   */
+  async analyzeWorkspaces(): Promise<WorkspaceAnalysis> {
+    const rootPath = this.options.projectPath;
+    const workspacePackages = await this.fileDiscovery.findWorkspacePackages();
+    if (workspacePackages.length === 0) {
+      throw new Error(
+        'No workspace packages found. Define "workspaces" in package.json or a pnpm-workspace.yaml'
+      );
+    }
+
+    const packages: WorkspaceAnalysis['packages'] = [];
+    const driftResults: DriftAnalysisResult[] = [];
+
+    for (const workspacePackage of workspacePackages) {
+      const packageAnalyzer = new ProjectAnalyzer({
+        ...this.options,
+        projectPath: workspacePackage.path,
+        configRoot: (await findConfigFile(workspacePackage.path)) ? workspacePackage.path : rootPath,
+        changedFiles: this.options.changedFiles
+          ?.map(file => path.resolve(rootPath, file))
+          .filter(file => file.startsWith(workspacePackage.path + path.sep)),
+      });
+
+      if (!(await packageAnalyzer.fileDiscovery.isValidProject())) {
+        console.log(chalk.gray(`\n📦 Skipping ${workspacePackage.name} (not a React package)`));
+        continue;
+      }
+
+      console.log(chalk.cyan(`\n📦 ${workspacePackage.name}`));
+      const analysis = await packageAnalyzer.analyzeProject();
+      packages.push({ ...workspacePackage, analysis });
+      driftResults.push(packageAnalyzer.getDriftResult()!);
+    }
+
+    if (packages.length === 0) {
+      throw new Error('No React packages found in the workspace');
+    }
+
+    const aggregate = this.aggregateAnalyses(packages);
+    this.driftResult = this.aggregateDriftResults(driftResults, aggregate.compliance.score);
+    this.driftAnalyzer = null;
+
+    console.log(chalk.green(`\n✅ Analyzed ${packages.length} workspace package(s)`));
+    console.log(chalk.yellow(`📊 Overall compliance score: ${aggregate.compliance.score}%`));
+
+    return { packages, aggregate };
+  }
+
+  /**
+   * Combine the analyses of workspace packages into one for the workspace root
+   */
+  private aggregateAnalyses(packages: WorkspaceAnalysis['packages']): ProjectAnalysis {
+    const analyses = packages.map(({ analysis }) => analysis);
+    const sum = (value: (analysis: ProjectAnalysis) => number | undefined) =>
+      analyses.reduce((total, analysis) => total + (value(analysis) || 0), 0);
+
+    // Weigh each package's score by its number of files
+    const totalFiles = sum(analysis => analysis.compliance.totalFiles);
+    const score = totalFiles === 0
+      ? 100
+      : Math.round(sum(analysis => analysis.compliance.score * analysis.compliance.totalFiles) / totalFiles);
+
+    const adopting = packages.filter(({ analysis }) => analysis.adoption);
+    const adoption = adopting.length > 0
+      ? mergeAdoption(
+          this.options.projectPath,
+          adopting.map(({ path: packagePath, analysis }) => ({
+            path: packagePath,
+            adoption: analysis.adoption!,
+          }))
+        )
+      : undefined;
+
+    const frameworks = analyses.map(analysis => analysis.framework);
+    const shared = (value: (framework: ProjectAnalysis['framework']) => string | undefined) =>
+      new Set(frameworks.map(value)).size === 1 ? value(frameworks[0]) : undefined;
+
+    return {
+      projectPath: this.options.projectPath,
+      timestamp: new Date().toISOString(),
+      framework: {
+        type: shared(framework => framework.type) || 'react',
+        typescript: frameworks.some(framework => framework.typescript),
+        cssFramework: shared(framework => framework.cssFramework),
+      },
+      components: analyses.flatMap(analysis => analysis.components),
+      componentDefinitions: analyses.flatMap(analysis => analysis.componentDefinitions || []),
+      styles: analyses.flatMap(analysis => analysis.styles),
+      templates: analyses.flatMap(analysis => analysis.templates),
+      patterns: analyses.flatMap(analysis => analysis.patterns),
+      violations: analyses.flatMap(analysis => analysis.violations),
+      scope: analyses[0].scope,
+      compliance: {
+        score,
+        totalFiles,
+        filesWithViolations: sum(analysis => analysis.compliance.filesWithViolations),
+        totalViolations: sum(analysis => analysis.compliance.totalViolations),
+        suppressed: sum(analysis => analysis.compliance.suppressed),
+        baselined: sum(analysis => analysis.compliance.baselined),
+      },
+      usage: buildUsageIndex(analyses.flatMap(analysis => analysis.components)),
+      deadCode: analyses.some(analysis => analysis.deadCode)
+        ? {
+            unusedComponents: analyses.flatMap(a => a.deadCode?.unusedComponents || []),
+            unimportedFiles: analyses.flatMap(a => a.deadCode?.unimportedFiles || []),
+            brokenReferences: analyses.flatMap(a => a.deadCode?.brokenReferences || []),
+          }
+        : undefined,
+      importCycles: analyses.some(analysis => analysis.importCycles)
+        ? analyses.flatMap(analysis => analysis.importCycles || [])
+        : undefined,
+      adoption,
+      packages: packages.map(({ name, path: packagePath, analysis }) => ({
+        name,
+        path: packagePath,
+        framework: analysis.framework,
+        compliance: analysis.compliance,
+      })),
+    };
+  }
+
+  /**
+   * Combine the drift results of workspace packages, for reporters
+   */
+  private aggregateDriftResults(
+    results: DriftAnalysisResult[],
+    complianceScore: number
+  ): DriftAnalysisResult {
+    const byType: Record<string, number> = {};
+    for (const result of results) {
+      for (const [type, count] of Object.entries(result.summary.byType)) {
+        byType[type] = (byType[type] || 0) + count;
+      }
+    }
+    const sum = (value: (result: DriftAnalysisResult) => number | undefined) =>
+      results.reduce((total, result) => total + (value(result) || 0), 0);
+
+    return {
+      violations: results.flatMap(result => result.violations),
+      baselinedViolations: results.flatMap(result => result.baselinedViolations || []),
+      complianceScore,
+      summary: {
+        total: sum(result => result.summary.total),
+        errors: sum(result => result.summary.errors),
+        warnings: sum(result => result.summary.warnings),
+        byType,
+        suppressed: sum(result => result.summary.suppressed),
+        baselined: sum(result => result.summary.baselined),
+      },
+    };
+  }
+
+  /**
+   * Learn patterns from a full analysis, store them, and pick the patterns drift
+   * is measured against
+   */
+  private async learnPatterns(
+    framework: ProjectAnalysis['framework'],
+    components: ComponentInfo[],
+    styles: CSSAnalysisResult[],
+    templates: HTMLAnalysisResult[],
+    usage: ComponentUsageIndex,
+    tailwind?: TailwindTheme
+  ): Promise<DesignPatterns> {
+    console.log(chalk.blue('🔍 Learning design patterns...'));
+    const patterns = this.patternExtractor.extractPatterns({
+      projectPath: this.options.projectPath,
+      timestamp: new Date().toISOString(),
+      framework,
+      components,
+      styles,
+      templates,
+      patterns: [],
+      violations: [],
+      compliance: { score: 0, totalFiles: 0, filesWithViolations: 0, totalViolations: 0 },
+      usage,
+      tailwind,
+    });
+
+    // Save patterns
+    await this.patternStorage.savePatterns(patterns);
+
+    // Drift is measured against the approved spec when one exists; newly
+    // learned patterns only become proposals for review
+    const spec = await this.specStorage.loadSpec();
+    if (!spec) return patterns;
+
+    const proposals = this.specStorage.diffPatterns(spec, patterns);
+    await this.specStorage.saveProposals(proposals, spec.specVersion);
+    console.log(chalk.gray(`  Using approved spec v${spec.specVersion}`));
+    if (proposals.length > 0) {
+      console.log(
+        chalk.gray(`  ${proposals.length} pattern proposal(s) pending review (guru patterns proposals)`)
+      );
+    }
+
+    return spec.patterns;
+  }
+
+  /**
+   * Load the approved spec or stored patterns for a partial analysis, which
+   * has too few files to learn patterns from. Null when neither exists
+   */
+  private async loadStoredPatterns(): Promise<DesignPatterns | null> {
+    const spec = await this.specStorage.loadSpec();
+    if (spec) {
+      console.log(chalk.gray(`  Using approved spec v${spec.specVersion}`));
+      return spec.patterns;
+    }
+
+    const stored = await this.patternStorage.loadPatterns();
+    return stored?.patterns ?? null;
+  }
+
+  /**
+   * Load the theme of the project's Tailwind config. A config that fails to
+   * load only turns off the Tailwind checks
+   */
+  private async loadTailwindTheme(): Promise<TailwindTheme | undefined> {
+    try {
+      const theme = await loadTailwindTheme(this.options.projectPath);
+      if (theme) {
+        console.log(chalk.gray(`  Using Tailwind theme from ${path.basename(theme.configPath)}`));
+      }
+      return theme ?? undefined;
+    } catch (error) {
+      console.log(chalk.yellow(`⚠️  ${error instanceof Error ? error.message : error}`));
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the full drift result of the last analysis, including baselined violations
+   */
+  getDriftResult(): DriftAnalysisResult | null {
+    return this.driftResult;
+  }
+
+  /**
+   * Get the drift analyzer configured by the last analysis
+   */
+  getDriftAnalyzer(): DriftAnalyzer | null {
+    return this.driftAnalyzer;
+  }
+
+  /**
+   * Find unused components, component files nothing imports, and stories or
+   * tests that point at components that are gone
+   */
+  private async findDeadCode(
+    components: ComponentInfo[],
+    config: GuruConfig
+  ): Promise<DeadCodeReport> {
+    const analyzed = new Set(components.map(component => component.filePath));
+    const readModules = async (filePaths: string[]): Promise<ReferenceModule[]> => {
+      const modules: ReferenceModule[] = [];
+      for (const filePath of filePaths) {
+        if (analyzed.has(filePath)) continue;
+        try {
+          const ast = parseSource(await fs.readFile(filePath, 'utf-8'), filePath);
+          if (!ast) continue;
+          const { imports, exports } = collectModuleInfo(ast, filePath);
+          modules.push({ filePath, imports, exports });
+        } catch {
+          // Skip files that can't be read
+        }
+      }
+      return modules;
+    };
+
+    // Sources without React code, such as routes.ts, can import components too
+    const references = await readModules(await this.fileDiscovery.findStoryAndTestFiles());
+    const sources = await readModules(await this.fileDiscovery.findSourceFiles());
+
+    const { options } = normalizeRuleSetting<DeadComponentRuleOptions>(
+      config.rules?.['dead-component']
+    );
+
+    return findDeadCode({
+      projectPath: this.options.projectPath,
+      components,
+      references,
+      sources,
+      entries: options.entries,
+      entryFiles: await this.getPackageEntryFiles(),
+    });
+  }
+
+  /**
+   * Resolve the source, main and module entry points of the project's package.json
+   */
+  private async getPackageEntryFiles(): Promise<string[]> {
+    const packageJsonPath = path.join(this.options.projectPath, 'package.json');
+    try {
+      const packageJson = await fs.readJson(packageJsonPath);
+      return [packageJson.source, packageJson.main, packageJson.module]
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map(entry => resolveModule(path.resolve(this.options.projectPath, entry), packageJsonPath))
+        .filter((file): file is string => file !== undefined);
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Analyze React components
    */
@@ -292,6 +670,16 @@ export class ProjectAnalyzer {
   }
 
 
+  /**
+   * Load the committed baseline into the drift analyzer unless disabled
+   */
+  private async applyBaseline(driftAnalyzer: DriftAnalyzer): Promise<void> {
+    if (this.options.useBaseline === false) return;
+
+    const baseline = await this.baselineStorage.loadBaseline();
+    driftAnalyzer.setBaseline(baseline);
+  }
+
   /**
    * Generate JSON output
    */
@@ -310,13 +698,20 @@ export class ProjectAnalyzer {
    * Generate markdown report
    */
   async generateReport(analysis: ProjectAnalysis, outputPath?: string): Promise<string> {
+    const spec = await this.specStorage.loadSpec();
+    const storedPatterns = spec || (await this.patternStorage.loadPatterns());
+
     if (!this.driftAnalyzer) {
       const config = await this.configLoader.loadConfig();
       this.driftAnalyzer = new DriftAnalyzer(config);
+      if (storedPatterns) {
+        this.driftAnalyzer.setPatterns(storedPatterns.patterns);
+      }
+      this.driftAnalyzer.setCustomRules(await loadCustomRules(this.configRoot, config));
+      await this.applyBaseline(this.driftAnalyzer);
     }
 
     const driftResult = this.driftAnalyzer.analyzeForDrift(analysis);
-    const storedPatterns = await this.patternStorage.loadPatterns();
     
     const defaultPath = path.join(this.options.projectPath, '.codebase-guru', 'report.md');
     const reportPath = outputPath || defaultPath;
@@ -0,0 +1,115 @@
+/**
+ * Committed baseline of known violations, so only new drift is reported
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { DriftViolation } from '../types';
+
+export const BASELINE_FILE_NAME = 'guru.baseline.json';
+
+export interface BaselineEntry {
+  type: string;
+  filePath: string;
+  message: string;
+  count: number;
+}
+
+export interface DriftBaseline {
+  version: number;
+  createdAt: string;
+  complianceScore?: number;
+  violations: Record<string, BaselineEntry>;
+}
+
+/**
+ * Create a fingerprint that survives unrelated edits to the file.
+ * Positions are deliberately left out so moving code doesn't make a known violation new.
+ */
+export function createFingerprint(violation: DriftViolation, projectPath: string): string {
+  const relativePath = path.relative(projectPath, violation.filePath).split(path.sep).join('/');
+
+  return crypto
+    .createHash('sha1')
+    .update(`${violation.type}\0${relativePath}\0${violation.message}`)
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export class BaselineStorage {
+  private projectPath: string;
+  private baselinePath: string;
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+    this.baselinePath = path.join(projectPath, BASELINE_FILE_NAME);
+  }
+
+  /**
+   * Get the path of the committed baseline file
+   */
+  getBaselinePath(): string {
+    return this.baselinePath;
+  }
+
+  /**
+   * Load the baseline, if one has been recorded
+   */
+  async loadBaseline(): Promise<DriftBaseline | null> {
+    try {
+      if (await fs.pathExists(this.baselinePath)) {
+        return await fs.readJson(this.baselinePath);
+      }
+    } catch (error) {
+      console.warn(`Failed to load ${BASELINE_FILE_NAME}:`, error);
+    }
+    return null;
+  }
+
+  /**
+   * Record the given violations as the new baseline
+   */
+  async saveBaseline(
+    violations: DriftViolation[],
+    complianceScore?: number
+  ): Promise<DriftBaseline> {
+    const entries: Record<string, BaselineEntry> = {};
+
+    for (const violation of violations) {
+      const fingerprint = violation.fingerprint || createFingerprint(violation, this.projectPath);
+      const existing = entries[fingerprint];
+
+      if (existing) {
+        existing.count++;
+      } else {
+        entries[fingerprint] = {
+          type: violation.type,
+          filePath: path.relative(this.projectPath, violation.filePath).split(path.sep).join('/'),
+          message: violation.message,
+          count: 1,
+        };
+      }
+    }
+
+    // Sort by file so the committed baseline produces small, readable diffs
+    const fingerprints = Object.keys(entries).sort((a, b) => {
+      const byFile = entries[a].filePath.localeCompare(entries[b].filePath);
+      return byFile !== 0 ? byFile : a.localeCompare(b);
+    });
+    const sorted: Record<string, BaselineEntry> = {};
+    for (const fingerprint of fingerprints) {
+      sorted[fingerprint] = entries[fingerprint];
+    }
+
+    const baseline: DriftBaseline = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      complianceScore,
+      violations: sorted,
+    };
+
+    await fs.writeJson(this.baselinePath, baseline, { spaces: 2 });
+    return baseline;
+  }
+}
@@ -2,30 +2,76 @@
  * Drift detection and analysis engine
  */
 
+import * as path from 'path';
+import { minimatch } from 'minimatch';
 import {
+  ComponentDefinition,
   ComponentInfo,
   CSSAnalysisResult,
   HTMLAnalysisResult,
+  DeadCodeReport,
+  ImportCycle,
   DriftViolation,
   ProjectAnalysis,
+  StyleValueCategory,
+  SuppressionRange,
+  TailwindTheme,
 } from '../types';
 import { DesignPatterns } from '../patterns/patternExtractor';
 import { GuruConfig } from '../config/configLoader';
+import { BuiltInRuleOptions, CommonRuleOptions, normalizeRuleSetting } from '../config/ruleSettings';
+import { getMatchingOverrides, resolveFileConfig } from '../config/configMerge';
+import { normalizeTokenValue } from '../tokens/tokenIndex';
+import { isSuppressed } from './suppressions';
+import { DriftBaseline, createFingerprint } from './baseline';
+import { CustomRule, runCustomRules } from '../rules/customRules';
+import { listComponents } from '../analyzers/componentDefinitions';
+import { findThemeKey, parseTailwindClass, withThemeKey } from '../analyzers/tailwindClasses';
+import { isTokenReference } from '../analyzers/styleValues';
+import { linkCSSModules, matchesModuleClass } from '../analyzers/cssModules';
 
 export interface DriftAnalysisResult {
   violations: DriftViolation[];
+  baselinedViolations?: DriftViolation[];
   complianceScore: number;
   summary: {
     total: number;
     errors: number;
     warnings: number;
     byType: Record<string, number>;
+    suppressed?: number;
+    baselined?: number;
   };
 }
 
+interface PositionedValue {
+  value: string;
+  line?: number;
+  column?: number;
+}
+
+// How violations name the scale of each category of design value
+const SCALE_NAMES: Record<StyleValueCategory, string> = {
+  color: 'color',
+  spacing: 'spacing',
+  fontSize: 'font size',
+  fontWeight: 'font weight',
+  zIndex: 'z-index',
+};
+
+// A stylesheet, or the inline styles of a component
+interface StyleSource {
+  filePath: string;
+  getValues: (category: StyleValueCategory) => PositionedValue[];
+}
+
 export class DriftAnalyzer {
   private config: GuruConfig;
   private patterns: DesignPatterns | null = null;
+  private baseline: DriftBaseline | null = null;
+  private customRules: CustomRule[] = [];
+  private projectPath = '';
+  private fileConfigs = new Map<string, GuruConfig>();
 
   constructor(config: GuruConfig) {
     this.config = config;
@@ -38,21 +84,70 @@ export class DriftAnalyzer {
     this.patterns = patterns;
   }
 
+  /**
+   * Set the baseline of known violations; only violations beyond it are reported
+   */
+  setBaseline(baseline: DriftBaseline | null): void {
+    this.baseline = baseline;
+  }
+
+  /**
+   * Set custom rules that run alongside the built-in detectors
+   */
+  setCustomRules(rules: CustomRule[]): void {
+    this.customRules = rules;
+  }
+
+  /**
+   * Get the spacing grid unit in pixels, preferring the learned grid over the configured one.
+   * A grid set by an override matching the file wins over both
+   */
+  getSpacingGrid(filePath?: string): number {
+    const overrideGrid = filePath
+      ? getMatchingOverrides(this.config, this.getRelativePath(filePath))
+          .map((override) => override.patterns?.spacingGrid)
+          .filter(Boolean)
+          .pop()
+      : undefined;
+    return overrideGrid || this.patterns?.spacing.unit || this.config.patterns?.spacingGrid || 8;
+  }
+
   /**
    * Analyze project for drift violations
    */
   analyzeForDrift(analysis: ProjectAnalysis): DriftAnalysisResult {
     const violations: DriftViolation[] = [];
+    this.projectPath = analysis.projectPath;
+    this.fileConfigs.clear();
 
     // Component-related violations
     violations.push(...this.detectComponentDuplication(analysis.components));
     violations.push(...this.detectInlineStyles(analysis.components));
     violations.push(...this.detectNamingViolations(analysis.components));
+    violations.push(...this.detectNativeButtons(analysis.components));
+    if (analysis.deadCode) {
+      violations.push(...this.detectDeadComponents(analysis.deadCode));
+    }
+    if (analysis.importCycles) {
+      violations.push(...this.detectImportCycles(analysis.importCycles));
+    }
 
     // CSS-related violations
     violations.push(...this.detectHardcodedColors(analysis.styles));
-    violations.push(...this.detectSpacingViolations(analysis.styles));
-    violations.push(...this.detectTypographyViolations(analysis.styles));
+    // Spacing and typography apply to inline styles too
+    const styleSources = this.getStyleSources(analysis);
+    violations.push(...this.detectSpacingViolations(styleSources));
+    violations.push(...this.detectTypographyViolations(styleSources));
+    if (analysis.tailwind) {
+      violations.push(...this.detectTailwindDrift(analysis.components, analysis.tailwind));
+    }
+    violations.push(
+      ...this.detectCSSModuleDrift(
+        analysis.components,
+        analysis.styles,
+        analysis.scope !== 'changed'
+      )
+    );
 
     // HTML-related violations
     violations.push(...this.detectHTMLViolations(analysis.templates));
@@ -63,17 +158,36 @@ export class DriftAnalyzer {
       violations.push(...this.detectPatternViolations(analysis));
     }
 
+    // Custom rules from the configuration
+    violations.push(
+      ...runCustomRules(this.customRules, analysis, { config: this.config, patterns: this.patterns })
+    );
+
     // Filter violations based on config rules
-    const filteredViolations = this.filterViolations(violations);
+    const enabledViolations = this.filterViolations(violations);
+
+    for (const violation of enabledViolations) {
+      violation.fingerprint = createFingerprint(violation, analysis.projectPath);
+    }
+
+    // Drop violations silenced by guru-disable comments
+    const unsuppressed = this.filterSuppressed(analysis, enabledViolations);
 
-    // Calculate compliance score
-    const complianceScore = this.calculateComplianceScore(analysis, filteredViolations);
+    // Calculate compliance score. Baselined violations still count: the
+    // baseline hides known drift from reports but doesn't make it go away
+    const complianceScore = this.calculateComplianceScore(analysis, unsuppressed);
+
+    const filteredViolations = this.filterBaselined(unsuppressed);
+    const reported = new Set(filteredViolations);
 
     // Create summary
     const summary = this.createSummary(filteredViolations);
+    summary.suppressed = enabledViolations.length - unsuppressed.length;
+    summary.baselined = unsuppressed.length - filteredViolations.length;
 
     return {
       violations: filteredViolations,
+      baselinedViolations: unsuppressed.filter(violation => !reported.has(violation)),
       complianceScore,
       summary,
     };
@@ -82,14 +196,13 @@ export class DriftAnalyzer {
   /**
    * Detect component duplication
    */
-  private detectComponentDuplication(components: ComponentInfo[]): DriftViolation[] {
+  private detectComponentDuplication(files: ComponentInfo[]): DriftViolation[] {
     const violations: DriftViolation[] = [];
-    const componentMap = new Map<string, ComponentInfo[]>();
+    const components = listComponents(files);
+    const componentMap = new Map<string, ComponentDefinition[]>();
 
     // Group components by name
     for (const component of components) {
-      if (!component.success) continue;
-      
       const key = component.name.toLowerCase();
       if (!componentMap.has(key)) {
         componentMap.set(key, []);
@@ -98,23 +211,30 @@ export class DriftAnalyzer {
     }
 
     // Check for common button/card patterns that should use existing components
-    const commonPatterns = ['button', 'card', 'modal', 'dropdown', 'tab', 'form'];
-    
     for (const component of components) {
-      if (!component.success) continue;
+      const options = this.getRuleOptions('component-duplication', component.filePath);
+      if (options.ignore?.includes(component.name)) continue;
+      const commonPatterns = (
+        options.basePatterns || ['button', 'card', 'modal', 'dropdown', 'tab', 'form']
+      ).map((pattern) => pattern.toLowerCase());
 
       // Check if component name suggests it's a custom implementation
       const nameLower = component.name.toLowerCase();
       
       for (const pattern of commonPatterns) {
         if (nameLower.includes(pattern) && nameLower !== pattern) {
-          // Check if there's a base component
-          const baseComponent = componentMap.get(pattern);
-          if (baseComponent && baseComponent.length > 0) {
+          // Check if there's a base component, either among the analyzed files or
+          // known from the patterns (when only changed files were analyzed)
+          const hasBaseComponent =
+            (componentMap.get(pattern)?.length ?? 0) > 0 ||
+            !!this.patterns?.components.some((c) => c.name.toLowerCase() === pattern);
+          if (hasBaseComponent) {
             violations.push({
               type: 'component-duplication',
-              severity: this.getSeverity('component-duplication'),
+              severity: this.getSeverity('component-duplication', component.filePath),
               filePath: component.filePath,
+              line: component.line,
+              column: component.column,
               message: `Component "${component.name}" appears to be a variation of "${pattern}". Consider using the existing ${pattern} component with props/variants.`,
               suggestedFix: `Use the existing ${pattern} component and extend it with props or composition`,
             });
@@ -135,23 +255,48 @@ export class DriftAnalyzer {
     for (const component of components) {
       if (!component.success) continue;
 
-      if (component.styling?.type === 'inline') {
+      const isAllowed = this.createColorAllowList('inline-styles', component.filePath);
+
+      // Without the AST, any component not styled otherwise is assumed to use inline styles
+      const inlineStyles = component.styling?.inlineStyles;
+      if (component.styling?.type === 'inline' && (!inlineStyles || inlineStyles.length > 0)) {
+        const firstInlineStyle = component.styling.locations?.[0] ?? inlineStyles?.[0];
         violations.push({
           type: 'inline-styles',
-          severity: this.getSeverity('inline-styles'),
+          severity: this.getSeverity('inline-styles', component.filePath),
           filePath: component.filePath,
+          line: firstInlineStyle?.line ?? component.line,
+          column: firstInlineStyle?.column ?? component.column,
           message: 'Component uses inline styles instead of design system classes or styled-components',
           suggestedFix: 'Move styles to CSS classes, CSS modules, or styled-components',
         });
       }
 
-      // Check for inline style patterns in component (rough detection)
-      if (component.styling?.colors && component.styling.colors.length > 0) {
+      // Report every hardcoded inline color at its position
+      if (component.styling?.locations) {
+        for (const location of component.styling.locations) {
+          if (location.category !== 'color') continue;
+          if (location.value.startsWith('var(') || location.value.includes('current')) continue;
+          if (isAllowed(location.value)) continue;
+
+          violations.push({
+            type: 'inline-styles',
+            severity: this.getSeverity('inline-styles', component.filePath),
+            filePath: component.filePath,
+            line: location.line,
+            column: location.column,
+            value: location.value,
+            message: `Inline style with hardcoded color: ${location.value}`,
+            suggestedFix: 'Use CSS variables or theme tokens for colors',
+          });
+        }
+      } else if (component.styling?.colors && component.styling.colors.length > 0) {
+        // Rough detection when the component could not be parsed
         for (const color of component.styling.colors) {
-          if (!color.startsWith('var(') && !color.includes('current')) {
+          if (!color.startsWith('var(') && !color.includes('current') && !isAllowed(color)) {
             violations.push({
               type: 'inline-styles',
-              severity: this.getSeverity('inline-styles'),
+              severity: this.getSeverity('inline-styles', component.filePath),
               filePath: component.filePath,
               message: `Inline style with hardcoded color: ${color}`,
               suggestedFix: 'Use CSS variables or theme tokens for colors',
@@ -168,12 +313,17 @@ export class DriftAnalyzer {
   /**
    * Detect naming convention violations
    */
-  private detectNamingViolations(components: ComponentInfo[]): DriftViolation[] {
+  private detectNamingViolations(files: ComponentInfo[]): DriftViolation[] {
     const violations: DriftViolation[] = [];
-    const expectedNaming = this.config.patterns?.componentNaming || 'PascalCase';
 
-    for (const component of components) {
-      if (!component.success) continue;
+    for (const component of listComponents(files)) {
+      const options = this.getRuleOptions('naming-convention', component.filePath);
+      const expectedNaming =
+        options.convention ||
+        this.getFileConfig(component.filePath).patterns?.componentNaming ||
+        'PascalCase';
+      const allowedNames = (options.allow || []).map((pattern) => new RegExp(pattern));
+      if (allowedNames.some((pattern) => pattern.test(component.name))) continue;
 
       let isValid = false;
       
@@ -192,8 +342,10 @@ export class DriftAnalyzer {
       if (!isValid) {
         violations.push({
           type: 'naming-convention',
-          severity: this.getSeverity('naming-convention'),
+          severity: this.getSeverity('naming-convention', component.filePath),
           filePath: component.filePath,
+          line: component.line,
+          column: component.column,
           message: `Component "${component.name}" doesn't follow ${expectedNaming} naming convention`,
           suggestedFix: `Rename component to follow ${expectedNaming} convention`,
         });
@@ -203,6 +355,118 @@ export class DriftAnalyzer {
     return violations;
   }
 
+  /**
+   * Detect native JSX buttons rendered where the project has a Button component
+   */
+  private detectNativeButtons(files: ComponentInfo[]): DriftViolation[] {
+    const violations: DriftViolation[] = [];
+    const isButton = (name: string) => name.toLowerCase() === 'button';
+    const definitions = listComponents(files).filter((component) => isButton(component.name));
+    const learned = this.patterns?.components.find((component) => isButton(component.name));
+    const button = definitions[0]?.name || learned?.name;
+    if (!button) return violations;
+
+    // The Button component itself renders the native element
+    const buttonFiles = new Set([
+      ...definitions.map((definition) => definition.filePath),
+      ...(learned?.locations || []),
+    ]);
+
+    for (const file of files) {
+      if (!file.success || buttonFiles.has(file.filePath)) continue;
+
+      const allowClasses =
+        this.getRuleOptions('component-drift', file.filePath).allowClasses || ['btn'];
+      for (const element of file.jsxElements || []) {
+        if (element.name !== 'button') continue;
+
+        const className = element.props?.find((prop) => prop.name === 'className')?.value;
+        const classes = typeof className === 'string' ? className.split(/\s+/) : [];
+        if (allowClasses.some((allowed) => classes.includes(allowed))) continue;
+
+        violations.push({
+          type: 'component-drift',
+          severity: this.getSeverity('component-drift', file.filePath),
+          filePath: file.filePath,
+          line: element.line,
+          column: element.column,
+          message: `Native button element found instead of the ${button} component`,
+          suggestedFix: `Use the ${button} component`,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Report unused components, component files nothing imports, and stories or
+   * tests referencing components that are gone
+   */
+  private detectDeadComponents(deadCode: DeadCodeReport): DriftViolation[] {
+    const violations: DriftViolation[] = [];
+    const create = (
+      filePath: string,
+      fields: Omit<DriftViolation, 'type' | 'severity' | 'filePath'>
+    ) =>
+      violations.push({
+        type: 'dead-component',
+        severity: this.getSeverity('dead-component', filePath),
+        filePath,
+        ...fields,
+      });
+
+    for (const component of deadCode.unusedComponents) {
+      create(component.filePath, {
+        line: component.line,
+        column: component.column,
+        message: `Component "${component.name}" is exported but never imported or rendered`,
+        suggestedFix: 'Remove the component, or add its file to the dead-component entries',
+      });
+    }
+
+    for (const filePath of deadCode.unimportedFiles) {
+      create(filePath, {
+        message: `${path.basename(filePath)} is never imported`,
+        suggestedFix:
+          'Remove the file, or add it to the dead-component entries if the framework loads it',
+      });
+    }
+
+    for (const reference of deadCode.brokenReferences) {
+      create(reference.filePath, {
+        line: reference.line,
+        column: reference.column,
+        message: reference.name
+          ? `Imports "${reference.name}" from "${reference.source}", which no longer exports it`
+          : `Imports "${reference.source}", which no longer exists`,
+        suggestedFix: 'Update or remove the story or test',
+      });
+    }
+
+    return violations;
+  }
+
+  /**
+   * Report import cycles on the first file of each cycle
+   */
+  private detectImportCycles(cycles: ImportCycle[]): DriftViolation[] {
+    return cycles.map((cycle) => {
+      const filePath = cycle.files[0];
+      const chain = [...cycle.files, filePath].map((file) => this.getRelativePath(file));
+      return {
+        type: 'import-cycle',
+        severity: this.getSeverity('import-cycle', filePath),
+        filePath,
+        line: cycle.line,
+        column: cycle.column,
+        message: `Import cycle: ${chain.join(' → ')}`,
+        suggestedFix:
+          'Move the code both files need into a separate module, or pass it in as props',
+      };
+    });
+  }
+
   /**
    * Detect hardcoded colors
    */
@@ -212,9 +476,11 @@ export class DriftAnalyzer {
     for (const style of styles) {
       if (!style.success) continue;
 
-      const hardcodedColors = style.colors.filter(color => {
-        // Allow CSS variables and currentColor
-        if (color.startsWith('var(') || color === 'currentColor' || color === 'transparent') {
+      const isAllowed = this.createColorAllowList('hardcoded-colors', style.filePath);
+
+      const hardcodedColors = this.getStyleValues(style, 'color').filter(({ value: color }) => {
+        // Allow CSS and preprocessor variables, and currentColor
+        if (isTokenReference(color) || color === 'currentColor' || color === 'transparent') {
           return false;
         }
         
@@ -223,18 +489,25 @@ export class DriftAnalyzer {
           return false;
         }
 
+        if (isAllowed(color)) {
+          return false;
+        }
+
         // Check if it's a hardcoded hex, rgb, or hsl color
         return color.startsWith('#') || 
                color.startsWith('rgb') || 
                color.startsWith('hsl');
       });
 
-      if (hardcodedColors.length > 0) {
+      for (const color of hardcodedColors) {
         violations.push({
           type: 'hardcoded-colors',
-          severity: this.getSeverity('hardcoded-colors'),
+          severity: this.getSeverity('hardcoded-colors', style.filePath),
           filePath: style.filePath,
-          message: `Found ${hardcodedColors.length} hardcoded colors: ${hardcodedColors.slice(0, 3).join(', ')}${hardcodedColors.length > 3 ? '...' : ''}`,
+          line: color.line,
+          column: color.column,
+          value: color.value,
+          message: `Hardcoded color: ${color.value}`,
           suggestedFix: 'Use CSS variables or design tokens for colors',
         });
       }
@@ -246,28 +519,38 @@ export class DriftAnalyzer {
   /**
    * Detect spacing violations
    */
-  private detectSpacingViolations(styles: CSSAnalysisResult[]): DriftViolation[] {
+  private detectSpacingViolations(styles: StyleSource[]): DriftViolation[] {
     const violations: DriftViolation[] = [];
-    const spacingGrid = this.patterns?.spacing.unit || this.config.patterns?.spacingGrid || 8;
 
     for (const style of styles) {
-      if (!style.success) continue;
+      const spacingGrid = this.getSpacingGrid(style.filePath);
+      const allowed = new Set(
+        (this.getRuleOptions('spacing-violation', style.filePath).allow || []).map((value) =>
+          value.toLowerCase()
+        )
+      );
+
+      const invalidSpacing = style.getValues('spacing').filter(spacing => {
+        if (allowed.has(spacing.value.toLowerCase())) return false;
+        if (isTokenReference(spacing.value)) return false;
 
-      const invalidSpacing = style.spacing.filter(spacing => {
         // Parse to pixels
-        const value = this.parseSpacingValue(spacing);
+        const value = this.parseSpacingValue(spacing.value);
         if (value === null || value === 0) return false;
 
         // Check if it fits the grid
         return value % spacingGrid !== 0;
       });
 
-      if (invalidSpacing.length > 0) {
+      for (const spacing of invalidSpacing) {
         violations.push({
           type: 'spacing-violation',
-          severity: this.getSeverity('spacing-violation'),
+          severity: this.getSeverity('spacing-violation', style.filePath),
           filePath: style.filePath,
-          message: `Found ${invalidSpacing.length} spacing values that don't follow the ${spacingGrid}px grid: ${invalidSpacing.slice(0, 3).join(', ')}`,
+          line: spacing.line,
+          column: spacing.column,
+          value: spacing.value,
+          message: `Spacing value ${spacing.value} doesn't follow the ${spacingGrid}px grid`,
           suggestedFix: `Use multiples of ${spacingGrid}px for spacing`,
         });
       }
@@ -279,37 +562,52 @@ export class DriftAnalyzer {
   /**
    * Detect typography violations
    */
-  private detectTypographyViolations(styles: CSSAnalysisResult[]): DriftViolation[] {
+  private detectTypographyViolations(styles: StyleSource[]): DriftViolation[] {
     const violations: DriftViolation[] = [];
 
     if (!this.patterns) return violations;
 
-    const allowedSizes = new Set(this.patterns.typography.fontSizes);
-    const allowedWeights = new Set(this.patterns.typography.fontWeights);
-
     for (const style of styles) {
-      if (!style.success) continue;
-
-      // Check font sizes
-      const invalidSizes = style.fontSize.filter(size => !allowedSizes.has(size));
-      if (invalidSizes.length > 0) {
+      const options = this.getRuleOptions('typography-violation', style.filePath);
+      const allowedSizes = new Set([
+        ...this.patterns.typography.fontSizes,
+        ...(options.allowFontSizes || []),
+      ]);
+      const allowedWeights = new Set([
+        ...this.patterns.typography.fontWeights,
+        ...(options.allowFontWeights || []),
+      ]);
+
+      // Check font sizes; var() and variables reference a token, such as a theme value
+      const invalidSizes = style.getValues('fontSize').filter(
+        size => !isTokenReference(size.value) && !allowedSizes.has(size.value)
+      );
+      for (const size of invalidSizes) {
         violations.push({
           type: 'typography-violation',
-          severity: 'warning',
+          severity: this.getSeverity('typography-violation', style.filePath),
           filePath: style.filePath,
-          message: `Font sizes not in design scale: ${invalidSizes.join(', ')}`,
+          line: size.line,
+          column: size.column,
+          value: size.value,
+          message: `Font size not in design scale: ${size.value}`,
           suggestedFix: `Use established font sizes: ${Array.from(allowedSizes).join(', ')}`,
         });
       }
 
       // Check font weights
-      const invalidWeights = style.fontWeight.filter(weight => !allowedWeights.has(weight));
-      if (invalidWeights.length > 0) {
+      const invalidWeights = style.getValues('fontWeight').filter(
+        weight => !isTokenReference(weight.value) && !allowedWeights.has(weight.value)
+      );
+      for (const weight of invalidWeights) {
         violations.push({
           type: 'typography-violation',
-          severity: 'warning',
+          severity: this.getSeverity('typography-violation', style.filePath),
           filePath: style.filePath,
-          message: `Font weights not in design scale: ${invalidWeights.join(', ')}`,
+          line: weight.line,
+          column: weight.column,
+          value: weight.value,
+          message: `Font weight not in design scale: ${weight.value}`,
           suggestedFix: `Use established font weights: ${Array.from(allowedWeights).join(', ')}`,
         });
       }
@@ -318,6 +616,161 @@ export class DriftAnalyzer {
     return violations;
   }
 
+  /**
+   * Detect Tailwind classes with arbitrary values, such as p-[13px], and
+   * classes using keys the Tailwind config doesn't define
+   */
+  private detectTailwindDrift(components: ComponentInfo[], theme: TailwindTheme): DriftViolation[] {
+    const violations: DriftViolation[] = [];
+    const configFile = path.basename(theme.configPath);
+
+    for (const component of components) {
+      const classNames = component.styling?.classNames;
+      if (!component.success || !classNames) continue;
+
+      const allowed = new Set(this.getRuleOptions('tailwind-drift', component.filePath).allow);
+
+      for (const usage of classNames) {
+        const parsed = parseTailwindClass(usage.name, theme);
+        if (!parsed || allowed.has(usage.name)) continue;
+
+        const scale = SCALE_NAMES[parsed.category];
+        let message: string;
+        let suggestedFix: string;
+        if (parsed.arbitrary) {
+          // var() reads a token, which is what the theme would provide
+          if (parsed.key.startsWith('var(')) continue;
+
+          const themeKey = findThemeKey(theme, parsed.category, parsed.key);
+          message = `Arbitrary value in ${usage.name}: ${parsed.key} is not from the ${scale} scale`;
+          suggestedFix = themeKey
+            ? `Use ${withThemeKey(parsed, themeKey)}, which sets the same value`
+            : `Use a ${scale} from ${configFile}, or add ${parsed.key} to its theme`;
+        } else if (parsed.value === undefined) {
+          message = `${usage.name} is not in the ${scale} scale of ${configFile}`;
+          suggestedFix = `Use a ${scale} from ${configFile}, or add "${parsed.key}" to its theme`;
+        } else {
+          continue;
+        }
+
+        violations.push({
+          type: 'tailwind-drift',
+          severity: this.getSeverity('tailwind-drift', component.filePath),
+          filePath: component.filePath,
+          line: usage.line,
+          column: usage.column,
+          value: usage.name,
+          message,
+          suggestedFix,
+        });
+      }
+    }
+
+    return violations;
+  }
+
+  /**
+   * Cross-check CSS Modules with the components importing them: classes read
+   * but not defined, classes defined but never read, and modules imported from
+   * unrelated parts of the project. A module counts as related to components
+   * in its own directory and the ones below it. Unused classes and shared
+   * modules are only known when every file was analyzed
+   */
+  private detectCSSModuleDrift(
+    components: ComponentInfo[],
+    styles: CSSAnalysisResult[],
+    wholeProject: boolean
+  ): DriftViolation[] {
+    const violations: DriftViolation[] = [];
+    const create = (
+      filePath: string,
+      fields: Omit<DriftViolation, 'type' | 'severity' | 'filePath'>
+    ) =>
+      violations.push({
+        type: 'css-modules',
+        severity: this.getSeverity('css-modules', filePath),
+        filePath,
+        ...fields,
+      });
+
+    for (const link of linkCSSModules(components, styles)) {
+      // The classes of modules that weren't analyzed are unknown
+      const defined = link.classes;
+      if (!defined) continue;
+      const moduleName = path.basename(link.filePath);
+
+      for (const { filePath, usage } of link.importers) {
+        const allowed = new Set(this.getRuleOptions('css-modules', filePath).allow);
+        for (const used of usage.classes) {
+          if (allowed.has(used.name)) continue;
+          if (defined.some((definedClass) => matchesModuleClass(definedClass.name, used.name))) {
+            continue;
+          }
+          create(filePath, {
+            line: used.line,
+            column: used.column,
+            value: used.name,
+            message: `${usage.local ? `${usage.local}.` : ''}${used.name} is not defined in ${moduleName}`,
+            suggestedFix: `Add .${used.name} to ${moduleName}, or use one of the classes it defines`,
+          });
+        }
+      }
+
+      if (!wholeProject) continue;
+
+      if (link.importers.length === 0) {
+        create(link.filePath, {
+          message: `${moduleName} is not imported by any component`,
+          suggestedFix: 'Remove the module, or import it from the component it styles',
+        });
+        continue;
+      }
+
+      // Classes read with computed keys could be any of them
+      if (!link.importers.some(({ usage }) => usage.dynamic)) {
+        const allowed = new Set(this.getRuleOptions('css-modules', link.filePath).allow);
+        const used = [
+          ...link.composedClasses,
+          ...link.importers.flatMap(({ usage }) => usage.classes.map((c) => c.name)),
+        ];
+
+        for (const definedClass of defined) {
+          // Classes built with interpolation are only known once compiled
+          if (allowed.has(definedClass.name) || /[#@]\{/.test(definedClass.name)) continue;
+          if (used.some((name) => matchesModuleClass(definedClass.name, name))) continue;
+          create(link.filePath, {
+            line: definedClass.line,
+            column: definedClass.column,
+            value: definedClass.name,
+            message: `.${definedClass.name} in ${moduleName} is not used by any component`,
+            suggestedFix: 'Remove the class, or apply it from a component importing the module',
+          });
+        }
+      }
+
+      const moduleDirectory = path.dirname(link.filePath);
+      const areas = new Set(
+        link.importers.map(({ filePath }) => {
+          const relative = path.relative(moduleDirectory, path.dirname(filePath));
+          const related = !relative.startsWith('..') && !path.isAbsolute(relative);
+          return related ? moduleDirectory : path.dirname(filePath);
+        })
+      );
+      if (areas.size > 1) {
+        const importers = [
+          ...new Set(link.importers.map(({ filePath }) => this.getRelativePath(filePath))),
+        ];
+        create(link.filePath, {
+          message: `${moduleName} is imported by unrelated components: ${importers.join(', ')}`,
+          suggestedFix:
+            'Move the shared styles into a component both can use, or give each component its own module',
+        });
+      }
+    }
+
+    return violations;
+  }
+
   /**
    * Detect HTML violations
    */
@@ -327,31 +780,36 @@ export class DriftAnalyzer {
     for (const template of templates) {
       if (!template.success) continue;
 
+      const buttonClasses =
+        this.getRuleOptions('component-drift', template.filePath).allowClasses || ['btn'];
+
       // Check for inline styles
-      if (template.inlineStyles.length > 0) {
+      for (const inlineStyle of template.inlineStyles) {
         violations.push({
           type: 'inline-styles',
-          severity: this.getSeverity('inline-styles'),
+          severity: this.getSeverity('inline-styles', template.filePath),
           filePath: template.filePath,
-          message: `Found ${template.inlineStyles.length} elements with inline styles`,
+          line: inlineStyle.line,
+          column: inlineStyle.column,
+          message: `Element <${inlineStyle.element}> uses inline styles`,
           suggestedFix: 'Move inline styles to CSS classes',
         });
       }
 
       // Check for custom button elements
       const buttons = template.elements.filter(e => e.tagName === 'button');
-      if (buttons.length > 0) {
-        for (const button of buttons) {
-          if (!button.attributes.class?.includes('btn')) {
-            violations.push({
-              type: 'component-drift',
-              severity: 'warning',
-              filePath: template.filePath,
-              message: 'Native button element found without design system classes',
-              suggestedFix: 'Use Button component or apply design system button classes',
-            });
-            break; // One per file
-          }
+      for (const button of buttons) {
+        const classAttribute = button.attributes.class || '';
+        if (!buttonClasses.some((className) => classAttribute.includes(className))) {
+          violations.push({
+            type: 'component-drift',
+            severity: this.getSeverity('component-drift', template.filePath),
+            filePath: template.filePath,
+            line: button.line,
+            column: button.column,
+            message: 'Native button element found without design system classes',
+            suggestedFix: 'Use Button component or apply design system button classes',
+          });
         }
       }
     }
@@ -368,10 +826,32 @@ export class DriftAnalyzer {
     for (const template of templates) {
       if (!template.success) continue;
 
+      // Report each issue at its element when positions are known
+      if (template.accessibility.issues) {
+        for (const issue of template.accessibility.issues) {
+          violations.push({
+            type: 'accessibility',
+            severity: this.getSeverity('accessibility', template.filePath),
+            filePath: template.filePath,
+            line: issue.line,
+            column: issue.column,
+            message:
+              issue.kind === 'missing-alt'
+                ? `Missing alt text for image: ${issue.description}`
+                : `Missing label: ${issue.description}`,
+            suggestedFix:
+              issue.kind === 'missing-alt'
+                ? 'Add alt attributes to all images for accessibility'
+                : 'Add aria-label or proper label elements for accessibility',
+          });
+        }
+        continue;
+      }
+
       if (template.accessibility.missingLabels.length > 0) {
         violations.push({
           type: 'accessibility',
-          severity: this.getSeverity('accessibility'),
+          severity: this.getSeverity('accessibility', template.filePath),
           filePath: template.filePath,
           message: `Missing labels for ${template.accessibility.missingLabels.length} interactive elements`,
           suggestedFix: 'Add aria-label or proper label elements for accessibility',
@@ -381,7 +861,7 @@ export class DriftAnalyzer {
       if (template.accessibility.missingAlts.length > 0) {
         violations.push({
           type: 'accessibility',
-          severity: this.getSeverity('accessibility'),
+          severity: this.getSeverity('accessibility', template.filePath),
           filePath: template.filePath,
           message: `Missing alt text for ${template.accessibility.missingAlts.length} images`,
           suggestedFix: 'Add alt attributes to all images for accessibility',
@@ -410,18 +890,29 @@ export class DriftAnalyzer {
     for (const style of analysis.styles) {
       if (!style.success) continue;
 
-      const newColors = style.colors.filter(color => {
-        if (color.startsWith('var(')) return false;
+      const isAllowed = this.createColorAllowList('color-drift', style.filePath);
+      // A directory's palette adds to the learned colors there
+      const palette = new Set(
+        (this.getFileConfig(style.filePath).patterns?.palette || []).map((color) =>
+          this.normalizeColor(color)
+        )
+      );
+
+      const newColors = this.getStyleValues(style, 'color').filter(({ value: color }) => {
+        if (isTokenReference(color) || isAllowed(color)) return false;
         const normalized = this.normalizeColor(color);
-        return normalized && !establishedColors.has(normalized);
+        return normalized && !establishedColors.has(normalized) && !palette.has(normalized);
       });
 
-      if (newColors.length > 0) {
+      for (const color of newColors) {
         violations.push({
           type: 'color-drift',
-          severity: 'warning',
+          severity: this.getSeverity('color-drift', style.filePath),
           filePath: style.filePath,
-          message: `Introducing new colors not in design system: ${newColors.slice(0, 3).join(', ')}`,
+          line: color.line,
+          column: color.column,
+          value: color.value,
+          message: `Introducing new color not in design system: ${color.value}`,
           suggestedFix: 'Use established color palette or update design system',
         });
       }
@@ -435,8 +926,53 @@ export class DriftAnalyzer {
    */
   private filterViolations(violations: DriftViolation[]): DriftViolation[] {
     return violations.filter(violation => {
-      const severity = this.config.rules?.[violation.type];
-      return severity !== 'off';
+      const { severity, options } = normalizeRuleSetting<CommonRuleOptions>(
+        this.getFileConfig(violation.filePath).rules?.[violation.type]
+      );
+      if (severity === 'off') return false;
+
+      // Rule options can exclude files from a single rule
+      const relativePath = this.getRelativePath(violation.filePath);
+      return !options.ignoreFiles?.some((pattern) => minimatch(relativePath, pattern, { dot: true }));
+    });
+  }
+
+  /**
+   * Filter out violations covered by inline suppression comments
+   */
+  private filterSuppressed(analysis: ProjectAnalysis, violations: DriftViolation[]): DriftViolation[] {
+    const suppressionsByFile = new Map<string, SuppressionRange[]>();
+    for (const file of [...analysis.components, ...analysis.styles, ...analysis.templates]) {
+      if (file.suppressions && file.suppressions.length > 0) {
+        suppressionsByFile.set(file.filePath, file.suppressions);
+      }
+    }
+
+    if (suppressionsByFile.size === 0) return violations;
+
+    return violations.filter(violation => {
+      const ranges = suppressionsByFile.get(violation.filePath);
+      return !ranges || !isSuppressed(violation, ranges);
+    });
+  }
+
+  /**
+   * Filter out violations recorded in the baseline. Each fingerprint absorbs
+   * as many occurrences as were recorded; any extra occurrences are new.
+   */
+  private filterBaselined(violations: DriftViolation[]): DriftViolation[] {
+    if (!this.baseline) return violations;
+
+    const remaining = new Map<string, number>();
+    for (const [fingerprint, entry] of Object.entries(this.baseline.violations)) {
+      remaining.set(fingerprint, entry.count);
+    }
+
+    return violations.filter(violation => {
+      const count = remaining.get(violation.fingerprint!) || 0;
+      if (count === 0) return true;
+      remaining.set(violation.fingerprint!, count - 1);
+      return false;
     });
   }
 
@@ -447,10 +983,10 @@ export class DriftAnalyzer {
     analysis: ProjectAnalysis,
     violations: DriftViolation[]
   ): number {
-    const totalFiles = 
-      analysis.components.length + 
-      analysis.styles.length + 
-      analysis.templates.length;
+    // A component with CSS-in-JS is one file, though it is also analyzed as a stylesheet
+    const totalFiles = new Set(
+      [...analysis.components, ...analysis.styles, ...analysis.templates].map(file => file.filePath)
+    ).size;
 
     if (totalFiles === 0) return 100;
 
@@ -460,9 +996,15 @@ export class DriftAnalyzer {
     // Score based on violation rate and severity
     let score = 100 * (1 - violationRate);
 
-    // Penalize for errors more than warnings
-    const errors = violations.filter(v => v.severity === 'error').length;
-    const warnings = violations.filter(v => v.severity === 'warning').length;
+    // Penalize for errors more than warnings. Each rule counts once per file,
+    // so reporting every offending value separately doesn't inflate the penalty
+    const penalized = new Map<string, DriftViolation['severity']>();
+    for (const violation of violations) {
+      penalized.set(`${violation.filePath}\0${violation.type}\0${violation.severity}`, violation.severity);
+    }
+    const severities = Array.from(penalized.values());
+    const errors = severities.filter(severity => severity === 'error').length;
+    const warnings = severities.filter(severity => severity === 'warning').length;
 
     score -= errors * 5; // 5 points per error
     score -= warnings * 2; // 2 points per warning
@@ -488,13 +1030,98 @@ export class DriftAnalyzer {
     };
   }
 
+  /**
+   * List the analyzed stylesheets and the components with inline styles
+   */
+  private getStyleSources(analysis: ProjectAnalysis): StyleSource[] {
+    const sources: StyleSource[] = analysis.styles
+      .filter(style => style.success)
+      .map(style => ({
+        filePath: style.filePath,
+        getValues: category => this.getStyleValues(style, category),
+      }));
+
+    for (const component of analysis.components) {
+      const locations = component.styling?.locations;
+      if (!component.success || !locations?.length) continue;
+
+      sources.push({
+        filePath: component.filePath,
+        getValues: category => locations.filter(location => location.category === category),
+      });
+    }
+
+    return sources;
+  }
+
+  /**
+   * Get the values of a stylesheet category, with positions when the analyzer recorded them
+   */
+  private getStyleValues(style: CSSAnalysisResult, category: StyleValueCategory): PositionedValue[] {
+    if (style.locations) {
+      return style.locations.filter(location => location.category === category);
+    }
+
+    const values: Record<StyleValueCategory, string[]> = {
+      color: style.colors,
+      spacing: style.spacing,
+      fontSize: style.fontSize,
+      fontWeight: style.fontWeight,
+      zIndex: style.zIndex,
+    };
+    return values[category].map(value => ({ value }));
+  }
+
   /**
    * Get severity for a rule
    */
-  private getSeverity(ruleName: string): 'error' | 'warning' | 'info' {
-    const severity = this.config.rules?.[ruleName] || 'warning';
+  private getSeverity(ruleName: string, filePath: string): 'error' | 'warning' | 'info' {
+    const { severity } = normalizeRuleSetting(this.getFileConfig(filePath).rules?.[ruleName]);
     if (severity === 'off') return 'info';
-    return severity as 'error' | 'warning';
+    return severity;
+  }
+
+  /**
+   * Get the configured options of a built-in rule for a file
+   */
+  private getRuleOptions<K extends keyof BuiltInRuleOptions>(
+    ruleName: K,
+    filePath: string
+  ): BuiltInRuleOptions[K] {
+    const setting = this.getFileConfig(filePath).rules?.[ruleName];
+    return normalizeRuleSetting<BuiltInRuleOptions[K]>(setting).options;
+  }
+
+  /**
+   * Create a check for colors a rule allows to be used literally in a file
+   */
+  private createColorAllowList(
+    ruleName: 'inline-styles' | 'hardcoded-colors' | 'color-drift',
+    filePath: string
+  ): (color: string) => boolean {
+    const allowed = new Set(
+      (this.getRuleOptions(ruleName, filePath).allow || []).map(normalizeTokenValue)
+    );
+    return (color) => allowed.has(normalizeTokenValue(color));
+  }
+
+  /**
+   * Get the configuration for a file, with the overrides matching it applied
+   */
+  private getFileConfig(filePath: string): GuruConfig {
+    if (!this.config.overrides?.length) return this.config;
+
+    if (!this.fileConfigs.has(filePath)) {
+      this.fileConfigs.set(filePath, resolveFileConfig(this.config, this.getRelativePath(filePath)));
+    }
+    return this.fileConfigs.get(filePath)!;
+  }
+
+  /**
+   * Get a path relative to the analyzed project, with forward slashes
+   */
+  private getRelativePath(filePath: string): string {
+    return path.relative(this.projectPath, filePath).split(path.sep).join('/');
   }
 
   /**
@@ -0,0 +1,133 @@
+/**
+ * Metadata for the built-in drift rules, used by reporters and integrations
+ */
+
+export const RULES_DOC_URL = 'https://github.com/lylecodes/react-codebase-guru/blob/main/README.md';
+
+export interface RuleMetadata {
+  id: string;
+  name: string;
+  description: string;
+  defaultSeverity: 'error' | 'warning' | 'info';
+  helpUri: string;
+}
+
+const rule = (
+  id: string,
+  name: string,
+  description: string,
+  defaultSeverity: RuleMetadata['defaultSeverity']
+): RuleMetadata => ({
+  id,
+  name,
+  description,
+  defaultSeverity,
+  helpUri: `${RULES_DOC_URL}#${id}`,
+});
+
+export const BUILT_IN_RULES: Record<string, RuleMetadata> = {
+  'component-duplication': rule(
+    'component-duplication',
+    'ComponentDuplication',
+    'A component re-implements an existing design-system component instead of extending it',
+    'error'
+  ),
+  'inline-styles': rule(
+    'inline-styles',
+    'InlineStyles',
+    'Inline styles bypass design-system classes and tokens',
+    'warning'
+  ),
+  'naming-convention': rule(
+    'naming-convention',
+    'NamingConvention',
+    'Component names must follow the configured naming convention',
+    'warning'
+  ),
+  'hardcoded-colors': rule(
+    'hardcoded-colors',
+    'HardcodedColors',
+    'Colors should come from CSS variables or design tokens rather than literal values',
+    'warning'
+  ),
+  'spacing-violation': rule(
+    'spacing-violation',
+    'SpacingViolation',
+    'Spacing values should be multiples of the design-system spacing grid',
+    'warning'
+  ),
+  'typography-violation': rule(
+    'typography-violation',
+    'TypographyViolation',
+    'Font sizes and weights should come from the design-system type scale',
+    'warning'
+  ),
+  'component-drift': rule(
+    'component-drift',
+    'ComponentDrift',
+    'Native elements are used where a design-system component exists',
+    'warning'
+  ),
+  accessibility: rule(
+    'accessibility',
+    'Accessibility',
+    'Interactive elements need labels and images need alternative text',
+    'error'
+  ),
+  'color-drift': rule(
+    'color-drift',
+    'ColorDrift',
+    'A color outside the approved palette is being introduced',
+    'warning'
+  ),
+  'dead-component': rule(
+    'dead-component',
+    'DeadComponent',
+    'A component is never imported or rendered, or a story or test points at one that is gone',
+    'warning'
+  ),
+  'import-cycle': rule(
+    'import-cycle',
+    'ImportCycle',
+    'Files import each other in a cycle',
+    'warning'
+  ),
+  'tailwind-drift': rule(
+    'tailwind-drift',
+    'TailwindDrift',
+    'Tailwind classes should use the scales of the Tailwind config rather than arbitrary values',
+    'warning'
+  ),
+  'css-modules': rule(
+    'css-modules',
+    'CSSModules',
+    'Components should read classes their CSS Modules define, and modules should belong to one component',
+    'warning'
+  ),
+};
+
+// Metadata of custom rules loaded from the configuration
+const registeredRules = new Map<string, RuleMetadata>();
+
+/**
+ * Register metadata for a custom rule so reporters can describe it
+ */
+export function registerRuleMetadata(metadata: RuleMetadata): void {
+  registeredRules.set(metadata.id, metadata);
+}
+
+/**
+ * Get metadata for a rule, falling back to a generic entry for unknown rule types
+ */
+export function getRuleMetadata(ruleId: string): RuleMetadata {
+  return (
+    BUILT_IN_RULES[ruleId] ||
+    registeredRules.get(ruleId) || {
+      id: ruleId,
+      name: ruleId,
+      description: `Drift rule "${ruleId}"`,
+      defaultSeverity: 'warning',
+      helpUri: RULES_DOC_URL,
+    }
+  );
+}
@@ -0,0 +1,99 @@
+/**
+ * Inline suppression comments (guru-disable, guru-disable-line, guru-disable-next-line)
+ */
+
+import { DriftViolation, SuppressionRange } from '../types';
+import { createPositionLookup } from '../utils/sourcePosition';
+
+// Matches directives in //, /* */ and <!-- --> comments
+const DIRECTIVE_REGEX =
+  /(?:\/\/|\/\*|<!--)\s*guru-(disable-next-line|disable-line|disable|enable)\b([^\n]*)/g;
+
+/**
+ * Parse suppression directives from file content into line ranges.
+ *
+ * A bare `guru-enable` closes every open range; `guru-enable <rules>` only
+ * re-enables the listed rules of ranges that named them explicitly.
+ */
+export function parseSuppressions(content: string): SuppressionRange[] {
+  if (!content.includes('guru-')) return [];
+
+  const getPosition = createPositionLookup(content);
+  const ranges: SuppressionRange[] = [];
+  const open: SuppressionRange[] = [];
+
+  for (const match of content.matchAll(DIRECTIVE_REGEX)) {
+    const directive = match[1];
+    const { line } = getPosition(match.index!);
+    const rules = parseRuleList(match[2]);
+
+    switch (directive) {
+      case 'disable-next-line':
+        ranges.push({ startLine: line + 1, endLine: line + 1, rules });
+        break;
+      case 'disable-line':
+        ranges.push({ startLine: line, endLine: line, rules });
+        break;
+      case 'disable': {
+        const range: SuppressionRange = { startLine: line, rules };
+        ranges.push(range);
+        open.push(range);
+        break;
+      }
+      case 'enable':
+        for (const range of [...open]) {
+          // A rule-specific enable leaves blanket disables untouched
+          if (rules && !range.rules) continue;
+
+          const remaining = rules ? range.rules!.filter((rule) => !rules.includes(rule)) : [];
+          if (range.rules && remaining.length === range.rules.length) continue;
+
+          range.endLine = line;
+          open.splice(open.indexOf(range), 1);
+
+          // Rules that were not re-enabled stay disabled from here on
+          if (remaining.length > 0) {
+            const rest: SuppressionRange = { startLine: line, rules: remaining };
+            ranges.push(rest);
+            open.push(rest);
+          }
+        }
+        break;
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Check whether a violation is covered by a suppression range.
+ * Violations without a line are only covered by a disable that is never re-enabled.
+ */
+export function isSuppressed(violation: DriftViolation, ranges: SuppressionRange[]): boolean {
+  return ranges.some((range) => {
+    if (range.rules && !range.rules.includes(violation.type)) return false;
+
+    if (violation.line === undefined) {
+      return range.endLine === undefined;
+    }
+
+    return (
+      violation.line >= range.startLine &&
+      (range.endLine === undefined || violation.line <= range.endLine)
+    );
+  });
+}
+
+/**
+ * Parse the rule list following a directive, ignoring comment terminators
+ * and any "-- reason" description
+ */
+function parseRuleList(text: string): string[] | undefined {
+  const rules = text
+    .replace(/(\*\/|-->)[\s\S]*$/, '')
+    .replace(/\s--\s[\s\S]*$/, '')
+    .split(/[\s,]+/)
+    .filter(Boolean);
+
+  return rules.length > 0 ? rules : undefined;
+}
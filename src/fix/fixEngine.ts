@@ -0,0 +1,202 @@
+/**
+ * Applies the fixes contributed by drift rules to source files
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { createTwoFilesPatch } from 'diff';
+import { DriftViolation, ProjectAnalysis } from '../types';
+import { TokenIndex } from '../tokens/tokenIndex';
+import { listComponents } from '../analyzers/componentDefinitions';
+import { BUILT_IN_FIXERS, Fix, FixComponent, FixContext, TextEdit } from './fixers';
+
+export interface FixEngineOptions {
+  tokens: TokenIndex;
+  spacingGrid: number | ((filePath: string) => number); // Per file when overrides change the grid
+  components: FixComponent[];
+  rules?: string[]; // Only fix violations of these rules
+}
+
+export interface AppliedFix {
+  violation: DriftViolation;
+  description: string;
+}
+
+export interface SourceFixResult {
+  output: string;
+  applied: AppliedFix[];
+  skipped: DriftViolation[]; // Fixable rules whose fix could not be applied
+}
+
+export interface FileFix extends SourceFixResult {
+  filePath: string;
+  original: string;
+}
+
+export interface FixResult {
+  files: FileFix[]; // Files with at least one applied fix
+  fixed: number;
+  unfixable: DriftViolation[];
+}
+
+/**
+ * Make sure every rule has a fixer
+ */
+export function assertFixableRules(rules: string[]): void {
+  for (const rule of rules) {
+    if (!BUILT_IN_FIXERS[rule]) {
+      throw new Error(
+        `No automatic fix for rule "${rule}". Fixable rules: ${Object.keys(BUILT_IN_FIXERS).join(', ')}`
+      );
+    }
+  }
+}
+
+export class FixEngine {
+  private options: FixEngineOptions;
+
+  constructor(options: FixEngineOptions) {
+    assertFixableRules(options.rules || []);
+    this.options = options;
+  }
+
+  /**
+   * Create an engine that uses the tokens and components found by an analysis
+   */
+  static fromAnalysis(
+    analysis: ProjectAnalysis,
+    spacingGrid: FixEngineOptions['spacingGrid'],
+    rules?: string[]
+  ): FixEngine {
+    return new FixEngine({
+      tokens: TokenIndex.fromStyles(analysis.styles),
+      spacingGrid,
+      components: listComponents(analysis.components),
+      rules,
+    });
+  }
+
+  /**
+   * Check whether a fixer exists for a violation's rule and the rule is selected
+   */
+  isFixable(violation: DriftViolation): boolean {
+    const { rules } = this.options;
+    return !!BUILT_IN_FIXERS[violation.type] && (!rules || rules.includes(violation.type));
+  }
+
+  /**
+   * Get the fix for a single violation in the given source
+   */
+  getFix(violation: DriftViolation, source: string): Fix | null {
+    if (!this.isFixable(violation)) return null;
+
+    const { spacingGrid } = this.options;
+    const context: FixContext = {
+      source,
+      tokens: this.options.tokens,
+      spacingGrid:
+        typeof spacingGrid === 'function' ? spacingGrid(violation.filePath) : spacingGrid,
+      components: this.options.components,
+    };
+    return BUILT_IN_FIXERS[violation.type](violation, context);
+  }
+
+  /**
+   * Apply the fixes for a file's violations to its source. Fixes that would
+   * overlap an earlier fix are skipped; identical edits are applied once
+   */
+  fixSource(source: string, violations: DriftViolation[]): SourceFixResult {
+    const edits: TextEdit[] = [];
+    const applied: AppliedFix[] = [];
+    const skipped: DriftViolation[] = [];
+
+    for (const violation of violations) {
+      if (!this.isFixable(violation)) continue;
+
+      const fix = this.getFix(violation, source);
+      const newEdits = fix?.edits.filter(
+        (edit) =>
+          !edits.some((e) => e.start === edit.start && e.end === edit.end && e.text === edit.text)
+      );
+      const overlaps = newEdits?.some((edit) =>
+        edits.some((e) => edit.start < e.end && e.start < edit.end)
+      );
+
+      if (!fix || !newEdits || overlaps) {
+        skipped.push(violation);
+        continue;
+      }
+
+      edits.push(...newEdits);
+      applied.push({ violation, description: fix.description });
+    }
+
+    let output = source;
+    for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+      output = output.slice(0, edit.start) + edit.text + output.slice(edit.end);
+    }
+
+    return { output, applied, skipped };
+  }
+
+  /**
+   * Compute the fixes for violations across files, without writing anything
+   */
+  async fixFiles(violations: DriftViolation[]): Promise<FixResult> {
+    const byFile = new Map<string, DriftViolation[]>();
+    const unfixable: DriftViolation[] = [];
+
+    for (const violation of violations) {
+      const { rules } = this.options;
+      if (rules && !rules.includes(violation.type)) continue;
+
+      if (!this.isFixable(violation)) {
+        unfixable.push(violation);
+        continue;
+      }
+      const fileViolations = byFile.get(violation.filePath) || [];
+      fileViolations.push(violation);
+      byFile.set(violation.filePath, fileViolations);
+    }
+
+    const files: FileFix[] = [];
+    let fixed = 0;
+    for (const filePath of Array.from(byFile.keys()).sort()) {
+      const original = await fs.readFile(filePath, 'utf-8');
+      const result = this.fixSource(original, byFile.get(filePath)!);
+
+      unfixable.push(...result.skipped);
+      fixed += result.applied.length;
+      if (result.applied.length > 0) {
+        files.push({ filePath, original, ...result });
+      }
+    }
+
+    return { files, fixed, unfixable };
+  }
+
+  /**
+   * Write fixed files to disk
+   */
+  async writeFixes(result: FixResult): Promise<void> {
+    for (const file of result.files) {
+      await fs.writeFile(file.filePath, file.output);
+    }
+  }
+}
+
+/**
+ * Create a unified diff of a fixed file, with paths relative to the project
+ */
+export function createUnifiedDiff(file: FileFix, projectPath: string): string {
+  const relativePath = path.relative(projectPath, file.filePath).split(path.sep).join('/');
+  return createTwoFilesPatch(
+    `a/${relativePath}`,
+    `b/${relativePath}`,
+    file.original,
+    file.output,
+    undefined,
+    undefined,
+    { context: 3 }
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * Built-in fixers that turn drift violations into concrete text edits
+ */
+
+import * as path from 'path';
+import { getBindingIdentifiers } from '@babel/types';
+import type { ImportDeclaration, JSXElement } from '@babel/types';
+import { ComponentDefinition, DriftViolation } from '../types';
+import { TokenIndex } from '../tokens/tokenIndex';
+import { parseSource, walkAST, File } from '../analyzers/astParser';
+import { resolveModule } from '../analyzers/moduleResolver';
+import { createOffsetLookup } from '../utils/sourcePosition';
+
+export interface TextEdit {
+  start: number; // Character offset where the replaced text starts
+  end: number; // Character offset after the replaced text
+  text: string;
+}
+
+export interface Fix {
+  description: string;
+  edits: TextEdit[];
+}
+
+// A component fixes can switch to, with the export it is imported from
+export type FixComponent = Pick<
+  ComponentDefinition,
+  'name' | 'filePath' | 'exportKind' | 'exportName'
+>;
+
+export interface FixContext {
+  source: string;
+  tokens: TokenIndex;
+  spacingGrid: number;
+  components: FixComponent[]; // The project's components
+}
+
+export type Fixer = (violation: DriftViolation, context: FixContext) => Fix | null;
+
+const SPACING_VALUE = /^(-?\d*\.?\d+)(px|rem|em)$/;
+const ROOT_FONT_SIZE = 16;
+const SCRIPT_FILE = /\.[cm]?[jt]sx?$/;
+
+/**
+ * Find the offset of a violation's value, starting at its reported position and
+ * staying on the same line (positions of inline styles point at the opening quote)
+ */
+export function locateValue(violation: DriftViolation, source: string): number | null {
+  if (!violation.line || !violation.value) return null;
+
+  const offset = createOffsetLookup(source)({
+    line: violation.line,
+    column: violation.column || 1,
+  });
+  const lineEnd = source.indexOf('\n', offset);
+  const index = source.indexOf(violation.value, offset);
+
+  if (index === -1 || (lineEnd !== -1 && index > lineEnd)) return null;
+  return index;
+}
+
+/**
+ * Replace a hardcoded color with the design token declared with the same value
+ */
+const fixColor: Fixer = (violation, { source, tokens }) => {
+  if (!violation.value) return null;
+
+  const token = tokens.findTokens(violation.value)[0];
+  const start = locateValue(violation, source);
+  if (!token || start === null) return null;
+
+  // Leave the token's own declaration alone
+  const lineStart = source.lastIndexOf('\n', start) + 1;
+  if (/(^|[\s;{])--[\w-]+\s*:\s*$/.test(source.slice(lineStart, start))) return null;
+
+  const replacement = `var(${token})`;
+  return {
+    description: `Replace ${violation.value} with ${replacement}`,
+    edits: [{ start, end: start + violation.value.length, text: replacement }],
+  };
+};
+
+/**
+ * Snap an off-grid spacing value to the nearest multiple of the grid
+ */
+const fixSpacing: Fixer = (violation, { source, spacingGrid }) => {
+  const match = violation.value?.match(SPACING_VALUE);
+  const start = locateValue(violation, source);
+  if (!match || start === null) return null;
+
+  const [, amount, unit] = match;
+  const scale = unit === 'px' ? 1 : ROOT_FONT_SIZE;
+  const pixels = parseFloat(amount) * scale;
+  const snapped = Math.round(pixels / spacingGrid) * spacingGrid || Math.sign(pixels) * spacingGrid;
+  const replacement = `${Number((snapped / scale).toFixed(4))}${unit}`;
+  if (replacement === violation.value) return null;
+
+  return {
+    description: `Snap ${violation.value} to ${replacement}`,
+    edits: [{ start, end: start + violation.value!.length, text: replacement }],
+  };
+};
+
+/**
+ * Rename a native JSX <button> to the project's Button component, importing it
+ * when the file doesn't already
+ */
+const fixNativeButton: Fixer = (violation, { source, components }) => {
+  if (!SCRIPT_FILE.test(violation.filePath) || !violation.line) return null;
+
+  const candidates = components.filter((c) => c.name.toLowerCase() === 'button');
+  const component = candidates.find((c) => c.exportKind) || candidates[0];
+  if (!component || path.resolve(component.filePath) === path.resolve(violation.filePath)) {
+    return null;
+  }
+
+  const ast = parseSource(source, violation.filePath);
+  const start = createOffsetLookup(source)({
+    line: violation.line,
+    column: violation.column || 1,
+  });
+  const element = ast && findJSXElement(ast, start);
+  if (!element) return null;
+
+  const edits: TextEdit[] = [];
+  const importEdit = getImportEdit(ast, component, violation.filePath);
+  if (importEdit === null) return null;
+  if (importEdit) edits.push(importEdit);
+
+  for (const tag of [element.openingElement, element.closingElement]) {
+    if (tag && tag.name.start != null && tag.name.end != null) {
+      edits.push({ start: tag.name.start, end: tag.name.end, text: component.name });
+    }
+  }
+
+  return { description: `Replace <button> with <${component.name}>`, edits };
+};
+
+/**
+ * Find the native <button> element whose opening tag starts at an offset
+ */
+function findJSXElement(ast: File, offset: number): JSXElement | null {
+  let found: JSXElement | null = null;
+  walkAST(ast, (node) => {
+    if (
+      !found &&
+      node.type === 'JSXElement' &&
+      node.start === offset &&
+      node.openingElement.name.type === 'JSXIdentifier' &&
+      node.openingElement.name.name === 'button'
+    ) {
+      found = node;
+    }
+  });
+  return found;
+}
+
+/**
+ * Get the edit importing a component after the file's last import. Returns
+ * undefined when the file already imports it, and null when it can't be
+ * imported: its export is unknown, or its name is taken by another import or
+ * a top-level declaration
+ */
+function getImportEdit(
+  ast: File,
+  component: FixComponent,
+  filePath: string
+): TextEdit | undefined | null {
+  const imports = ast.program.body.filter(
+    (statement): statement is ImportDeclaration => statement.type === 'ImportDeclaration'
+  );
+  const existing = imports.find((statement) =>
+    statement.specifiers.some((specifier) => specifier.local.name === component.name)
+  );
+  if (existing) {
+    const resolved = resolveModule(existing.source.value, filePath);
+    return resolved && path.resolve(resolved) === path.resolve(component.filePath)
+      ? undefined
+      : null;
+  }
+  const declared = ast.program.body.some(
+    (statement) => component.name in getBindingIdentifiers(statement, false, true)
+  );
+  if (declared || !component.exportKind) return null;
+
+  let specifier = path
+    .relative(path.dirname(filePath), component.filePath)
+    .split(path.sep)
+    .join('/')
+    .replace(SCRIPT_FILE, '')
+    .replace(/\/index$/, '');
+  if (!specifier.startsWith('.')) specifier = `./${specifier}`;
+
+  const { exportKind, exportName = component.name, name } = component;
+  const clause =
+    exportKind === 'default'
+      ? name
+      : `{ ${exportName === name ? name : `${exportName} as ${name}`} }`;
+  const statement = `import ${clause} from '${specifier}';`;
+
+  const last = imports[imports.length - 1] || ast.program.directives.slice(-1)[0];
+  return last?.end != null
+    ? { start: last.end, end: last.end, text: `\n${statement}` }
+    : { start: 0, end: 0, text: `${statement}\n` };
+}
+
+export const BUILT_IN_FIXERS: Record<string, Fixer> = {
+  'hardcoded-colors': fixColor,
+  'color-drift': fixColor,
+  'inline-styles': fixColor,
+  'spacing-violation': fixSpacing,
+  'component-drift': fixNativeButton,
+};
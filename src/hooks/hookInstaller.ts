@@ -0,0 +1,253 @@
+/**
+ * Installs git pre-commit and pre-push hooks that run drift checks
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { parseDocument, isMap, Document } from 'yaml';
+import { runGit } from '../utils/gitChanges';
+
+export type HookName = 'pre-commit' | 'pre-push';
+export type HookTarget = 'git' | 'husky' | 'lefthook';
+
+export const HOOK_NAMES: HookName[] = ['pre-commit', 'pre-push'];
+
+const BLOCK_START = '# >>> react-codebase-guru >>>';
+const BLOCK_END = '# <<< react-codebase-guru <<<';
+const LEFTHOOK_COMMAND = 'guru-drift';
+const LEFTHOOK_CONFIGS = ['lefthook.yml', 'lefthook.yaml', '.lefthook.yml', '.lefthook.yaml'];
+
+const GURU_CI = 'npx --no-install guru ci --fail-on new-errors,thresholds';
+
+/**
+ * Commands run by each hook. Pre-commit checks staged files; pre-push checks
+ * everything changed since the upstream branch, or the whole project without one
+ */
+export const HOOK_COMMANDS: Record<HookName, string> = {
+  'pre-commit': `${GURU_CI} --staged`,
+  'pre-push':
+    `if git rev-parse -q --verify '@{upstream}' >/dev/null; ` +
+    `then ${GURU_CI} --changed-since '@{upstream}'; else ${GURU_CI}; fi`,
+};
+
+export interface HookInstallResult {
+  target: HookTarget;
+  files: string[]; // Files that were written or removed
+  chained: string[]; // Existing hooks the drift check was added to
+}
+
+export class HookInstaller {
+  private projectPath: string;
+
+  constructor(projectPath: string) {
+    this.projectPath = path.resolve(projectPath);
+  }
+
+  /**
+   * Detect whether hooks are managed by husky, lefthook or plain git
+   */
+  async detectTarget(): Promise<{ target: HookTarget; location: string }> {
+    const root = await this.getRepositoryRoot();
+
+    for (const name of LEFTHOOK_CONFIGS) {
+      const configPath = path.join(root, name);
+      if (await fs.pathExists(configPath)) {
+        return { target: 'lefthook', location: configPath };
+      }
+    }
+
+    const huskyDir = path.join(root, '.husky');
+    if (await fs.pathExists(huskyDir)) {
+      return { target: 'husky', location: huskyDir };
+    }
+
+    const hooksDir = (await runGit(this.projectPath, ['rev-parse', '--git-path', 'hooks'])).trim();
+    return { target: 'git', location: path.resolve(this.projectPath, hooksDir) };
+  }
+
+  /**
+   * Install the drift check into every hook
+   */
+  async install(): Promise<HookInstallResult> {
+    const { target, location } = await this.detectTarget();
+    const commands = await this.getCommands();
+
+    if (target === 'lefthook') {
+      await this.updateLefthook(location, (doc) => {
+        for (const hook of HOOK_NAMES) {
+          doc.setIn([hook, 'commands', LEFTHOOK_COMMAND, 'run'], commands[hook]);
+        }
+      });
+      return { target, files: [location], chained: [] };
+    }
+
+    if ((await fs.pathExists(location)) && !(await fs.stat(location)).isDirectory()) {
+      throw new Error(`Hooks path ${location} is not a directory (check core.hooksPath)`);
+    }
+
+    // Read and check every existing hook before writing any of them
+    const existing = new Map<HookName, string | null>();
+    for (const hook of HOOK_NAMES) {
+      const hookPath = path.join(location, hook);
+      const content = (await fs.pathExists(hookPath)) ? await fs.readFile(hookPath, 'utf-8') : null;
+      if (content !== null && !this.hasBlock(content)) {
+        this.assertShellScript(hookPath, content, commands[hook]);
+      }
+      existing.set(hook, content);
+    }
+
+    const result: HookInstallResult = { target, files: [], chained: [] };
+    await fs.ensureDir(location);
+    for (const hook of HOOK_NAMES) {
+      const hookPath = path.join(location, hook);
+      const content = existing.get(hook) ?? null;
+      if (content !== null && !this.hasBlock(content)) {
+        result.chained.push(hookPath);
+      }
+
+      const shebang = target === 'git' ? '#!/bin/sh\n' : '';
+      await fs.writeFile(hookPath, this.insertBlock(content ?? shebang, commands[hook]));
+      await fs.chmod(hookPath, 0o755);
+      result.files.push(hookPath);
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove the drift check from every hook, leaving other steps in place
+   */
+  async uninstall(): Promise<HookInstallResult> {
+    const { target, location } = await this.detectTarget();
+
+    if (target === 'lefthook') {
+      await this.updateLefthook(location, (doc) => {
+        for (const hook of HOOK_NAMES) {
+          doc.deleteIn([hook, 'commands', LEFTHOOK_COMMAND]);
+          this.deleteIfEmpty(doc, [hook, 'commands']);
+          this.deleteIfEmpty(doc, [hook]);
+        }
+      });
+      return { target, files: [location], chained: [] };
+    }
+
+    const result: HookInstallResult = { target, files: [], chained: [] };
+    for (const hook of HOOK_NAMES) {
+      const hookPath = path.join(location, hook);
+      if (!(await fs.pathExists(hookPath))) continue;
+
+      const content = await fs.readFile(hookPath, 'utf-8');
+      if (!this.hasBlock(content)) continue;
+
+      const remaining = this.removeBlock(content);
+      // Delete hooks that only contained the drift check
+      if (remaining.replace(/^#!.*$/m, '').trim() === '') {
+        await fs.remove(hookPath);
+      } else {
+        await fs.writeFile(hookPath, remaining);
+      }
+      result.files.push(hookPath);
+    }
+
+    return result;
+  }
+
+  /**
+   * Hook commands, run from the project directory when it isn't the repository root
+   */
+  private async getCommands(): Promise<Record<HookName, string>> {
+    const root = await this.getRepositoryRoot();
+    const relative = path.relative(root, this.projectPath).split(path.sep).join('/');
+    if (!relative) return HOOK_COMMANDS;
+
+    const commands = { ...HOOK_COMMANDS };
+    for (const hook of HOOK_NAMES) {
+      commands[hook] = `(cd '${relative}' && ${HOOK_COMMANDS[hook]})`;
+    }
+    return commands;
+  }
+
+  /**
+   * Get the root of the git repository containing the project
+   */
+  private async getRepositoryRoot(): Promise<string> {
+    return path.resolve((await runGit(this.projectPath, ['rev-parse', '--show-toplevel'])).trim());
+  }
+
+  /**
+   * Check whether a hook already contains the managed block
+   */
+  private hasBlock(content: string): boolean {
+    return content.includes(BLOCK_START);
+  }
+
+  /**
+   * Insert or replace the managed block, keeping it right after the shebang so
+   * a trailing `exit` in an existing hook cannot skip it
+   */
+  private insertBlock(content: string, command: string): string {
+    const block = [
+      BLOCK_START,
+      '# Added by `guru hooks install`; remove with `guru hooks uninstall`',
+      `${command} || exit 1`,
+      BLOCK_END,
+    ].join('\n');
+
+    const base = this.removeBlock(content);
+    const shebang = base.match(/^#!.*\n?/);
+    if (!shebang) {
+      return `${block}\n${base}`;
+    }
+
+    const rest = base.slice(shebang[0].length);
+    return `${shebang[0].replace(/\n?$/, '\n')}${block}\n${rest}`;
+  }
+
+  /**
+   * Remove the managed block from a hook
+   */
+  private removeBlock(content: string): string {
+    const start = content.indexOf(BLOCK_START);
+    const end = content.indexOf(BLOCK_END);
+    if (start === -1 || end === -1) return content;
+
+    let after = end + BLOCK_END.length;
+    if (content[after] === '\n') after++;
+    return content.slice(0, start) + content.slice(after);
+  }
+
+  /**
+   * Make sure an existing hook can be chained with a shell step
+   */
+  private assertShellScript(hookPath: string, content: string, command: string): void {
+    const firstLine = content.split('\n')[0];
+    if (firstLine.startsWith('#!') && !/\b(ba|z|da|k)?sh\b/.test(firstLine)) {
+      throw new Error(
+        `Existing hook ${hookPath} is not a shell script. Add this step to it manually:\n  ${command}`
+      );
+    }
+  }
+
+  /**
+   * Read, modify and write a lefthook configuration, preserving comments
+   */
+  private async updateLefthook(configPath: string, update: (doc: Document) => void): Promise<void> {
+    const doc = parseDocument(await fs.readFile(configPath, 'utf-8'));
+    if (doc.errors.length > 0) {
+      throw new Error(`Could not parse ${configPath}: ${doc.errors[0].message}`);
+    }
+
+    update(doc);
+    await fs.writeFile(configPath, doc.toString());
+  }
+
+  /**
+   * Delete a lefthook mapping that has no entries left
+   */
+  private deleteIfEmpty(doc: Document, keyPath: string[]): void {
+    const node = doc.getIn(keyPath, true);
+    if (isMap(node) && node.items.length === 0) {
+      doc.deleteIn(keyPath);
+    }
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Public API for configuration files and custom rule modules
+ */
+
+export { defineRule } from './rules/customRules';
+export type {
+  CustomRule,
+  CustomRuleMeta,
+  RuleContext,
+  RuleVisitor,
+  RuleReportDescriptor,
+  RuleSeverity,
+} from './rules/customRules';
+export { walkAST, getNodePosition } from './analyzers/astParser';
+export { defineConfig } from './config/configLoader';
+export type { GuruConfig, ConfigOverride } from './config/configLoader';
+export type { RuleLevel, RuleSetting } from './config/ruleSettings';
+export type { DesignPatterns } from './patterns/patternExtractor';
+export type {
+  ComponentInfo,
+  CSSAnalysisResult,
+  HTMLAnalysisResult,
+  DriftViolation,
+  ProjectAnalysis,
+} from './types';
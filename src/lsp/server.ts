@@ -0,0 +1,477 @@
+/**
+ * Language Server Protocol server that publishes drift diagnostics in the editor
+ */
+
+import * as path from 'path';
+import { format } from 'util';
+import { fileURLToPath } from 'url';
+import {
+  createConnection,
+  Connection,
+  TextDocuments,
+  TextDocumentSyncKind,
+  InitializeParams,
+  InitializeResult,
+  Diagnostic,
+  DiagnosticSeverity,
+  Hover,
+  MarkupKind,
+  CodeAction,
+  CodeActionKind,
+  DidChangeWatchedFilesNotification,
+  Position,
+  Range,
+  TextEdit,
+} from 'vscode-languageserver/node';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+  ProjectAnalysis,
+  DriftViolation,
+  ComponentInfo,
+  CSSAnalysisResult,
+  HTMLAnalysisResult,
+  TailwindTheme,
+} from '../types';
+import { IncrementalAnalyzer } from '../performance/incrementalAnalyzer';
+import { DriftAnalyzer } from '../drift-detector/driftAnalyzer';
+import { BaselineStorage } from '../drift-detector/baseline';
+import { getRuleMetadata } from '../drift-detector/rules';
+import { ConfigLoader } from '../config/configLoader';
+import { loadCustomRules } from '../rules/ruleLoader';
+import { PatternStorage } from '../patterns/patternStorage';
+import { DesignSpecStorage } from '../patterns/designSpec';
+import { FileDiscovery } from '../utils/fileDiscovery';
+import { loadTailwindTheme } from '../analyzers/tailwindTheme';
+import { TokenIndex } from '../tokens/tokenIndex';
+import { FixEngine } from '../fix/fixEngine';
+import { FixComponent } from '../fix/fixers';
+import { isJSXChildOffset, parseSource } from '../analyzers/astParser';
+import {
+  RESOLVER_CONFIG_GLOB,
+  clearResolverCache,
+  isResolverConfig,
+} from '../analyzers/moduleResolver';
+
+const SUPPORTED_EXTENSIONS = [
+  '.js',
+  '.jsx',
+  '.ts',
+  '.tsx',
+  '.css',
+  '.scss',
+  '.sass',
+  '.less',
+  '.html',
+  '.htm',
+];
+const VALIDATION_DELAY = 200;
+
+// Tokens shown on hover: hex and functional colors, var() references and custom properties
+const TOKEN_PATTERN =
+  /#[0-9a-fA-F]{3,8}\b|(?:rgba?|hsla?)\([^)]*\)|var\(\s*--[\w-]+[^)]*\)|--[\w-]+/g;
+
+export interface DiagnosticData {
+  type: string;
+  line?: number;
+  column?: number;
+  value?: string;
+  suggestedFix?: string;
+}
+
+type AnalysisResult = ComponentInfo | CSSAnalysisResult | HTMLAnalysisResult;
+
+export class GuruLanguageServer {
+  private connection: Connection;
+  private documents = new TextDocuments(TextDocument);
+  private projectPath: string;
+  private incrementalAnalyzer = new IncrementalAnalyzer();
+  private driftAnalyzer: DriftAnalyzer | null = null;
+  private tokens = new TokenIndex();
+  private components: FixComponent[] = [];
+  private tailwind?: TailwindTheme;
+  private pendingValidations = new Map<string, NodeJS.Timeout>();
+  private canWatchFiles = false;
+
+  constructor(connection: Connection, projectPath: string) {
+    this.connection = connection;
+    this.projectPath = path.resolve(projectPath);
+  }
+
+  /**
+   * Register handlers and start listening on the connection
+   */
+  listen(): void {
+    this.connection.onInitialize((params) => this.initialize(params));
+    this.connection.onInitialized(async () => {
+      try {
+        await this.loadProject();
+      } catch (error) {
+        this.connection.window.showErrorMessage(
+          `React Codebase Guru: ${error instanceof Error ? error.message : error}`
+        );
+      }
+      // Aliased imports resolve through tsconfig and jsconfig paths
+      if (this.canWatchFiles) {
+        this.connection.client.register(DidChangeWatchedFilesNotification.type, {
+          watchers: [{ globPattern: RESOLVER_CONFIG_GLOB }],
+        });
+      }
+      this.documents.all().forEach((document) => this.scheduleValidation(document));
+    });
+    this.connection.onDidChangeWatchedFiles(({ changes }) => {
+      const configChanged = changes.some(
+        ({ uri }) => uri.startsWith('file:') && isResolverConfig(fileURLToPath(uri))
+      );
+      if (!configChanged) return;
+
+      clearResolverCache();
+      this.documents.all().forEach((document) => this.scheduleValidation(document));
+    });
+    this.connection.onHover(({ textDocument, position }) => {
+      const document = this.documents.get(textDocument.uri);
+      return document ? this.getHover(document, position) : null;
+    });
+    this.connection.onCodeAction(({ textDocument, context }) => {
+      const document = this.documents.get(textDocument.uri);
+      return document ? this.getCodeActions(document, context.diagnostics) : [];
+    });
+
+    this.documents.onDidOpen(({ document }) => this.scheduleValidation(document, 0));
+    this.documents.onDidChangeContent(({ document }) => this.scheduleValidation(document));
+    this.documents.onDidClose(({ document }) => {
+      clearTimeout(this.pendingValidations.get(document.uri));
+      this.pendingValidations.delete(document.uri);
+      this.connection.sendDiagnostics({ uri: document.uri, diagnostics: [] });
+    });
+
+    this.documents.listen(this.connection);
+    this.connection.listen();
+  }
+
+  /**
+   * Handle the initialize request
+   */
+  private initialize(params: InitializeParams): InitializeResult {
+    const rootUri = params.workspaceFolders?.[0]?.uri || params.rootUri;
+    if (rootUri) {
+      this.projectPath = fileURLToPath(rootUri);
+    }
+    this.canWatchFiles =
+      !!params.capabilities.workspace?.didChangeWatchedFiles?.dynamicRegistration;
+
+    return {
+      capabilities: {
+        textDocumentSync: TextDocumentSyncKind.Incremental,
+        hoverProvider: true,
+        codeActionProvider: { codeActionKinds: [CodeActionKind.QuickFix] },
+      },
+      serverInfo: { name: 'react-codebase-guru' },
+    };
+  }
+
+  /**
+   * Load configuration, patterns, baseline and design tokens for the project
+   */
+  async loadProject(): Promise<void> {
+    const config = await new ConfigLoader(this.projectPath).loadConfig();
+    this.driftAnalyzer = new DriftAnalyzer(config);
+
+    const spec = await new DesignSpecStorage(this.projectPath).loadSpec();
+    const stored = spec ? null : await new PatternStorage(this.projectPath).loadPatterns();
+    const patterns = spec?.patterns || stored?.patterns;
+    if (patterns) {
+      this.driftAnalyzer.setPatterns(patterns);
+      // Patterns don't record exports, so fixes only use components files already import
+      this.components = patterns.components.map((component) => ({
+        name: component.name,
+        filePath: component.locations[0],
+      }));
+    } else {
+      this.connection.window.showInformationMessage(
+        'React Codebase Guru: no learned patterns yet. Run "guru scan" for pattern-based checks.'
+      );
+    }
+
+    this.driftAnalyzer.setBaseline(await new BaselineStorage(this.projectPath).loadBaseline());
+
+    try {
+      this.driftAnalyzer.setCustomRules(await loadCustomRules(this.projectPath, config));
+    } catch (error) {
+      this.connection.window.showErrorMessage(
+        `React Codebase Guru: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    try {
+      this.tailwind = (await loadTailwindTheme(this.projectPath)) ?? undefined;
+    } catch (error) {
+      this.connection.window.showErrorMessage(
+        `React Codebase Guru: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    // Index design tokens from the project's stylesheets for hovers and quick fixes
+    const cssFiles = await new FileDiscovery({ projectPath: this.projectPath }).findCSSFiles();
+    await this.incrementalAnalyzer.analyzeChangedFiles(cssFiles);
+    this.tokens = TokenIndex.fromStyles(
+      cssFiles
+        .map((file) => this.incrementalAnalyzer.getCachedResult(file))
+        .filter((result): result is CSSAnalysisResult => !!result && 'selectors' in result)
+    );
+  }
+
+  /**
+   * Validate a document after a short delay, restarting the delay on further edits
+   */
+  private scheduleValidation(document: TextDocument, delay: number = VALIDATION_DELAY): void {
+    clearTimeout(this.pendingValidations.get(document.uri));
+    this.pendingValidations.set(
+      document.uri,
+      setTimeout(async () => {
+        this.pendingValidations.delete(document.uri);
+        try {
+          const diagnostics = await this.getDiagnostics(document);
+          this.connection.sendDiagnostics({ uri: document.uri, diagnostics });
+        } catch (error) {
+          this.connection.console.error(
+            `Failed to analyze ${document.uri}: ${error instanceof Error ? error.message : error}`
+          );
+        }
+      }, delay)
+    );
+  }
+
+  /**
+   * Analyze the current (possibly unsaved) content of a document
+   */
+  async analyzeDocument(document: TextDocument): Promise<DriftViolation[]> {
+    if (!this.driftAnalyzer || !document.uri.startsWith('file:')) return [];
+
+    const filePath = fileURLToPath(document.uri);
+    if (!SUPPORTED_EXTENSIONS.includes(path.extname(filePath).toLowerCase())) return [];
+
+    const result = await this.incrementalAnalyzer.analyzeContent(filePath, document.getText());
+    if ('selectors' in result && result.success) {
+      for (const [name, value] of Object.entries(result.customProperties)) {
+        this.tokens.add(name, value);
+      }
+    }
+    return this.driftAnalyzer.analyzeForDrift(this.createAnalysis(result)).violations;
+  }
+
+  /**
+   * Convert the drift violations of a document into diagnostics
+   */
+  async getDiagnostics(document: TextDocument): Promise<Diagnostic[]> {
+    const violations = await this.analyzeDocument(document);
+    return violations.map((violation) => this.toDiagnostic(violation, document));
+  }
+
+  /**
+   * Describe the design token under the cursor
+   */
+  getHover(document: TextDocument, position: Position): Hover | null {
+    const line = document.getText(Range.create(position.line, 0, position.line + 1, 0));
+
+    for (const match of line.matchAll(TOKEN_PATTERN)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (position.character < start || position.character > end) continue;
+
+      const description = this.describeToken(match[0]);
+      if (!description) return null;
+
+      return {
+        contents: { kind: MarkupKind.Markdown, value: description },
+        range: Range.create(position.line, start, position.line, end),
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Build quick fixes for guru diagnostics
+   */
+  getCodeActions(document: TextDocument, diagnostics: Diagnostic[]): CodeAction[] {
+    const actions: CodeAction[] = [];
+
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.source !== 'guru') continue;
+      const data = diagnostic.data as DiagnosticData | undefined;
+      if (!data) continue;
+
+      const fix = this.getFixEngine().getFix(
+        {
+          ...data,
+          severity: 'warning',
+          filePath: fileURLToPath(document.uri),
+          message: diagnostic.message,
+        },
+        document.getText()
+      );
+      if (fix) {
+        actions.push({
+          title: fix.description,
+          kind: CodeActionKind.QuickFix,
+          diagnostics: [diagnostic],
+          isPreferred: true,
+          edit: {
+            changes: {
+              [document.uri]: fix.edits.map((edit) =>
+                TextEdit.replace(
+                  Range.create(document.positionAt(edit.start), document.positionAt(edit.end)),
+                  edit.text
+                )
+              ),
+            },
+          },
+        });
+      }
+
+      actions.push(this.createDisableAction(document, diagnostic, data.type));
+    }
+
+    return actions;
+  }
+
+  /**
+   * Create a fix engine from the current tokens and patterns
+   */
+  private getFixEngine(): FixEngine {
+    return new FixEngine({
+      tokens: this.tokens,
+      spacingGrid: (filePath) => this.driftAnalyzer?.getSpacingGrid(filePath) ?? 8,
+      components: this.components,
+    });
+  }
+
+  /**
+   * Wrap a single analysis result in a project analysis for the drift analyzer
+   */
+  private createAnalysis(result: AnalysisResult): ProjectAnalysis {
+    return {
+      projectPath: this.projectPath,
+      timestamp: new Date().toISOString(),
+      framework: { type: 'react', typescript: false },
+      components: 'selectors' in result || 'elements' in result ? [] : [result],
+      styles: 'selectors' in result ? [result] : [],
+      templates: 'elements' in result ? [result] : [],
+      patterns: [],
+      violations: [],
+      scope: 'changed',
+      compliance: { score: 0, totalFiles: 1, filesWithViolations: 0, totalViolations: 0 },
+      tailwind: this.tailwind,
+    };
+  }
+
+  /**
+   * Convert a violation into a diagnostic spanning its value, or its whole line
+   */
+  private toDiagnostic(violation: DriftViolation, document: TextDocument): Diagnostic {
+    const line = Math.max((violation.line || 1) - 1, 0);
+    const lineText = document.getText(Range.create(line, 0, line + 1, 0)).replace(/\r?\n$/, '');
+
+    let range: Range;
+    if (violation.line && violation.column && violation.value) {
+      const start = violation.column - 1;
+      range = Range.create(line, start, line, start + violation.value.length);
+    } else {
+      const indent = lineText.length - lineText.trimStart().length;
+      range = Range.create(line, indent, line, lineText.length);
+    }
+
+    const data: DiagnosticData = {
+      type: violation.type,
+      line: violation.line,
+      column: violation.column,
+      value: violation.value,
+      suggestedFix: violation.suggestedFix,
+    };
+
+    return {
+      range,
+      severity:
+        violation.severity === 'error'
+          ? DiagnosticSeverity.Error
+          : violation.severity === 'warning'
+            ? DiagnosticSeverity.Warning
+            : DiagnosticSeverity.Information,
+      source: 'guru',
+      code: violation.type,
+      codeDescription: { href: getRuleMetadata(violation.type).helpUri },
+      message: violation.suggestedFix
+        ? `${violation.message}\n${violation.suggestedFix}`
+        : violation.message,
+      data,
+    };
+  }
+
+  /**
+   * Describe a color, var() reference or custom property
+   */
+  private describeToken(token: string): string | null {
+    const reference = token.match(/^var\(\s*(--[\w-]+)/);
+    const name = reference ? reference[1] : token.startsWith('--') ? token : null;
+
+    if (name) {
+      const value = this.tokens.getValue(name);
+      return value ? `\`${name}\` → \`${value}\`` : null;
+    }
+
+    const tokens = this.tokens.findTokens(token);
+    if (tokens.length === 0) {
+      return `\`${token}\` is not a design token`;
+    }
+    return `\`${token}\` → ${tokens.map((t) => `\`${t}\``).join(', ')}`;
+  }
+
+  /**
+   * Create an action that silences a rule on the diagnostic's line. Lines
+   * among JSX children get a block comment in braces, since // would be rendered
+   */
+  private createDisableAction(
+    document: TextDocument,
+    diagnostic: Diagnostic,
+    rule: string
+  ): CodeAction {
+    const line = diagnostic.range.start.line;
+    const lineText = document.getText(Range.create(line, 0, line + 1, 0));
+    const indent = lineText.match(/^\s*/)![0];
+    const ext = path.extname(document.uri).toLowerCase();
+    const directive = `guru-disable-next-line ${rule}`;
+
+    let comment = `// ${directive}`;
+    if (['.css', '.scss', '.sass', '.less'].includes(ext)) comment = `/* ${directive} */`;
+    if (['.html', '.htm'].includes(ext)) comment = `<!-- ${directive} -->`;
+    if (['.jsx', '.tsx', '.js'].includes(ext)) {
+      const ast = parseSource(document.getText(), fileURLToPath(document.uri));
+      const offset = document.offsetAt(Position.create(line, indent.length));
+      if (ast && isJSXChildOffset(ast, offset)) comment = `{/* ${directive} */}`;
+    }
+
+    return {
+      title: `Disable ${rule} for this line`,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: [diagnostic],
+      edit: {
+        changes: {
+          [document.uri]: [TextEdit.insert(Position.create(line, 0), `${indent}${comment}\n`)],
+        },
+      },
+    };
+  }
+}
+
+/**
+ * Start a language server over stdio
+ */
+export function startLanguageServer(projectPath: string): void {
+  const connection = createConnection(process.stdin, process.stdout);
+
+  // stdout carries the protocol, so route console output to the client log
+  console.log = (...args: unknown[]) => connection.console.log(format(...args));
+  console.info = console.log;
+
+  new GuruLanguageServer(connection, projectPath).listen();
+}
@@ -10,9 +10,13 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { PatternExtractor } from '../patterns/patternExtractor';
+import { DesignSpecStorage } from '../patterns/designSpec';
 import { FileWatcher } from '../watcher/fileWatcher';
 import { ConfigLoader } from '../config/configLoader';
 import { ProjectAnalyzer } from '../core/projectAnalyzer';
+import { FixEngine, assertFixableRules, createUnifiedDiff } from '../fix/fixEngine';
+import { ComponentCallSite } from '../types';
+import { getCallSites } from '../analyzers/jsxElements';
 import * as path from 'path';
 import * as fs from 'fs-extra';
 
@@ -218,6 +222,28 @@ export class MCPServer {
             },
           },
         },
+        {
+          name: 'apply_fixes',
+          description: 'Apply automatic fixes for drift violations and return a unified diff',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              filePath: {
+                type: 'string',
+                description: 'Optional file to fix (defaults to the entire project)',
+              },
+              rules: {
+                type: 'array',
+                items: { type: 'string' },
+                description: 'Optional rules to fix',
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Return the diff without writing files',
+              },
+            },
+          },
+        },
       ],
     }));
 
@@ -252,6 +278,9 @@ export class MCPServer {
           
           case 'analyze_drift':
             return await this.analyzeDrift(args);
+
+          case 'apply_fixes':
+            return await this.applyFixes(args);
           
           default:
             throw new Error(`Unknown tool: ${name}`);
@@ -305,7 +334,9 @@ export class MCPServer {
       await configLoader.loadConfig();
       const analysis = await this.projectAnalyzer.analyzeProject();
       
-      this.patterns = this.patternExtractor.extractPatterns(analysis);
+      // Prefer the approved spec over freshly learned patterns
+      const spec = await new DesignSpecStorage(this.projectPath).loadSpec();
+      this.patterns = spec ? spec.patterns : this.patternExtractor.extractPatterns(analysis);
       this.lastAnalysisTime = now;
       
       this.log(`Patterns refreshed: ${analysis.components.length} components, ${Object.keys(this.patterns).length} pattern categories`, 'info');
@@ -452,7 +483,9 @@ export class MCPServer {
           message: `Custom button detected. Use ${buttonComponents[0].name} component instead.`,
           severity: 'error',
         });
-        result.suggestions.push(`Replace with <${buttonComponents[0].name}>`);
+        result.suggestions.push(
+          `Replace with <${buttonComponents[0].name}> (apply_fixes can do this once the file is written)`
+        );
         result.complianceScore -= 20;
         result.autoFixAvailable = true;
       }
@@ -497,7 +530,7 @@ export class MCPServer {
 
     // Find relevant components based on description
     const analysis = await this.projectAnalyzer.analyzeProject();
-    const components = analysis.components;
+    const components = analysis.componentDefinitions || [];
     
     for (const component of components) {
       let similarity = 0;
@@ -517,27 +550,26 @@ export class MCPServer {
       }
 
       // Check prop matches
-      if (component.props) {
-        for (const prop of component.props) {
-          if (descLower.includes(prop.name.toLowerCase())) {
-            similarity += 10;
-          }
+      for (const prop of component.props) {
+        if (descLower.includes(prop.name.toLowerCase())) {
+          similarity += 10;
         }
       }
 
       if (similarity > 0) {
+        const callSites = getCallSites(analysis.usage, component, components);
         recommendations.push({
           name: component.name,
           path: component.filePath,
-          props: component.props?.map(p => p.name) || [],
-          usage: 0, // Usage tracking to be implemented
+          props: component.props.map(p => p.name),
+          usage: callSites.length,
           similarity,
-          example: undefined, // Examples to be implemented
+          example: this.formatUsageExample(component.name, callSites),
         });
       }
     }
 
-    // Sort by similarity and usage
+    // Sort by similarity, then by how widely each component is already used
     recommendations.sort((a, b) => {
       const scoreDiff = b.similarity - a.similarity;
       return scoreDiff !== 0 ? scoreDiff : b.usage - a.usage;
@@ -553,6 +585,27 @@ export class MCPServer {
     };
   }
 
+  /**
+   * Show how a component is rendered in the project, from the call site that
+   * passes the most literal props
+   */
+  private formatUsageExample(name: string, callSites: ComponentCallSite[]): string | undefined {
+    if (callSites.length === 0) return undefined;
+
+    const literalProps = (callSite: ComponentCallSite) =>
+      callSite.props.filter(prop => prop.value !== undefined);
+    const callSite = callSites.reduce((best, candidate) =>
+      literalProps(candidate).length > literalProps(best).length ? candidate : best
+    );
+
+    const props = literalProps(callSite).map(({ name: prop, value }) => {
+      if (value === true) return prop;
+      return typeof value === 'string' ? `${prop}=${JSON.stringify(value)}` : `${prop}={${value}}`;
+    });
+    const location = `${path.relative(this.projectPath, callSite.filePath)}:${callSite.line}`;
+    return `<${[name, ...props].join(' ')} /> (${location})`;
+  }
+
   /**
    * Check style compliance
    */
@@ -650,10 +703,11 @@ export class MCPServer {
 
     // Add component information
     const analysis = await this.projectAnalyzer.analyzeProject();
-    snapshot.components = analysis.components.slice(0, 10).map((c: any) => ({
+    snapshot.components = analysis.components.slice(0, 10).map(c => ({
       name: c.name,
       path: c.filePath,
-      usage: c.usage || 0,
+      usage: getCallSites(analysis.usage, c, analysis.componentDefinitions || analysis.components)
+        .length,
     }));
 
     // Calculate compliance
@@ -707,6 +761,49 @@ export class MCPServer {
     };
   }
 
+  /**
+   * Apply automatic fixes
+   */
+  private async applyFixes(args: any): Promise<any> {
+    const { filePath, rules, dryRun } = args || {};
+    assertFixableRules(rules || []);
+
+    const analysis = await this.projectAnalyzer.analyzeProject();
+    const driftAnalyzer = this.projectAnalyzer.getDriftAnalyzer();
+    const spacingGrid = (file: string) => driftAnalyzer?.getSpacingGrid(file) ?? 8;
+    const engine = FixEngine.fromAnalysis(analysis, spacingGrid, rules);
+
+    const targetPath = filePath ? path.resolve(this.projectPath, filePath) : undefined;
+    const violations = targetPath
+      ? analysis.violations.filter(v => path.resolve(this.projectPath, v.filePath) === targetPath)
+      : analysis.violations;
+
+    const result = await engine.fixFiles(violations);
+    if (!dryRun) {
+      await engine.writeFixes(result);
+    }
+
+    const response = {
+      applied: !dryRun,
+      fixed: result.fixed,
+      unfixable: result.unfixable.length,
+      files: result.files.map(file => ({
+        filePath: path.relative(this.projectPath, file.filePath),
+        fixes: file.applied.map(fix => fix.description),
+      })),
+      diff: result.files.map(file => createUnifiedDiff(file, this.projectPath)).join('\n'),
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(response, null, 2),
+        },
+      ],
+    };
+  }
+
   /**
    * Helper: Find components by type
    */
@@ -2,8 +2,9 @@
  * Advanced deterministic pattern extraction and analysis
  */
 
-import { ComponentInfo, CSSAnalysisResult } from '../types';
+import { ComponentInfo, ComponentUsageIndex, CSSAnalysisResult } from '../types';
 import { DesignPatterns, SpacingGrid, ColorScheme, TypographyScale, ComponentPattern } from './patternExtractor';
+import { listComponents } from '../analyzers/componentDefinitions';
 
 export interface ComponentSimilarity {
   component1: string;
@@ -92,7 +93,8 @@ export class AdvancedPatternExtractor {
    */
   extractAdvancedPatterns(
     components: ComponentInfo[],
-    styles: CSSAnalysisResult[]
+    styles: CSSAnalysisResult[],
+    usage?: ComponentUsageIndex
   ): {
     patterns: DesignPatterns;
     confidences: PatternConfidence[];
@@ -100,7 +102,7 @@ export class AdvancedPatternExtractor {
     similarities: ComponentSimilarity[];
   } {
     // Extract base patterns
-    const patterns = this.extractBasePatterns(components, styles);
+    const patterns = this.extractBasePatterns(components, styles, usage);
     
     // Calculate confidence scores
     const confidences = this.calculatePatternConfidences(patterns, components, styles);
@@ -308,12 +310,16 @@ export class AdvancedPatternExtractor {
     };
   }
 
-  private extractBasePatterns(components: ComponentInfo[], styles: CSSAnalysisResult[]): DesignPatterns {
+  private extractBasePatterns(
+    components: ComponentInfo[],
+    styles: CSSAnalysisResult[],
+    usage?: ComponentUsageIndex
+  ): DesignPatterns {
     // Use existing PatternExtractor logic
     const spacingValues = this.extractSpacingValues(styles);
     const colorValues = this.extractColorValues(styles, components);
     const typographyValues = this.extractTypographyValues(styles);
-    const componentPatterns = this.extractComponentPatterns(components);
+    const componentPatterns = this.extractComponentPatterns(components, usage);
 
     return {
       spacing: this.generateSpacingGrid(spacingValues),
@@ -560,12 +566,13 @@ export class AdvancedPatternExtractor {
     };
   }
 
-  private extractComponentPatterns(components: ComponentInfo[]): ComponentPattern[] {
+  private extractComponentPatterns(
+    components: ComponentInfo[],
+    usage?: ComponentUsageIndex
+  ): ComponentPattern[] {
     const patternMap = new Map<string, ComponentPattern>();
 
-    components.forEach(component => {
-      if (!component.success) return;
-
+    listComponents(components).forEach(component => {
       const key = component.name;
       if (!patternMap.has(key)) {
         patternMap.set(key, {
@@ -577,7 +584,7 @@ export class AdvancedPatternExtractor {
       }
 
       const pattern = patternMap.get(key)!;
-      pattern.usage++;
+      pattern.usage = usage ? usage[key]?.length || 0 : pattern.usage + 1;
       pattern.locations.push(component.filePath);
 
       if (component.props) {
@@ -0,0 +1,423 @@
+/**
+ * Approved design-system spec and pattern proposal management
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { DesignPatterns, ComponentPattern } from './patternExtractor';
+
+export const SPEC_FILE_NAME = 'guru.spec.json';
+
+export interface DesignSpec {
+  specVersion: number;
+  approvedAt: string;
+  patterns: DesignPatterns;
+  rejected?: string[];
+}
+
+export type ProposalListCategory =
+  | 'spacing.values'
+  | 'colors.primary'
+  | 'colors.secondary'
+  | 'colors.neutrals'
+  | 'typography.fontSizes'
+  | 'typography.fontWeights'
+  | 'typography.fontFamilies'
+  | 'components';
+
+type ProposalValueListCategory = Exclude<ProposalListCategory, 'components'>;
+
+export type ProposalScalarCategory = 'spacing.unit' | 'cssFramework' | 'namingConvention';
+
+export interface PatternProposal {
+  id: string;
+  change: 'add' | 'remove' | 'set';
+  category: ProposalListCategory | ProposalScalarCategory;
+  value: string | number;
+  previous?: string | number;
+  component?: ComponentPattern;
+  description: string;
+}
+
+export interface StoredProposals {
+  timestamp: string;
+  specVersion: number;
+  proposals: PatternProposal[];
+}
+
+const COLOR_CATEGORIES: ProposalValueListCategory[] = [
+  'colors.primary',
+  'colors.secondary',
+  'colors.neutrals',
+];
+
+export class DesignSpecStorage {
+  private specPath: string;
+  private proposalsPath: string;
+
+  constructor(projectPath: string) {
+    this.specPath = path.join(projectPath, SPEC_FILE_NAME);
+    this.proposalsPath = path.join(projectPath, '.codebase-guru', 'proposals.json');
+  }
+
+  /**
+   * Get the path of the committed spec file
+   */
+  getSpecPath(): string {
+    return this.specPath;
+  }
+
+  /**
+   * Load the approved spec, if one has been committed
+   */
+  async loadSpec(): Promise<DesignSpec | null> {
+    try {
+      if (await fs.pathExists(this.specPath)) {
+        return await fs.readJson(this.specPath);
+      }
+    } catch (error) {
+      console.warn(`Failed to load ${SPEC_FILE_NAME}:`, error);
+    }
+    return null;
+  }
+
+  /**
+   * Freeze the given patterns as the next version of the approved spec
+   */
+  async approve(patterns: DesignPatterns): Promise<DesignSpec> {
+    const existing = await this.loadSpec();
+
+    const spec: DesignSpec = {
+      specVersion: (existing?.specVersion || 0) + 1,
+      approvedAt: new Date().toISOString(),
+      patterns: this.clonePatterns(patterns),
+      rejected: existing?.rejected || [],
+    };
+
+    await this.saveSpec(spec);
+    await this.saveProposals([], spec.specVersion);
+    return spec;
+  }
+
+  /**
+   * Compare learned patterns against the spec and list what changed
+   */
+  diffPatterns(spec: DesignSpec, learned: DesignPatterns): PatternProposal[] {
+    const proposals: PatternProposal[] = [];
+    const approved = spec.patterns;
+
+    // Scalar settings
+    this.diffScalar(proposals, 'spacing.unit', approved.spacing.unit, learned.spacing.unit);
+    this.diffScalar(proposals, 'cssFramework', approved.cssFramework, learned.cssFramework);
+    this.diffScalar(
+      proposals,
+      'namingConvention',
+      approved.namingConvention,
+      learned.namingConvention
+    );
+
+    // Colors are compared across buckets so that a color moving from
+    // primary to secondary is not reported as a removal plus an addition
+    const approvedColors = new Set(COLOR_CATEGORIES.flatMap((c) => this.getList(approved, c)));
+    const learnedColors = new Set(COLOR_CATEGORIES.flatMap((c) => this.getList(learned, c)));
+
+    for (const category of COLOR_CATEGORIES) {
+      for (const color of this.getList(learned, category)) {
+        if (!approvedColors.has(color)) {
+          proposals.push(this.createProposal('add', category, color));
+        }
+      }
+      for (const color of this.getList(approved, category)) {
+        if (!learnedColors.has(color)) {
+          proposals.push(this.createProposal('remove', category, color));
+        }
+      }
+    }
+
+    // Remaining list categories
+    const listCategories: ProposalValueListCategory[] = [
+      'spacing.values',
+      'typography.fontSizes',
+      'typography.fontWeights',
+      'typography.fontFamilies',
+    ];
+
+    for (const category of listCategories) {
+      const approvedValues = new Set(this.getList(approved, category));
+      const learnedValues = new Set(this.getList(learned, category));
+
+      for (const value of learnedValues) {
+        if (!approvedValues.has(value)) {
+          proposals.push(this.createProposal('add', category, value));
+        }
+      }
+      for (const value of approvedValues) {
+        if (!learnedValues.has(value)) {
+          proposals.push(this.createProposal('remove', category, value));
+        }
+      }
+    }
+
+    // Components
+    const approvedComponents = new Set(approved.components.map((c) => c.name));
+    const learnedComponents = new Map(learned.components.map((c) => [c.name, c]));
+
+    for (const [name, component] of learnedComponents) {
+      if (!approvedComponents.has(name)) {
+        proposals.push({ ...this.createProposal('add', 'components', name), component });
+      }
+    }
+    for (const name of approvedComponents) {
+      if (!learnedComponents.has(name)) {
+        proposals.push(this.createProposal('remove', 'components', name));
+      }
+    }
+
+    const rejected = new Set(spec.rejected || []);
+    return proposals.filter((p) => !rejected.has(p.id));
+  }
+
+  /**
+   * Save pending proposals for review
+   */
+  async saveProposals(proposals: PatternProposal[], specVersion: number): Promise<void> {
+    await fs.ensureDir(path.dirname(this.proposalsPath));
+
+    const stored: StoredProposals = {
+      timestamp: new Date().toISOString(),
+      specVersion,
+      proposals,
+    };
+
+    await fs.writeJson(this.proposalsPath, stored, { spaces: 2 });
+  }
+
+  /**
+   * Load pending proposals
+   */
+  async loadProposals(): Promise<PatternProposal[]> {
+    try {
+      if (await fs.pathExists(this.proposalsPath)) {
+        const stored: StoredProposals = await fs.readJson(this.proposalsPath);
+        return stored.proposals || [];
+      }
+    } catch (error) {
+      console.warn('Failed to load pattern proposals:', error);
+    }
+    return [];
+  }
+
+  /**
+   * Apply the given proposals to the spec and bump its version
+   */
+  async acceptProposals(ids: string[]): Promise<{ spec: DesignSpec; accepted: PatternProposal[] }> {
+    const spec = await this.requireSpec();
+    const pending = await this.loadProposals();
+    const accepted = this.selectProposals(pending, ids);
+
+    let patterns = spec.patterns;
+    for (const proposal of accepted) {
+      patterns = this.applyProposal(patterns, proposal);
+    }
+
+    const updated: DesignSpec = {
+      ...spec,
+      specVersion: spec.specVersion + 1,
+      approvedAt: new Date().toISOString(),
+      patterns,
+    };
+
+    await this.saveSpec(updated);
+    await this.saveProposals(
+      pending.filter((p) => !accepted.includes(p)),
+      updated.specVersion
+    );
+
+    return { spec: updated, accepted };
+  }
+
+  /**
+   * Record proposals as rejected so they are not proposed again
+   */
+  async rejectProposals(ids: string[]): Promise<{ spec: DesignSpec; rejected: PatternProposal[] }> {
+    const spec = await this.requireSpec();
+    const pending = await this.loadProposals();
+    const rejected = this.selectProposals(pending, ids);
+
+    const updated: DesignSpec = {
+      ...spec,
+      rejected: [...new Set([...(spec.rejected || []), ...rejected.map((p) => p.id)])],
+    };
+
+    await this.saveSpec(updated);
+    await this.saveProposals(
+      pending.filter((p) => !rejected.includes(p)),
+      updated.specVersion
+    );
+
+    return { spec: updated, rejected };
+  }
+
+  /**
+   * Apply a single proposal to a copy of the patterns
+   */
+  applyProposal(patterns: DesignPatterns, proposal: PatternProposal): DesignPatterns {
+    const next = this.clonePatterns(patterns);
+
+    switch (proposal.category) {
+      case 'spacing.unit':
+        next.spacing.unit = Number(proposal.value);
+        return next;
+      case 'cssFramework':
+        next.cssFramework = String(proposal.value);
+        return next;
+      case 'namingConvention':
+        next.namingConvention = String(proposal.value);
+        return next;
+      case 'components':
+        if (proposal.change === 'add') {
+          next.components.push(
+            proposal.component || {
+              name: String(proposal.value),
+              usage: 0,
+              props: [],
+              locations: [],
+            }
+          );
+        } else {
+          next.components = next.components.filter((c) => c.name !== proposal.value);
+        }
+        return next;
+    }
+
+    const list = this.getList(next, proposal.category);
+    if (proposal.change === 'add' && !list.includes(proposal.value)) {
+      list.push(proposal.value);
+    } else if (proposal.change === 'remove') {
+      const index = list.indexOf(proposal.value);
+      if (index !== -1) list.splice(index, 1);
+    }
+
+    return next;
+  }
+
+  /**
+   * Write the spec file
+   */
+  private async saveSpec(spec: DesignSpec): Promise<void> {
+    await fs.writeJson(this.specPath, spec, { spaces: 2 });
+  }
+
+  /**
+   * Load the spec or fail with a helpful message
+   */
+  private async requireSpec(): Promise<DesignSpec> {
+    const spec = await this.loadSpec();
+    if (!spec) {
+      throw new Error(`No ${SPEC_FILE_NAME} found. Run "guru patterns approve" first.`);
+    }
+    return spec;
+  }
+
+  /**
+   * Pick proposals by id (or id prefix), failing on unknown ids and on prefixes
+   * that match more than one proposal
+   */
+  private selectProposals(pending: PatternProposal[], ids: string[]): PatternProposal[] {
+    if (ids.includes('all')) {
+      return pending;
+    }
+
+    return ids.map((id) => {
+      const exact = pending.find((p) => p.id === id);
+      if (exact) return exact;
+
+      const matches = pending.filter((p) => p.id.startsWith(id));
+      if (matches.length === 0) {
+        throw new Error(`Unknown proposal: ${id}`);
+      }
+      if (matches.length > 1) {
+        throw new Error(
+          `Ambiguous proposal id "${id}" matches: ${matches.map((p) => p.id).join(', ')}`
+        );
+      }
+      return matches[0];
+    });
+  }
+
+  /**
+   * Add a "set" proposal when a scalar setting changed
+   */
+  private diffScalar(
+    proposals: PatternProposal[],
+    category: ProposalScalarCategory,
+    approved: string | number | undefined,
+    learned: string | number | undefined
+  ): void {
+    if (learned === undefined || learned === approved) return;
+
+    proposals.push({
+      ...this.createProposal('set', category, learned),
+      previous: approved,
+      description: `Change ${category} from ${approved ?? 'unset'} to ${learned}`,
+    });
+  }
+
+  /**
+   * Create a proposal with a stable id
+   */
+  private createProposal(
+    change: PatternProposal['change'],
+    category: PatternProposal['category'],
+    value: string | number
+  ): PatternProposal {
+    const id = crypto
+      .createHash('sha1')
+      .update(`${change}:${category}:${value}`)
+      .digest('hex')
+      .slice(0, 8);
+
+    const verb = change === 'add' ? 'Add' : change === 'remove' ? 'Remove' : 'Set';
+
+    return {
+      id,
+      change,
+      category,
+      value,
+      description: `${verb} ${value} ${change === 'remove' ? 'from' : 'to'} ${category}`,
+    };
+  }
+
+  /**
+   * Get the mutable list behind a list category
+   */
+  private getList(
+    patterns: DesignPatterns,
+    category: ProposalValueListCategory
+  ): Array<string | number> {
+    switch (category) {
+      case 'spacing.values':
+        return patterns.spacing.values;
+      case 'colors.primary':
+        return patterns.colors.primary;
+      case 'colors.secondary':
+        return patterns.colors.secondary;
+      case 'colors.neutrals':
+        return patterns.colors.neutrals;
+      case 'typography.fontSizes':
+        return patterns.typography.fontSizes;
+      case 'typography.fontWeights':
+        return patterns.typography.fontWeights;
+      case 'typography.fontFamilies':
+        return patterns.typography.fontFamilies;
+    }
+  }
+
+  /**
+   * Deep copy patterns so callers never mutate the spec in place
+   */
+  private clonePatterns(patterns: DesignPatterns): DesignPatterns {
+    return JSON.parse(JSON.stringify(patterns));
+  }
+}
@@ -4,9 +4,13 @@
 
 import { 
   ComponentInfo, 
+  ComponentUsageIndex,
   CSSAnalysisResult, 
-  ProjectAnalysis 
+  ProjectAnalysis,
+  TailwindTheme,
 } from '../types';
+import { listComponents } from '../analyzers/componentDefinitions';
+import { isTokenReference } from '../analyzers/styleValues';
 
 export interface SpacingGrid {
   unit: number;
@@ -65,11 +69,11 @@ export class PatternExtractor {
     const spacing = this.detectSpacingGrid(analysis.styles);
     const colors = this.extractColorScheme(analysis.styles, analysis.components);
     const typography = this.extractTypographyScale(analysis.styles);
-    const components = this.extractComponentPatterns(analysis.components);
+    const components = this.extractComponentPatterns(analysis.components, analysis.usage);
     const cssFramework = this.detectCSSFramework(analysis);
     const namingConvention = this.detectNamingConvention(analysis.components);
 
-    return {
+    const patterns = {
       spacing,
       colors,
       typography,
@@ -77,6 +81,59 @@ export class PatternExtractor {
       cssFramework,
       namingConvention,
     };
+    return analysis.tailwind ? this.applyTailwindTheme(patterns, analysis.tailwind) : patterns;
+  }
+
+  /**
+   * Learn the scales of a Tailwind theme. Its spacing scale sets the grid, and
+   * its colors and type scale join the ones found in stylesheets
+   */
+  applyTailwindTheme(patterns: DesignPatterns, theme: TailwindTheme): DesignPatterns {
+    // Hairline steps such as px and 0.5 aren't grid multiples
+    const spacing = Object.values(theme.spacing)
+      .map(value => this.parseSpacingValue(value))
+      .filter((value): value is number => value !== null && value >= 4)
+      .map(value => Math.round(value));
+
+    const colors: ColorScheme = {
+      ...patterns.colors,
+      secondary: [...patterns.colors.secondary],
+      neutrals: [...patterns.colors.neutrals],
+    };
+    const known = new Set([
+      ...colors.primary,
+      ...colors.secondary,
+      ...colors.neutrals,
+      ...Object.values(colors.semantic).flat(),
+    ]);
+    for (const value of Object.values(theme.colors)) {
+      const color = this.normalizeColor(value);
+      if (!color || known.has(color)) continue;
+      known.add(color);
+      (this.isNeutralColor(color) ? colors.neutrals : colors.secondary).push(color);
+    }
+
+    const fontSizes = new Set([...patterns.typography.fontSizes, ...Object.values(theme.fontSize)]);
+    const fontWeights = new Set([
+      ...patterns.typography.fontWeights,
+      ...Object.values(theme.fontWeight),
+    ]);
+
+    return {
+      ...patterns,
+      spacing: spacing.length > 0 ? this.fitSpacingGrid(spacing) : patterns.spacing,
+      colors,
+      typography: {
+        ...patterns.typography,
+        fontSizes: Array.from(fontSizes).sort(
+          (a, b) => this.parseFontSize(a) - this.parseFontSize(b)
+        ),
+        fontWeights: Array.from(fontWeights).sort(
+          (a, b) => (parseInt(a) || 400) - (parseInt(b) || 400)
+        ),
+      },
+      cssFramework: 'tailwind',
+    };
   }
 
   /**
@@ -96,7 +153,8 @@ export class PatternExtractor {
 
     const result = this.advancedExtractor.extractAdvancedPatterns(
       analysis.components,
-      analysis.styles
+      analysis.styles,
+      analysis.usage
     );
 
     return result;
@@ -112,7 +170,7 @@ export class PatternExtractor {
     for (const style of styles) {
       for (const spacing of style.spacing) {
         // Convert to pixels
-        const value = this.parseSpacingValue(spacing);
+        const value = this.parseSpacingValue(this.resolveVariable(style, spacing));
         if (value !== null && value > 0) {
           allSpacing.push(value);
         }
@@ -123,6 +181,13 @@ export class PatternExtractor {
       return { unit: 8, values: [], confidence: 0 };
     }
 
+    return this.fitSpacingGrid(allSpacing);
+  }
+
+  /**
+   * Find the grid unit that spacing values in pixels fit best
+   */
+  private fitSpacingGrid(allSpacing: number[]): SpacingGrid {
     // Find the greatest common divisor
     const gcd = this.findGCD(allSpacing);
     
@@ -164,7 +229,7 @@ export class PatternExtractor {
     // Collect colors from CSS
     for (const style of styles) {
       for (const color of style.colors) {
-        const normalized = this.normalizeColor(color);
+        const normalized = this.normalizeColor(this.resolveVariable(style, color));
         if (normalized) {
           colorMap.set(normalized, (colorMap.get(normalized) || 0) + 1);
         }
@@ -227,8 +292,8 @@ export class PatternExtractor {
     const fontFamilies = new Set<string>();
 
     for (const style of styles) {
-      style.fontSize.forEach(size => fontSizes.add(size));
-      style.fontWeight.forEach(weight => fontWeights.add(weight));
+      style.fontSize.forEach(size => fontSizes.add(this.resolveVariable(style, size)));
+      style.fontWeight.forEach(weight => fontWeights.add(this.resolveVariable(style, weight)));
       
       // Extract font families from custom properties
       Object.entries(style.customProperties).forEach(([key, value]) => {
@@ -260,14 +325,16 @@ export class PatternExtractor {
   }
 
   /**
-   * Extract component usage patterns
+   * Extract component usage patterns. With a usage index, usage counts the
+   * places a component is rendered rather than the files declaring it
    */
-  extractComponentPatterns(components: ComponentInfo[]): ComponentPattern[] {
+  extractComponentPatterns(
+    components: ComponentInfo[],
+    usage?: ComponentUsageIndex
+  ): ComponentPattern[] {
     const patternMap = new Map<string, ComponentPattern>();
 
-    for (const component of components) {
-      if (!component.success) continue;
-
+    for (const component of listComponents(components)) {
       const key = component.name;
       if (!patternMap.has(key)) {
         patternMap.set(key, {
@@ -279,7 +346,7 @@ export class PatternExtractor {
       }
 
       const pattern = patternMap.get(key)!;
-      pattern.usage++;
+      pattern.usage = usage ? usage[key]?.length || 0 : pattern.usage + 1;
       pattern.locations.push(component.filePath);
 
       // Collect unique props
@@ -346,7 +413,7 @@ export class PatternExtractor {
     let camelCase = 0;
     let kebabCase = 0;
 
-    for (const component of components) {
+    for (const component of listComponents(components)) {
       const name = component.name;
       
       if (/^[A-Z][a-zA-Z0-9]*$/.test(name)) {
@@ -400,12 +467,20 @@ export class PatternExtractor {
     return numbers.reduce((acc, num) => gcd(acc, num));
   }
 
+  /**
+   * Get the value a SCSS or LESS variable resolves to, so values set through
+   * variables are learned like the ones written out
+   */
+  private resolveVariable(style: CSSAnalysisResult, value: string): string {
+    return style.variables?.[value] ?? value;
+  }
+
   /**
    * Normalize color values
    */
   private normalizeColor(color: string): string | null {
-    // Skip CSS variables
-    if (color.startsWith('var(')) return null;
+    // Skip CSS and preprocessor variables
+    if (isTokenReference(color)) return null;
     
     // Normalize hex colors to lowercase
     if (color.startsWith('#')) {
@@ -437,6 +512,9 @@ export class PatternExtractor {
     }
 
     // Check hex colors for grayscale
+    if (/^#[\da-f]{3}$/i.test(color)) {
+      return color[1] === color[2] && color[2] === color[3];
+    }
     if (color.startsWith('#') && color.length === 7) {
       const r = parseInt(color.slice(1, 3), 16);
       const g = parseInt(color.slice(3, 5), 16);
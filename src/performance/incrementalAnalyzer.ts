@@ -7,6 +7,7 @@ import * as crypto from 'crypto';
 import * as path from 'path';
 import { ComponentInfo, CSSAnalysisResult, HTMLAnalysisResult } from '../types';
 import { ComponentAnalyzer, CSSAnalyzer, HTMLAnalyzer } from '../analyzers';
+import { clearResolverCache, isResolverConfig, resolveModule } from '../analyzers/moduleResolver';
 
 export interface FileHash {
   filePath: string;
@@ -51,9 +52,19 @@ export class IncrementalAnalyzer {
    */
   async analyzeChangedFiles(changedPaths: string[]): Promise<AnalysisChange[]> {
     const changes: AnalysisChange[] = [];
+    const staleImporters = new Set<string>();
+    const addedFiles: string[] = [];
+
+    // A changed tsconfig.json or jsconfig.json can change where any alias resolves
+    const resolverChanged = changedPaths.some(isResolverConfig);
+    if (resolverChanged) {
+      clearResolverCache();
+    }
 
     // Process deletions first
     for (const filePath of changedPaths) {
+      if (isResolverConfig(filePath)) continue;
+
       if (!(await fs.pathExists(filePath))) {
         const oldResult = this.analysisCache.get(filePath)?.result;
         if (oldResult) {
@@ -65,7 +76,8 @@ export class IncrementalAnalyzer {
           
           this.fileHashes.delete(filePath);
           this.analysisCache.delete(filePath);
-          this.invalidateDependents(filePath);
+          this.updateDependencyGraph(filePath, []);
+          this.invalidateDependents(filePath, staleImporters);
         }
         continue;
       }
@@ -85,8 +97,14 @@ export class IncrementalAnalyzer {
 
       // Analyze the file
       try {
-        const result = await this.analyzeFile(filePath);
-        
+        const result = await this.analyzeAndCache(filePath, currentHash);
+        if (isNew) {
+          addedFiles.push(filePath);
+        } else {
+          // Importers may read what changed, such as the classes of a CSS Module
+          this.invalidateDependents(filePath, staleImporters);
+        }
+
         changes.push({
           type: isNew ? 'added' : 'modified',
           filePath,
@@ -94,22 +112,27 @@ export class IncrementalAnalyzer {
           oldResult,
         });
 
-        // Update caches
-        this.fileHashes.set(filePath, currentHash);
-        this.analysisCache.set(filePath, {
-          filePath,
-          result,
-          hash: currentHash.hash,
-          timestamp: Date.now(),
-          dependencies: this.extractDependencies(result),
-        });
+      } catch (error) {
+        console.warn(`Failed to analyze ${filePath}:`, error);
+      }
+    }
 
-        // Update dependency graph
-        this.updateDependencyGraph(filePath, result);
+    // A new file can take over imports that resolved elsewhere or not at all
+    if (resolverChanged || addedFiles.length > 0) {
+      this.findStaleImports(resolverChanged ? undefined : addedFiles).forEach((filePath) =>
+        staleImporters.add(filePath)
+      );
+    }
 
-        // Invalidate dependent files for reanalysis
-        await this.invalidateDependents(filePath);
+    // Importers of changed files are analyzed again so their resolved
+    // imports, dependencies and checks against the files they read stay current
+    for (const filePath of staleImporters) {
+      const cached = this.analysisCache.get(filePath);
+      if (!cached || changedPaths.includes(filePath)) continue;
 
+      try {
+        const result = await this.analyzeAndCache(filePath, await this.calculateFileHash(filePath));
+        changes.push({ type: 'modified', filePath, result, oldResult: cached.result });
       } catch (error) {
         console.warn(`Failed to analyze ${filePath}:`, error);
       }
@@ -138,28 +161,78 @@ export class IncrementalAnalyzer {
   }
 
   /**
-   * Analyze a single file based on its extension
+   * Analyze a file and update the caches and dependency graph with the result
+   */
+  private async analyzeAndCache(
+    filePath: string,
+    fileHash: FileHash
+  ): Promise<ComponentInfo | CSSAnalysisResult | HTMLAnalysisResult> {
+    const result = await this.analyzeFile(filePath);
+    const dependencies = this.extractDependencies(result);
+
+    this.fileHashes.set(filePath, fileHash);
+    this.analysisCache.set(filePath, {
+      filePath,
+      result,
+      hash: fileHash.hash,
+      timestamp: Date.now(),
+      dependencies,
+    });
+    this.updateDependencyGraph(filePath, dependencies);
+
+    return result;
+  }
+
+  /**
+   * Analyze in-memory content, such as an unsaved editor buffer. The result is
+   * served from the cache when the content matches the last analyzed file
    */
-  private async analyzeFile(filePath: string): Promise<ComponentInfo | CSSAnalysisResult | HTMLAnalysisResult> {
+  async analyzeContent(
+    filePath: string,
+    content: string
+  ): Promise<ComponentInfo | CSSAnalysisResult | HTMLAnalysisResult> {
+    const hash = crypto.createHash('sha256').update(content).digest('hex');
+    const cached = this.analysisCache.get(filePath);
+    if (cached && cached.hash === hash) {
+      return cached.result;
+    }
+
+    return this.analyzeFile(filePath, content);
+  }
+
+  /**
+   * Analyze a single file based on its extension, from disk or from the given content
+   */
+  private async analyzeFile(
+    filePath: string,
+    content?: string
+  ): Promise<ComponentInfo | CSSAnalysisResult | HTMLAnalysisResult> {
     const ext = path.extname(filePath).toLowerCase();
-    
+    const hasContent = content !== undefined;
+
     switch (ext) {
       case '.js':
       case '.jsx':
       case '.ts':
       case '.tsx':
-        return await this.componentAnalyzer.parseReactComponent(filePath);
-      
+        return hasContent
+          ? await this.componentAnalyzer.parseReactComponentContent(filePath, content)
+          : await this.componentAnalyzer.parseReactComponent(filePath);
+
       case '.css':
       case '.scss':
       case '.sass':
       case '.less':
-        return await this.cssAnalyzer.parseCSSFile(filePath);
-      
+        return hasContent
+          ? await this.cssAnalyzer.parseCSSContent(filePath, content)
+          : await this.cssAnalyzer.parseCSSFile(filePath);
+
       case '.html':
       case '.htm':
-        return await this.htmlAnalyzer.parseHTMLFile(filePath);
-      
+        return hasContent
+          ? await this.htmlAnalyzer.parseHTMLContent(filePath, content)
+          : await this.htmlAnalyzer.parseHTMLFile(filePath);
+
       default:
         throw new Error(`Unsupported file type: ${ext}`);
     }
@@ -178,9 +251,7 @@ export class IncrementalAnalyzer {
   /**
    * Update dependency graph
    */
-  private updateDependencyGraph(filePath: string, result: ComponentInfo | CSSAnalysisResult | HTMLAnalysisResult): void {
-    const dependencies = this.extractDependencies(result);
-    
+  private updateDependencyGraph(filePath: string, dependencies: string[]): void {
     // Clear old dependencies
     for (const [dep, dependents] of this.dependencyGraph) {
       dependents.delete(filePath);
@@ -199,18 +270,62 @@ export class IncrementalAnalyzer {
   }
 
   /**
-   * Invalidate files that depend on the changed file
+   * Mark the files that import a deleted or modified file for reanalysis
    */
-  private async invalidateDependents(filePath: string): Promise<void> {
+  private invalidateDependents(filePath: string, staleImporters: Set<string>): void {
     const dependents = this.dependencyGraph.get(filePath);
     if (!dependents) return;
 
     for (const dependent of dependents) {
-      // Remove from cache to force reanalysis
-      this.analysisCache.delete(dependent);
+      staleImporters.add(dependent);
     }
   }
 
+  /**
+   * Find cached files with an import that no longer resolves to the same file.
+   * With added files, only imports that are unresolved or relative, and name
+   * one of the added files, are resolved again
+   */
+  private findStaleImports(addedFiles?: string[]): string[] {
+    const stale: string[] = [];
+
+    for (const { filePath, result } of this.analysisCache.values()) {
+      if (!('imports' in result) || !result.imports) continue;
+
+      const changed = result.imports.some(
+        ({ source, resolved }) =>
+          (!addedFiles ||
+            ((!resolved || source.startsWith('.')) &&
+              addedFiles.some((added) => this.couldResolveTo(source, added)))) &&
+          resolveModule(source, filePath) !== resolved
+      );
+      if (changed) stale.push(filePath);
+    }
+
+    return stale;
+  }
+
+  /**
+   * Check whether an import specifier could resolve to a file: its last segment
+   * names the file, or the directory of an index file
+   */
+  private couldResolveTo(specifier: string, filePath: string): boolean {
+    const segment = specifier.split('/').pop()!;
+    if (segment === '.' || segment === '..' || segment === '') return true;
+
+    const name = path.basename(filePath, path.extname(filePath));
+    const names = [path.basename(filePath), name];
+    if (name === 'index') names.push(path.basename(path.dirname(filePath)));
+    return names.includes(segment);
+  }
+
+  /**
+   * Get the files that import a file directly
+   */
+  getDependents(filePath: string): string[] {
+    return Array.from(this.dependencyGraph.get(filePath) || []);
+  }
+
   /**
    * Get cached analysis result
    */
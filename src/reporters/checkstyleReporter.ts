@@ -0,0 +1,69 @@
+/**
+ * Checkstyle XML report generator - one file entry per analyzed file
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ProjectAnalysis, DriftViolation } from '../types';
+import { DriftAnalysisResult } from '../drift-detector/driftAnalyzer';
+import { xmlAttributes } from '../utils/xml';
+import { groupViolationsByFile } from './fileResults';
+
+export interface CheckstyleReportOptions {
+  outputPath?: string;
+}
+
+export class CheckstyleReporter {
+  /**
+   * Generate a Checkstyle XML report for the drift result
+   */
+  async generateReport(
+    analysis: ProjectAnalysis,
+    driftResult: DriftAnalysisResult,
+    options: CheckstyleReportOptions = {}
+  ): Promise<string> {
+    const files = groupViolationsByFile(analysis, driftResult.violations);
+
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += '<checkstyle version="4.3">\n';
+
+    for (const [filePath, violations] of files) {
+      if (violations.length === 0) {
+        xml += `  <file${xmlAttributes({ name: filePath })} />\n`;
+        continue;
+      }
+
+      xml += `  <file${xmlAttributes({ name: filePath })}>\n`;
+      for (const violation of violations) {
+        xml += `    <error${this.errorAttributes(violation)} />\n`;
+      }
+      xml += '  </file>\n';
+    }
+
+    xml += '</checkstyle>\n';
+
+    if (options.outputPath) {
+      await fs.ensureDir(path.dirname(options.outputPath));
+      await fs.writeFile(options.outputPath, xml);
+    }
+
+    return xml;
+  }
+
+  /**
+   * Render the attributes of an error entry
+   */
+  private errorAttributes(violation: DriftViolation): string {
+    const message = violation.suggestedFix
+      ? `${violation.message} (${violation.suggestedFix})`
+      : violation.message;
+
+    return xmlAttributes({
+      line: violation.line || 1,
+      column: violation.column,
+      severity: violation.severity,
+      message,
+      source: `guru.${violation.type}`,
+    });
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Groups drift violations by analyzed file for file-oriented report formats
+ */
+
+import { ProjectAnalysis, DriftViolation } from '../types';
+
+/**
+ * Map every analyzed file to its violations, including files without any
+ */
+export function groupViolationsByFile(
+  analysis: ProjectAnalysis,
+  violations: DriftViolation[]
+): Map<string, DriftViolation[]> {
+  const files = new Set<string>([
+    ...analysis.components.map((c) => c.filePath),
+    ...analysis.styles.map((s) => s.filePath),
+    ...analysis.templates.map((t) => t.filePath),
+    ...violations.map((v) => v.filePath),
+  ]);
+
+  const grouped = new Map<string, DriftViolation[]>();
+  for (const file of [...files].sort()) {
+    grouped.set(file, []);
+  }
+
+  for (const violation of violations) {
+    grouped.get(violation.filePath)!.push(violation);
+  }
+
+  for (const fileViolations of grouped.values()) {
+    fileViolations.sort(
+      (a, b) => (a.line || 0) - (b.line || 0) || (a.column || 0) - (b.column || 0)
+    );
+  }
+
+  return grouped;
+}
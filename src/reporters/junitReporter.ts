@@ -0,0 +1,100 @@
+/**
+ * JUnit XML report generator - one testcase per analyzed file
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ProjectAnalysis, DriftViolation } from '../types';
+import { DriftAnalysisResult } from '../drift-detector/driftAnalyzer';
+import { escapeXml, xmlAttributes } from '../utils/xml';
+import { groupViolationsByFile } from './fileResults';
+
+export interface JUnitReportOptions {
+  outputPath?: string;
+}
+
+const SUITE_NAME = 'react-codebase-guru';
+
+export class JUnitReporter {
+  /**
+   * Generate a JUnit XML report for the drift result
+   */
+  async generateReport(
+    analysis: ProjectAnalysis,
+    driftResult: DriftAnalysisResult,
+    options: JUnitReportOptions = {}
+  ): Promise<string> {
+    const files = groupViolationsByFile(analysis, driftResult.violations);
+    const failedFiles = [...files.values()].filter((violations) => violations.length > 0).length;
+
+    const suiteAttributes = xmlAttributes({
+      name: SUITE_NAME,
+      tests: files.size,
+      failures: failedFiles,
+      errors: 0,
+      timestamp: analysis.timestamp,
+    });
+
+    let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
+    xml += `<testsuites${suiteAttributes}>\n`;
+    xml += `  <testsuite${suiteAttributes}>\n`;
+
+    for (const [filePath, violations] of files) {
+      xml += this.generateTestCase(path.relative(analysis.projectPath, filePath), violations);
+    }
+
+    xml += '  </testsuite>\n';
+    xml += '</testsuites>\n';
+
+    if (options.outputPath) {
+      await fs.ensureDir(path.dirname(options.outputPath));
+      await fs.writeFile(options.outputPath, xml);
+    }
+
+    return xml;
+  }
+
+  /**
+   * Generate a testcase for a file, with one failure per violation
+   */
+  private generateTestCase(relativePath: string, violations: DriftViolation[]): string {
+    const attributes = xmlAttributes({
+      name: relativePath,
+      classname: SUITE_NAME,
+      file: relativePath,
+    });
+
+    if (violations.length === 0) {
+      return `    <testcase${attributes} />\n`;
+    }
+
+    let xml = `    <testcase${attributes}>\n`;
+    for (const violation of violations) {
+      xml += `      <failure${xmlAttributes({ message: violation.message, type: violation.type })}>`;
+      xml += escapeXml(this.formatDetails(relativePath, violation));
+      xml += '</failure>\n';
+    }
+    xml += '    </testcase>\n';
+
+    return xml;
+  }
+
+  /**
+   * Format the failure body shown by CI test viewers
+   */
+  private formatDetails(relativePath: string, violation: DriftViolation): string {
+    const location = violation.line
+      ? `${relativePath}:${violation.line}:${violation.column || 1}`
+      : relativePath;
+
+    const lines = [
+      `${violation.severity.toUpperCase()} [${violation.type}] ${violation.message}`,
+      `at ${location}`,
+    ];
+    if (violation.suggestedFix) {
+      lines.push(`Suggested fix: ${violation.suggestedFix}`);
+    }
+
+    return lines.join('\n');
+  }
+}
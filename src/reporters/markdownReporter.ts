@@ -4,7 +4,7 @@
 
 import * as fs from 'fs-extra';
 import * as path from 'path';
-import { ProjectAnalysis, DriftViolation } from '../types';
+import { ProjectAnalysis, DriftViolation, DesignSystemAdoption } from '../types';
 import { DriftAnalysisResult } from '../drift-detector/driftAnalyzer';
 import { DesignPatterns } from '../patterns/patternExtractor';
 
@@ -39,6 +39,10 @@ export class MarkdownReporter {
       markdown += this.generateSummary(analysis, driftResult);
     }
 
+    if (analysis.adoption) {
+      markdown += this.generateAdoptionSection(analysis.adoption);
+    }
+
     if (includePatterns && patterns) {
       markdown += this.generatePatternsSection(patterns);
     }
@@ -118,6 +122,40 @@ export class MarkdownReporter {
     return markdown;
   }
 
+  /**
+   * Generate design-system adoption section, least adopted directories first
+   */
+  private generateAdoptionSection(adoption: DesignSystemAdoption): string {
+    let markdown = `## 🧩 Design-System Adoption
+
+### Overall Adoption: ${adoption.percentage}%
+
+- **Packages**: ${adoption.packages.map(p => `\`${p}\``).join(', ')}
+- **Rendered Elements**: ${adoption.total}
+  - Design system: ${adoption.designSystem}
+  - DOM elements: ${adoption.dom}
+  - Other components: ${adoption.local}
+
+`;
+
+    const directories = Object.entries(adoption.byDirectory)
+      .sort(([, a], [, b]) => a.percentage - b.percentage || b.total - a.total)
+      .slice(0, 10);
+
+    if (directories.length > 0) {
+      markdown += '### Adoption by Directory\n\n';
+      markdown += '| Directory | Adoption | Design System | DOM | Other |\n';
+      markdown += '|-----------|----------|---------------|-----|-------|\n';
+
+      for (const [directory, counts] of directories) {
+        markdown += `| \`${directory}\` | ${counts.percentage}% | ${counts.designSystem} | ${counts.dom} | ${counts.local} |\n`;
+      }
+      markdown += '\n';
+    }
+
+    return markdown;
+  }
+
   /**
    * Generate patterns section
    */
@@ -279,6 +317,22 @@ Excellent! Your codebase is fully compliant with the detected design patterns.
       recommendations.push('📝 Standardize component naming conventions across the codebase.');
     }
 
+    if (violationTypes.includes('dead-component')) {
+      recommendations.push('🧹 Prune unused components (see `guru components --unused`) and fix stale stories and tests.');
+    }
+
+    if (violationTypes.includes('import-cycle')) {
+      recommendations.push('🔁 Break import cycles by moving shared code into its own module (see `guru graph`).');
+    }
+
+    if (violationTypes.includes('tailwind-drift')) {
+      recommendations.push('🌬️ Replace arbitrary Tailwind values with theme classes, or add the values to tailwind.config.');
+    }
+
+    if (violationTypes.includes('css-modules')) {
+      recommendations.push('🧩 Keep CSS Modules in step with the components that import them, and give shared styles a component of their own.');
+    }
+
     // Add recommendations as list
     markdown += recommendations.map(r => `- ${r}`).join('\n');
     markdown += '\n\n';
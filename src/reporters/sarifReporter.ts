@@ -0,0 +1,149 @@
+/**
+ * SARIF 2.1.0 report generator for code-scanning integrations
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { ProjectAnalysis, DriftViolation } from '../types';
+import { DriftAnalysisResult } from '../drift-detector/driftAnalyzer';
+import { getRuleMetadata, BUILT_IN_RULES } from '../drift-detector/rules';
+
+// Package info, read at runtime since package.json is outside the compiled sources
+const packageJson = fs.readJsonSync(path.join(__dirname, '../../package.json'));
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+export interface SarifReportOptions {
+  outputPath?: string;
+}
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+export class SarifReporter {
+  /**
+   * Generate a SARIF log for the drift result
+   */
+  async generateReport(
+    analysis: ProjectAnalysis,
+    driftResult: DriftAnalysisResult,
+    options: SarifReportOptions = {}
+  ): Promise<string> {
+    const log = this.createLog(analysis, driftResult);
+    const sarif = JSON.stringify(log, null, 2);
+
+    if (options.outputPath) {
+      await fs.ensureDir(path.dirname(options.outputPath));
+      await fs.writeFile(options.outputPath, sarif);
+    }
+
+    return sarif;
+  }
+
+  /**
+   * Build the SARIF log object
+   */
+  createLog(analysis: ProjectAnalysis, driftResult: DriftAnalysisResult): Record<string, unknown> {
+    // Every built-in rule is listed, plus any other rule types that were reported
+    const ruleIds = [
+      ...new Set([...Object.keys(BUILT_IN_RULES), ...driftResult.violations.map((v) => v.type)]),
+    ];
+    const ruleIndex = new Map(ruleIds.map((id, index) => [id, index]));
+
+    return {
+      $schema: SARIF_SCHEMA,
+      version: '2.1.0',
+      runs: [
+        {
+          tool: {
+            driver: {
+              name: 'react-codebase-guru',
+              version: packageJson.version,
+              informationUri: packageJson.homepage,
+              rules: ruleIds.map((id) => this.createRule(id)),
+            },
+          },
+          originalUriBaseIds: {
+            SRCROOT: { uri: this.toDirectoryUri(analysis.projectPath) },
+          },
+          results: driftResult.violations.map((violation) =>
+            this.createResult(violation, ruleIndex.get(violation.type)!, analysis.projectPath)
+          ),
+        },
+      ],
+    };
+  }
+
+  /**
+   * Create a reportingDescriptor for a rule
+   */
+  private createRule(ruleId: string): Record<string, unknown> {
+    const metadata = getRuleMetadata(ruleId);
+
+    return {
+      id: metadata.id,
+      name: metadata.name,
+      shortDescription: { text: metadata.description },
+      fullDescription: { text: metadata.description },
+      helpUri: metadata.helpUri,
+      help: { text: `${metadata.description}. See ${metadata.helpUri}` },
+      defaultConfiguration: { level: this.toLevel(metadata.defaultSeverity) },
+      properties: { tags: ['design-system', 'drift'] },
+    };
+  }
+
+  /**
+   * Create a result for a single violation
+   */
+  private createResult(
+    violation: DriftViolation,
+    ruleIndex: number,
+    projectPath: string
+  ): Record<string, unknown> {
+    const uri = path.relative(projectPath, violation.filePath).split(path.sep).join('/');
+
+    const physicalLocation: Record<string, unknown> = {
+      artifactLocation: { uri, uriBaseId: 'SRCROOT' },
+    };
+    if (violation.line) {
+      physicalLocation.region = {
+        startLine: violation.line,
+        startColumn: violation.column || 1,
+      };
+    }
+
+    const result: Record<string, unknown> = {
+      ruleId: violation.type,
+      ruleIndex,
+      level: this.toLevel(violation.severity),
+      message: { text: violation.message },
+      locations: [{ physicalLocation }],
+    };
+
+    if (violation.fingerprint) {
+      result.partialFingerprints = { 'guruFingerprint/v1': violation.fingerprint };
+    }
+    if (violation.suggestedFix) {
+      result.properties = { suggestedFix: violation.suggestedFix };
+    }
+
+    return result;
+  }
+
+  /**
+   * Map a violation severity to a SARIF level
+   */
+  private toLevel(severity: DriftViolation['severity']): SarifLevel {
+    if (severity === 'error') return 'error';
+    if (severity === 'warning') return 'warning';
+    return 'note';
+  }
+
+  /**
+   * Convert a directory path to a file URI with a trailing slash
+   */
+  private toDirectoryUri(directory: string): string {
+    const uri = pathToFileURL(directory).href;
+    return uri.endsWith('/') ? uri : `${uri}/`;
+  }
+}
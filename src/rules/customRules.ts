@@ -0,0 +1,160 @@
+/**
+ * Custom rule API: rules declare metadata and visit the analyzed files
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type * as Joi from 'joi';
+import {
+  ComponentInfo,
+  CSSAnalysisResult,
+  HTMLAnalysisResult,
+  DriftViolation,
+  ProjectAnalysis,
+} from '../types';
+import { DesignPatterns } from '../patterns/patternExtractor';
+import { GuruConfig } from '../config/configLoader';
+import { normalizeRuleSetting } from '../config/ruleSettings';
+import { resolveFileConfig } from '../config/configMerge';
+import { parseSource, File } from '../analyzers/astParser';
+
+export type RuleSeverity = 'error' | 'warning' | 'info';
+
+export interface CustomRuleMeta {
+  id: string; // Used in reports, `rules` config and guru-disable comments
+  description: string;
+  name?: string;
+  defaultSeverity?: RuleSeverity;
+  helpUri?: string;
+  schema?: Joi.ObjectSchema; // Validates the rule's options from the `rules` config
+}
+
+export interface RuleReportDescriptor {
+  filePath: string;
+  message: string;
+  line?: number;
+  column?: number;
+  value?: string;
+  suggestedFix?: string;
+}
+
+export interface RuleContext {
+  ruleId: string;
+  projectPath: string;
+  patterns: DesignPatterns | null; // Learned patterns or the approved spec
+  config: GuruConfig;
+  options: Record<string, unknown>; // From a ['warning', { ...options }] rule setting
+  /** Get a path relative to the project, with forward slashes */
+  relativePath(filePath: string): string;
+  /** Read a file's source */
+  getSource(filePath: string): string;
+  /** Parse a JavaScript/TypeScript file into a Babel AST, or null if it cannot be parsed */
+  getAST(filePath: string): File | null;
+  /** Report a violation of this rule */
+  report(descriptor: RuleReportDescriptor): void;
+}
+
+export interface RuleVisitor {
+  component?(component: ComponentInfo): void;
+  stylesheet?(stylesheet: CSSAnalysisResult): void;
+  template?(template: HTMLAnalysisResult): void;
+  /** Called once after every file has been visited */
+  project?(analysis: ProjectAnalysis): void;
+}
+
+export interface CustomRule {
+  meta: CustomRuleMeta;
+  create(context: RuleContext): RuleVisitor;
+}
+
+/**
+ * Define a custom rule with type checking
+ */
+export function defineRule(rule: CustomRule): CustomRule {
+  return rule;
+}
+
+/**
+ * Run custom rules over an analysis and collect their violations
+ */
+export function runCustomRules(
+  rules: CustomRule[],
+  analysis: ProjectAnalysis,
+  options: { config: GuruConfig; patterns: DesignPatterns | null }
+): DriftViolation[] {
+  const violations: DriftViolation[] = [];
+  const sources = new Map<string, string>();
+  const asts = new Map<string, File | null>();
+
+  const getSource = (filePath: string): string => {
+    if (!sources.has(filePath)) {
+      sources.set(filePath, fs.readFileSync(filePath, 'utf-8'));
+    }
+    return sources.get(filePath)!;
+  };
+
+  const relativePath = (filePath: string): string =>
+    path.relative(analysis.projectPath, filePath).split(path.sep).join('/');
+
+  for (const rule of rules) {
+    const { id } = rule.meta;
+    const { options: ruleOptions } = normalizeRuleSetting(options.config.rules?.[id]);
+
+    // Overrides can change a rule's severity for some files
+    const getSeverity = (filePath: string): RuleSeverity => {
+      const setting = resolveFileConfig(options.config, relativePath(filePath)).rules?.[id];
+      const { severity } = normalizeRuleSetting(setting);
+      return setting !== undefined && severity !== 'off'
+        ? severity
+        : rule.meta.defaultSeverity || 'warning';
+    };
+
+    const context: RuleContext = {
+      ruleId: id,
+      projectPath: analysis.projectPath,
+      patterns: options.patterns,
+      config: options.config,
+      options: ruleOptions,
+      relativePath,
+      getSource,
+      getAST: (filePath) => {
+        if (!asts.has(filePath)) {
+          asts.set(filePath, parseSource(getSource(filePath), filePath));
+        }
+        return asts.get(filePath)!;
+      },
+      report: (descriptor) => {
+        violations.push({
+          type: id,
+          severity: getSeverity(descriptor.filePath),
+          filePath: descriptor.filePath,
+          line: descriptor.line,
+          column: descriptor.column,
+          message: descriptor.message,
+          value: descriptor.value,
+          suggestedFix: descriptor.suggestedFix,
+        });
+      },
+    };
+
+    try {
+      const visitor = rule.create(context);
+      for (const component of analysis.components) {
+        if (component.success) visitor.component?.(component);
+      }
+      for (const stylesheet of analysis.styles) {
+        if (stylesheet.success) visitor.stylesheet?.(stylesheet);
+      }
+      for (const template of analysis.templates) {
+        if (template.success) visitor.template?.(template);
+      }
+      visitor.project?.(analysis);
+    } catch (error) {
+      throw new Error(
+        `Custom rule "${id}" failed: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return violations;
+}
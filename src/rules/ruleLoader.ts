@@ -0,0 +1,98 @@
+/**
+ * Loads custom rules declared in the `customRules` config section
+ */
+
+import * as Joi from 'joi';
+import { createRequire } from 'module';
+import type { GuruConfig } from '../config/configLoader';
+import { BUILT_IN_RULES, registerRuleMetadata, RULES_DOC_URL } from '../drift-detector/rules';
+import { CustomRule } from './customRules';
+import { normalizeRuleSetting } from '../config/ruleSettings';
+
+// Loads rule modules, which are only known at runtime
+const requireModule = createRequire(__filename);
+
+export const customRuleSchema = Joi.object({
+  meta: Joi.object({
+    id: Joi.string()
+      .pattern(/^[a-z0-9][a-z0-9-/]*$/)
+      .required()
+      .messages({ 'string.pattern.base': 'Rule id "{#value}" must be lowercase kebab-case' }),
+    description: Joi.string().required(),
+    name: Joi.string(),
+    defaultSeverity: Joi.string().valid('error', 'warning', 'info'),
+    helpUri: Joi.string().uri(),
+    schema: Joi.object().schema('object'),
+  })
+    .unknown(true)
+    .required(),
+  create: Joi.function().required(),
+}).unknown(true);
+
+/**
+ * Load the custom rules of a configuration. Entries are rule objects or module
+ * paths (resolved from the project) exporting a rule or an array of rules
+ */
+export async function loadCustomRules(
+  projectPath: string,
+  config: GuruConfig
+): Promise<CustomRule[]> {
+  const rules: CustomRule[] = [];
+
+  for (const entry of config.customRules || []) {
+    const source = typeof entry === 'string' ? entry : 'config';
+    const exported = typeof entry === 'string' ? requireRuleModule(projectPath, entry) : entry;
+
+    for (const rule of (Array.isArray(exported) ? exported : [exported]) as CustomRule[]) {
+      const { error } = customRuleSchema.validate(rule);
+      if (error) {
+        throw new Error(`Invalid custom rule in ${source}: ${error.details[0].message}`);
+      }
+
+      const { id } = rule.meta;
+      if (BUILT_IN_RULES[id]) {
+        throw new Error(`Custom rule "${id}" in ${source} conflicts with a built-in rule`);
+      }
+      if (rules.some((r) => r.meta.id === id)) {
+        throw new Error(`Custom rule "${id}" is defined more than once`);
+      }
+      rules.push(rule);
+    }
+  }
+
+  for (const { meta } of rules) {
+    if (meta.schema) {
+      const { options } = normalizeRuleSetting(config.rules?.[meta.id]);
+      const { error } = meta.schema.validate(options);
+      if (error) {
+        throw new Error(`Invalid options for rule "${meta.id}": ${error.details[0].message}`);
+      }
+    }
+
+    registerRuleMetadata({
+      id: meta.id,
+      name: meta.name || meta.id,
+      description: meta.description,
+      defaultSeverity: meta.defaultSeverity || 'warning',
+      helpUri: meta.helpUri || RULES_DOC_URL,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Require a rule module relative to the project, bypassing the require cache
+ */
+function requireRuleModule(projectPath: string, specifier: string): unknown {
+  let resolved: string;
+  try {
+    resolved = requireModule.resolve(specifier, { paths: [projectPath] });
+  } catch {
+    throw new Error(`Cannot find custom rule module "${specifier}"`);
+  }
+
+  delete requireModule.cache[resolved];
+  const loaded = requireModule(resolved);
+  return loaded && loaded.__esModule && 'default' in loaded ? loaded.default : loaded;
+}
@@ -0,0 +1,84 @@
+/**
+ * Lookup between CSS custom properties (design tokens) and their values
+ */
+
+import { CSSAnalysisResult } from '../types';
+
+/**
+ * Normalize a token value for comparison (case, whitespace and short hex colors)
+ */
+export function normalizeTokenValue(value: string): string {
+  const normalized = value.trim().toLowerCase().replace(/\s+/g, '');
+  const shortHex = normalized.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+  if (shortHex) {
+    return `#${shortHex[1]}${shortHex[1]}${shortHex[2]}${shortHex[2]}${shortHex[3]}${shortHex[3]}`;
+  }
+  return normalized;
+}
+
+export class TokenIndex {
+  private tokenValues = new Map<string, string>();
+  private valueTokens = new Map<string, string[]>();
+
+  /**
+   * Build an index from the custom properties declared in analyzed stylesheets
+   */
+  static fromStyles(styles: CSSAnalysisResult[]): TokenIndex {
+    const index = new TokenIndex();
+    for (const style of styles) {
+      if (!style.success) continue;
+      for (const [name, value] of Object.entries(style.customProperties)) {
+        index.add(name, value);
+      }
+    }
+    return index;
+  }
+
+  /**
+   * Add a token; references without a declared value are ignored
+   */
+  add(name: string, value: string): void {
+    if (value === 'referenced' || value.includes('var(')) return;
+
+    // Re-declaring a token replaces its previous value
+    const previous = this.tokenValues.get(name);
+    if (previous !== undefined) {
+      const previousKey = normalizeTokenValue(previous);
+      const remaining = (this.valueTokens.get(previousKey) || []).filter((t) => t !== name);
+      if (remaining.length > 0) {
+        this.valueTokens.set(previousKey, remaining);
+      } else {
+        this.valueTokens.delete(previousKey);
+      }
+    }
+
+    this.tokenValues.set(name, value);
+    const key = normalizeTokenValue(value);
+    const tokens = this.valueTokens.get(key) || [];
+    if (!tokens.includes(name)) {
+      tokens.push(name);
+      this.valueTokens.set(key, tokens);
+    }
+  }
+
+  /**
+   * Get the tokens declared with a value
+   */
+  findTokens(value: string): string[] {
+    return this.valueTokens.get(normalizeTokenValue(value)) || [];
+  }
+
+  /**
+   * Get the declared value of a token
+   */
+  getValue(name: string): string | undefined {
+    return this.tokenValues.get(name);
+  }
+
+  /**
+   * Number of indexed tokens
+   */
+  get size(): number {
+    return this.tokenValues.size;
+  }
+}
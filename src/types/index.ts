@@ -3,19 +3,77 @@
  */
 
 export interface ComponentInfo {
-  name: string;
+  name: string; // The file's main component: its default export, else the first declared
   filePath: string;
   props?: PropInfo[];
   type: 'functional' | 'class' | 'unknown';
   hasJSX: boolean;
-  dependencies?: string[];
-  exports?: string[];
+  definitions?: ComponentDefinition[]; // Every component the file declares
+  dependencies?: string[]; // Project files this file imports
+  exports?: string[]; // Exported names, 'default' for the default export
   styling?: StyleInfo;
+  cssInJS?: CSSAnalysisResult; // styled-components and Emotion styles, analyzed as a stylesheet
+  jsxElements?: JSXElementUsage[]; // Every JSX element the file renders
+  imports?: ImportInfo[]; // Static and dynamic imports, and re-exports
+  line?: number;
+  column?: number;
+  suppressions?: SuppressionRange[];
   success: boolean;
   errorType?: string;
   errorMessage?: string;
 }
 
+export interface ComponentDefinition {
+  name: string; // Local name, or the file name for an anonymous default export
+  displayName: string; // Assigned displayName, or the name
+  filePath: string;
+  type: 'functional' | 'class' | 'unknown';
+  props: PropInfo[];
+  wrappers: string[]; // Outermost first, e.g. ['memo', 'forwardRef'] or ['styled']
+  exportKind?: 'default' | 'named'; // Omitted when the component isn't exported
+  exportName?: string; // Name of a named export
+  line?: number;
+  column?: number;
+}
+
+export interface ImportInfo {
+  source: string; // Module specifier as written
+  specifiers: ImportSpecifierInfo[]; // Empty for side-effect imports
+  resolved?: string; // Path of the imported file, for project modules
+  reExport?: boolean; // export ... from
+  line: number;
+  column: number;
+}
+
+export interface ImportSpecifierInfo {
+  imported: string; // Export name, 'default', or '*' for the whole module
+  local: string; // Local binding, or the exported name of a re-export
+}
+
+export interface JSXElementUsage {
+  name: string; // As written, e.g. 'div', 'Button' or 'UI.Button', with import aliases resolved
+  source?: string; // Module the element was imported from, if any
+  props?: JSXPropUsage[];
+  line: number;
+  column: number;
+}
+
+export interface JSXPropUsage {
+  name: string;
+  value?: string | number | boolean; // Literal values only; omitted for expressions
+}
+
+export interface ComponentCallSite {
+  filePath: string;
+  line: number;
+  column: number;
+  source?: string;
+  resolved?: string; // The project file source resolves to
+  props: JSXPropUsage[];
+}
+
+export type ComponentUsageIndex = Record<string, ComponentCallSite[]>; // By component name
+
 export interface PropInfo {
   name: string;
   type?: string;
@@ -30,11 +88,44 @@ export interface StyleInfo {
   tokens?: string[];
   spacing?: string[];
   colors?: string[];
+  fontSize?: string[];
+  fontWeight?: string[];
+  zIndex?: string[];
+  inlineStyles?: InlineStyleInfo[]; // JSX style props, with constants resolved where possible
+  locations?: StyleValueLocation[];
+  classNames?: ClassNameUsage[]; // Every class in className props and clsx-style calls
+  cssModules?: CSSModuleUsage[]; // CSS Modules the file imports, with the classes it reads
+}
+
+export interface ClassNameUsage {
+  name: string;
+  line: number;
+  column: number;
+}
+
+export interface CSSModuleUsage {
+  source: string; // Module specifier as written
+  resolved?: string; // Path of the stylesheet
+  local?: string; // Binding the classes are read from, e.g. styles; omitted for named imports
+  classes: ClassNameUsage[]; // Classes read as styles.foo, styles['foo'] or named imports
+  dynamic?: boolean; // Classes are also read with computed keys, or the object is passed on
+  line: number;
+  column: number;
+}
+
+export type StyleValueCategory = 'color' | 'spacing' | 'fontSize' | 'fontWeight' | 'zIndex';
+
+export interface StyleValueLocation {
+  category: StyleValueCategory;
+  property: string;
+  value: string;
+  line: number;
+  column: number;
 }
 
 export interface CSSAnalysisResult {
   filePath: string;
-  type: 'css' | 'scss' | 'sass' | 'less';
+  type: 'css' | 'scss' | 'sass' | 'less' | 'css-in-js';
   selectors: string[];
   colors: string[];
   spacing: string[];
@@ -42,6 +133,12 @@ export interface CSSAnalysisResult {
   fontWeight: string[];
   zIndex: string[];
   customProperties: Record<string, string>;
+  themeTokens?: string[]; // Theme paths CSS-in-JS interpolations read, such as colors.primary
+  variables?: Record<string, string>; // SCSS and LESS variables in scope, as written, with resolved values
+  classes?: ClassNameUsage[]; // Classes a CSS Module defines, where each is first written
+  composedClasses?: string[]; // Classes of the same CSS Module other classes compose
+  locations?: StyleValueLocation[];
+  suppressions?: SuppressionRange[];
   success: boolean;
   errorType?: string;
   errorMessage?: string;
@@ -55,6 +152,7 @@ export interface HTMLAnalysisResult {
   ids: string[];
   dataAttributes: string[];
   accessibility: AccessibilityInfo;
+  suppressions?: SuppressionRange[];
   success: boolean;
   errorType?: string;
   errorMessage?: string;
@@ -65,12 +163,15 @@ export interface ElementInfo {
   attributes: Record<string, string>;
   children?: ElementInfo[];
   text?: string;
+  line?: number;
+  column?: number;
 }
 
 export interface InlineStyleInfo {
   element: string;
   styles: Record<string, string>;
   line?: number;
+  column?: number;
 }
 
 export interface AccessibilityInfo {
@@ -78,6 +179,20 @@ export interface AccessibilityInfo {
   hasAltTexts: boolean;
   missingLabels: string[];
   missingAlts: string[];
+  issues?: AccessibilityIssue[];
+}
+
+export interface AccessibilityIssue {
+  kind: 'missing-label' | 'missing-alt';
+  description: string;
+  line: number;
+  column: number;
+}
+
+export interface SuppressionRange {
+  startLine: number;
+  endLine?: number; // Open until the end of the file when omitted
+  rules?: string[]; // All rules when omitted
 }
 
 export interface PatternInfo {
@@ -95,8 +210,10 @@ export interface DriftViolation {
   line?: number;
   column?: number;
   message: string;
+  value?: string;
   suggestedFix?: string;
   pattern?: string;
+  fingerprint?: string;
 }
 
 export interface ProjectAnalysis {
@@ -108,17 +225,109 @@ export interface ProjectAnalysis {
     typescript: boolean;
     cssFramework?: string;
   };
-  components: ComponentInfo[];
+  components: ComponentInfo[]; // One entry per analyzed React file
+  componentDefinitions?: ComponentDefinition[]; // Every component declared in those files
   styles: CSSAnalysisResult[];
   templates: HTMLAnalysisResult[];
   patterns: PatternInfo[];
   violations: DriftViolation[];
+  scope?: 'full' | 'changed'; // 'changed' when only a set of changed files was analyzed
   compliance: {
     score: number;
     totalFiles: number;
     filesWithViolations: number;
     totalViolations: number;
+    suppressed?: number;
+    baselined?: number;
   };
+  usage?: ComponentUsageIndex; // Where each component is rendered, with the props passed
+  deadCode?: DeadCodeReport; // Set on full analyses
+  importCycles?: ImportCycle[]; // Set on full analyses
+  adoption?: DesignSystemAdoption; // Set when designSystem.packages is configured
+  packages?: WorkspacePackageSummary[]; // Set on the aggregate analysis of a monorepo
+  tailwind?: TailwindTheme; // Set when the project has a Tailwind config
+}
+
+// The scales of a Tailwind theme, flattened to class keys such as 'blue-500' or '4'
+export interface TailwindTheme {
+  configPath: string;
+  prefix: string; // Prepended to every utility, e.g. 'tw-'
+  colors: Record<string, string>;
+  spacing: Record<string, string>;
+  fontSize: Record<string, string>;
+  fontWeight: Record<string, string>;
+  zIndex: Record<string, string>;
+}
+
+export type TailwindScale = Exclude<keyof TailwindTheme, 'configPath' | 'prefix'>;
+
+export interface DeadCodeReport {
+  unusedComponents: UnusedComponent[]; // Exported but never imported or rendered
+  unimportedFiles: string[]; // Component files nothing imports
+  brokenReferences: BrokenReference[]; // Stories and tests importing what no longer exists
+}
+
+export interface UnusedComponent {
+  name: string;
+  exportName: string; // 'default' for default exports
+  filePath: string;
+  line?: number;
+  column?: number;
+}
+
+export interface BrokenReference {
+  filePath: string; // The story or test
+  source: string;
+  name?: string; // Missing export; omitted when the module itself is missing
+  line: number;
+  column: number;
+}
+
+export interface DependencyGraph {
+  files: string[]; // Analyzed files and the project files they import
+  edges: DependencyEdge[];
+}
+
+export interface DependencyEdge {
+  from: string; // The importing file
+  to: string;
+  line: number;
+  column: number;
+}
+
+export interface ImportCycle {
+  files: string[]; // Each file imports the next, and the last imports the first
+  line: number; // Import of the second file in the first
+  column: number;
+}
+
+export interface AdoptionCounts {
+  designSystem: number; // Elements imported from a design-system package
+  dom: number; // Intrinsic elements such as div and button
+  local: number; // Any other component, local or third-party
+  total: number;
+  percentage: number; // Share of design-system elements, 0-100
+}
+
+export interface DesignSystemAdoption extends AdoptionCounts {
+  packages: string[];
+  byFile: Record<string, AdoptionCounts>; // Keyed by path relative to the project
+  byDirectory: Record<string, AdoptionCounts>; // Includes the files of subdirectories
+}
+
+export interface WorkspacePackage {
+  name: string;
+  path: string;
+}
+
+export interface WorkspacePackageSummary extends WorkspacePackage {
+  framework: ProjectAnalysis['framework'];
+  compliance: ProjectAnalysis['compliance'];
+}
+
+export interface WorkspaceAnalysis {
+  packages: Array<WorkspacePackage & { analysis: ProjectAnalysis }>;
+  aggregate: ProjectAnalysis; // Every package's files and violations combined
 }
 
 export interface AnalyzerOptions {
@@ -128,6 +337,9 @@ export interface AnalyzerOptions {
   verbose?: boolean;
   maxFileSize?: number;
   enableAnalytics?: boolean;
+  useBaseline?: boolean;
+  changedFiles?: string[]; // Analyze only these files, against the stored patterns
+  configRoot?: string; // Directory to load the config from, defaults to projectPath
   timeout?: number;
 }
 
@@ -3,8 +3,11 @@
  */
 
 import { glob } from 'glob';
+import { minimatch } from 'minimatch';
 import * as path from 'path';
 import * as fs from 'fs-extra';
+import { parse as parseYAML } from 'yaml';
+import { WorkspacePackage } from '../types';
 
 export interface FileDiscoveryOptions {
   projectPath: string;
@@ -13,6 +16,10 @@ export interface FileDiscoveryOptions {
   extensions?: string[];
 }
 
+const REACT_EXTENSIONS = ['.js', '.jsx', '.ts', '.tsx'];
+const CSS_EXTENSIONS = ['.css', '.scss', '.sass', '.less'];
+const HTML_EXTENSIONS = ['.html', '.htm'];
+
 export class FileDiscovery {
   private projectPath: string;
   private includePatterns: string[];
@@ -42,11 +49,7 @@ export class FileDiscovery {
    * Discover React component files
    */
   async findReactFiles(): Promise<string[]> {
-    const patterns = this.includePatterns.map(p => 
-      path.join(this.projectPath, p + '.{js,jsx,ts,tsx}')
-    );
-
-    const files = await this.findFiles(patterns, ['.js', '.jsx', '.ts', '.tsx']);
+    const files = await this.findFiles(this.getReactPatterns(), REACT_EXTENSIONS);
     return this.filterByContent(files, this.isReactFile);
   }
 
@@ -54,24 +57,43 @@ export class FileDiscovery {
    * Discover CSS files
    */
   async findCSSFiles(): Promise<string[]> {
-    const patterns = this.includePatterns.map(p => 
-      path.join(this.projectPath, p + '.{css,scss,sass,less}')
-    );
-
-    return this.findFiles(patterns, ['.css', '.scss', '.sass', '.less']);
+    return this.findFiles(this.getCSSPatterns(), CSS_EXTENSIONS);
   }
 
   /**
    * Discover HTML template files
    */
   async findHTMLFiles(): Promise<string[]> {
-    const patterns = [
-      path.join(this.projectPath, '**/*.{html,htm}'),
-      path.join(this.projectPath, 'public/**/*.{html,htm}'),
-      path.join(this.projectPath, 'templates/**/*.{html,htm}'),
-    ];
+    return this.findFiles(this.getHTMLPatterns(), HTML_EXTENSIONS);
+  }
+
+  /**
+   * Find every JavaScript/TypeScript source, including the ones without React code
+   */
+  async findSourceFiles(): Promise<string[]> {
+    return this.findFiles(this.getReactPatterns(), REACT_EXTENSIONS);
+  }
+
+  /**
+   * Discover stories and tests, which are excluded from the analysis
+   */
+  async findStoryAndTestFiles(): Promise<string[]> {
+    const patterns = this.includePatterns.map(p =>
+      path.join(this.projectPath, p + '.{stories,story,test,spec}.{js,jsx,ts,tsx}')
+    );
+    const files: string[] = [];
+
+    for (const pattern of patterns) {
+      files.push(
+        ...(await glob(pattern, {
+          ignore: this.excludePatterns.filter(p => !/\*\.(test|spec)\./.test(p)),
+          nodir: true,
+          absolute: true,
+        }))
+      );
+    }
 
-    return this.findFiles(patterns, ['.html', '.htm']);
+    return [...new Set(files)].sort();
   }
 
   /**
@@ -91,6 +113,75 @@ export class FileDiscovery {
     return { react, css, html };
   }
 
+  /**
+   * Classify an explicit list of files (such as changed files) with the same
+   * include, exclude and content rules used for discovery
+   */
+  async classifyFiles(filePaths: string[]): Promise<{
+    react: string[];
+    css: string[];
+    html: string[];
+  }> {
+    const files: string[] = [];
+    for (const filePath of filePaths) {
+      const absolutePath = path.resolve(this.projectPath, filePath);
+      if (this.isExcluded(absolutePath) || !(await fs.pathExists(absolutePath))) continue;
+      files.push(absolutePath);
+    }
+
+    const select = (patterns: string[], extensions: string[]) =>
+      [...new Set(files)]
+        .filter(file => extensions.includes(path.extname(file).toLowerCase()))
+        .filter(file => patterns.some(pattern => minimatch(file, pattern, { dot: true })))
+        .sort();
+
+    return {
+      react: await this.filterByContent(
+        select(this.getReactPatterns(), REACT_EXTENSIONS),
+        this.isReactFile
+      ),
+      css: select(this.getCSSPatterns(), CSS_EXTENSIONS),
+      html: select(this.getHTMLPatterns(), HTML_EXTENSIONS),
+    };
+  }
+
+  /**
+   * Glob patterns for React component files
+   */
+  private getReactPatterns(): string[] {
+    return this.includePatterns.map(p => path.join(this.projectPath, p + '.{js,jsx,ts,tsx}'));
+  }
+
+  /**
+   * Glob patterns for stylesheets
+   */
+  private getCSSPatterns(): string[] {
+    return this.includePatterns.map(p => path.join(this.projectPath, p + '.{css,scss,sass,less}'));
+  }
+
+  /**
+   * Glob patterns for HTML templates
+   */
+  private getHTMLPatterns(): string[] {
+    return [
+      path.join(this.projectPath, '**/*.{html,htm}'),
+      path.join(this.projectPath, 'public/**/*.{html,htm}'),
+      path.join(this.projectPath, 'templates/**/*.{html,htm}'),
+    ];
+  }
+
+  /**
+   * Check a file against the exclude patterns
+   */
+  private isExcluded(filePath: string): boolean {
+    const relativePath = path.relative(this.projectPath, filePath);
+    return this.excludePatterns.some(
+      pattern =>
+        minimatch(relativePath, pattern, { dot: true }) ||
+        minimatch(filePath, pattern, { dot: true })
+    );
+  }
+
   /**
    * Find files matching glob patterns
    */
@@ -165,6 +256,11 @@ export class FileDiscovery {
       return true;
     }
 
+    // Check for styles written with styled-components or Emotion, such as Button.styles.ts
+    if (/from\s+['"](styled-components|@emotion\/[\w-]+)['"]/.test(content)) {
+      return true;
+    }
+
     return false;
   }
 
@@ -201,6 +297,72 @@ export class FileDiscovery {
     };
   }
 
+  /**
+   * Find the packages of an npm, yarn or pnpm workspace rooted at the project path.
+   * Returns an empty list when the project is not a monorepo
+   */
+  async findWorkspacePackages(): Promise<WorkspacePackage[]> {
+    const patterns = await this.readWorkspacePatterns();
+    const include = patterns.filter(pattern => !pattern.startsWith('!'));
+    if (include.length === 0) return [];
+
+    const toManifest = (pattern: string) => `${pattern.replace(/\/+$/, '')}/package.json`;
+    const excluded = patterns
+      .filter(pattern => pattern.startsWith('!'))
+      .map(pattern => toManifest(pattern.slice(1)));
+    const manifests = await glob(include.map(toManifest), {
+      cwd: this.projectPath,
+      absolute: true,
+      ignore: ['**/node_modules/**', ...excluded],
+    });
+
+    const packages: WorkspacePackage[] = [];
+    for (const manifest of manifests.sort()) {
+      const packagePath = path.dirname(manifest);
+      if (packagePath === this.projectPath) continue;
+
+      try {
+        const { name } = await fs.readJson(manifest);
+        packages.push({ name: name || path.relative(this.projectPath, packagePath), path: packagePath });
+      } catch {
+        // Skip packages with an unreadable package.json
+      }
+    }
+
+    return packages;
+  }
+
+  /**
+   * Read workspace globs from package.json (npm, yarn) and pnpm-workspace.yaml
+   */
+  private async readWorkspacePatterns(): Promise<string[]> {
+    const patterns: string[] = [];
+
+    const packageJsonPath = path.join(this.projectPath, 'package.json');
+    if (await fs.pathExists(packageJsonPath)) {
+      try {
+        const { workspaces } = await fs.readJson(packageJsonPath);
+        // Yarn also accepts { packages: [...], nohoist: [...] }
+        const globs = Array.isArray(workspaces) ? workspaces : workspaces?.packages;
+        if (Array.isArray(globs)) patterns.push(...globs);
+      } catch {
+        // Invalid package.json
+      }
+    }
+
+    const pnpmWorkspacePath = path.join(this.projectPath, 'pnpm-workspace.yaml');
+    if (await fs.pathExists(pnpmWorkspacePath)) {
+      try {
+        const pnpmWorkspace = parseYAML(await fs.readFile(pnpmWorkspacePath, 'utf-8'));
+        if (Array.isArray(pnpmWorkspace?.packages)) patterns.push(...pnpmWorkspace.packages);
+      } catch {
+        // Invalid pnpm-workspace.yaml
+      }
+    }
+
+    return patterns.filter(pattern => typeof pattern === 'string');
+  }
+
   /**
    * Check if path is a valid project directory
    */
@@ -0,0 +1,92 @@
+/**
+ * Collects the set of changed files from the local git repository
+ */
+
+import { execFile } from 'child_process';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+export interface ChangedFilesOptions {
+  since?: string; // Git ref to compare against (merge base with HEAD)
+  staged?: boolean; // Only files staged in the index
+}
+
+/**
+ * Run a git command in the given directory
+ */
+export async function runGit(cwd: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+    return stdout;
+  } catch (error) {
+    const message =
+      hasStderr(error) && error.stderr.trim()
+        ? error.stderr
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    throw new Error(`git ${args[0]} failed: ${message.trim()}`);
+  }
+}
+
+/**
+ * Check whether a failed command captured its standard error
+ */
+function hasStderr(error: unknown): error is { stderr: string } {
+  return (
+    typeof error === 'object' &&
+    error !== null &&
+    'stderr' in error &&
+    typeof error.stderr === 'string'
+  );
+}
+
+/**
+ * Split NUL-separated git output into paths
+ */
+function splitPaths(output: string): string[] {
+  return output.split('\0').filter(Boolean);
+}
+
+/**
+ * Get absolute paths of added, copied, modified or renamed files under the project path.
+ * With `since`, this covers commits since the merge base plus uncommitted and untracked
+ * files; with `staged`, only the files in the index. Files are analyzed as they are in
+ * the working tree, so unstaged edits to staged files are analyzed too.
+ */
+export async function getChangedFiles(
+  projectPath: string,
+  options: ChangedFilesOptions
+): Promise<string[]> {
+  const cwd = path.resolve(projectPath);
+  // --relative limits output to the project directory and makes paths relative to it
+  const diffArgs = ['diff', '--name-only', '-z', '--relative', '--diff-filter=ACMR'];
+  const files: string[] = [];
+
+  if (options.staged) {
+    files.push(...splitPaths(await runGit(cwd, [...diffArgs, '--cached'])));
+  } else if (options.since) {
+    const mergeBase = (await runGit(cwd, ['merge-base', options.since, 'HEAD'])).trim();
+    files.push(...splitPaths(await runGit(cwd, [...diffArgs, mergeBase])));
+    files.push(
+      ...splitPaths(await runGit(cwd, ['ls-files', '-z', '--others', '--exclude-standard']))
+    );
+  } else {
+    throw new Error('Either a git ref or staged mode is required to collect changed files');
+  }
+
+  return [...new Set(files.map((file) => path.join(cwd, file)))].sort();
+}
+
+/**
+ * Get absolute paths of files under the project path with changes that aren't staged
+ */
+export async function getUnstagedFiles(projectPath: string): Promise<string[]> {
+  const cwd = path.resolve(projectPath);
+  const output = await runGit(cwd, ['diff', '--name-only', '-z', '--relative']);
+  return splitPaths(output)
+    .map((file) => path.join(cwd, file))
+    .sort();
+}
@@ -0,0 +1,44 @@
+/**
+ * Helpers for mapping character offsets back to source positions
+ */
+
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+/**
+ * Build a lookup that converts character offsets into 1-based lines and columns
+ */
+export function createPositionLookup(content: string): (offset: number) => SourcePosition {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return (offset: number) => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (lineStarts[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return { line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+}
+
+/**
+ * Build a lookup that converts 1-based lines and columns into character offsets
+ */
+export function createOffsetLookup(content: string): (position: SourcePosition) => number {
+  const lineStarts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  return ({ line, column }: SourcePosition) => {
+    const lineStart = lineStarts[Math.min(Math.max(line - 1, 0), lineStarts.length - 1)];
+    return Math.min(lineStart + Math.max(column - 1, 0), content.length);
+  };
+}
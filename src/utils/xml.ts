@@ -0,0 +1,40 @@
+/**
+ * Helpers for writing XML reports
+ */
+
+const XML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;',
+};
+
+/**
+ * Escape a value for use in XML text or attribute content
+ */
+export function escapeXml(value: string | number): string {
+  return [...String(value)]
+    .filter(isXmlChar)
+    .join('')
+    .replace(/[&<>"']/g, (char) => XML_ENTITIES[char]);
+}
+
+/**
+ * Check a character is allowed in XML 1.0, which excludes control characters
+ * other than tab, newline and carriage return
+ */
+function isXmlChar(char: string): boolean {
+  const code = char.charCodeAt(0);
+  return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+/**
+ * Render XML attributes, skipping undefined values
+ */
+export function xmlAttributes(attributes: Record<string, string | number | undefined>): string {
+  return Object.entries(attributes)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(value!)}"`)
+    .join('');
+}
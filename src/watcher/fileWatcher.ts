@@ -9,10 +9,16 @@ import * as notifier from 'node-notifier';
 import { EventEmitter } from 'events';
 import { IncrementalAnalyzer, AnalysisChange } from '../performance/incrementalAnalyzer';
 import { DriftAnalyzer } from '../drift-detector/driftAnalyzer';
+import { BaselineStorage } from '../drift-detector/baseline';
 import { PatternExtractor, DesignPatterns } from '../patterns/patternExtractor';
 import { PatternStorage } from '../patterns/patternStorage';
+import { DesignSpecStorage, DesignSpec } from '../patterns/designSpec';
 import { ConfigLoader, GuruConfig } from '../config/configLoader';
-import { ProjectAnalysis } from '../types';
+import { loadCustomRules } from '../rules/ruleLoader';
+import { listEmbeddedStyles } from '../analyzers/cssInJS';
+import { loadTailwindTheme } from '../analyzers/tailwindTheme';
+import { RESOLVER_CONFIG_GLOB } from '../analyzers/moduleResolver';
+import { ProjectAnalysis, TailwindTheme } from '../types';
 import { AnalysisStream } from '../streaming/analysisStream';
 import { TerminalDashboard } from '../dashboard/terminalDashboard';
 
@@ -48,6 +54,7 @@ export class FileWatcher extends EventEmitter {
   private driftAnalyzer?: DriftAnalyzer;
   private patternExtractor: PatternExtractor;
   private patternStorage: PatternStorage;
+  private specStorage: DesignSpecStorage;
   private configLoader: ConfigLoader;
   private options: WatchOptions;
   private session: WatchSession;
@@ -56,6 +63,8 @@ export class FileWatcher extends EventEmitter {
   private pendingChanges = new Set<string>();
   private config?: GuruConfig;
   private patterns?: DesignPatterns;
+  private spec?: DesignSpec;
+  private tailwind?: TailwindTheme;
   private analysisStream?: AnalysisStream;
   private dashboard?: TerminalDashboard;
 
@@ -74,6 +83,7 @@ export class FileWatcher extends EventEmitter {
     this.incrementalAnalyzer = new IncrementalAnalyzer();
     this.patternExtractor = new PatternExtractor();
     this.patternStorage = new PatternStorage(options.projectPath);
+    this.specStorage = new DesignSpecStorage(options.projectPath);
     this.configLoader = new ConfigLoader(options.projectPath);
     
     this.session = {
@@ -99,6 +109,17 @@ export class FileWatcher extends EventEmitter {
     // Load configuration
     this.config = await this.configLoader.loadConfig();
     this.driftAnalyzer = new DriftAnalyzer(this.config);
+    this.driftAnalyzer.setCustomRules(
+      await loadCustomRules(this.options.projectPath, this.config)
+    );
+    this.driftAnalyzer.setBaseline(
+      await new BaselineStorage(this.options.projectPath).loadBaseline()
+    );
+    try {
+      this.tailwind = (await loadTailwindTheme(this.options.projectPath)) ?? undefined;
+    } catch (error) {
+      console.log(chalk.yellow(`⚠️  ${error instanceof Error ? error.message : error}`));
+    }
 
     // Initialize streaming and dashboard
     if (this.options.enableStreaming) {
@@ -145,8 +166,9 @@ export class FileWatcher extends EventEmitter {
       '**/*.spec.*',
     ];
 
-    // Create watcher
-    this.watcher = chokidar.watch(includePatterns, {
+    // Create watcher. tsconfig and jsconfig files are watched too, since their
+    // paths decide where aliased imports resolve
+    this.watcher = chokidar.watch([...includePatterns, RESOLVER_CONFIG_GLOB], {
       cwd: this.options.projectPath,
       ignored: excludePatterns,
       persistent: true,
@@ -393,17 +415,22 @@ export class FileWatcher extends EventEmitter {
       timestamp: new Date().toISOString(),
       framework: { type: 'react', typescript: false },
       components: allResults.components,
-      styles: allResults.styles,
+      styles: [...allResults.styles, ...listEmbeddedStyles(allResults.components)],
       templates: allResults.templates,
       patterns: [],
       violations: [],
       compliance: { score: 0, totalFiles: 0, filesWithViolations: 0, totalViolations: 0 },
+      tailwind: this.tailwind,
     };
 
     this.patterns = this.patternExtractor.extractPatterns(tempAnalysis);
     await this.patternStorage.savePatterns(this.patterns);
 
-    if (this.driftAnalyzer) {
+    // An approved spec stays the source of truth; learned changes become proposals
+    if (this.spec) {
+      const proposals = this.specStorage.diffPatterns(this.spec, this.patterns);
+      await this.specStorage.saveProposals(proposals, this.spec.specVersion);
+    } else if (this.driftAnalyzer) {
       this.driftAnalyzer.setPatterns(this.patterns);
     }
 
@@ -417,16 +444,22 @@ export class FileWatcher extends EventEmitter {
     if (!this.driftAnalyzer) return null;
 
     // Create minimal analysis for drift detection
+    const components = changes.filter(c => c.result && ['.js', '.jsx', '.ts', '.tsx'].includes(path.extname(c.filePath))).map(c => c.result!) as any[];
     const tempAnalysis: ProjectAnalysis = {
       projectPath: this.options.projectPath,
       timestamp: new Date().toISOString(),
       framework: { type: 'react', typescript: false },
-      components: changes.filter(c => c.result && ['.js', '.jsx', '.ts', '.tsx'].includes(path.extname(c.filePath))).map(c => c.result!) as any[],
-      styles: changes.filter(c => c.result && ['.css', '.scss', '.sass', '.less'].includes(path.extname(c.filePath))).map(c => c.result!) as any[],
+      components,
+      styles: [
+        ...changes.filter(c => c.result && ['.css', '.scss', '.sass', '.less'].includes(path.extname(c.filePath))).map(c => c.result!) as any[],
+        ...listEmbeddedStyles(components),
+      ],
       templates: changes.filter(c => c.result && ['.html', '.htm'].includes(path.extname(c.filePath))).map(c => c.result!) as any[],
       patterns: [],
       violations: [],
+      scope: 'changed',
       compliance: { score: 0, totalFiles: 0, filesWithViolations: 0, totalViolations: 0 },
+      tailwind: this.tailwind,
     };
 
     const driftResult = this.driftAnalyzer.analyzeForDrift(tempAnalysis);
@@ -468,6 +501,14 @@ export class FileWatcher extends EventEmitter {
    * Load existing patterns
    */
   private async loadPatterns(): Promise<void> {
+    const spec = await this.specStorage.loadSpec();
+    if (spec) {
+      this.spec = spec;
+      this.driftAnalyzer?.setPatterns(spec.patterns);
+      console.log(chalk.green(`✅ Loaded approved design spec v${spec.specVersion}`));
+      return;
+    }
+
     const storedPatterns = await this.patternStorage.loadPatterns();
     if (storedPatterns) {
       this.patterns = storedPatterns.patterns;
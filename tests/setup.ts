@@ -4,6 +4,13 @@
 
 import * as fs from 'fs-extra';
 import * as path from 'path';
+import {
+  ComponentInfo,
+  CSSAnalysisResult,
+  ProjectAnalysis,
+  StyleValueCategory,
+  StyleValueLocation,
+} from '../src/types';
 
 export class TestFileSystem {
   private tempDir: string;
@@ -47,6 +54,78 @@ export class TestFileSystem {
   }
 }
 
+/**
+ * Build a project analysis for drift tests, empty apart from the given fields
+ */
+export function createAnalysis(fields: Partial<ProjectAnalysis> = {}): ProjectAnalysis {
+  return {
+    projectPath: '/project',
+    timestamp: new Date().toISOString(),
+    framework: { type: 'react', typescript: false },
+    components: [],
+    styles: [],
+    templates: [],
+    patterns: [],
+    violations: [],
+    compliance: { score: 0, totalFiles: 0, filesWithViolations: 0, totalViolations: 0 },
+    ...fields,
+  };
+}
+
+/**
+ * Build a stylesheet analysis with design values at the given locations.
+ * Locations default to colors on consecutive lines, and the collected values
+ * are taken from them
+ */
+export function createStyle(
+  filePath: string,
+  locations: Array<Partial<StyleValueLocation>> = [],
+  fields: Partial<CSSAnalysisResult> = {}
+): CSSAnalysisResult {
+  const located = locations.map((location, index): StyleValueLocation => ({
+    category: 'color',
+    property: 'color',
+    value: '',
+    line: index + 1,
+    column: 10,
+    ...location,
+  }));
+  const values = (category: StyleValueCategory) =>
+    located.filter((l) => l.category === category).map((l) => l.value);
+
+  return {
+    filePath,
+    type: 'css',
+    selectors: [],
+    colors: values('color'),
+    spacing: values('spacing'),
+    fontSize: values('fontSize'),
+    fontWeight: values('fontWeight'),
+    zIndex: values('zIndex'),
+    customProperties: {},
+    locations: located,
+    success: true,
+    ...fields,
+  };
+}
+
+/**
+ * Build a component analysis named after its file, empty apart from the given fields
+ */
+export function createComponent(
+  filePath: string,
+  fields: Partial<ComponentInfo> = {}
+): ComponentInfo {
+  return {
+    name: path.basename(filePath, path.extname(filePath)),
+    filePath,
+    type: 'functional',
+    hasJSX: true,
+    success: true,
+    ...fields,
+  };
+}
+
 /**
  * Sample test files for testing
  */
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for design-system adoption
+ */
+
+import * as path from 'path';
+import { parseSource } from '../../src/analyzers/astParser';
+import { collectJSXElements } from '../../src/analyzers/jsxElements';
+import { computeAdoption, mergeAdoption } from '../../src/analytics/adoption';
+import { ComponentInfo } from '../../src/types';
+import { createComponent } from '../setup';
+
+const PROJECT = path.resolve('/project');
+
+const component = (relativePath: string, source: string): ComponentInfo => {
+  const filePath = path.join(PROJECT, relativePath);
+  return createComponent(filePath, {
+    jsxElements: collectJSXElements(parseSource(source, filePath)!),
+  });
+};
+
+describe('Design-system adoption', () => {
+  test('should collect rendered JSX elements with their import sources', () => {
+    const source = `
+import React, { Fragment } from 'react';
+import { Button } from '@acme/ui';
+import * as Icons from '@acme/ui/icons';
+
+export function Toolbar() {
+  return (
+    <Fragment>
+      <div className="toolbar">
+        <Button>Save</Button>
+        <Icons.Close />
+      </div>
+    </Fragment>
+  );
+}
+`;
+    const elements = collectJSXElements(parseSource(source, 'Toolbar.jsx')!);
+
+    expect(elements).toEqual([
+      { name: 'div', line: 9, column: 7 },
+      { name: 'Button', source: '@acme/ui', props: [], line: 10, column: 9 },
+      { name: 'Icons.Close', source: '@acme/ui/icons', props: [], line: 11, column: 9 },
+    ]);
+  });
+
+  test('should measure adoption per file and per directory', () => {
+    const components = [
+      component(
+        'src/pages/Home.tsx',
+        `import { Card } from '@acme/ui';
+import { Hero } from '../components/Hero';
+export const Home = () => <main><Card /><Hero /></main>;`
+      ),
+      component(
+        'src/components/Hero.tsx',
+        `import { Heading } from '@acme/ui/typography';
+export const Hero = () => <section><Heading /></section>;`
+      ),
+      component('src/utils/format.ts', 'export const format = (value: string) => value.trim();'),
+    ];
+
+    const adoption = computeAdoption(PROJECT, components, ['@acme/ui']);
+
+    expect(adoption).toMatchObject({ designSystem: 2, dom: 2, local: 1, total: 5, percentage: 40 });
+    expect(Object.keys(adoption.byFile)).toEqual(['src/pages/Home.tsx', 'src/components/Hero.tsx']);
+    expect(adoption.byFile['src/components/Hero.tsx'].percentage).toBe(50);
+    expect(adoption.byDirectory['src/pages']).toMatchObject({ total: 3, percentage: 33.3 });
+    expect(adoption.byDirectory['src']).toMatchObject({ total: 5, percentage: 40 });
+  });
+
+  test('should match package globs and merge workspace packages', () => {
+    const web = computeAdoption(
+      PROJECT,
+      [
+        component(
+          'src/App.jsx',
+          `import { Button } from '@acme/buttons';\nexport default () => <Button />;`
+        ),
+      ],
+      ['@acme/*']
+    );
+    expect(web.percentage).toBe(100);
+
+    const merged = mergeAdoption(path.dirname(PROJECT), [
+      { path: PROJECT, adoption: web },
+      { path: path.resolve('/docs'), adoption: computeAdoption(PROJECT, [], ['@acme/ui']) },
+    ]);
+    expect(merged.packages).toEqual(['@acme/*', '@acme/ui']);
+    expect(Object.keys(merged.byFile)).toEqual(['project/src/App.jsx']);
+    expect(merged.byDirectory['project']).toMatchObject({ total: 1, percentage: 100 });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for finding every component a file declares
+ */
+
+import { parseSource } from '../../src/analyzers/astParser';
+import {
+  collectComponentDefinitions,
+  getMainComponent,
+  listComponents,
+} from '../../src/analyzers/componentDefinitions';
+import { ComponentDefinition } from '../../src/types';
+import { createComponent } from '../setup';
+
+const collect = (source: string, filePath = '/project/src/Buttons.tsx'): ComponentDefinition[] =>
+  collectComponentDefinitions(parseSource(source, filePath)!, filePath);
+
+describe('Component definitions', () => {
+  test('should find every component with its export kind', () => {
+    const definitions = collect(`import React, { Component } from 'react';
+export function Button() { return <button />; }
+export const IconButton = () => <Button />;
+const Badge = () => <span />;
+class Legacy extends React.PureComponent { render() { return <div />; } }
+function formatLabel(label) { return label.trim(); }
+const helper = () => <i />;
+export { Badge as StatusBadge };
+export default Legacy;`);
+
+    expect(definitions.map((d) => [d.name, d.type, d.exportKind, d.exportName])).toEqual([
+      ['Button', 'functional', 'named', 'Button'],
+      ['IconButton', 'functional', 'named', 'IconButton'],
+      ['Badge', 'functional', 'named', 'StatusBadge'],
+      ['Legacy', 'class', 'default', undefined],
+    ]);
+    expect(getMainComponent(definitions)?.name).toBe('Legacy');
+    expect(definitions[0]).toMatchObject({ line: 2, column: 1 });
+  });
+
+  test('should not mistake exported helpers returning JSX for components', () => {
+    const definitions = collect(`import { memo } from 'react';
+export function renderRow(row) { return <tr key={row.id} />; }
+export const useIcon = (name) => <i className={name} />;
+export const row = memo((props) => <tr {...props} />);
+export const Row = (props) => <tr {...props} />;`);
+
+    expect(definitions.map((d) => [d.name, d.wrappers])).toEqual([
+      ['row', ['memo']],
+      ['Row', []],
+    ]);
+  });
+
+  test('should record the wrapper chain of each component', () => {
+    const definitions = collect(`import React, { memo, forwardRef } from 'react';
+import styled from 'styled-components';
+import { connect } from 'react-redux';
+const Input = React.memo(forwardRef((props, ref) => <input ref={ref} {...props} />));
+const Title = styled.h1\`font-size: 2rem;\`;
+const Fancy = styled(Title).attrs({ role: 'heading' })\`color: red;\`;
+const Profile = ({ user }) => <p>{user.name}</p>;
+const ConnectedProfile = connect(mapState)(withRouter(Profile));
+const store = connect(database);
+const LazyPage = lazy(() => import('./Page'));
+Title.displayName = 'PageTitle';
+export default memo(Profile);`);
+
+    expect(definitions.map((d) => [d.name, d.wrappers, d.type])).toEqual([
+      ['Input', ['memo', 'forwardRef'], 'functional'],
+      ['Title', ['styled'], 'unknown'],
+      ['Fancy', ['styled'], 'unknown'],
+      ['Profile', ['memo'], 'functional'],
+      ['ConnectedProfile', ['connect', 'withRouter'], 'functional'],
+      ['LazyPage', ['lazy'], 'functional'],
+    ]);
+    expect(definitions.find((d) => d.name === 'Title')?.displayName).toBe('PageTitle');
+    expect(getMainComponent(definitions)?.name).toBe('Profile');
+  });
+
+  test('should read props from type annotations and destructured defaults', () => {
+    const definitions = collect(`import React from 'react';
+interface ButtonProps {
+  label: string;
+  size?: 'sm' | 'lg';
+}
+type CardProps = { title: string };
+export const Button = ({ label, size = 'sm', disabled = false }: ButtonProps) => <button />;
+export const Card: React.FC<CardProps> = ({ title }) => <div>{title}</div>;
+export default function () { return <main />; }`);
+
+    expect(definitions.map((d) => d.name)).toEqual(['Button', 'Card', 'Buttons']);
+    expect(definitions[0].props).toEqual([
+      expect.objectContaining({ name: 'label', required: true }),
+      expect.objectContaining({ name: 'size', required: false, defaultValue: "'sm'" }),
+      { name: 'disabled', required: false, defaultValue: 'false' },
+    ]);
+    expect(definitions[1].props).toEqual([
+      expect.objectContaining({ name: 'title', required: true }),
+    ]);
+    expect(definitions[2].exportKind).toBe('default');
+  });
+
+  test('should list a component for results without definitions', () => {
+    const files = [
+      createComponent('/project/src/Card.jsx'),
+      createComponent('/project/src/Broken.jsx', {
+        type: 'unknown',
+        hasJSX: false,
+        success: false,
+      }),
+      createComponent('/project/src/Buttons.jsx', {
+        definitions: collect(
+          'export const A = () => <a />;\nexport const B = () => <b />;',
+          '/project/src/Buttons.jsx'
+        ),
+      }),
+    ];
+
+    expect(listComponents(files).map((d) => d.name)).toEqual(['Card', 'A', 'B']);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit tests for config file discovery and formats
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { ConfigLoader } from '../../src/config/configLoader';
+import { findConfigFile } from '../../src/config/configFiles';
+import { TestFileSystem } from '../setup';
+
+const TS_CONFIG = `
+type Severity = 'error' | 'warning' | 'off';
+const rules: Record<string, Severity> = { 'hardcoded-colors': 'error' };
+
+export default { patterns: { spacingGrid: 4 }, rules };
+`;
+
+describe('Config files', () => {
+  let testFS: TestFileSystem;
+
+  beforeEach(() => {
+    testFS = new TestFileSystem();
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  test('should find config files in order of precedence', async () => {
+    const projectPath = await testFS.createTestProject('test-config-precedence', {
+      'package.json': JSON.stringify({ name: 'app' }),
+      '.gurorc': 'patterns:\n  spacingGrid: 6\n',
+    });
+
+    expect(await findConfigFile(projectPath)).toBe(path.join(projectPath, '.gurorc'));
+
+    await fs.writeFile(path.join(projectPath, 'guru.config.json'), '{}');
+    expect(await findConfigFile(projectPath)).toBe(path.join(projectPath, 'guru.config.json'));
+
+    await fs.writeFile(path.join(projectPath, 'guru.config.ts'), TS_CONFIG);
+    expect(await findConfigFile(projectPath)).toBe(path.join(projectPath, 'guru.config.ts'));
+  });
+
+  test('should load TypeScript, YAML and package.json configs', async () => {
+    const projectPath = await testFS.createTestProject('test-config-formats', {
+      'ts/guru.config.ts': TS_CONFIG,
+      'rc/.gurorc': "patterns:\n  spacingGrid: 6\nrules:\n  inline-styles: 'off'\n",
+      'pkg/package.json': JSON.stringify({ name: 'app', guru: { patterns: { spacingGrid: 5 } } }),
+    });
+    const load = (dir: string) => new ConfigLoader(path.join(projectPath, dir)).loadConfig();
+
+    const tsConfig = await load('ts');
+    expect(tsConfig.patterns?.spacingGrid).toBe(4);
+    expect(tsConfig.rules?.['hardcoded-colors']).toBe('error');
+
+    const rcConfig = await load('rc');
+    expect(rcConfig.patterns?.spacingGrid).toBe(6);
+    expect(rcConfig.rules?.['inline-styles']).toBe('off');
+
+    expect((await load('pkg')).patterns?.spacingGrid).toBe(5);
+  });
+
+  test('should save configs in the format they were loaded from', async () => {
+    const projectPath = await testFS.createTestProject('test-config-save', {
+      'rc/.gurorc': 'patterns:\n  spacingGrid: 6\n',
+      'pkg/package.json': JSON.stringify({ name: 'app', guru: {} }),
+      'new/package.json': JSON.stringify({ name: 'app' }),
+    });
+
+    for (const dir of ['rc', 'pkg']) {
+      const loader = new ConfigLoader(path.join(projectPath, dir));
+      const config = await loader.loadConfig();
+      await loader.saveConfig({ ...config, patterns: { spacingGrid: 12 } });
+
+      const reloaded = await new ConfigLoader(path.join(projectPath, dir)).loadConfig();
+      expect(reloaded.patterns?.spacingGrid).toBe(12);
+    }
+    expect(await fs.readFile(path.join(projectPath, 'rc/.gurorc'), 'utf-8')).toContain(
+      'spacingGrid: 12'
+    );
+    expect(await fs.readJson(path.join(projectPath, 'pkg/package.json'))).toMatchObject({
+      name: 'app',
+    });
+
+    const jsLoader = new ConfigLoader(path.join(projectPath, 'new'));
+    await jsLoader.saveConfig(await jsLoader.loadConfig());
+    const jsSource = await fs.readFile(path.join(projectPath, 'new/guru.config.js'), 'utf-8');
+    const exported = { exports: {} as Record<string, unknown> };
+    new Function('module', jsSource)(exported);
+    expect(exported.exports).toEqual(new ConfigLoader(projectPath).getDefaultConfig());
+  });
+
+  test('should refuse to rewrite JavaScript configs or save functions', async () => {
+    const projectPath = await testFS.createTestProject('test-config-save-refused', {
+      'ts/guru.config.ts': TS_CONFIG,
+      'json/guru.config.json': '{}',
+    });
+
+    const tsLoader = new ConfigLoader(path.join(projectPath, 'ts'));
+    await expect(tsLoader.saveConfig(await tsLoader.loadConfig())).rejects.toThrow(
+      'JavaScript and TypeScript configs are edited by hand'
+    );
+    expect(await fs.readFile(path.join(projectPath, 'ts/guru.config.ts'), 'utf-8')).toBe(TS_CONFIG);
+
+    const jsonLoader = new ConfigLoader(path.join(projectPath, 'json'));
+    const rule = { meta: { id: 'no-raw-table', description: 'No raw tables' }, create: () => ({}) };
+    await expect(
+      jsonLoader.saveConfig({ ...(await jsonLoader.loadConfig()), customRules: [rule] })
+    ).rejects.toThrow('it contains functions');
+  });
+});
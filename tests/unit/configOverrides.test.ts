@@ -0,0 +1,169 @@
+/**
+ * Unit tests for config inheritance and per-directory overrides
+ */
+
+import * as path from 'path';
+import { ConfigLoader, GuruConfig } from '../../src/config/configLoader';
+import { resolveFileConfig } from '../../src/config/configMerge';
+import { DriftAnalyzer } from '../../src/drift-detector/driftAnalyzer';
+import { StyleValueLocation } from '../../src/types';
+import { createAnalysis, createStyle, TestFileSystem } from '../setup';
+
+const BASE_CONFIG = `
+module.exports = {
+  exclude: ['node_modules', 'legacy'],
+  patterns: { spacingGrid: 4, componentNaming: 'camelCase' },
+  rules: { 'hardcoded-colors': ['error', { allow: ['#fff'] }] },
+  customRules: ['./rules/shared-rule.js'],
+  overrides: [{ files: 'src/legacy/**', rules: { 'spacing-violation': 'off' } }],
+};
+`;
+
+const PROJECT_CONFIG = `
+module.exports = {
+  extends: './configs/base.guru.js',
+  exclude: ['node_modules'],
+  patterns: { componentNaming: 'PascalCase' },
+  rules: { 'hardcoded-colors': 'warning' },
+  overrides: [{ files: ['src/marketing/**'], patterns: { spacingGrid: 5 } }],
+};
+`;
+
+const marginAndColor = (spacing: string, color: string): Array<Partial<StyleValueLocation>> => [
+  { category: 'spacing', property: 'margin', value: spacing },
+  { value: color },
+];
+
+describe('Config overrides', () => {
+  let testFS: TestFileSystem;
+
+  beforeEach(() => {
+    testFS = new TestFileSystem();
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  test('should merge extended configs under the project config', async () => {
+    const projectPath = await testFS.createTestProject('test-config-extends', {
+      'guru.config.js': PROJECT_CONFIG,
+      'configs/base.guru.js': BASE_CONFIG,
+    });
+
+    const config = await new ConfigLoader(projectPath).loadConfig();
+
+    expect(config.extends).toBeUndefined();
+    expect(config.exclude).toEqual(['node_modules']);
+    expect(config.patterns).toEqual({
+      spacingGrid: 4,
+      componentNaming: 'PascalCase',
+      colorTokens: 'css-vars',
+    });
+    expect(config.rules?.['hardcoded-colors']).toEqual(['warning', { allow: ['#fff'] }]);
+    expect(config.rules?.['accessibility']).toBe('error');
+    expect(config.customRules).toEqual([path.join(projectPath, 'configs/rules/shared-rule.js')]);
+    expect(config.overrides?.map((override) => override.files)).toEqual([
+      'src/legacy/**',
+      ['src/marketing/**'],
+    ]);
+  });
+
+  test('should fall back to defaults on circular or missing base configs', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const projectPath = await testFS.createTestProject('test-config-cycle', {
+      'guru.config.js': "module.exports = { extends: './a.js' };",
+      'a.js': "module.exports = { extends: './guru.config.js' };",
+      'missing/guru.config.js': "module.exports = { extends: './nope.js' };",
+    });
+
+    expect(await new ConfigLoader(projectPath).loadConfig()).toEqual(
+      new ConfigLoader(projectPath).getDefaultConfig()
+    );
+    expect(warn.mock.calls[0][0]).toContain('Circular extends');
+
+    await new ConfigLoader(path.join(projectPath, 'missing')).loadConfig();
+    expect(warn.mock.calls[1][0]).toContain('Cannot find base config "./nope.js"');
+    warn.mockRestore();
+  });
+
+  test('should resolve the rules and patterns for a file', () => {
+    const config: GuruConfig = {
+      patterns: { spacingGrid: 8 },
+      rules: { 'color-drift': 'error' },
+      overrides: [
+        { files: 'src/marketing/**', patterns: { spacingGrid: 4 } },
+        { files: 'src/marketing/legacy/**', rules: { 'color-drift': 'off' } },
+      ],
+    };
+
+    expect(resolveFileConfig(config, 'src/app/a.css')).toBe(config);
+    expect(resolveFileConfig(config, 'src/marketing/legacy/a.css')).toMatchObject({
+      patterns: { spacingGrid: 4 },
+      rules: { 'color-drift': 'off' },
+    });
+  });
+
+  test('should apply overrides when detecting drift', () => {
+    const projectPath = '/project';
+    const config = new ConfigLoader(projectPath).getDefaultConfig();
+    config.overrides = [
+      {
+        files: 'src/marketing/**',
+        patterns: { spacingGrid: 4 },
+        rules: { 'hardcoded-colors': ['error', { allow: ['#ff4785'] }] },
+      },
+    ];
+    const analysis = createAnalysis({
+      projectPath,
+      styles: [
+        createStyle(`${projectPath}/src/app/shell.css`, marginAndColor('12px', '#ff4785')),
+        createStyle(`${projectPath}/src/marketing/hero.css`, marginAndColor('12px', '#123456')),
+      ],
+    });
+
+    const analyzer = new DriftAnalyzer(config);
+    const { violations } = analyzer.analyzeForDrift(analysis);
+
+    expect(violations.map((v) => [path.basename(v.filePath), v.type, v.severity, v.value])).toEqual(
+      [
+        ['shell.css', 'hardcoded-colors', 'warning', '#ff4785'],
+        ['hero.css', 'hardcoded-colors', 'error', '#123456'],
+        ['shell.css', 'spacing-violation', 'warning', '12px'],
+      ]
+    );
+    expect(analyzer.getSpacingGrid(`${projectPath}/src/marketing/hero.css`)).toBe(4);
+    expect(analyzer.getSpacingGrid(`${projectPath}/src/app/shell.css`)).toBe(8);
+  });
+
+  test('should accept the colors of a directory palette', () => {
+    const projectPath = '/project';
+    const analyzer = new DriftAnalyzer({
+      rules: {},
+      patterns: { palette: ['#00FF00'] },
+      overrides: [{ files: 'src/marketing/**', patterns: { palette: ['#FF4785'] } }],
+    });
+    analyzer.setPatterns({
+      spacing: { unit: 4, values: [], confidence: 1 },
+      colors: { primary: ['#123456'], secondary: [], neutrals: [], semantic: {} },
+      typography: { fontSizes: [], fontWeights: [], fontFamilies: [] },
+      components: [],
+    });
+    const analysis = createAnalysis({
+      projectPath,
+      styles: [
+        createStyle(`${projectPath}/src/app/shell.css`, marginAndColor('8px', '#ff4785')),
+        createStyle(`${projectPath}/src/app/nav.css`, marginAndColor('8px', '#00ff00')),
+        createStyle(`${projectPath}/src/marketing/hero.css`, marginAndColor('8px', '#ff4785')),
+      ],
+    });
+
+    const { violations } = analyzer.analyzeForDrift(analysis);
+
+    expect(
+      violations
+        .filter((v) => v.type === 'color-drift')
+        .map((v) => [path.basename(v.filePath), v.value])
+    ).toEqual([['shell.css', '#ff4785']]);
+  });
+});
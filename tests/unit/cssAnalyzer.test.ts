@@ -153,6 +153,27 @@ describe('CSSAnalyzer', () => {
       expect(result.zIndex).toContain('50');
       expect(result.zIndex).toContain('9999');
     });
+
+    test('should record the source position of every value', async () => {
+      const css = `.card {\n  color: #fff;\n  padding: 8px 13px;\n}\n.alert {\n  color: #fff;\n}\n`;
+
+      const projectPath = await testFS.createTestProject('test-locations', {
+        'src/card.css': css,
+      });
+
+      const result = await analyzer.parseCSSFile(
+        path.join(projectPath, 'src/card.css')
+      );
+
+      // Deduplicated lists keep one entry, locations keep every occurrence
+      expect(result.colors).toEqual(['#fff']);
+      expect(result.locations).toEqual([
+        { category: 'color', property: 'color', value: '#fff', line: 2, column: 10 },
+        { category: 'spacing', property: 'padding', value: '8px', line: 3, column: 12 },
+        { category: 'spacing', property: 'padding', value: '13px', line: 3, column: 16 },
+        { category: 'color', property: 'color', value: '#fff', line: 6, column: 10 },
+      ]);
+    });
   });
 
   describe('extractDesignTokens', () => {
@@ -0,0 +1,108 @@
+/**
+ * Unit tests for extracting and analyzing styled-components and Emotion styles
+ */
+
+import { parseSource } from '../../src/analyzers/astParser';
+import { collectEmbeddedCSS } from '../../src/analyzers/cssInJS';
+import { CSSAnalyzer } from '../../src/analyzers/cssAnalyzer';
+
+const FILE = '/project/src/Button.tsx';
+
+const SOURCE = `import styled, { css } from 'styled-components';
+
+const ACCENT = '#ff4785';
+const truncate = css\`
+  overflow: hidden;
+\`;
+
+export const Button = styled.button.attrs({ type: 'button' })\`
+  color: \${({ theme }) => theme.colors.primary};
+  padding: 10px \${(p) => p.theme.space[2]};
+  \${truncate};
+  border: 1px solid \${ACCENT};
+  &:hover {
+    background: #333;
+    font-size: \${(p) => p.size}px;
+  }
+\`;
+
+export const Title = styled.h1({
+  fontSize: 13,
+  marginBottom: '6px',
+  '&:hover': { color: ACCENT },
+});
+
+export const Card = () => <div css={{ padding: 12, zIndex: 3 }} />;
+`;
+
+describe('CSS-in-JS', () => {
+  const blocks = () => collectEmbeddedCSS(parseSource(SOURCE, FILE)!);
+
+  test('should extract templates and object styles with placeholders', () => {
+    const [mixin, button, title, card] = blocks();
+
+    expect(blocks()).toHaveLength(4);
+    expect(mixin.css).toBe('\n  overflow: hidden;\n');
+    expect(button.css).toBe(`
+  color: var(--theme-colors-primary);
+  padding: 10px var(--theme-space-2);
+  /* interpolation */;
+  border: 1px solid #ff4785;
+  &:hover {
+    background: #333;
+    font-size: var(--interpolation)px;
+  }
+`);
+    expect(button.themeTokens).toEqual(['colors.primary', 'space.2']);
+    expect(title.css).toBe(
+      'font-size: 13px;\nmargin-bottom: 6px;\n&:hover {\ncolor: #ff4785;\n}\n'
+    );
+    expect(card.css).toBe('padding: 12px;\nz-index: 3;\n');
+  });
+
+  test('should analyze the blocks as one stylesheet with source positions', async () => {
+    const result = await new CSSAnalyzer().parseEmbeddedCSS(FILE, SOURCE, blocks());
+
+    expect(result).toMatchObject({
+      filePath: FILE,
+      type: 'css-in-js',
+      themeTokens: ['colors.primary', 'space.2'],
+      success: true,
+    });
+
+    // The accent constant is used twice but reported once, where it is written
+    expect(result.locations!.map((l) => [l.category, l.value, l.line, l.column])).toEqual([
+      ['color', 'var(--theme-colors-primary)', 9, 10],
+      ['spacing', '10px', 10, 12],
+      ['spacing', 'var(--theme-space-2)', 10, 17],
+      ['color', '#ff4785', 3, 17],
+      ['color', '#333', 14, 17],
+      ['fontSize', 'var(--interpolation)px', 15, 16],
+      ['fontSize', '13px', 20, 13],
+      ['spacing', '6px', 21, 18],
+      ['spacing', '12px', 25, 48],
+      ['zIndex', '3', 25, 60],
+    ]);
+  });
+
+  test('should analyze templates with // comments', async () => {
+    const source = `import styled from 'styled-components';
+
+export const Link = styled.a\`
+  color: #ff0000; // brand
+  // margin: 4px;
+  padding: 6px;
+\`;
+`;
+    const result = await new CSSAnalyzer().parseEmbeddedCSS(
+      FILE,
+      source,
+      collectEmbeddedCSS(parseSource(source, FILE)!)
+    );
+
+    expect(result.locations!.map((l) => [l.category, l.value, l.line, l.column])).toEqual([
+      ['color', '#ff0000', 4, 10],
+      ['spacing', '6px', 6, 12],
+    ]);
+  });
+});
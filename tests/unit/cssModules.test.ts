@@ -0,0 +1,172 @@
+/**
+ * Unit tests for linking CSS Modules to the components importing them
+ */
+
+import * as path from 'path';
+import { parseSource } from '../../src/analyzers/astParser';
+import { CSSAnalyzer } from '../../src/analyzers/cssAnalyzer';
+import { collectCSSModules } from '../../src/analyzers/cssModules';
+import { DriftAnalyzer } from '../../src/drift-detector/driftAnalyzer';
+import { ProjectAnalysis } from '../../src/types';
+import { createAnalysis, createComponent, TestFileSystem } from '../setup';
+
+const BUTTON_MODULE = `.button {
+  padding: 8px;
+
+  &-primary {
+    color: red;
+  }
+  &:hover {
+    opacity: 0.8;
+  }
+}
+.icon {
+  composes: base;
+}
+.base {}
+.unused {}
+:global(.theme-dark) .button {}
+.btn-large {}
+`;
+
+const BUTTON = `import styles from './Button.module.scss';
+
+export const Button = ({ large }) => (
+  <button className={large ? styles.btnLarge : styles.button}>
+    <i className={styles['button-primary'] + ' ' + styles.icon} />
+    <span className={styles.label} />
+  </button>
+);
+`;
+
+const CARD = `import s from '../Button/Button.module.scss';
+
+const { button } = s;
+export const Card = () => <div className={button} />;
+`;
+
+const LIST_MODULE = `.list {}
+.item-primary {}
+`;
+
+const LIST = `import styles from './List.module.css';
+
+export const List = ({ kind }) => <ul className={styles.list}><li className={styles[kind]} /></ul>;
+`;
+
+describe('CSS Modules', () => {
+  let testFS: TestFileSystem;
+  let projectPath: string;
+
+  beforeEach(async () => {
+    testFS = new TestFileSystem();
+    projectPath = await testFS.createTestProject('test-css-modules', {
+      'src/components/Button/Button.module.scss': BUTTON_MODULE,
+      'src/components/Button/Button.jsx': BUTTON,
+      'src/components/Card/Card.jsx': CARD,
+      'src/components/List/List.module.css': LIST_MODULE,
+      'src/components/List/List.jsx': LIST,
+      'src/legacy.module.css': '.old {}\n',
+    });
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  const file = (relativePath: string) => path.join(projectPath, 'src', relativePath);
+
+  const createModuleComponent = (relativePath: string, source: string) =>
+    createComponent(file(relativePath), {
+      styling: {
+        type: 'css',
+        cssModules: collectCSSModules(parseSource(source, relativePath)!, file(relativePath)),
+      },
+    });
+
+  const createModuleAnalysis = async (): Promise<ProjectAnalysis> =>
+    createAnalysis({
+      projectPath,
+      components: [
+        createModuleComponent('components/Button/Button.jsx', BUTTON),
+        createModuleComponent('components/Card/Card.jsx', CARD),
+        createModuleComponent('components/List/List.jsx', LIST),
+      ],
+      styles: await new CSSAnalyzer().analyzeCSSFiles([
+        file('components/Button/Button.module.scss'),
+        file('components/List/List.module.css'),
+        file('legacy.module.css'),
+      ]),
+    });
+
+  test('should collect the classes a component reads from its modules', () => {
+    const [button] = collectCSSModules(parseSource(BUTTON, 'Button.jsx')!, file('Button.jsx'));
+    const [card] = collectCSSModules(parseSource(CARD, 'Card.jsx')!, file('Card.jsx'));
+    const [list] = collectCSSModules(parseSource(LIST, 'List.jsx')!, file('List.jsx'));
+
+    expect(button).toMatchObject({ source: './Button.module.scss', local: 'styles', line: 1 });
+    expect(button.classes.map((c) => [c.name, c.line, c.column])).toEqual([
+      ['btnLarge', 4, 37],
+      ['button', 4, 55],
+      ['button-primary', 5, 26],
+      ['icon', 5, 59],
+      ['label', 6, 29],
+    ]);
+    expect(button.dynamic).toBeUndefined();
+    expect(card.classes.map((c) => c.name)).toEqual(['button']);
+    expect(list.dynamic).toBe(true);
+  });
+
+  test('should collect the classes a module defines, with nesting resolved', async () => {
+    const result = await new CSSAnalyzer().parseCSSFile(
+      file('components/Button/Button.module.scss')
+    );
+
+    expect(result.selectors).toContain(':global(.theme-dark) .button');
+    expect(result.classes!.map((c) => [c.name, c.line, c.column])).toEqual([
+      ['button', 1, 1],
+      ['button-primary', 4, 3],
+      ['icon', 11, 1],
+      ['base', 14, 1],
+      ['unused', 15, 1],
+      ['btn-large', 17, 1],
+    ]);
+    expect(result.composedClasses).toEqual(['base']);
+  });
+
+  test('should report missing, unused and shared module classes', async () => {
+    const { violations } = new DriftAnalyzer({ rules: {} }).analyzeForDrift(
+      await createModuleAnalysis()
+    );
+    const relative = (filePath: string) => path.relative(projectPath, filePath);
+
+    expect(
+      violations
+        .filter((v) => v.type === 'css-modules')
+        .map((v) => [relative(v.filePath), v.line, v.message])
+    ).toEqual([
+      ['src/components/Button/Button.jsx', 6, 'styles.label is not defined in Button.module.scss'],
+      [
+        'src/components/Button/Button.module.scss',
+        15,
+        '.unused in Button.module.scss is not used by any component',
+      ],
+      [
+        'src/components/Button/Button.module.scss',
+        undefined,
+        'Button.module.scss is imported by unrelated components: ' +
+          'src/components/Button/Button.jsx, src/components/Card/Card.jsx',
+      ],
+      ['src/legacy.module.css', undefined, 'legacy.module.css is not imported by any component'],
+    ]);
+  });
+
+  test('should skip project-wide checks for changed files, and allowed classes', async () => {
+    const analysis = { ...(await createModuleAnalysis()), scope: 'changed' as const };
+    const { violations } = new DriftAnalyzer({
+      rules: { 'css-modules': ['warning', { allow: ['label'] }] },
+    }).analyzeForDrift(analysis);
+
+    expect(violations.filter((v) => v.type === 'css-modules')).toEqual([]);
+  });
+});
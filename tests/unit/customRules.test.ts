@@ -0,0 +1,177 @@
+/**
+ * Unit tests for custom rules
+ */
+
+import { DriftAnalyzer } from '../../src/drift-detector/driftAnalyzer';
+import { ConfigLoader } from '../../src/config/configLoader';
+import { loadCustomRules } from '../../src/rules/ruleLoader';
+import { defineRule, walkAST } from '../../src';
+import { getRuleMetadata } from '../../src/drift-detector/rules';
+import { HTMLAnalysisResult, ProjectAnalysis } from '../../src/types';
+import { createAnalysis, createComponent, TestFileSystem } from '../setup';
+import * as path from 'path';
+import * as Joi from 'joi';
+
+const TABLE_RULE_MODULE = `
+module.exports = {
+  meta: { id: 'no-raw-table', description: 'Use the DataGrid component', defaultSeverity: 'error' },
+  create(context) {
+    return {
+      template(template) {
+        if (context.relativePath(template.filePath).startsWith('src/data-grid/')) return;
+        for (const element of template.elements) {
+          if (element.tagName === 'table') {
+            context.report({
+              filePath: template.filePath,
+              line: element.line,
+              column: element.column,
+              message: 'Use <DataGrid> instead of a raw <table>',
+            });
+          }
+        }
+      },
+    };
+  },
+};
+`;
+
+const jsxTableRule = defineRule({
+  meta: { id: 'no-jsx-table', description: 'No raw tables in components' },
+  create(context) {
+    return {
+      component(component) {
+        const ast = context.getAST(component.filePath);
+        if (!ast) return;
+        walkAST(ast, (node) => {
+          if (
+            node.type === 'JSXOpeningElement' &&
+            node.name.type === 'JSXIdentifier' &&
+            node.name.name === 'table'
+          ) {
+            context.report({
+              filePath: component.filePath,
+              line: node.loc?.start.line,
+              message: `${component.name} renders a raw <table>`,
+            });
+          }
+        });
+      },
+    };
+  },
+});
+
+const createTemplate = (filePath: string): HTMLAnalysisResult => ({
+  filePath,
+  elements: [{ tagName: 'table', attributes: {}, line: 3, column: 5 }],
+  inlineStyles: [],
+  classes: [],
+  ids: [],
+  dataAttributes: [],
+  accessibility: { hasAriaLabels: true, hasAltTexts: true, missingLabels: [], missingAlts: [] },
+  success: true,
+});
+
+describe('Custom rules', () => {
+  let testFS: TestFileSystem;
+  let projectPath: string;
+  let analysis: ProjectAnalysis;
+
+  beforeEach(async () => {
+    testFS = new TestFileSystem();
+    projectPath = await testFS.createTestProject('test-custom-rules', {
+      'package.json': '{}',
+      'rules/no-raw-table.js': TABLE_RULE_MODULE,
+      'src/Report.jsx': 'export const Report = () => (\n  <table><tbody /></table>\n);\n',
+    });
+
+    analysis = createAnalysis({
+      projectPath,
+      components: [createComponent(path.join(projectPath, 'src/Report.jsx'))],
+      templates: [
+        createTemplate(path.join(projectPath, 'src/pages/report.html')),
+        createTemplate(path.join(projectPath, 'src/data-grid/grid.html')),
+      ],
+    });
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  test('should run rules from modules and inline config', async () => {
+    const config = {
+      ...new ConfigLoader(projectPath).getDefaultConfig(),
+      customRules: ['./rules/no-raw-table.js', jsxTableRule],
+    };
+    const analyzer = new DriftAnalyzer(config);
+    analyzer.setCustomRules(await loadCustomRules(projectPath, config));
+
+    const { violations } = analyzer.analyzeForDrift(analysis);
+
+    expect(
+      violations.map((v) => [v.type, v.severity, path.relative(projectPath, v.filePath)])
+    ).toEqual([
+      ['no-raw-table', 'error', path.join('src', 'pages', 'report.html')],
+      ['no-jsx-table', 'warning', path.join('src', 'Report.jsx')],
+    ]);
+    expect(violations[1]).toMatchObject({ line: 2, message: 'Report renders a raw <table>' });
+    expect(getRuleMetadata('no-raw-table').description).toBe('Use the DataGrid component');
+  });
+
+  test('should apply configured severities to custom rules', async () => {
+    const config = {
+      ...new ConfigLoader(projectPath).getDefaultConfig(),
+      customRules: ['./rules/no-raw-table.js', jsxTableRule],
+    };
+    config.rules = { ...config.rules, 'no-raw-table': 'off', 'no-jsx-table': 'error' };
+    const analyzer = new DriftAnalyzer(config);
+    analyzer.setCustomRules(await loadCustomRules(projectPath, config));
+
+    const { violations } = analyzer.analyzeForDrift(analysis);
+
+    expect(violations.map((v) => [v.type, v.severity])).toEqual([['no-jsx-table', 'error']]);
+  });
+
+  test('should reject invalid and conflicting rules', async () => {
+    const load = (customRules: any[]) => loadCustomRules(projectPath, { customRules } as any);
+
+    await expect(load(['./rules/missing.js'])).rejects.toThrow(
+      'Cannot find custom rule module "./rules/missing.js"'
+    );
+    await expect(load([{ meta: { id: 'x', description: 'x' } }])).rejects.toThrow(
+      '"create" is required'
+    );
+    await expect(
+      load([{ meta: { id: 'hardcoded-colors', description: 'x' }, create: () => ({}) }])
+    ).rejects.toThrow('conflicts with a built-in rule');
+    await expect(load([jsxTableRule, jsxTableRule])).rejects.toThrow('defined more than once');
+  });
+
+  test('should validate and pass rule options', async () => {
+    const maxRule = defineRule({
+      meta: { id: 'max-templates', description: 'x', schema: Joi.object({ max: Joi.number() }) },
+      create(context) {
+        return {
+          project(project) {
+            if (project.templates.length > (context.options.max as number)) {
+              context.report({ filePath: project.projectPath, message: 'Too many templates' });
+            }
+          },
+        };
+      },
+    });
+    const config = { ...new ConfigLoader(projectPath).getDefaultConfig(), customRules: [maxRule] };
+
+    config.rules = { ...config.rules, 'max-templates': ['error', { max: 'one' }] };
+    await expect(loadCustomRules(projectPath, config)).rejects.toThrow(
+      'Invalid options for rule "max-templates": "max" must be a number'
+    );
+
+    config.rules = { ...config.rules, 'max-templates': ['error', { max: 1 }] };
+    const analyzer = new DriftAnalyzer(config);
+    analyzer.setCustomRules(await loadCustomRules(projectPath, config));
+    expect(analyzer.analyzeForDrift(analysis).violations).toMatchObject([
+      { type: 'max-templates', severity: 'error', message: 'Too many templates' },
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for unused and orphaned component detection
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { parseSource } from '../../src/analyzers/astParser';
+import { collectJSXElements } from '../../src/analyzers/jsxElements';
+import { collectModuleInfo } from '../../src/analyzers/moduleInfo';
+import { collectComponentDefinitions } from '../../src/analyzers/componentDefinitions';
+import { findDeadCode } from '../../src/analyzers/deadCode';
+import { FileDiscovery } from '../../src/utils/fileDiscovery';
+import { ComponentInfo } from '../../src/types';
+import { TestFileSystem } from '../setup';
+
+const PROJECT = {
+  'package.json': JSON.stringify({ name: 'app', dependencies: { react: '^18.0.0' } }),
+  'src/index.jsx': `import React from 'react';
+import { createRoot } from 'react-dom/client';
+import { App } from './App';
+createRoot(document.getElementById('root')).render(<App />);`,
+  'src/App.jsx': `import React from 'react';
+import { Button, Card } from './components';
+export const App = () => <Card><Button /></Card>;`,
+  'src/components/index.js': `export { Button } from './Button';
+export * from './Card';`,
+  'src/components/Button.jsx': `import React from 'react';
+export const Button = () => <button />;
+export const IconButton = () => <Button />;
+export const LegacyButton = () => <button className="legacy" />;`,
+  'src/components/Card.jsx': `import React from 'react';
+export const Card = ({ children }) => <div>{children}</div>;
+export const CARD_PADDING = 16;`,
+  'src/components/Orphan.jsx': `import React from 'react';
+export default function Orphan() { return <div />; }`,
+  'src/components/Banner.jsx': `import React from 'react';
+export const Banner = () => <aside />;`,
+  'src/components/Banner.stories.jsx': `import React from 'react';
+import { Banner, OldBanner } from './Banner';
+export default { component: Banner };`,
+  'src/components/Modal.test.jsx': `import { Modal } from './Modal';
+test('renders', () => expect(Modal).toBeDefined());`,
+};
+
+describe('Dead code detection', () => {
+  let testFS: TestFileSystem;
+
+  beforeEach(() => {
+    testFS = new TestFileSystem();
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  const analyze = async (filePath: string): Promise<ComponentInfo> => {
+    const ast = parseSource(await fs.readFile(filePath, 'utf-8'), filePath)!;
+    return {
+      name: path.basename(filePath, path.extname(filePath)),
+      filePath,
+      type: 'functional',
+      hasJSX: /\.jsx$/.test(filePath),
+      jsxElements: collectJSXElements(ast),
+      definitions: collectComponentDefinitions(ast, filePath),
+      ...collectModuleInfo(ast, filePath),
+      success: true,
+    };
+  };
+
+  test('should resolve imports and collect exports', async () => {
+    const projectPath = await testFS.createTestProject('test-module-info', PROJECT);
+    const barrel = await analyze(path.join(projectPath, 'src/components/index.js'));
+
+    expect(barrel.exports).toEqual(['Button']);
+    expect(barrel.dependencies).toEqual([
+      path.join(projectPath, 'src/components/Button.jsx'),
+      path.join(projectPath, 'src/components/Card.jsx'),
+    ]);
+    expect(barrel.imports?.map((i) => [i.source, i.specifiers, i.reExport])).toEqual([
+      ['./Button', [{ imported: 'Button', local: 'Button' }], true],
+      ['./Card', [{ imported: '*', local: '*' }], true],
+    ]);
+  });
+
+  test('should report unused exports, unimported files and broken stories and tests', async () => {
+    const projectPath = await testFS.createTestProject('test-dead-code', PROJECT);
+    const discovery = new FileDiscovery({ projectPath });
+    const files = await discovery.findReactFiles();
+    const testFiles = await discovery.findStoryAndTestFiles();
+
+    expect(testFiles.map((file) => path.relative(projectPath, file))).toEqual([
+      path.join('src', 'components', 'Banner.stories.jsx'),
+      path.join('src', 'components', 'Modal.test.jsx'),
+    ]);
+
+    const components = await Promise.all(
+      [...files, path.join(projectPath, 'src/components/index.js')].map(analyze)
+    );
+    const testModule = await analyze(testFiles[1]);
+    const report = findDeadCode({
+      projectPath,
+      components,
+      references: [{ filePath: testModule.filePath, imports: testModule.imports! }],
+    });
+    const relative = (filePath: string) => path.relative(projectPath, filePath);
+
+    expect(report.unusedComponents.map((c) => [c.name, relative(c.filePath)])).toEqual([
+      ['IconButton', path.join('src', 'components', 'Button.jsx')],
+      ['LegacyButton', path.join('src', 'components', 'Button.jsx')],
+    ]);
+    expect(report.unimportedFiles.map(relative).sort()).toEqual([
+      path.join('src', 'components', 'Banner.jsx'),
+      path.join('src', 'components', 'Orphan.jsx'),
+    ]);
+    expect(report.brokenReferences.map((r) => [relative(r.filePath), r.source, r.name])).toEqual(
+      expect.arrayContaining([
+        [path.join('src', 'components', 'Banner.stories.jsx'), './Banner', 'OldBanner'],
+        [path.join('src', 'components', 'Modal.test.jsx'), './Modal', undefined],
+      ])
+    );
+    expect(report.brokenReferences).toHaveLength(2);
+  });
+
+  test('should keep the exports of configured entries', async () => {
+    const projectPath = await testFS.createTestProject('test-dead-code-entries', PROJECT);
+    const components = await Promise.all(
+      ['src/components/Orphan.jsx', 'src/components/Banner.jsx'].map((file) =>
+        analyze(path.join(projectPath, file))
+      )
+    );
+
+    const report = findDeadCode({
+      projectPath,
+      components,
+      entries: ['src/components/Orphan.*'],
+      entryFiles: [path.join(projectPath, 'src/components/Banner.jsx')],
+    });
+
+    expect(report).toEqual({ unusedComponents: [], unimportedFiles: [], brokenReferences: [] });
+  });
+
+  test('should count imports from sources without React code', async () => {
+    const projectPath = await testFS.createTestProject('test-dead-code-sources', {
+      ...PROJECT,
+      'src/routes.ts': `import Orphan from './components/Orphan';
+export const routes = [{ path: '/orphan', component: Orphan }];`,
+    });
+    const discovery = new FileDiscovery({ projectPath });
+    const files = await discovery.findReactFiles();
+    const components = await Promise.all(files.map(analyze));
+    const sources = (await discovery.findSourceFiles())
+      .filter((file) => !files.includes(file))
+      .map((file) => {
+        const { imports, exports } = collectModuleInfo(
+          parseSource(fs.readFileSync(file, 'utf-8'), file)!,
+          file
+        );
+        return { filePath: file, imports, exports };
+      });
+
+    const report = findDeadCode({ projectPath, components, sources });
+    const relative = (filePath: string) => path.relative(projectPath, filePath);
+
+    expect(sources.map((source) => relative(source.filePath))).toEqual([
+      path.join('src', 'components', 'index.js'),
+      path.join('src', 'routes.ts'),
+    ]);
+    expect(report.unimportedFiles.map(relative)).toEqual([
+      path.join('src', 'components', 'Banner.jsx'),
+    ]);
+    expect(report.unusedComponents.map((c) => c.name)).toEqual(['IconButton', 'LegacyButton']);
+  });
+});
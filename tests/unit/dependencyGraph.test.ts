@@ -0,0 +1,107 @@
+/**
+ * Unit tests for import resolution, the dependency graph and import cycles
+ */
+
+import * as fs from 'fs-extra';
+import * as path from 'path';
+import { parseSource } from '../../src/analyzers/astParser';
+import { collectModuleInfo } from '../../src/analyzers/moduleInfo';
+import { clearResolverCache, resolveModule } from '../../src/analyzers/moduleResolver';
+import {
+  buildDependencyGraph,
+  findImportCycles,
+  graphToDot,
+  graphToJSON,
+} from '../../src/analyzers/dependencyGraph';
+import { ComponentInfo } from '../../src/types';
+import { TestFileSystem } from '../setup';
+
+describe('Dependency graph', () => {
+  let testFS: TestFileSystem;
+
+  beforeEach(() => {
+    testFS = new TestFileSystem();
+    clearResolverCache();
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  const analyze = async (filePath: string): Promise<ComponentInfo> => {
+    const ast = parseSource(await fs.readFile(filePath, 'utf-8'), filePath)!;
+    return {
+      name: path.basename(filePath, path.extname(filePath)),
+      filePath,
+      type: 'functional',
+      hasJSX: false,
+      ...collectModuleInfo(ast, filePath),
+      success: true,
+    };
+  };
+
+  test('should resolve tsconfig paths, baseUrl and index files', async () => {
+    const projectPath = await testFS.createTestProject('test-resolve-paths', {
+      'tsconfig.base.json': `{
+  // Shared options
+  "compilerOptions": {
+    "baseUrl": "src",
+    "paths": { "@ui/*": ["components/*"], "@theme": ["theme/index.ts"], },
+  },
+}`,
+      'tsconfig.json': '{ "extends": "./tsconfig.base", "include": ["src/**/*"] }',
+      'src/app/App.tsx': '',
+      'src/components/Button/index.tsx': '',
+      'src/theme/index.ts': '',
+      'src/utils/format.ts': '',
+    });
+    const fromFile = path.join(projectPath, 'src/app/App.tsx');
+    const src = (file: string) => path.join(projectPath, 'src', file);
+
+    expect(resolveModule('@ui/Button', fromFile)).toBe(src('components/Button/index.tsx'));
+    expect(resolveModule('@theme', fromFile)).toBe(src('theme/index.ts'));
+    expect(resolveModule('utils/format', fromFile)).toBe(src('utils/format.ts'));
+    expect(resolveModule('../utils/format', fromFile)).toBe(src('utils/format.ts'));
+    expect(resolveModule('@ui/Missing', fromFile)).toBeUndefined();
+    expect(resolveModule('react', fromFile)).toBeUndefined();
+  });
+
+  test('should find the shortest cycle of each group of files importing each other', async () => {
+    const projectPath = await testFS.createTestProject('test-import-cycles', {
+      'src/App.jsx': `import { Header } from './Header';
+import { Footer } from './Footer';`,
+      'src/Header.jsx': `import { Menu } from './Menu';`,
+      'src/Menu.jsx': `import { Header } from './Header';
+import { App } from './App';`,
+      'src/Footer.jsx': `import { Link } from './Link';`,
+      'src/Link.jsx': `import { Link } from './Link';
+import styles from './Link.css';`,
+      'src/Link.css': '.link {}',
+    });
+    const file = (name: string) => path.join(projectPath, 'src', name);
+    const components = await Promise.all(
+      ['App.jsx', 'Header.jsx', 'Menu.jsx', 'Footer.jsx', 'Link.jsx'].map((name) =>
+        analyze(file(name))
+      )
+    );
+
+    const graph = buildDependencyGraph(components);
+    expect(graph.files).toContain(file('Link.css'));
+    expect(graph.edges).toHaveLength(8);
+
+    const cycles = findImportCycles(graph);
+    expect(cycles).toEqual([
+      { files: [file('App.jsx'), file('Header.jsx'), file('Menu.jsx')], line: 1, column: 1 },
+      { files: [file('Link.jsx')], line: 1, column: 1 },
+    ]);
+
+    const dot = graphToDot(graph, projectPath, cycles);
+    expect(dot).toContain('"src/App.jsx" -> "src/Header.jsx" [color=red];');
+    expect(dot).toContain('"src/App.jsx" -> "src/Footer.jsx";');
+    expect(dot).toContain('"src/Link.jsx" -> "src/Link.css";');
+
+    const json = JSON.parse(graphToJSON(graph, projectPath, cycles));
+    expect(json.files).toContain('src/Footer.jsx');
+    expect(json.cycles[0].files).toEqual(['src/App.jsx', 'src/Header.jsx', 'src/Menu.jsx']);
+  });
+});
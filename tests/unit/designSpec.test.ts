@@ -0,0 +1,156 @@
+/**
+ * Unit tests for DesignSpecStorage
+ */
+
+import { DesignSpecStorage } from '../../src/patterns/designSpec';
+import { DesignPatterns } from '../../src/patterns/patternExtractor';
+import { TestFileSystem } from '../setup';
+import * as fs from 'fs-extra';
+
+const createPatterns = (overrides: Partial<DesignPatterns> = {}): DesignPatterns => ({
+  spacing: { unit: 8, values: [8, 16, 24], confidence: 0.9 },
+  colors: {
+    primary: ['#3b82f6'],
+    secondary: ['#6b7280'],
+    neutrals: ['#ffffff'],
+    semantic: {},
+  },
+  typography: {
+    fontSizes: ['14px', '16px'],
+    fontWeights: ['400', '700'],
+    fontFamilies: ['Inter'],
+  },
+  components: [{ name: 'Button', usage: 3, props: ['variant'], locations: ['src/Button.tsx'] }],
+  cssFramework: 'css',
+  namingConvention: 'PascalCase',
+  ...overrides,
+});
+
+describe('DesignSpecStorage', () => {
+  let testFS: TestFileSystem;
+  let projectPath: string;
+  let storage: DesignSpecStorage;
+
+  beforeEach(async () => {
+    testFS = new TestFileSystem();
+    projectPath = await testFS.createTestProject('test-spec', {
+      'package.json': '{}',
+    });
+    storage = new DesignSpecStorage(projectPath);
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  describe('approve', () => {
+    test('should write the spec and bump its version on re-approval', async () => {
+      expect(await storage.loadSpec()).toBeNull();
+
+      const first = await storage.approve(createPatterns());
+      expect(first.specVersion).toBe(1);
+      expect(await fs.pathExists(storage.getSpecPath())).toBe(true);
+
+      const second = await storage.approve(createPatterns());
+      expect(second.specVersion).toBe(2);
+    });
+  });
+
+  describe('diffPatterns', () => {
+    test('should report no proposals when learned patterns match the spec', async () => {
+      const spec = await storage.approve(createPatterns());
+
+      expect(storage.diffPatterns(spec, createPatterns())).toEqual([]);
+    });
+
+    test('should propose additions, removals and scalar changes', async () => {
+      const spec = await storage.approve(createPatterns());
+      const learned = createPatterns({
+        spacing: { unit: 4, values: [8, 16, 24, 12], confidence: 0.8 },
+        components: [],
+      });
+
+      const proposals = storage.diffPatterns(spec, learned);
+
+      expect(proposals).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            change: 'set',
+            category: 'spacing.unit',
+            value: 4,
+            previous: 8,
+          }),
+          expect.objectContaining({ change: 'add', category: 'spacing.values', value: 12 }),
+          expect.objectContaining({ change: 'remove', category: 'components', value: 'Button' }),
+        ])
+      );
+      expect(proposals).toHaveLength(3);
+    });
+
+    test('should not propose a color that only moved between buckets', async () => {
+      const spec = await storage.approve(createPatterns());
+      const learned = createPatterns({
+        colors: {
+          primary: [],
+          secondary: ['#3b82f6', '#6b7280'],
+          neutrals: ['#ffffff'],
+          semantic: {},
+        },
+      });
+
+      expect(storage.diffPatterns(spec, learned)).toEqual([]);
+    });
+  });
+
+  describe('proposal review', () => {
+    test('should apply accepted proposals and bump the spec version', async () => {
+      const spec = await storage.approve(createPatterns());
+      const learned = createPatterns({
+        colors: { ...createPatterns().colors, primary: ['#3b82f6', '#ef4444'] },
+      });
+      const proposals = storage.diffPatterns(spec, learned);
+      await storage.saveProposals(proposals, spec.specVersion);
+
+      const { spec: updated, accepted } = await storage.acceptProposals([proposals[0].id]);
+
+      expect(accepted).toHaveLength(1);
+      expect(updated.specVersion).toBe(2);
+      expect(updated.patterns.colors.primary).toContain('#ef4444');
+      expect(await storage.loadProposals()).toEqual([]);
+    });
+
+    test('should not propose rejected changes again', async () => {
+      const spec = await storage.approve(createPatterns());
+      const learned = createPatterns({ namingConvention: 'kebab-case' });
+      await storage.saveProposals(storage.diffPatterns(spec, learned), spec.specVersion);
+
+      const { spec: updated, rejected } = await storage.rejectProposals(['all']);
+
+      expect(rejected).toHaveLength(1);
+      expect(updated.specVersion).toBe(1);
+      expect(storage.diffPatterns(updated, learned)).toEqual([]);
+    });
+
+    test('should fail on unknown proposal ids', async () => {
+      await storage.approve(createPatterns());
+
+      await expect(storage.acceptProposals(['deadbeef'])).rejects.toThrow('Unknown proposal');
+    });
+
+    test('should fail on id prefixes matching several proposals', async () => {
+      const spec = await storage.approve(createPatterns());
+      const learned = createPatterns({
+        colors: { ...createPatterns().colors, primary: ['#3b82f6', '#ef4444', '#22c55e'] },
+      });
+      const proposals = storage
+        .diffPatterns(spec, learned)
+        .map((proposal, index) => ({ ...proposal, id: `ab${index}` }));
+      await storage.saveProposals(proposals, spec.specVersion);
+
+      await expect(storage.acceptProposals(['ab'])).rejects.toThrow(
+        'Ambiguous proposal id "ab" matches: ab0, ab1'
+      );
+      expect((await storage.acceptProposals(['ab1'])).accepted).toEqual([proposals[1]]);
+    });
+  });
+});
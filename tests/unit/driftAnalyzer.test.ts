@@ -0,0 +1,65 @@
+/**
+ * Unit tests for DriftAnalyzer
+ */
+
+import * as path from 'path';
+import { parseSource } from '../../src/analyzers/astParser';
+import { CSSAnalyzer } from '../../src/analyzers/cssAnalyzer';
+import { collectInlineStyles } from '../../src/analyzers/inlineStyles';
+import { DriftAnalyzer } from '../../src/drift-detector/driftAnalyzer';
+import { createAnalysis, createComponent, TestFileSystem } from '../setup';
+
+const CARD_CSS = `.card {
+  padding: 8px 13px;
+  margin: 13px 13px;
+}
+`;
+
+const CARD = `export const Card = () => (
+  <div style={{ background: 'url(bg-red.png) red', margin: '13px 13px' }} />
+);
+`;
+
+describe('DriftAnalyzer', () => {
+  let testFS: TestFileSystem;
+
+  beforeEach(() => {
+    testFS = new TestFileSystem();
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  test('should report one violation per value at its line and column', async () => {
+    const projectPath = await testFS.createTestProject('test-drift-positions', {
+      'src/card.css': CARD_CSS,
+    });
+    const cardPath = path.join(projectPath, 'src/Card.tsx');
+    const { styles, locations } = collectInlineStyles(parseSource(CARD, cardPath)!);
+
+    const analysis = createAnalysis({
+      projectPath,
+      framework: { type: 'react', typescript: true },
+      components: [
+        createComponent(cardPath, { styling: { type: 'inline', inlineStyles: styles, locations } }),
+      ],
+      styles: [await new CSSAnalyzer().parseCSSFile(path.join(projectPath, 'src/card.css'))],
+    });
+
+    const { violations } = new DriftAnalyzer({ rules: {} }).analyzeForDrift(analysis);
+
+    expect(
+      violations
+        .filter((v) => v.value)
+        .map((v) => [path.basename(v.filePath), v.type, v.value, v.line, v.column])
+    ).toEqual([
+      ['Card.tsx', 'inline-styles', 'red', 2, 46],
+      ['card.css', 'spacing-violation', '13px', 2, 16],
+      ['card.css', 'spacing-violation', '13px', 3, 11],
+      ['card.css', 'spacing-violation', '13px', 3, 16],
+      ['Card.tsx', 'spacing-violation', '13px', 2, 61],
+      ['Card.tsx', 'spacing-violation', '13px', 2, 66],
+    ]);
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Unit tests for FixEngine
+ */
+
+import { parseSource } from '../../src/analyzers/astParser';
+import { collectJSXElements } from '../../src/analyzers/jsxElements';
+import { DriftAnalyzer } from '../../src/drift-detector/driftAnalyzer';
+import { FixEngine, createUnifiedDiff } from '../../src/fix/fixEngine';
+import { TokenIndex } from '../../src/tokens/tokenIndex';
+import { ComponentDefinition, DriftViolation } from '../../src/types';
+import { createAnalysis, createComponent, TestFileSystem } from '../setup';
+
+describe('FixEngine', () => {
+  const tokens = new TokenIndex();
+  tokens.add('--color-primary', '#3b82f6');
+
+  const button: ComponentDefinition = {
+    name: 'Button',
+    displayName: 'Button',
+    filePath: '/project/src/components/Button.tsx',
+    type: 'functional',
+    props: [],
+    wrappers: [],
+    exportKind: 'named',
+    exportName: 'Button',
+  };
+  const card = { name: 'Card', filePath: '/project/src/components/Card.tsx' };
+
+  const engine = new FixEngine({ tokens, spacingGrid: 8, components: [button, card] });
+
+  const violation = (overrides: Partial<DriftViolation>): DriftViolation => ({
+    type: 'hardcoded-colors',
+    severity: 'warning',
+    filePath: '/project/src/button.css',
+    message: 'test',
+    ...overrides,
+  });
+
+  test('should replace colors with matching tokens and snap spacing to the grid', () => {
+    const source = '.button {\n  color: #3B82F6;\n  margin: 13px 3px;\n  padding: 0.3rem;\n}\n';
+
+    const result = engine.fixSource(source, [
+      violation({ line: 2, column: 10, value: '#3B82F6' }),
+      violation({ type: 'spacing-violation', line: 3, column: 11, value: '13px' }),
+      violation({ type: 'spacing-violation', line: 3, column: 16, value: '3px' }),
+      violation({ type: 'spacing-violation', line: 4, column: 12, value: '0.3rem' }),
+    ]);
+
+    expect(result.output).toBe(
+      '.button {\n  color: var(--color-primary);\n  margin: 16px 8px;\n  padding: 0.5rem;\n}\n'
+    );
+    expect(result.applied.map((fix) => fix.description)).toEqual([
+      'Replace #3B82F6 with var(--color-primary)',
+      'Snap 13px to 16px',
+      'Snap 3px to 8px',
+      'Snap 0.3rem to 0.5rem',
+    ]);
+  });
+
+  test('should fix inline style colors inside string literals', () => {
+    const source = "const style = { color: '#3b82f6' };\n";
+
+    const result = engine.fixSource(source, [
+      violation({ type: 'inline-styles', line: 1, column: 24, value: '#3b82f6' }),
+    ]);
+
+    expect(result.output).toBe("const style = { color: 'var(--color-primary)' };\n");
+  });
+
+  test('should apply identical edits once and skip colors without a token', () => {
+    const source = '.a {\n  color: #3b82f6;\n  background: #ff0000;\n}\n';
+
+    const result = engine.fixSource(source, [
+      violation({ line: 2, column: 10, value: '#3b82f6' }),
+      violation({ type: 'color-drift', line: 2, column: 10, value: '#3b82f6' }),
+      violation({ line: 3, column: 15, value: '#ff0000' }),
+    ]);
+
+    expect(result.output).toBe('.a {\n  color: var(--color-primary);\n  background: #ff0000;\n}\n');
+    expect(result.applied).toHaveLength(2);
+    expect(result.skipped.map((v) => v.value)).toEqual(['#ff0000']);
+  });
+
+  test('should detect native JSX buttons and rename them to the Button component', () => {
+    const filePath = '/project/src/pages/Form.tsx';
+    const source = [
+      "import React from 'react';",
+      '',
+      'export const Form = () => (',
+      '  <div>',
+      '    <button type="submit" onClick={() => save()}><button>x</button></button>',
+      '    <button className="btn" />',
+      '  </div>',
+      ');',
+      '',
+    ].join('\n');
+    const files = [
+      createComponent('/project/src/components/Button.tsx', {
+        definitions: [button],
+        jsxElements: collectJSXElements(parseSource('<button />', 'Button.tsx')!),
+      }),
+      createComponent(filePath, {
+        jsxElements: collectJSXElements(parseSource(source, filePath)!),
+      }),
+    ];
+
+    const { violations } = new DriftAnalyzer({ rules: {} }).analyzeForDrift(
+      createAnalysis({ framework: { type: 'react', typescript: true }, components: files })
+    );
+    const drift = violations.filter((v) => v.type === 'component-drift');
+    expect(drift.map((v) => [v.filePath, v.line, v.column])).toEqual([
+      [filePath, 5, 5],
+      [filePath, 5, 50],
+    ]);
+
+    const result = engine.fixSource(source, drift);
+
+    expect(result.applied).toHaveLength(2);
+    expect(result.output).toBe(
+      [
+        "import React from 'react';",
+        "import { Button } from '../components/Button';",
+        '',
+        'export const Form = () => (',
+        '  <div>',
+        '    <Button type="submit" onClick={() => save()}><Button>x</Button></Button>',
+        '    <button className="btn" />',
+        '  </div>',
+        ');',
+        '',
+      ].join('\n')
+    );
+  });
+
+  test('should reuse an existing Button import and leave other files alone', async () => {
+    const testFS = new TestFileSystem();
+    const projectPath = await testFS.createTestProject('test-fix-imports', {
+      'tsconfig.json': JSON.stringify({ compilerOptions: { paths: { '@/*': ['./src/*'] } } }),
+      'src/components/Button.tsx': 'export const Button = () => <button />;\n',
+    });
+    const projectEngine = new FixEngine({
+      tokens,
+      spacingGrid: 8,
+      components: [{ ...button, filePath: `${projectPath}/src/components/Button.tsx` }],
+    });
+    const fix = (source: string, line: number, column: number) =>
+      projectEngine.fixSource(source, [
+        violation({ type: 'component-drift', filePath: `${projectPath}/src/a.jsx`, line, column }),
+      ]);
+
+    const fixed = fix(
+      "import { Button } from '@/components/Button';\n\nconst a = <button />;\n",
+      3,
+      11
+    );
+    const otherImport = fix("import { Button } from 'antd';\n\nconst a = <button />;\n", 3, 11);
+    const declared = fix('const Button = () => null;\nconst a = <button />;\n', 2, 11);
+    const html = engine.fixSource('<button>x</button>\n', [
+      violation({ type: 'component-drift', filePath: '/project/index.html', line: 1, column: 1 }),
+    ]);
+    await testFS.cleanup();
+
+    expect(fixed.output).toBe(
+      "import { Button } from '@/components/Button';\n\nconst a = <Button />;\n"
+    );
+    expect(otherImport.applied).toEqual([]);
+    expect(declared.applied).toEqual([]);
+    expect(html.applied).toEqual([]);
+  });
+
+  test('should only fix the selected rules', () => {
+    const ruleEngine = new FixEngine({
+      tokens,
+      spacingGrid: 8,
+      components: [],
+      rules: ['spacing-violation'],
+    });
+
+    expect(ruleEngine.isFixable(violation({}))).toBe(false);
+    expect(ruleEngine.isFixable(violation({ type: 'spacing-violation' }))).toBe(true);
+    expect(
+      () => new FixEngine({ tokens, spacingGrid: 8, components: [], rules: ['naming'] })
+    ).toThrow('No automatic fix for rule "naming"');
+  });
+
+  test('should create a unified diff relative to the project', () => {
+    const diff = createUnifiedDiff(
+      {
+        filePath: '/project/src/a.css',
+        original: '.a {\n  margin: 13px;\n}\n',
+        output: '.a {\n  margin: 16px;\n}\n',
+        applied: [],
+        skipped: [],
+      },
+      '/project'
+    );
+
+    expect(diff).toContain('--- a/src/a.css');
+    expect(diff).toContain('+++ b/src/a.css');
+    expect(diff).toContain('-  margin: 13px;\n+  margin: 16px;');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for changed-file collection and classification
+ */
+
+import { getChangedFiles, getUnstagedFiles } from '../../src/utils/gitChanges';
+import { FileDiscovery } from '../../src/utils/fileDiscovery';
+import { TestFileSystem } from '../setup';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+const git = (cwd: string, ...args: string[]) =>
+  execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+    cwd,
+    stdio: 'pipe',
+  });
+
+describe('getChangedFiles', () => {
+  let testFS: TestFileSystem;
+  let projectPath: string;
+
+  beforeEach(async () => {
+    testFS = new TestFileSystem();
+    projectPath = await testFS.createTestProject('test-git-changes', {
+      'src/Button.tsx': 'export const Button = () => <button />;',
+      'src/app.css': '.app { color: red; }',
+    });
+    git(projectPath, 'init', '-q');
+    git(projectPath, 'add', '-A');
+    git(projectPath, 'commit', '-q', '-m', 'initial');
+    git(projectPath, 'tag', 'base');
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  test('should collect committed, modified and untracked files since a ref', async () => {
+    await fs.writeFile(path.join(projectPath, 'src/app.css'), '.app { color: blue; }');
+    await fs.writeFile(
+      path.join(projectPath, 'src/Card.tsx'),
+      'export const Card = () => <div />;'
+    );
+    git(projectPath, 'add', 'src/app.css');
+    git(projectPath, 'commit', '-q', '-m', 'change');
+    await fs.writeFile(
+      path.join(projectPath, 'src/Button.tsx'),
+      'export const Button = () => null;'
+    );
+
+    const changed = await getChangedFiles(projectPath, { since: 'base' });
+
+    expect(changed).toEqual(
+      ['src/Button.tsx', 'src/Card.tsx', 'src/app.css'].map((f) => path.join(projectPath, f))
+    );
+  });
+
+  test('should only collect staged files in staged mode', async () => {
+    await fs.writeFile(path.join(projectPath, 'src/app.css'), '.app { color: blue; }');
+    await fs.writeFile(
+      path.join(projectPath, 'src/Button.tsx'),
+      'export const Button = () => null;'
+    );
+    git(projectPath, 'add', 'src/app.css');
+
+    expect(await getChangedFiles(projectPath, { staged: true })).toEqual([
+      path.join(projectPath, 'src/app.css'),
+    ]);
+  });
+
+  test('should list staged files that also have unstaged changes', async () => {
+    await fs.writeFile(path.join(projectPath, 'src/app.css'), '.app { color: blue; }');
+    git(projectPath, 'add', 'src/app.css');
+    await fs.writeFile(path.join(projectPath, 'src/app.css'), '.app { color: green; }');
+
+    expect(await getUnstagedFiles(projectPath)).toEqual([path.join(projectPath, 'src/app.css')]);
+  });
+
+  test('should report unknown refs', async () => {
+    await expect(getChangedFiles(projectPath, { since: 'no-such-ref' })).rejects.toThrow(
+      'git merge-base failed'
+    );
+  });
+
+  test('should classify changed files with the discovery rules', async () => {
+    await fs.outputFile(path.join(projectPath, 'src/Button.test.tsx'), '<Button />');
+    await fs.outputFile(path.join(projectPath, 'README.md'), '# readme');
+    const discovery = new FileDiscovery({ projectPath });
+
+    const files = await discovery.classifyFiles([
+      'src/Button.tsx',
+      'src/Button.test.tsx',
+      'src/app.css',
+      'src/Deleted.tsx',
+      'README.md',
+    ]);
+
+    expect(files).toEqual({
+      react: [path.join(projectPath, 'src/Button.tsx')],
+      css: [path.join(projectPath, 'src/app.css')],
+      html: [],
+    });
+  });
+});
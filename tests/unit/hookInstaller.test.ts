@@ -0,0 +1,107 @@
+/**
+ * Unit tests for HookInstaller
+ */
+
+import { HookInstaller, HOOK_COMMANDS } from '../../src/hooks/hookInstaller';
+import { TestFileSystem } from '../setup';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+// Plain git hooks can't be written when the environment points core.hooksPath
+// somewhere else (for example /dev/null to disable hooks)
+const hooksPathOverridden = (() => {
+  try {
+    return execFileSync('git', ['config', 'core.hooksPath'], { stdio: 'pipe' }).length > 0;
+  } catch {
+    return false;
+  }
+})();
+const gitHooksTest = hooksPathOverridden ? test.skip : test;
+
+describe('HookInstaller', () => {
+  let testFS: TestFileSystem;
+  let projectPath: string;
+  let installer: HookInstaller;
+
+  beforeEach(async () => {
+    testFS = new TestFileSystem();
+    projectPath = await testFS.createTestProject('test-hooks', { 'package.json': '{}' });
+    execFileSync('git', ['init', '-q'], { cwd: projectPath });
+    installer = new HookInstaller(projectPath);
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  const hookPath = (hook: string) => path.join(projectPath, '.git', 'hooks', hook);
+
+  gitHooksTest('should write executable git hooks and remove them again', async () => {
+    const result = await installer.install();
+
+    expect(result.target).toBe('git');
+    const preCommit = await fs.readFile(hookPath('pre-commit'), 'utf-8');
+    expect(preCommit.startsWith('#!/bin/sh\n# >>> react-codebase-guru >>>')).toBe(true);
+    expect(preCommit).toContain(`${HOOK_COMMANDS['pre-commit']} || exit 1`);
+    expect((await fs.stat(hookPath('pre-push'))).mode & 0o111).toBeTruthy();
+
+    // Installing twice keeps a single managed block
+    await installer.install();
+    const again = await fs.readFile(hookPath('pre-commit'), 'utf-8');
+    expect(again.match(/>>> react-codebase-guru/g)).toHaveLength(1);
+
+    await installer.uninstall();
+    expect(await fs.pathExists(hookPath('pre-commit'))).toBe(false);
+    expect(await fs.pathExists(hookPath('pre-push'))).toBe(false);
+  });
+
+  gitHooksTest('should chain with an existing hook instead of overwriting it', async () => {
+    await fs.outputFile(hookPath('pre-commit'), '#!/bin/bash\nnpm test\nexit 0\n');
+
+    const result = await installer.install();
+    expect(result.chained).toEqual([hookPath('pre-commit')]);
+
+    const content = await fs.readFile(hookPath('pre-commit'), 'utf-8');
+    expect(content.indexOf('guru ci')).toBeLessThan(content.indexOf('npm test'));
+
+    await installer.uninstall();
+    expect(await fs.readFile(hookPath('pre-commit'), 'utf-8')).toBe(
+      '#!/bin/bash\nnpm test\nexit 0\n'
+    );
+  });
+
+  gitHooksTest('should refuse to chain with non-shell hooks', async () => {
+    await fs.outputFile(hookPath('pre-push'), '#!/usr/bin/env node\nconsole.log(1);\n');
+
+    await expect(installer.install()).rejects.toThrow('is not a shell script');
+    expect(await fs.pathExists(hookPath('pre-commit'))).toBe(false);
+  });
+
+  test('should add a step to husky hooks', async () => {
+    await fs.outputFile(path.join(projectPath, '.husky', 'pre-commit'), 'npx lint-staged\n');
+
+    const result = await installer.install();
+
+    expect(result.target).toBe('husky');
+    const content = await fs.readFile(path.join(projectPath, '.husky', 'pre-commit'), 'utf-8');
+    expect(content).toContain(HOOK_COMMANDS['pre-commit']);
+    expect(content).toContain('npx lint-staged');
+    expect(await fs.pathExists(hookPath('pre-commit'))).toBe(false);
+  });
+
+  test('should add and remove lefthook commands', async () => {
+    const configPath = path.join(projectPath, 'lefthook.yml');
+    const original = '# hooks\npre-commit:\n  commands:\n    lint:\n      run: npm run lint\n';
+    await fs.writeFile(configPath, original);
+
+    expect((await installer.install()).target).toBe('lefthook');
+    const installed = await fs.readFile(configPath, 'utf-8');
+    expect(installed).toContain('guru-drift:');
+    expect(installed).toContain('pre-push:');
+    expect(installed).toContain('run: npm run lint');
+
+    await installer.uninstall();
+    expect(await fs.readFile(configPath, 'utf-8')).toBe(original);
+  });
+});
@@ -82,6 +82,23 @@ describe('HTMLAnalyzer', () => {
       expect(result.accessibility.hasAriaLabels).toBe(true);
     });
 
+    test('should record element positions', async () => {
+      const html = `<div>\n  <span style="color: red">Hi</span>\n    <img src="logo.png">\n</div>`;
+
+      const projectPath = await testFS.createTestProject('test-positions', {
+        'public/index.html': html,
+      });
+
+      const result = await analyzer.parseHTMLFile(
+        path.join(projectPath, 'public/index.html')
+      );
+
+      expect(result.inlineStyles[0]).toMatchObject({ element: 'span', line: 2, column: 3 });
+      expect(result.accessibility.issues).toEqual([
+        { kind: 'missing-alt', description: 'logo.png', line: 3, column: 5 },
+      ]);
+    });
+
     test('should extract data attributes', async () => {
       const htmlWithDataAttrs = `
         <!DOCTYPE html>
@@ -0,0 +1,99 @@
+/**
+ * Unit tests for reading JSX style props
+ */
+
+import { parseSource } from '../../src/analyzers/astParser';
+import { collectInlineStyles } from '../../src/analyzers/inlineStyles';
+import { DriftAnalyzer } from '../../src/drift-detector/driftAnalyzer';
+import { createAnalysis, createComponent } from '../setup';
+
+const collect = (source: string) =>
+  collectInlineStyles(parseSource(source, '/project/src/Card.tsx')!);
+
+describe('Inline styles', () => {
+  test('should read every property, converting names and numbers like React', () => {
+    const { styles } = collect(`export const Card = () => (
+  <div style={{ marginTop: 12, zIndex: 10, lineHeight: 1.5, opacity: 0, '--gap': 4, fontWeight: 'bold' }} />
+);`);
+
+    expect(styles).toEqual([
+      {
+        element: 'div',
+        styles: {
+          'margin-top': '12px',
+          'z-index': '10',
+          'line-height': '1.5',
+          opacity: '0',
+          '--gap': '4',
+          'font-weight': 'bold',
+        },
+        line: 2,
+        column: 8,
+      },
+    ]);
+  });
+
+  test('should resolve constants, spreads, members and nested objects', () => {
+    const { styles, locations } = collect(`const PRIMARY = '#3366ff';
+const GAP = 8;
+const base = { padding: GAP, color: PRIMARY };
+const styles = {
+  title: { ...base, fontSize: \`\${GAP * 2}px\`, margin: \`\${GAP}px 0\` },
+  card: { ...base, padding: 12, ':hover': { color: 'red' } },
+};
+export const Card = ({ style, active }) => (
+  <section style={styles.card}>
+    <h2 style={[styles.title, active && { color: 'blue' }]} />
+    <p style={{ ...base, color: undefined }} />
+    <Footer style={style} />
+  </section>
+);`);
+
+    expect(styles.map((s) => [s.element, s.styles])).toEqual([
+      ['section', { color: '#3366ff', padding: '12px', ':hover color': 'red' }],
+      ['h2', { padding: '8px', color: '#3366ff', margin: '8px 0' }],
+      ['p', { padding: '8px' }],
+    ]);
+
+    // Values shared through constants are located once, where they are written
+    expect(locations.map((l) => [l.category, l.property, l.value, l.line, l.column])).toEqual([
+      ['color', 'color', '#3366ff', 1, 18],
+      ['spacing', 'padding', '12px', 6, 29],
+      ['color', 'color', 'red', 6, 53],
+      ['spacing', 'padding', '8px', 2, 13],
+      ['spacing', 'margin', '8px', 5, 56],
+      ['spacing', 'margin', '0', 5, 60],
+    ]);
+  });
+
+  test('should report off-grid spacing and off-scale typography in inline styles', () => {
+    const { styles, locations } = collect(`export const Card = () => (
+  <div style={{ padding: 10, fontSize: 13, color: 'var(--text)' }} />
+);`);
+    const analysis = createAnalysis({
+      framework: { type: 'react', typescript: true },
+      components: [
+        createComponent('/project/src/Card.tsx', {
+          styling: { type: 'inline', inlineStyles: styles, locations },
+        }),
+      ],
+    });
+
+    const analyzer = new DriftAnalyzer({ rules: {} });
+    analyzer.setPatterns({
+      spacing: { unit: 4, values: [], confidence: 1 },
+      colors: { primary: [], secondary: [], neutrals: [], semantic: {} },
+      typography: { fontSizes: ['12px', '14px'], fontWeights: [], fontFamilies: [] },
+      components: [],
+    });
+    const { violations } = analyzer.analyzeForDrift(analysis);
+
+    expect(violations.map((v) => [v.type, v.value, v.line, v.column])).toEqual(
+      expect.arrayContaining([
+        ['inline-styles', undefined, 2, 26],
+        ['spacing-violation', '10px', 2, 26],
+        ['typography-violation', '13px', 2, 40],
+      ])
+    );
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Unit tests for GuruLanguageServer
+ */
+
+import { GuruLanguageServer } from '../../src/lsp/server';
+import { TestFileSystem } from '../setup';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Connection, Diagnostic, Position, Range } from 'vscode-languageserver/node';
+import { pathToFileURL } from 'url';
+import * as path from 'path';
+
+describe('GuruLanguageServer', () => {
+  let testFS: TestFileSystem;
+  let projectPath: string;
+  let server: GuruLanguageServer;
+
+  const connection = {
+    window: { showInformationMessage: jest.fn() },
+    console: { log: jest.fn(), error: jest.fn() },
+  } as unknown as Connection;
+
+  const openDocument = (file: string, languageId: string, text: string) =>
+    TextDocument.create(pathToFileURL(path.join(projectPath, file)).href, languageId, 1, text);
+
+  beforeEach(async () => {
+    testFS = new TestFileSystem();
+    projectPath = await testFS.createTestProject('test-lsp', {
+      'package.json': '{}',
+      'src/tokens.css': ':root {\n  --color-primary-500: #3b82f6;\n}\n',
+    });
+    server = new GuruLanguageServer(connection, projectPath);
+    await server.loadProject();
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  test('should publish diagnostics for unsaved content', async () => {
+    const document = openDocument('src/button.css', 'css', '.button {\n  color: #3B82F6;\n}\n');
+
+    const diagnostics = await server.getDiagnostics(document);
+    const color = diagnostics.find((d) => d.code === 'hardcoded-colors');
+
+    expect(color).toBeDefined();
+    expect(color!.source).toBe('guru');
+    expect(color!.range).toEqual({
+      start: { line: 1, character: 9 },
+      end: { line: 1, character: 16 },
+    });
+  });
+
+  test('should show the token for a color on hover', async () => {
+    const document = openDocument('src/button.css', 'css', '.button {\n  color: #3B82F6;\n}\n');
+
+    const hover = server.getHover(document, Position.create(1, 11));
+    expect(hover?.contents).toEqual({
+      kind: 'markdown',
+      value: '`#3B82F6` → `--color-primary-500`',
+    });
+    expect(server.getHover(document, Position.create(0, 2))).toBeNull();
+  });
+
+  test('should offer token replacement and disable comment quick fixes', async () => {
+    const document = openDocument('src/button.css', 'css', '.button {\n  color: #3B82F6;\n}\n');
+    const diagnostics = (await server.getDiagnostics(document)).filter(
+      (d) => d.code === 'hardcoded-colors'
+    );
+
+    const actions = server.getCodeActions(document, diagnostics);
+    const [replace, disable] = actions.map((action) => action.edit!.changes![document.uri][0]);
+
+    expect(replace.newText).toBe('var(--color-primary-500)');
+    expect(disable.newText).toBe('  /* guru-disable-next-line hardcoded-colors */\n');
+    expect(disable.range.start).toEqual({ line: 1, character: 0 });
+  });
+
+  test('should disable rules among JSX children with a JSX comment', () => {
+    const source = `export const Card = () => (
+  <div
+    style={{ color: 'red' }}
+  >
+    <span style={{ color: 'red' }} />
+    {label}
+  </div>
+);
+`;
+    const document = openDocument('src/Card.tsx', 'typescriptreact', source);
+    const disable = (line: number) => {
+      const diagnostic: Diagnostic = {
+        range: Range.create(line, 4, line, 10),
+        message: 'Inline styles',
+        source: 'guru',
+        data: { type: 'inline-styles' },
+      };
+      const actions = server.getCodeActions(document, [diagnostic]);
+      return actions[actions.length - 1].edit!.changes![document.uri][0].newText;
+    };
+
+    expect(disable(2)).toBe('    // guru-disable-next-line inline-styles\n');
+    expect(disable(4)).toBe('    {/* guru-disable-next-line inline-styles */}\n');
+    expect(disable(5)).toBe('    {/* guru-disable-next-line inline-styles */}\n');
+    expect(disable(1)).toBe('  // guru-disable-next-line inline-styles\n');
+  });
+});
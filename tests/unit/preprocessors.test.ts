@@ -0,0 +1,133 @@
+/**
+ * Unit tests for analyzing SCSS and LESS with their variables and partials
+ */
+
+import * as path from 'path';
+import { CSSAnalyzer } from '../../src/analyzers/cssAnalyzer';
+import { DriftAnalyzer } from '../../src/drift-detector/driftAnalyzer';
+import { PatternExtractor } from '../../src/patterns/patternExtractor';
+import { createAnalysis, TestFileSystem } from '../setup';
+
+const TOKENS_SCSS = `$brand: #3366ff;
+$primary: $brand !default;
+$black: #111;
+$space-2: 8px;
+`;
+
+const BUTTON_SCSS = `@use 'sass:math';
+@use 'tokens' as t;
+@import 'mixins';
+
+// Line comments and nesting need the SCSS syntax
+$gap: 16px;
+
+.button {
+  color: t.$primary;
+  padding: t.$space-2 13px;
+  margin: math.div($gap, 2);
+  @include truncate;
+
+  &:hover {
+    background: rgba(t.$black, 0.5);
+    border: 1px solid #ff00aa;
+  }
+}
+`;
+
+const MIXINS_SCSS = `@mixin truncate {
+  overflow: hidden;
+}
+`;
+
+const THEME_LESS = `@primary: #3366ff;
+@accent: @primary;
+`;
+
+const CARD_LESS = `@import (reference) "theme";
+
+// LESS variables and mixins
+.card {
+  color: @accent;
+  padding: @gap * 2 6px;
+  .bordered();
+}
+`;
+
+describe('SCSS and LESS', () => {
+  let testFS: TestFileSystem;
+  let projectPath: string;
+
+  beforeEach(async () => {
+    testFS = new TestFileSystem();
+    projectPath = await testFS.createTestProject('test-preprocessors', {
+      'src/styles/_tokens.scss': TOKENS_SCSS,
+      'src/styles/_mixins.scss': MIXINS_SCSS,
+      'src/styles/button.scss': BUTTON_SCSS,
+      'src/styles/theme.less': THEME_LESS,
+      'src/styles/card.less': CARD_LESS,
+    });
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  const parse = (file: string) =>
+    new CSSAnalyzer().parseCSSFile(path.join(projectPath, 'src/styles', file));
+
+  test('should keep values read through variables whole', async () => {
+    const result = await parse('button.scss');
+
+    expect(result.success).toBe(true);
+    expect(result.selectors).toEqual(['.button', '&:hover']);
+    expect(result.locations!.map((l) => [l.category, l.value, l.line, l.column])).toEqual([
+      ['color', 't.$primary', 9, 10],
+      ['spacing', 't.$space-2', 10, 12],
+      ['spacing', '13px', 10, 23],
+      ['spacing', 'math.div($gap, 2)', 11, 11],
+      ['color', 'rgba(t.$black, 0.5)', 15, 17],
+      ['color', '#ff00aa', 16, 23],
+    ]);
+  });
+
+  test('should resolve variables across @use and @import partials', async () => {
+    const scss = await parse('button.scss');
+    const less = await parse('card.less');
+
+    expect(scss.variables).toEqual({
+      't.$brand': '#3366ff',
+      't.$primary': '#3366ff',
+      't.$black': '#111',
+      't.$space-2': '8px',
+      $gap: '16px',
+    });
+    expect(less.variables).toEqual({ '@primary': '#3366ff', '@accent': '#3366ff' });
+    expect(less.locations!.map((l) => [l.category, l.value])).toEqual([
+      ['color', '@accent'],
+      ['spacing', '@gap * 2 6px'],
+    ]);
+  });
+
+  test('should report only the literal values as hardcoded', async () => {
+    const styles = [await parse('button.scss'), await parse('card.less')];
+    const { violations } = new DriftAnalyzer({ rules: {} }).analyzeForDrift(
+      createAnalysis({ projectPath, styles })
+    );
+
+    expect(
+      violations
+        .filter((v) => ['hardcoded-colors', 'spacing-violation'].includes(v.type))
+        .map((v) => [v.type, v.value, v.line])
+    ).toEqual([
+      ['hardcoded-colors', '#ff00aa', 16],
+      ['spacing-violation', '13px', 10],
+    ]);
+  });
+
+  test('should learn the palette from the values variables resolve to', async () => {
+    const styles = [await parse('button.scss'), await parse('card.less')];
+    const colors = new PatternExtractor().extractColorScheme(styles, []);
+
+    expect(colors.primary).toEqual(['#3366ff', '#ff00aa']);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for QualityGate
+ */
+
+import { QualityGate } from '../../src/ci/qualityGate';
+import { ConfigLoader } from '../../src/config/configLoader';
+import { DriftAnalysisResult } from '../../src/drift-detector/driftAnalyzer';
+import { DriftBaseline } from '../../src/drift-detector/baseline';
+import { DriftViolation } from '../../src/types';
+
+const error: DriftViolation = {
+  type: 'accessibility',
+  severity: 'error',
+  filePath: '/project/public/index.html',
+  message: 'Missing alt text for image: logo.png',
+};
+
+const createResult = (
+  complianceScore: number,
+  violations: DriftViolation[],
+  baselinedViolations: DriftViolation[] = []
+): DriftAnalysisResult => ({
+  violations,
+  baselinedViolations,
+  complianceScore,
+  summary: { total: violations.length, errors: 0, warnings: 0, byType: {} },
+});
+
+const baseline: DriftBaseline = {
+  version: 1,
+  createdAt: new Date().toISOString(),
+  complianceScore: 80,
+  violations: {},
+};
+
+describe('QualityGate', () => {
+  const config = new ConfigLoader('/project').getDefaultConfig();
+
+  test('should parse and validate --fail-on conditions', () => {
+    expect(QualityGate.parseConditions('new-errors, score-drop')).toEqual([
+      'new-errors',
+      'score-drop',
+    ]);
+    expect(() => QualityGate.parseConditions('warnings')).toThrow('Unknown --fail-on condition');
+    for (const value of ['', ',', ' , ']) {
+      expect(() => QualityGate.parseConditions(value)).toThrow('needs at least one condition');
+    }
+  });
+
+  test('should parse thresholds and reject invalid values', () => {
+    expect(QualityGate.parseMinScore('87.5')).toBe(87.5);
+    expect(QualityGate.parseMaxViolations('0')).toBe(0);
+
+    for (const value of ['abc', '', '80%', '-1', '101', 'Infinity']) {
+      expect(() => QualityGate.parseMinScore(value)).toThrow('--min-score must be a number');
+    }
+    for (const value of ['abc', '', '2.5', '-1', 'NaN']) {
+      expect(() => QualityGate.parseMaxViolations(value)).toThrow('--max-violations must be');
+    }
+  });
+
+  test('should ignore baselined errors when failing on new errors only', () => {
+    const gate = new QualityGate(config, { failOn: ['new-errors'] });
+
+    expect(gate.evaluate(createResult(50, [], [error]), baseline).passed).toBe(true);
+    expect(gate.evaluate(createResult(50, [error]), baseline).failures).toEqual([
+      { condition: 'new-errors', message: '1 new error(s) not in the baseline' },
+    ]);
+  });
+
+  test('should count baselined errors when failing on any error', () => {
+    const gate = new QualityGate(config, { failOn: ['any-error'] });
+
+    expect(gate.evaluate(createResult(50, [], [error]), baseline).passed).toBe(false);
+  });
+
+  test('should fail when the score drops below the baseline', () => {
+    const gate = new QualityGate(config, { failOn: ['score-drop'] });
+
+    expect(gate.evaluate(createResult(80, []), baseline).passed).toBe(true);
+    expect(gate.evaluate(createResult(79, []), baseline).passed).toBe(false);
+    expect(gate.evaluate(createResult(10, []), null).notes).toHaveLength(1);
+  });
+
+  test('should skip the score-drop check when only changed files were analyzed', () => {
+    const gate = new QualityGate(config, { failOn: ['score-drop'], changedOnly: true });
+    const result = gate.evaluate(createResult(10, []), baseline);
+
+    expect(result.passed).toBe(true);
+    expect(result.notes).toEqual(['score-drop skipped: only changed files were analyzed']);
+  });
+
+  test('should enforce configured thresholds with CLI overrides', () => {
+    const result = createResult(85, []);
+
+    expect(new QualityGate(config, { failOn: ['thresholds'] }).evaluate(result, null).passed).toBe(
+      false
+    );
+    expect(
+      new QualityGate(config, { failOn: ['thresholds'], minScore: 80 }).evaluate(result, null)
+        .passed
+    ).toBe(true);
+    expect(
+      new QualityGate(config, { failOn: ['thresholds'], maxViolations: 0 }).evaluate(
+        createResult(100, [error]),
+        null
+      ).failures[0].message
+    ).toBe('1 violations exceed the maximum of 0');
+  });
+});
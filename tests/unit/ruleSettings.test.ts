@@ -0,0 +1,108 @@
+/**
+ * Unit tests for rule settings and rule options
+ */
+
+import { normalizeRuleSetting } from '../../src/config/ruleSettings';
+import { ConfigLoader, GuruConfig } from '../../src/config/configLoader';
+import { DriftAnalyzer } from '../../src/drift-detector/driftAnalyzer';
+import { ProjectAnalysis } from '../../src/types';
+import { createAnalysis, createComponent, createStyle } from '../setup';
+
+const projectPath = '/project';
+
+const analyze = (rules: GuruConfig['rules'], analysis: ProjectAnalysis) => {
+  const config = new ConfigLoader(projectPath).getDefaultConfig();
+  return new DriftAnalyzer({ ...config, rules: { ...config.rules, ...rules } })
+    .analyzeForDrift(analysis)
+    .violations.map((v) => `${v.type}:${v.value ?? v.message}`);
+};
+
+describe('Rule settings', () => {
+  test('should normalize severities and tuples', () => {
+    expect(normalizeRuleSetting('error')).toEqual({ severity: 'error', options: {} });
+    expect(normalizeRuleSetting(['off'])).toEqual({ severity: 'off', options: {} });
+    expect(normalizeRuleSetting(['warning', { allow: ['#fff'] }])).toEqual({
+      severity: 'warning',
+      options: { allow: ['#fff'] },
+    });
+    expect(normalizeRuleSetting(undefined, 'error').severity).toBe('error');
+  });
+
+  test('should report misconfigured options for the rule they belong to', () => {
+    const loader = new ConfigLoader(projectPath);
+
+    expect(
+      loader.validateConfig({ rules: { 'hardcoded-colors': ['warning', { allow: [1] }] } })
+    ).toEqual({
+      valid: false,
+      errors: ['"rules.hardcoded-colors[1].allow[0]" must be a string'],
+    });
+    expect(
+      loader.validateConfig({ rules: { 'spacing-violation': ['warning', { alow: ['1px'] }] } })
+        .errors
+    ).toEqual(['"rules.spacing-violation[1].alow" is not allowed']);
+    expect(
+      loader.validateConfig({ rules: { 'naming-convention': ['error', { allow: ['(['] }] } })
+        .errors![0]
+    ).toContain('"([" is not a valid regular expression');
+    expect(
+      loader.validateConfig({ rules: { 'my-rule': ['error', { anything: true }] } }).valid
+    ).toBe(true);
+  });
+
+  test('should allow configured colors and spacing values', () => {
+    const analysis = createAnalysis({
+      styles: [
+        createStyle(`${projectPath}/src/a.css`, [
+          { value: '#FFF' },
+          { value: '#123456' },
+          { category: 'spacing', property: 'border-width', value: '1px' },
+          { category: 'spacing', property: 'margin', value: '3px' },
+        ]),
+      ],
+    });
+
+    expect(
+      analyze(
+        {
+          'hardcoded-colors': ['warning', { allow: ['#ffffff'] }],
+          'spacing-violation': ['warning', { allow: ['1px'] }],
+        },
+        analysis
+      )
+    ).toEqual(['hardcoded-colors:#123456', 'spacing-violation:3px']);
+  });
+
+  test('should skip ignored files for a single rule', () => {
+    const analysis = createAnalysis({
+      styles: [
+        createStyle(`${projectPath}/src/legacy/old.css`, [{ value: '#123456' }]),
+        createStyle(`${projectPath}/src/app.css`, [{ value: '#654321' }]),
+      ],
+    });
+
+    expect(
+      analyze({ 'hardcoded-colors': ['error', { ignoreFiles: ['**/legacy/**'] }] }, analysis)
+    ).toEqual(['hardcoded-colors:#654321']);
+  });
+
+  test('should accept naming patterns and override the convention', () => {
+    const analysis = createAnalysis({
+      components: [
+        createComponent(`${projectPath}/src/useTheme.tsx`),
+        createComponent(`${projectPath}/src/card_list.tsx`),
+      ],
+    });
+
+    expect(
+      analyze({ 'naming-convention': ['warning', { allow: ['^use[A-Z]'] }] }, analysis)
+    ).toEqual([
+      'naming-convention:Component "card_list" doesn\'t follow PascalCase naming convention',
+    ]);
+    expect(
+      analyze({ 'naming-convention': ['warning', { convention: 'camelCase' }] }, analysis)
+    ).toEqual([
+      'naming-convention:Component "card_list" doesn\'t follow camelCase naming convention',
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for SarifReporter
+ */
+
+import { SarifReporter } from '../../src/reporters/sarifReporter';
+import { DriftAnalysisResult } from '../../src/drift-detector/driftAnalyzer';
+import { DriftViolation } from '../../src/types';
+import { createAnalysis, TestFileSystem } from '../setup';
+import * as fs from 'fs-extra';
+import * as path from 'path';
+
+const projectPath = path.resolve('/project');
+
+const violations: DriftViolation[] = [
+  {
+    type: 'hardcoded-colors',
+    severity: 'warning',
+    filePath: path.join(projectPath, 'src', 'styles', 'app.css'),
+    line: 12,
+    column: 10,
+    value: '#ff0000',
+    message: 'Hardcoded color: #ff0000',
+    suggestedFix: 'Use CSS variables or design tokens for colors',
+    fingerprint: 'abc123def4567890',
+  },
+  {
+    type: 'naming-convention',
+    severity: 'info',
+    filePath: path.join(projectPath, 'src', 'button.tsx'),
+    message: 'Component "button" doesn\'t follow PascalCase naming convention',
+  },
+];
+
+const analysis = createAnalysis({
+  projectPath,
+  framework: { type: 'react', typescript: true },
+  violations,
+  compliance: { score: 90, totalFiles: 2, filesWithViolations: 2, totalViolations: 2 },
+});
+
+const driftResult: DriftAnalysisResult = {
+  violations,
+  complianceScore: 90,
+  summary: { total: 2, errors: 0, warnings: 1, byType: {} },
+};
+
+describe('SarifReporter', () => {
+  const reporter = new SarifReporter();
+
+  test('should describe every rule with a help link', () => {
+    const log = reporter.createLog(analysis, driftResult) as any;
+    const run = log.runs[0];
+
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.name).toBe('react-codebase-guru');
+
+    const rule = run.tool.driver.rules.find((r: any) => r.id === 'hardcoded-colors');
+    expect(rule.helpUri).toMatch(/README\.md#hardcoded-colors$/);
+    expect(rule.shortDescription.text).toBeTruthy();
+  });
+
+  test('should map violations to results with locations and fingerprints', () => {
+    const run = (reporter.createLog(analysis, driftResult) as any).runs[0];
+    const [color, naming] = run.results;
+
+    expect(color.ruleId).toBe('hardcoded-colors');
+    expect(run.tool.driver.rules[color.ruleIndex].id).toBe('hardcoded-colors');
+    expect(color.level).toBe('warning');
+    expect(color.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'src/styles/app.css', uriBaseId: 'SRCROOT' },
+      region: { startLine: 12, startColumn: 10 },
+    });
+    expect(color.partialFingerprints).toEqual({ 'guruFingerprint/v1': 'abc123def4567890' });
+
+    expect(naming.level).toBe('note');
+    expect(naming.locations[0].physicalLocation.region).toBeUndefined();
+  });
+
+  test('should write the log when an output path is given', async () => {
+    const testFS = new TestFileSystem();
+    const dir = await testFS.createTestProject('test-sarif', {});
+    const outputPath = path.join(dir, 'out', 'guru.sarif');
+
+    await reporter.generateReport(analysis, driftResult, { outputPath });
+
+    const written = await fs.readJson(outputPath);
+    expect(written.runs[0].results).toHaveLength(2);
+
+    await testFS.cleanup();
+  });
+});
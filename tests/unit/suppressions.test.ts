@@ -0,0 +1,108 @@
+/**
+ * Unit tests for inline suppressions and the violation baseline
+ */
+
+import { parseSuppressions, isSuppressed } from '../../src/drift-detector/suppressions';
+import { BaselineStorage } from '../../src/drift-detector/baseline';
+import { DriftAnalyzer } from '../../src/drift-detector/driftAnalyzer';
+import { ConfigLoader } from '../../src/config/configLoader';
+import { DriftViolation } from '../../src/types';
+import { createAnalysis, createStyle, TestFileSystem } from '../setup';
+import * as path from 'path';
+
+const violation = (type: string, line?: number): DriftViolation => ({
+  type,
+  severity: 'warning',
+  filePath: '/project/src/a.css',
+  line,
+  message: 'test',
+});
+
+describe('parseSuppressions', () => {
+  test('should parse line directives in JS, CSS and HTML comments', () => {
+    const content = [
+      '// guru-disable-next-line hardcoded-colors',
+      'const a = 1;',
+      '.b { color: red; } /* guru-disable-line spacing-violation, color-drift */',
+      '<!-- guru-disable-next-line -->',
+    ].join('\n');
+
+    expect(parseSuppressions(content)).toEqual([
+      { startLine: 2, endLine: 2, rules: ['hardcoded-colors'] },
+      { startLine: 3, endLine: 3, rules: ['spacing-violation', 'color-drift'] },
+      { startLine: 5, endLine: 5, rules: undefined },
+    ]);
+  });
+
+  test('should close disable blocks at the matching enable', () => {
+    const content = [
+      '/* guru-disable spacing-violation, hardcoded-colors -- legacy styles */',
+      '.a { padding: 7px; }',
+      '/* guru-enable spacing-violation */',
+      '.b { padding: 7px; }',
+    ].join('\n');
+
+    const ranges = parseSuppressions(content);
+
+    expect(isSuppressed(violation('spacing-violation', 2), ranges)).toBe(true);
+    expect(isSuppressed(violation('spacing-violation', 4), ranges)).toBe(false);
+    expect(isSuppressed(violation('hardcoded-colors', 4), ranges)).toBe(true);
+    expect(isSuppressed(violation('color-drift', 2), ranges)).toBe(false);
+  });
+
+  test('should only suppress file-level violations with an unterminated disable', () => {
+    expect(
+      isSuppressed(violation('accessibility'), parseSuppressions('<!-- guru-disable -->'))
+    ).toBe(true);
+    expect(
+      isSuppressed(violation('accessibility'), parseSuppressions('// guru-disable-next-line'))
+    ).toBe(false);
+  });
+});
+
+describe('DriftAnalyzer baseline', () => {
+  let testFS: TestFileSystem;
+  let projectPath: string;
+
+  beforeEach(async () => {
+    testFS = new TestFileSystem();
+    projectPath = await testFS.createTestProject('test-baseline', { 'package.json': '{}' });
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  test('should only report violations that are not in the baseline', async () => {
+    const config = new ConfigLoader(projectPath).getDefaultConfig();
+    const filePath = path.join(projectPath, 'src/a.css');
+    const storage = new BaselineStorage(projectPath);
+
+    const before = new DriftAnalyzer(config).analyzeForDrift(
+      createAnalysis({
+        projectPath,
+        styles: [createStyle(filePath, [{ value: '#fff' }, { value: '#000' }])],
+      })
+    );
+    expect(before.violations).toHaveLength(2);
+    await storage.saveBaseline(before.violations, before.complianceScore);
+
+    // Same violations on shifted lines, plus one new occurrence and one new color
+    const analyzer = new DriftAnalyzer(config);
+    analyzer.setBaseline(await storage.loadBaseline());
+    const after = analyzer.analyzeForDrift(
+      createAnalysis({
+        projectPath,
+        styles: [
+          createStyle(
+            filePath,
+            ['#abc', '#fff', '#000', '#fff'].map((value) => ({ value }))
+          ),
+        ],
+      })
+    );
+
+    expect(after.violations.map((v) => v.value)).toEqual(['#abc', '#fff']);
+    expect(after.summary.baselined).toBe(2);
+  });
+});
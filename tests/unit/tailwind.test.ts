@@ -0,0 +1,228 @@
+/**
+ * Unit tests for Tailwind themes, class names and arbitrary-value drift
+ */
+
+import { parseSource } from '../../src/analyzers/astParser';
+import { collectClassNames } from '../../src/analyzers/classNames';
+import { parseTailwindClass } from '../../src/analyzers/tailwindClasses';
+import { loadTailwindTheme } from '../../src/analyzers/tailwindTheme';
+import { DriftAnalyzer } from '../../src/drift-detector/driftAnalyzer';
+import { DesignPatterns, PatternExtractor } from '../../src/patterns/patternExtractor';
+import { ProjectAnalysis, TailwindTheme } from '../../src/types';
+import { createAnalysis, createComponent, TestFileSystem } from '../setup';
+
+const TAILWIND_CONFIG = `module.exports = {
+  prefix: '',
+  theme: {
+    spacing: { 0: '0px', 1: '4px', 2: '8px', 4: '16px' },
+    extend: {
+      colors: { brand: { DEFAULT: '#ff4785', 700: '#b8235a' } },
+      fontSize: { md: ['15px', '22px'] },
+    },
+  },
+};
+`;
+
+const FILE = '/project/src/Button.jsx';
+
+const SOURCE = `import clsx from 'clsx';
+const base = 'inline-flex px-4';
+export const Button = ({ active, size, tone }) => (
+  <button
+    className={clsx(base, 'p-[8px] md:hover:bg-brand-700', active && 'z-[999]', {
+      'text-[#ff00aa]': tone === 'pink',
+    })}
+  >
+    <span className={\`text-md font-bold text-\${size} \${active ? 'bg-red-500' : 'bg-[var(--muted)]'}\`} />
+    <i className="m-3 -mt-2 bg-red-550/50 border-2 space-x-reverse" />
+  </button>
+);
+`;
+
+describe('Tailwind', () => {
+  let testFS: TestFileSystem;
+  let theme: TailwindTheme;
+
+  beforeEach(async () => {
+    testFS = new TestFileSystem();
+    const projectPath = await testFS.createTestProject('test-tailwind', {
+      'tailwind.config.js': TAILWIND_CONFIG,
+    });
+    theme = (await loadTailwindTheme(projectPath))!;
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  const createButtonAnalysis = (): ProjectAnalysis =>
+    createAnalysis({
+      components: [
+        createComponent(FILE, {
+          styling: { type: 'tailwind', classNames: collectClassNames(parseSource(SOURCE, FILE)!) },
+        }),
+      ],
+      tailwind: theme,
+    });
+
+  test('should merge the config over the default theme without tailwindcss', () => {
+    expect(theme.configPath).toMatch(/tailwind\.config\.js$/);
+    expect(theme.spacing).toEqual({ 0: '0px', 1: '4px', 2: '8px', 4: '16px' });
+    expect(theme.colors).toMatchObject({
+      brand: '#ff4785',
+      'brand-700': '#b8235a',
+      'red-500': 'var(--color-red-500)',
+      white: '#fff',
+    });
+    expect(theme.fontSize).toMatchObject({ md: '15px', sm: '0.875rem' });
+  });
+
+  test('should collect classes from strings, templates, conditions and clsx calls', () => {
+    const classNames = collectClassNames(parseSource(SOURCE, FILE)!);
+
+    // text-\${size} is only known at runtime; base is located at the constant
+    expect(classNames.map((c) => [c.name, c.line, c.column])).toEqual([
+      ['inline-flex', 2, 15],
+      ['px-4', 2, 27],
+      ['p-[8px]', 5, 28],
+      ['md:hover:bg-brand-700', 5, 36],
+      ['z-[999]', 5, 71],
+      ['text-[#ff00aa]', 6, 8],
+      ['text-md', 9, 23],
+      ['font-bold', 9, 31],
+      ['bg-red-500', 9, 66],
+      ['bg-[var(--muted)]', 9, 81],
+      ['m-3', 10, 19],
+      ['-mt-2', 10, 23],
+      ['bg-red-550/50', 10, 29],
+      ['border-2', 10, 43],
+      ['space-x-reverse', 10, 52],
+    ]);
+  });
+
+  test('should resolve classes to theme values', () => {
+    const parse = (className: string) => parseTailwindClass(className, theme);
+
+    expect(parse('md:hover:-mt-2')).toMatchObject({ category: 'spacing', value: '8px' });
+    expect(parse('bg-brand/50')).toMatchObject({ category: 'color', key: 'brand' });
+    expect(parse('text-md')).toMatchObject({ category: 'fontSize', value: '15px' });
+    expect(parse('text-white')).toMatchObject({ category: 'color', value: '#fff' });
+    expect(parse('font-bold')).toMatchObject({ category: 'fontWeight', value: '700' });
+    expect(parse('text-[13px]')).toMatchObject({ category: 'fontSize', arbitrary: true });
+    expect(parse('bg-[color:var(--brand)]')).toMatchObject({
+      category: 'color',
+      key: 'var(--brand)',
+    });
+    expect(parse('m-3')).toMatchObject({ category: 'spacing', value: undefined });
+    expect(parse('z-60')).toMatchObject({ category: 'zIndex', value: undefined });
+
+    for (const other of ['flex', 'border-2', 'shadow-lg', 'm-auto', 'bg-opacity-50', 'font-sans']) {
+      expect(parse(other)).toBeUndefined();
+    }
+  });
+
+  test('should report arbitrary values and classes outside the theme', () => {
+    const { violations } = new DriftAnalyzer({ rules: {} }).analyzeForDrift(createButtonAnalysis());
+
+    expect(
+      violations.map((v) => [v.type, v.value, v.line, v.column, v.message, v.suggestedFix])
+    ).toEqual([
+      [
+        'tailwind-drift',
+        'p-[8px]',
+        5,
+        28,
+        'Arbitrary value in p-[8px]: 8px is not from the spacing scale',
+        'Use p-2, which sets the same value',
+      ],
+      [
+        'tailwind-drift',
+        'z-[999]',
+        5,
+        71,
+        'Arbitrary value in z-[999]: 999 is not from the z-index scale',
+        'Use a z-index from tailwind.config.js, or add 999 to its theme',
+      ],
+      [
+        'tailwind-drift',
+        'text-[#ff00aa]',
+        6,
+        8,
+        'Arbitrary value in text-[#ff00aa]: #ff00aa is not from the color scale',
+        'Use a color from tailwind.config.js, or add #ff00aa to its theme',
+      ],
+      [
+        'tailwind-drift',
+        'm-3',
+        10,
+        19,
+        'm-3 is not in the spacing scale of tailwind.config.js',
+        'Use a spacing from tailwind.config.js, or add "3" to its theme',
+      ],
+      [
+        'tailwind-drift',
+        'bg-red-550/50',
+        10,
+        29,
+        'bg-red-550/50 is not in the color scale of tailwind.config.js',
+        'Use a color from tailwind.config.js, or add "red-550" to its theme',
+      ],
+    ]);
+
+    const allowed = new DriftAnalyzer({
+      rules: { 'tailwind-drift': ['warning', { allow: ['z-[999]'] }] },
+    }).analyzeForDrift(createButtonAnalysis());
+    expect(allowed.violations.map((v) => v.value)).not.toContain('z-[999]');
+  });
+
+  test('should keep variants, sign, prefix and modifiers in suggestions', () => {
+    const classNames = [
+      '-tw-m-[8px]',
+      'md:hover:tw-bg-[#ff4785]/50',
+      '!tw-p-[16px]',
+      'tw-px-[4px]!',
+    ];
+    const analysis = createAnalysis({
+      components: [
+        createComponent(FILE, {
+          styling: {
+            type: 'tailwind',
+            classNames: classNames.map((name, index) => ({ name, line: 1, column: index + 1 })),
+          },
+        }),
+      ],
+      tailwind: { ...theme, prefix: 'tw-' },
+    });
+
+    const { violations } = new DriftAnalyzer({ rules: {} }).analyzeForDrift(analysis);
+
+    expect(violations.map((v) => v.suggestedFix)).toEqual([
+      'Use -tw-m-2, which sets the same value',
+      'Use md:hover:tw-bg-brand/50, which sets the same value',
+      'Use !tw-p-4, which sets the same value',
+      'Use tw-px-1!, which sets the same value',
+    ]);
+  });
+
+  test('should learn the spacing grid, palette and type scale from the theme', () => {
+    const learned: DesignPatterns = {
+      spacing: { unit: 8, values: [], confidence: 0 },
+      colors: { primary: ['#3366ff'], secondary: [], neutrals: [], semantic: {} },
+      typography: { fontSizes: ['14px'], fontWeights: [], fontFamilies: [] },
+      components: [],
+    };
+    const patterns = new PatternExtractor().applyTailwindTheme(learned, theme);
+
+    expect(patterns.spacing).toEqual({ unit: 4, values: [4, 8, 16], confidence: 100 });
+    expect(patterns.colors.primary).toEqual(['#3366ff']);
+    expect(patterns.colors.secondary).toEqual(['#b8235a', '#ff4785']);
+    expect(patterns.colors.neutrals).toEqual(['#000', '#fff']);
+    expect(patterns.typography.fontSizes.slice(0, 4)).toEqual([
+      '0.75rem',
+      '14px',
+      '0.875rem',
+      '15px',
+    ]);
+    expect(patterns.cssFramework).toBe('tailwind');
+  });
+});
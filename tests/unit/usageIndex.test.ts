@@ -0,0 +1,105 @@
+/**
+ * Unit tests for the JSX usage index
+ */
+
+import { parseSource } from '../../src/analyzers/astParser';
+import { buildUsageIndex, collectJSXElements, getCallSites } from '../../src/analyzers/jsxElements';
+import { PatternExtractor } from '../../src/patterns/patternExtractor';
+import { ComponentInfo } from '../../src/types';
+import { createComponent } from '../setup';
+
+const component = (
+  filePath: string,
+  source: string,
+  fields: Partial<ComponentInfo> = {}
+): ComponentInfo =>
+  createComponent(filePath, {
+    jsxElements: collectJSXElements(parseSource(source, filePath)!),
+    ...fields,
+  });
+
+const CHECKOUT = `
+import { Button as UIButton } from '@acme/ui';
+import { Price } from './Price';
+
+export function Checkout({ total, ...rest }) {
+  return (
+    <form>
+      <Price amount={total} currency="EUR" decimals={2} />
+      <UIButton variant='primary' size={\`lg\`} disabled {...rest} onClick={() => submit()} />
+    </form>
+  );
+}
+`;
+
+describe('JSX usage index', () => {
+  test('should record the props passed at each call site', () => {
+    const index = buildUsageIndex([component('/app/src/Checkout.jsx', CHECKOUT)]);
+
+    expect(Object.keys(index)).toEqual(['Price', 'Button']);
+    expect(index.Price).toEqual([
+      {
+        filePath: '/app/src/Checkout.jsx',
+        line: 8,
+        column: 7,
+        source: './Price',
+        props: [
+          { name: 'amount' },
+          { name: 'currency', value: 'EUR' },
+          { name: 'decimals', value: 2 },
+        ],
+      },
+    ]);
+    expect(index.Button[0].source).toBe('@acme/ui');
+    expect(index.Button[0].props).toEqual([
+      { name: 'variant', value: 'primary' },
+      { name: 'size', value: 'lg' },
+      { name: 'disabled', value: true },
+      { name: 'onClick' },
+    ]);
+  });
+
+  test('should count component usage across files', () => {
+    const components = [
+      component('/app/src/Checkout.jsx', CHECKOUT),
+      component('/app/src/Cart.jsx', 'export const Cart = () => <div><Price /><Price /></div>;'),
+      component('/app/src/Price.jsx', 'export const Price = () => <span />;'),
+    ];
+    const usage = buildUsageIndex(components);
+
+    const patterns = new PatternExtractor().extractComponentPatterns(components, usage);
+
+    expect(patterns.map((pattern) => [pattern.name, pattern.usage])).toEqual([
+      ['Price', 3],
+      ['Checkout', 0],
+      ['Cart', 0],
+    ]);
+  });
+
+  test('should tell apart components of the same name', () => {
+    const toolbar = component(
+      '/app/src/Toolbar.jsx',
+      "import { Button } from './Button';\nexport const Toolbar = () => <Button />;"
+    );
+    toolbar.imports = [
+      { source: './Button', specifiers: [], resolved: '/app/src/Button.jsx', line: 1, column: 1 },
+    ];
+    const components = [
+      toolbar,
+      component('/app/src/Checkout.jsx', CHECKOUT),
+      component('/app/src/Button.jsx', 'export const Button = () => <button />;'),
+      component('/app/src/legacy/Form.jsx', 'const Button = () => null;\n<Button />;', {
+        name: 'Button',
+      }),
+    ];
+    const usage = buildUsageIndex(components);
+
+    expect(usage.Button).toHaveLength(3);
+    expect(getCallSites(usage, components[2], components).map((c) => c.filePath)).toEqual([
+      '/app/src/Toolbar.jsx',
+    ]);
+    expect(getCallSites(usage, components[3], components).map((c) => c.filePath)).toEqual([
+      '/app/src/legacy/Form.jsx',
+    ]);
+  });
+});
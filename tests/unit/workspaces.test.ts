@@ -0,0 +1,86 @@
+/**
+ * Unit tests for workspace package discovery
+ */
+
+import { FileDiscovery } from '../../src/utils/fileDiscovery';
+import { TestFileSystem } from '../setup';
+import * as path from 'path';
+
+const manifest = (name: string) => JSON.stringify({ name, dependencies: { react: '^18.0.0' } });
+
+describe('Workspace discovery', () => {
+  let testFS: TestFileSystem;
+
+  beforeEach(() => {
+    testFS = new TestFileSystem();
+  });
+
+  afterEach(async () => {
+    await testFS.cleanup();
+  });
+
+  const findPackages = async (name: string, structure: Record<string, string>) => {
+    const projectPath = await testFS.createTestProject(name, structure);
+    const packages = await new FileDiscovery({ projectPath }).findWorkspacePackages();
+    return packages.map((p) => [p.name, path.relative(projectPath, p.path)]);
+  };
+
+  test('should read npm and yarn workspaces from package.json', async () => {
+    expect(
+      await findPackages('test-npm-workspaces', {
+        'package.json': JSON.stringify({ workspaces: ['apps/*', 'packages/ui/'] }),
+        'apps/web/package.json': manifest('@acme/web'),
+        'apps/docs/package.json': '{}',
+        'apps/web/node_modules/dep/package.json': manifest('dep'),
+        'packages/ui/package.json': manifest('@acme/ui'),
+        'packages/utils/package.json': manifest('@acme/utils'),
+      })
+    ).toEqual([
+      [path.join('apps', 'docs'), path.join('apps', 'docs')],
+      ['@acme/web', path.join('apps', 'web')],
+      ['@acme/ui', path.join('packages', 'ui')],
+    ]);
+
+    expect(
+      await findPackages('test-yarn-workspaces', {
+        'package.json': JSON.stringify({ workspaces: { packages: ['apps/*'], nohoist: ['**'] } }),
+        'apps/web/package.json': manifest('web'),
+      })
+    ).toEqual([['web', path.join('apps', 'web')]]);
+  });
+
+  test('should read pnpm workspaces with negated patterns', async () => {
+    expect(
+      await findPackages('test-pnpm-workspaces', {
+        'package.json': manifest('root'),
+        'pnpm-workspace.yaml': "packages:\n  - 'apps/**'\n  - '!apps/legacy'\n",
+        'apps/web/package.json': manifest('web'),
+        'apps/legacy/package.json': manifest('legacy'),
+      })
+    ).toEqual([['web', path.join('apps', 'web')]]);
+  });
+
+  test('should find no packages outside a monorepo', async () => {
+    expect(await findPackages('test-no-workspaces', { 'package.json': manifest('app') })).toEqual(
+      []
+    );
+  });
+
+  test('should ignore malformed workspace files', async () => {
+    expect(
+      await findPackages('test-invalid-yaml', {
+        'package.json': manifest('root'),
+        'pnpm-workspace.yaml': 'packages: [apps/*\n  - :\n',
+        'apps/web/package.json': manifest('web'),
+      })
+    ).toEqual([]);
+
+    expect(
+      await findPackages('test-string-packages', {
+        'package.json': JSON.stringify({ workspaces: { packages: 'apps/*' } }),
+        'pnpm-workspace.yaml': 'packages: apps/*\n',
+        'apps/web/package.json': manifest('web'),
+      })
+    ).toEqual([]);
+  });
+});
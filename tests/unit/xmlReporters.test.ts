@@ -0,0 +1,79 @@
+/**
+ * Unit tests for the JUnit and Checkstyle XML reporters
+ */
+
+import { JUnitReporter } from '../../src/reporters/junitReporter';
+import { CheckstyleReporter } from '../../src/reporters/checkstyleReporter';
+import { DriftAnalysisResult } from '../../src/drift-detector/driftAnalyzer';
+import { DriftViolation } from '../../src/types';
+import { escapeXml } from '../../src/utils/xml';
+import { createAnalysis, createComponent, createStyle } from '../setup';
+import * as path from 'path';
+
+const projectPath = path.resolve('/project');
+const cssFile = path.join(projectPath, 'src', 'app.css');
+const componentFile = path.join(projectPath, 'src', 'Card.tsx');
+
+const violations: DriftViolation[] = [
+  {
+    type: 'hardcoded-colors',
+    severity: 'warning',
+    filePath: cssFile,
+    line: 4,
+    column: 10,
+    message: 'Hardcoded color: #ff0000',
+    suggestedFix: 'Use CSS variables or design tokens for colors',
+  },
+  {
+    type: 'component-drift',
+    severity: 'error',
+    filePath: cssFile,
+    line: 2,
+    message: 'Use <Button> instead of <button> & friends',
+  },
+];
+
+const analysis = createAnalysis({
+  projectPath,
+  timestamp: '2024-01-01T00:00:00.000Z',
+  components: [createComponent(componentFile)],
+  styles: [createStyle(cssFile)],
+  violations,
+});
+
+const driftResult: DriftAnalysisResult = {
+  violations,
+  complianceScore: 90,
+  summary: { total: 2, errors: 1, warnings: 1, byType: {} },
+};
+
+describe('XML reporters', () => {
+  test('should escape XML special characters', () => {
+    expect(escapeXml(`<a href="x">'&'</a>\u0001`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;'
+    );
+  });
+
+  test('should write one JUnit testcase per analyzed file', async () => {
+    const xml = await new JUnitReporter().generateReport(analysis, driftResult);
+
+    expect(xml).toContain('<testsuite name="react-codebase-guru" tests="2" failures="1"');
+    expect(xml).toContain('<testcase name="src/Card.tsx" classname="react-codebase-guru"');
+    expect(xml.match(/<failure /g)).toHaveLength(2);
+    expect(xml).toContain('message="Use &lt;Button&gt; instead of &lt;button&gt; &amp; friends"');
+    expect(xml).toContain('Suggested fix: Use CSS variables or design tokens for colors');
+    expect(xml).toContain('at src/app.css:4:10');
+  });
+
+  test('should write Checkstyle errors sorted by line', async () => {
+    const xml = await new CheckstyleReporter().generateReport(analysis, driftResult);
+
+    expect(xml).toContain(`<file name="${componentFile}" />`);
+    const errors = xml.match(/<error [^>]*\/>/g)!;
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('line="2" severity="error"');
+    expect(errors[1]).toContain(
+      'line="4" column="10" severity="warning" message="Hardcoded color: #ff0000 (Use CSS variables or design tokens for colors)" source="guru.hardcoded-colors"'
+    );
+  });
+});